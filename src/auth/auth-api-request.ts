@@ -22,10 +22,13 @@ import {AuthClientErrorCode, FirebaseAuthError} from '../utils/error';
 import {
   ApiSettings, AuthorizedHttpClient, HttpRequestConfig, HttpError,
 } from '../utils/api-request';
-import {CreateRequest, UpdateRequest} from './user-record';
+import {CreateRequest, UpdateMultiFactorInfoRequest, UpdateRequest} from './user-record';
+import {
+  UserIdentifier, isUidIdentifier, isEmailIdentifier, isPhoneIdentifier,
+} from './identifier';
 import {
   UserImportBuilder, UserImportOptions, UserImportRecord,
-  UserImportResult,
+  UserImportResult, convertMultiFactorInfoToServerFormat,
 } from './user-import-builder';
 import * as utils from '../utils/index';
 import {ActionCodeSettings, ActionCodeSettingsBuilder} from './action-code-settings-builder';
@@ -35,6 +38,9 @@ import {
   OIDCUpdateAuthProviderRequest, SAMLUpdateAuthProviderRequest,
 } from './auth-config';
 import {Tenant, TenantOptions, TenantServerResponse} from './tenant';
+import {
+  ProjectConfig, ProjectConfigServerResponse, UpdateProjectConfigRequest,
+} from './project-config';
 
 
 /** Firebase Auth backend host. */
@@ -59,14 +65,20 @@ export const RESERVED_CLAIMS = [
 
 /** List of supported email action request types. */
 export const EMAIL_ACTION_REQUEST_TYPES = [
-  'PASSWORD_RESET', 'VERIFY_EMAIL', 'EMAIL_SIGNIN',
+  'PASSWORD_RESET', 'VERIFY_EMAIL', 'EMAIL_SIGNIN', 'VERIFY_AND_CHANGE_EMAIL', 'RECOVER_EMAIL',
 ];
 
 /** Maximum allowed number of characters in the custom claims payload. */
-const MAX_CLAIMS_PAYLOAD_SIZE = 1000;
+export const MAX_CLAIMS_PAYLOAD_SIZE = 1000;
 
 /** Maximum allowed number of users to batch download at one time. */
-const MAX_DOWNLOAD_ACCOUNT_PAGE_SIZE = 1000;
+export const MAX_DOWNLOAD_ACCOUNT_PAGE_SIZE = 1000;
+
+/** Maximum allowed number of users to batch get at one time. */
+const MAX_GET_ACCOUNTS_BATCH_SIZE = 100;
+
+/** Maximum allowed number of users to batch delete at one time. */
+const MAX_DELETE_ACCOUNTS_BATCH_SIZE = 1000;
 
 /** Maximum allowed number of users to batch upload at one time. */
 const MAX_UPLOAD_ACCOUNT_BATCH_SIZE = 1000;
@@ -88,6 +100,23 @@ const FIREBASE_AUTH_BASE_URL_FORMAT =
 const FIREBASE_AUTH_TENANT_URL_FORMAT = FIREBASE_AUTH_BASE_URL_FORMAT.replace(
   'projects/{projectId}', 'projects/{projectId}/tenants/{tenantId}');
 
+/** The Firebase Auth emulator base URL format. */
+const FIREBASE_AUTH_EMULATOR_BASE_URL_FORMAT =
+    'http://{host}/identitytoolkit.googleapis.com/{version}/projects/{projectId}{api}';
+
+/** The Firebase Auth emulator multi-tenancy base URL format. */
+const FIREBASE_AUTH_EMULATOR_TENANT_URL_FORMAT = FIREBASE_AUTH_EMULATOR_BASE_URL_FORMAT.replace(
+  'projects/{projectId}', 'projects/{projectId}/tenants/{tenantId}');
+
+/** The Firebase Auth backend URL format of the endpoints that are not scoped to a project. */
+const FIREBASE_AUTH_UNSCOPED_URL_FORMAT = 'https://identitytoolkit.googleapis.com/{version}{api}';
+
+/** The Firebase Auth emulator URL format of the endpoints that are not scoped to a project. */
+const FIREBASE_AUTH_EMULATOR_UNSCOPED_URL_FORMAT = 'http://{host}/identitytoolkit.googleapis.com/{version}{api}';
+
+/** The access token sent to the Firebase Auth emulator in place of an OAuth2 access token. */
+const FIREBASE_AUTH_EMULATOR_ACCESS_TOKEN = 'owner';
+
 /** Maximum allowed number of tenants to download at one time. */
 const MAX_LIST_TENANT_PAGE_SIZE = 1000;
 
@@ -104,7 +133,13 @@ class AuthResourceUrlBuilder {
    * @constructor
    */
   constructor(protected projectId: string, protected version: string = 'v1') {
-    this.urlFormat = FIREBASE_AUTH_BASE_URL_FORMAT;
+    if (useEmulator()) {
+      this.urlFormat = utils.formatString(FIREBASE_AUTH_EMULATOR_BASE_URL_FORMAT, {
+        host: emulatorHost(),
+      });
+    } else {
+      this.urlFormat = FIREBASE_AUTH_BASE_URL_FORMAT;
+    }
   }
 
   /**
@@ -140,7 +175,13 @@ class TenantAwareAuthResourceUrlBuilder extends AuthResourceUrlBuilder {
    */
   constructor(protected projectId: string, protected version: string, protected tenantId: string) {
     super(projectId, version);
-    this.urlFormat = FIREBASE_AUTH_TENANT_URL_FORMAT;
+    if (useEmulator()) {
+      this.urlFormat = utils.formatString(FIREBASE_AUTH_EMULATOR_TENANT_URL_FORMAT, {
+        host: emulatorHost(),
+      });
+    } else {
+      this.urlFormat = FIREBASE_AUTH_TENANT_URL_FORMAT;
+    }
   }
 
   /**
@@ -157,6 +198,68 @@ class TenantAwareAuthResourceUrlBuilder extends AuthResourceUrlBuilder {
 }
 
 
+/**
+ * Resource builder utility for the endpoints that are not scoped to a project, such as resetPassword.
+ * The tenant, if any, must be sent in the request body instead.
+ */
+class UnscopedAuthResourceUrlBuilder extends AuthResourceUrlBuilder {
+  /**
+   * The unscoped resource URL builder constructor.
+   *
+   * @param {string} projectId The resource project ID.
+   * @param {string} version The endpoint API version.
+   * @constructor
+   */
+  constructor(protected projectId: string, protected version: string = 'v1') {
+    super(projectId, version);
+    if (useEmulator()) {
+      this.urlFormat = utils.formatString(FIREBASE_AUTH_EMULATOR_UNSCOPED_URL_FORMAT, {
+        host: emulatorHost(),
+      });
+    } else {
+      this.urlFormat = FIREBASE_AUTH_UNSCOPED_URL_FORMAT;
+    }
+  }
+}
+
+
+/**
+ * HTTP client used to send requests to the Firebase Auth backend. When the Auth emulator is in
+ * use, requests are sent with the emulator's unsigned "owner" access token instead of an OAuth2
+ * access token obtained from the app's credential.
+ */
+class AuthHttpClient extends AuthorizedHttpClient {
+  protected getToken(): Promise<string> {
+    if (useEmulator()) {
+      return Promise.resolve(FIREBASE_AUTH_EMULATOR_ACCESS_TOKEN);
+    }
+    return super.getToken();
+  }
+}
+
+
+/**
+ * Returns the Firebase Auth emulator host specified in the FIREBASE_AUTH_EMULATOR_HOST
+ * environment variable if available.
+ *
+ * @return {string|undefined} The emulator host in the form "host:port", or undefined if not set.
+ */
+export function emulatorHost(): string | undefined {
+  return process.env.FIREBASE_AUTH_EMULATOR_HOST || undefined;
+}
+
+
+/**
+ * Whether requests should be routed to the Firebase Auth emulator. This is determined by the
+ * presence of the FIREBASE_AUTH_EMULATOR_HOST environment variable.
+ *
+ * @return {boolean} True if the Auth emulator is to be used, false otherwise.
+ */
+export function useEmulator(): boolean {
+  return typeof emulatorHost() !== 'undefined';
+}
+
+
 /**
  * Validates a providerUserInfo object. All unsupported parameters
  * are removed from the original request. If an invalid field is passed
@@ -216,6 +319,126 @@ function validateProviderUserInfo(request: any) {
 }
 
 
+/**
+ * Validates an AuthFactorInfo object. All unsupported parameters
+ * are removed from the original request. If an invalid field is passed
+ * an error is thrown.
+ *
+ * @param {any} request The AuthFactorInfo request object.
+ */
+function validateAuthFactorInfo(request: any) {
+  // Hash set of whitelisted parameters.
+  const validKeys = {
+    mfaEnrollmentId: true,
+    displayName: true,
+    phoneInfo: true,
+    enrolledAt: true,
+  };
+  if (!validator.isNonNullObject(request)) {
+    throw new FirebaseAuthError(AuthClientErrorCode.INVALID_ENROLLED_FACTORS);
+  }
+  // Remove invalid keys from original request.
+  for (const key in request) {
+    if (!(key in validKeys)) {
+      delete request[key];
+    }
+  }
+  // No enrollment ID is available when creating a new user, so fall back to the phone
+  // number to identify the second factor in error messages.
+  const authFactorInfoIdentifier =
+      request.mfaEnrollmentId || request.phoneInfo || JSON.stringify(request);
+  // The enrollment ID may or may not be specified for update operations.
+  if (typeof request.mfaEnrollmentId !== 'undefined' &&
+      !validator.isNonEmptyString(request.mfaEnrollmentId)) {
+    // This is called mfaEnrollmentId on the backend but the developer specifies this as
+    // uid externally. So the error message should use the client facing name.
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_UID,
+      `The second factor "uid" must be a valid non-empty string.`,
+    );
+  }
+  if (typeof request.displayName !== 'undefined' &&
+      !validator.isString(request.displayName)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_DISPLAY_NAME,
+      `The second factor "displayName" for "${authFactorInfoIdentifier}" must be a valid string.`,
+    );
+  }
+  // enrolledAt must be a valid ISO date string.
+  if (typeof request.enrolledAt !== 'undefined' &&
+      !validator.isISODateString(request.enrolledAt)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ENROLLMENT_TIME,
+      `The second factor "enrollmentTime" for "${authFactorInfoIdentifier}" must be a valid ` +
+      `UTC date string.`,
+    );
+  }
+  // Phone second factors require a phone number. No other second factor type is supported.
+  if (typeof request.phoneInfo === 'undefined') {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ENROLLED_FACTORS,
+      'MFAInfo object provided is invalid.',
+    );
+  }
+  if (!validator.isPhoneNumber(request.phoneInfo)) {
+    // This is called phoneInfo on the backend but the developer specifies this as
+    // phoneNumber externally. So the error message should use the client facing name.
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_PHONE_NUMBER,
+      `The second factor "phoneNumber" for "${authFactorInfoIdentifier}" must be a non-empty ` +
+      `E.164 standard compliant identifier string.`,
+    );
+  }
+}
+
+
+/**
+ * Converts the provider user identity to link to an existing user to the linkProviderUserInfo
+ * format of a setAccountInfo request. Throws an error when the provider cannot be linked.
+ *
+ * @param {any} providerToLink The provider user identity to link.
+ * @param {any} providersToUnlink The IDs of the providers unlinked by the same request, if any.
+ * @return {object} The linkProviderUserInfo request.
+ */
+function convertProviderToLinkToServerFormat(providerToLink: any, providersToUnlink: any): object {
+  if (!validator.isNonNullObject(providerToLink)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_PROVIDER_DATA,
+      'The provider to link must be a valid UserInfo object.',
+    );
+  }
+  // Phone numbers and email/password credentials are set with their own properties.
+  if (providerToLink.providerId === 'phone') {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      'The "phone" provider cannot be linked with "providerToLink". Use "phoneNumber" instead.',
+    );
+  } else if (providerToLink.providerId === 'password') {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      'The "password" provider cannot be linked with "providerToLink". Use "email" and "password" instead.',
+    );
+  } else if (validator.isArray(providersToUnlink) && providersToUnlink.indexOf(providerToLink.providerId) !== -1) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      `The "${providerToLink.providerId}" provider cannot be both linked and unlinked.`,
+    );
+  }
+  const linkProviderUserInfo: {[key: string]: any} = {
+    providerId: providerToLink.providerId,
+    rawId: providerToLink.uid,
+    email: providerToLink.email,
+    displayName: providerToLink.displayName,
+    photoUrl: providerToLink.photoURL,
+  };
+  Object.keys(linkProviderUserInfo).forEach((key) => {
+    if (typeof linkProviderUserInfo[key] === 'undefined') {
+      delete linkProviderUserInfo[key];
+    }
+  });
+  return linkProviderUserInfo;
+}
+
 /**
  * Validates a create/edit request object. All unsupported parameters
  * are removed from the original request. If an invalid field is passed
@@ -249,6 +472,12 @@ function validateCreateEditRequest(request: any, uploadAccountRequest: boolean =
     createdAt: uploadAccountRequest,
     lastLoginAt: uploadAccountRequest,
     providerUserInfo: uploadAccountRequest,
+    // linkProviderUserInfo is only used by setAccountInfo requests.
+    linkProviderUserInfo: !uploadAccountRequest,
+    // mfaInfo is used by signupNewUser and uploadAccount requests.
+    mfaInfo: true,
+    // mfa is only used by setAccountInfo requests.
+    mfa: !uploadAccountRequest,
   };
   // Remove invalid keys from original request.
   for (const key in request) {
@@ -387,6 +616,42 @@ function validateCreateEditRequest(request: any, uploadAccountRequest: boolean =
       validateProviderUserInfo(providerUserInfoEntry);
     });
   }
+  // linkProviderUserInfo has to be a valid UserInfo request.
+  if (typeof request.linkProviderUserInfo !== 'undefined') {
+    if (!validator.isNonNullObject(request.linkProviderUserInfo)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_PROVIDER_DATA,
+        'The provider to link must be a valid UserInfo object.',
+      );
+    }
+    validateProviderUserInfo(request.linkProviderUserInfo);
+  }
+  // deleteProvider has to be an array of provider IDs.
+  if (typeof request.deleteProvider !== 'undefined' &&
+      !(validator.isArray(request.deleteProvider) &&
+        request.deleteProvider.every((providerId: any) => validator.isNonEmptyString(providerId)))) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_PROVIDER_ID,
+      'The providers to unlink must be an array of non-empty provider ID strings.',
+    );
+  }
+  // mfaInfo (signupNewUser and uploadAccount) and mfa.enrollments (setAccountInfo) have
+  // to be arrays of valid AuthFactorInfo requests.
+  let enrollments: any;
+  if (typeof request.mfaInfo !== 'undefined') {
+    enrollments = request.mfaInfo;
+  } else if (validator.isNonNullObject(request.mfa) &&
+             typeof request.mfa.enrollments !== 'undefined') {
+    enrollments = request.mfa.enrollments;
+  }
+  if (typeof enrollments !== 'undefined') {
+    if (!validator.isArray(enrollments)) {
+      throw new FirebaseAuthError(AuthClientErrorCode.INVALID_ENROLLED_FACTORS);
+    }
+    enrollments.forEach((authFactorInfoEntry: any) => {
+      validateAuthFactorInfo(authFactorInfoEntry);
+    });
+  }
 }
 
 
@@ -458,6 +723,20 @@ export const FIREBASE_AUTH_GET_ACCOUNT_INFO = new ApiSettings('/accounts:lookup'
     }
   });
 
+/**
+ * Instantiates the getAccountInfo endpoint settings for use when fetching info
+ * for multiple accounts.
+ */
+export const FIREBASE_AUTH_GET_ACCOUNTS_INFO = new ApiSettings('/accounts:lookup', 'POST')
+  // Set request validator.
+  .setRequestValidator((request: any) => {
+    if (!request.localId && !request.email && !request.phoneNumber) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INTERNAL_ERROR,
+        'INTERNAL ASSERT FAILED: Server request is missing user identifier');
+    }
+  });
+
 /** Instantiates the deleteAccount endpoint settings. */
 export const FIREBASE_AUTH_DELETE_ACCOUNT = new ApiSettings('/accounts:delete', 'POST')
   // Set request validator.
@@ -469,6 +748,38 @@ export const FIREBASE_AUTH_DELETE_ACCOUNT = new ApiSettings('/accounts:delete',
     }
   });
 
+/** Response object returned by the batchDelete endpoint. */
+export interface BatchDeleteAccountsResponse {
+  errors?: Array<{index: number, localId?: string, message?: string}>;
+}
+
+/** Instantiates the batchDeleteAccounts endpoint settings. */
+export const FIREBASE_AUTH_BATCH_DELETE_ACCOUNTS = new ApiSettings('/accounts:batchDelete', 'POST')
+  // Set request validator.
+  .setRequestValidator((request: any) => {
+    if (!validator.isNonEmptyArray(request.localIds)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INTERNAL_ERROR,
+        'INTERNAL ASSERT FAILED: Server request is missing user identifiers');
+    }
+    if (request.force !== true) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INTERNAL_ERROR,
+        'INTERNAL ASSERT FAILED: Server request is missing force=true field');
+    }
+  })
+  // Set response validator.
+  .setResponseValidator((response: any) => {
+    const errors = response.errors || [];
+    errors.forEach((batchDeleteErrorInfo: any) => {
+      if (typeof batchDeleteErrorInfo.index === 'undefined') {
+        throw new FirebaseAuthError(
+          AuthClientErrorCode.INTERNAL_ERROR,
+          'INTERNAL ASSERT FAILED: Server BatchDeleteAccountResponse is missing an errors.index field');
+      }
+    });
+  });
+
 /** Instantiates the setAccountInfo endpoint settings for updating existing accounts. */
 export const FIREBASE_AUTH_SET_ACCOUNT_INFO = new ApiSettings('/accounts:update', 'POST')
   // Set request validator.
@@ -548,6 +859,10 @@ const FIREBASE_AUTH_GET_OOB_CODE = new ApiSettings('/accounts:sendOobCode', 'POS
         `"${request.requestType}" is not a supported email action request type.`,
       );
     }
+    // The new email is required when changing the email.
+    if (request.requestType === 'VERIFY_AND_CHANGE_EMAIL' && !validator.isEmail(request.newEmail)) {
+      throw new FirebaseAuthError(AuthClientErrorCode.INVALID_NEW_EMAIL);
+    }
   })
   // Set response validator.
   .setResponseValidator((response: any) => {
@@ -559,6 +874,45 @@ const FIREBASE_AUTH_GET_OOB_CODE = new ApiSettings('/accounts:sendOobCode', 'POS
     }
   });
 
+/**
+ * Validates the action code of a request to the endpoints consuming out of band email action codes.
+ *
+ * @param {any} request The request to validate.
+ */
+function validateOobCodeRequest(request: any): void {
+  if (!validator.isNonEmptyString(request.oobCode)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ACTION_CODE,
+      'The action code must be a non-empty string.',
+    );
+  }
+}
+
+/** Instantiates the resetPassword endpoint settings for checking action codes and resetting passwords. */
+const FIREBASE_AUTH_RESET_PASSWORD = new ApiSettings('/accounts:resetPassword', 'POST')
+  // Set request validator.
+  .setRequestValidator((request: any) => {
+    validateOobCodeRequest(request);
+    // The new password is only provided when resetting the password.
+    if (typeof request.newPassword !== 'undefined' && !validator.isPassword(request.newPassword)) {
+      throw new FirebaseAuthError(AuthClientErrorCode.INVALID_PASSWORD);
+    }
+  })
+  // Set response validator.
+  .setResponseValidator((response: any) => {
+    // The request type identifies the operation of the action code.
+    if (!validator.isNonEmptyString(response.requestType)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INTERNAL_ERROR,
+        'INTERNAL ASSERT FAILED: Unable to check the action code');
+    }
+  });
+
+/** Instantiates the setAccountInfo endpoint settings for applying action codes. */
+const FIREBASE_AUTH_APPLY_OOB_CODE = new ApiSettings('/accounts:update', 'POST')
+  // Set request validator.
+  .setRequestValidator(validateOobCodeRequest);
+
 /** Instantiates the retrieve OIDC configuration endpoint settings. */
 const GET_OAUTH_IDP_CONFIG = new ApiSettings('/oauthIdpConfigs/{providerId}', 'GET')
   // Set response validator.
@@ -692,6 +1046,7 @@ export abstract class AbstractAuthRequestHandler {
   protected readonly projectId: string;
   protected readonly httpClient: AuthorizedHttpClient;
   private authUrlBuilder: AuthResourceUrlBuilder;
+  private unscopedAuthUrlBuilder: AuthResourceUrlBuilder;
   private projectConfigUrlBuilder: AuthResourceUrlBuilder;
 
   /**
@@ -708,7 +1063,7 @@ export abstract class AbstractAuthRequestHandler {
    */
   constructor(app: FirebaseApp) {
     this.projectId = utils.getProjectId(app);
-    this.httpClient = new AuthorizedHttpClient(app);
+    this.httpClient = new AuthHttpClient(app);
   }
 
   /**
@@ -782,6 +1137,61 @@ export abstract class AbstractAuthRequestHandler {
     return this.invokeRequestHandler(this.getAuthUrlBuilder(), FIREBASE_AUTH_GET_ACCOUNT_INFO, request);
   }
 
+  /**
+   * Looks up multiple users by their identifiers (uid, email, etc).
+   *
+   * @param {UserIdentifier[]} identifiers The identifiers indicating the users
+   *     to be looked up. Must have <= 100 entries.
+   * @return {Promise<object>} A promise that resolves with the set of successfully
+   *     looked up users. Possibly empty if no users were looked up.
+   */
+  public getAccountInfoByIdentifiers(identifiers: UserIdentifier[]): Promise<object> {
+    if (!validator.isArray(identifiers)) {
+      return Promise.reject(new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT, '"identifiers" must be an array.'));
+    } else if (identifiers.length === 0) {
+      return Promise.resolve({users: []});
+    } else if (identifiers.length > MAX_GET_ACCOUNTS_BATCH_SIZE) {
+      return Promise.reject(new FirebaseAuthError(
+        AuthClientErrorCode.MAXIMUM_USER_COUNT_EXCEEDED,
+        `A maximum of ${MAX_GET_ACCOUNTS_BATCH_SIZE} users can be looked up at once.`));
+    }
+
+    const request: {localId?: string[], email?: string[], phoneNumber?: string[]} = {};
+    for (const id of identifiers) {
+      if (!validator.isNonNullObject(id)) {
+        return Promise.reject(new FirebaseAuthError(
+          AuthClientErrorCode.INVALID_ARGUMENT, 'Unrecognized identifier: ' + JSON.stringify(id)));
+      } else if (isUidIdentifier(id)) {
+        if (!validator.isUid(id.uid)) {
+          return Promise.reject(new FirebaseAuthError(AuthClientErrorCode.INVALID_UID));
+        }
+        request.localId = (request.localId || []).concat(id.uid);
+      } else if (isEmailIdentifier(id)) {
+        if (!validator.isEmail(id.email)) {
+          return Promise.reject(new FirebaseAuthError(AuthClientErrorCode.INVALID_EMAIL));
+        }
+        request.email = (request.email || []).concat(id.email);
+      } else if (isPhoneIdentifier(id)) {
+        if (!validator.isPhoneNumber(id.phoneNumber)) {
+          return Promise.reject(new FirebaseAuthError(AuthClientErrorCode.INVALID_PHONE_NUMBER));
+        }
+        request.phoneNumber = (request.phoneNumber || []).concat(id.phoneNumber);
+      } else {
+        return Promise.reject(new FirebaseAuthError(
+          AuthClientErrorCode.INVALID_ARGUMENT, 'Unrecognized identifier: ' + JSON.stringify(id)));
+      }
+    }
+    return this.invokeRequestHandler(this.getAuthUrlBuilder(), FIREBASE_AUTH_GET_ACCOUNTS_INFO, request)
+      .then((response: any) => {
+        // No users found.
+        if (!response.users) {
+          response.users = [];
+        }
+        return response;
+      });
+  }
+
   /**
    * Exports the users (single batch only) with a size of maxResults and starting from
    * the offset as specified by pageToken.
@@ -879,6 +1289,39 @@ export abstract class AbstractAuthRequestHandler {
     return this.invokeRequestHandler(this.getAuthUrlBuilder(), FIREBASE_AUTH_DELETE_ACCOUNT, request);
   }
 
+  /**
+   * Deletes the accounts identified by the provided uids. All accounts are deleted regardless
+   * of whether they are disabled or not.
+   *
+   * @param {string[]} uids The uids of the users to delete. Must have <= 1000 entries.
+   * @return {Promise<BatchDeleteAccountsResponse>} A promise that resolves when the request
+   *     completes, with the list of accounts that failed to be deleted.
+   */
+  public deleteAccounts(uids: string[]): Promise<BatchDeleteAccountsResponse> {
+    if (!validator.isArray(uids)) {
+      return Promise.reject(new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT, '"uids" must be an array.'));
+    } else if (uids.length === 0) {
+      return Promise.resolve({});
+    } else if (uids.length > MAX_DELETE_ACCOUNTS_BATCH_SIZE) {
+      return Promise.reject(new FirebaseAuthError(
+        AuthClientErrorCode.MAXIMUM_USER_COUNT_EXCEEDED,
+        `A maximum of ${MAX_DELETE_ACCOUNTS_BATCH_SIZE} users can be deleted at once.`));
+    }
+    for (const uid of uids) {
+      if (!validator.isUid(uid)) {
+        return Promise.reject(new FirebaseAuthError(AuthClientErrorCode.INVALID_UID));
+      }
+    }
+
+    const request = {
+      localIds: uids,
+      force: true,
+    };
+    return this.invokeRequestHandler(this.getAuthUrlBuilder(), FIREBASE_AUTH_BATCH_DELETE_ACCOUNTS, request)
+      .then((response: any) => response as BatchDeleteAccountsResponse);
+  }
+
   /**
    * Sets additional developer claims on an existing user identified by provided UID.
    *
@@ -966,15 +1409,38 @@ export abstract class AbstractAuthRequestHandler {
     // It will be removed from the backend request and an additional parameter
     // deleteProvider: ['phone'] with an array of providerIds (phone in this case),
     // will be passed.
-    // Currently this applies to phone provider only.
+    // The providers of providersToUnlink are also passed in deleteProvider.
+    request.deleteProvider = request.providersToUnlink;
+    delete request.providersToUnlink;
     if (request.phoneNumber === null) {
-      request.deleteProvider = ['phone'];
+      if (typeof request.deleteProvider === 'undefined') {
+        request.deleteProvider = ['phone'];
+      } else if (validator.isArray(request.deleteProvider) && request.deleteProvider.indexOf('phone') === -1) {
+        request.deleteProvider.push('phone');
+      }
       delete request.phoneNumber;
-    } else {
-      // Doesn't apply to other providers in admin SDK.
+    } else if (typeof request.phoneNumber !== 'undefined' && validator.isArray(request.deleteProvider) &&
+        request.deleteProvider.indexOf('phone') !== -1) {
+      return Promise.reject(new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        'A phone number cannot be set while unlinking the "phone" provider.',
+      ));
+    }
+    if (typeof request.deleteProvider === 'undefined') {
       delete request.deleteProvider;
     }
 
+    // Rewrite providerToLink to linkProviderUserInfo.
+    if (typeof request.providerToLink !== 'undefined') {
+      try {
+        request.linkProviderUserInfo = convertProviderToLinkToServerFormat(
+          request.providerToLink, request.deleteProvider);
+      } catch (e) {
+        return Promise.reject(e);
+      }
+      delete request.providerToLink;
+    }
+
     // Rewrite photoURL to photoUrl.
     if (typeof request.photoURL !== 'undefined') {
       request.photoUrl = request.photoURL;
@@ -985,6 +1451,24 @@ export abstract class AbstractAuthRequestHandler {
       request.disableUser = request.disabled;
       delete request.disabled;
     }
+    // Rewrite multiFactor to mfa. Passing null or an empty list of enrolled factors
+    // removes all the second factors of the user.
+    if (validator.isNonNullObject(properties.multiFactor)) {
+      const enrolledFactors = properties.multiFactor.enrolledFactors;
+      if (enrolledFactors === null) {
+        request.mfa = {};
+      } else if (validator.isArray(enrolledFactors)) {
+        try {
+          request.mfa = enrolledFactors.length > 0 ?
+            {enrollments: enrolledFactors.map((info) => convertMultiFactorInfoToServerFormat(info))} : {};
+        } catch (e) {
+          return Promise.reject(e);
+        }
+      } else {
+        return Promise.reject(new FirebaseAuthError(AuthClientErrorCode.INVALID_ENROLLED_FACTORS));
+      }
+    }
+    delete request.multiFactor;
     return this.invokeRequestHandler(this.getAuthUrlBuilder(), FIREBASE_AUTH_SET_ACCOUNT_INFO, request)
         .then((response: any) => {
           return response.localId as string;
@@ -1037,6 +1521,16 @@ export abstract class AbstractAuthRequestHandler {
       );
     }
 
+    const updateOnlyProperties = ['providerToLink', 'providersToUnlink'];
+    for (const key of updateOnlyProperties) {
+      if (typeof (properties as any)[key] !== 'undefined') {
+        return Promise.reject(new FirebaseAuthError(
+          AuthClientErrorCode.INVALID_ARGUMENT,
+          `"${key}" is not supported when creating users via "createUser()"`,
+        ));
+      }
+    }
+
     // Build the signupNewUser request.
     const request: any = deepCopy(properties);
     // Rewrite photoURL to photoUrl.
@@ -1049,6 +1543,36 @@ export abstract class AbstractAuthRequestHandler {
       request.localId = request.uid;
       delete request.uid;
     }
+    // Rewrite multiFactor to mfaInfo.
+    if (validator.isNonNullObject(properties.multiFactor)) {
+      const enrolledFactors = properties.multiFactor.enrolledFactors;
+      if (!validator.isArray(enrolledFactors)) {
+        return Promise.reject(new FirebaseAuthError(AuthClientErrorCode.INVALID_ENROLLED_FACTORS));
+      }
+      try {
+        request.mfaInfo = enrolledFactors.map((multiFactorInfo: UpdateMultiFactorInfoRequest) => {
+          // Enrollment IDs and times are provisioned by the backend for new users.
+          if (typeof multiFactorInfo.enrollmentTime !== 'undefined') {
+            throw new FirebaseAuthError(
+              AuthClientErrorCode.INVALID_ARGUMENT,
+              '"enrollmentTime" is not supported when adding second factors via "createUser()"',
+            );
+          } else if (typeof multiFactorInfo.uid !== 'undefined') {
+            throw new FirebaseAuthError(
+              AuthClientErrorCode.INVALID_ARGUMENT,
+              '"uid" is not supported when adding second factors via "createUser()"',
+            );
+          }
+          return convertMultiFactorInfoToServerFormat(multiFactorInfo);
+        });
+      } catch (e) {
+        return Promise.reject(e);
+      }
+      if (request.mfaInfo.length === 0) {
+        delete request.mfaInfo;
+      }
+    }
+    delete request.multiFactor;
     return this.invokeRequestHandler(this.getAuthUrlBuilder(), FIREBASE_AUTH_SIGN_UP_NEW_USER, request)
       .then((response: any) => {
         // Return the user id.
@@ -1061,17 +1585,27 @@ export abstract class AbstractAuthRequestHandler {
    * Returns a promise that resolves with the generated link.
    *
    * @param {string} requestType The request type. This could be either used for password reset,
-   *     email verification, email link sign-in.
+   *     email verification, email link sign-in, email change or email recovery.
    * @param {string} email The email of the user the link is being sent to.
    * @param {ActionCodeSettings=} actionCodeSettings The optional action code setings which defines whether
    *     the link is to be handled by a mobile app and the additional state information to be passed in the
    *     deep link, etc.
+   * @param {string=} newEmail The email address to change to, only used for email change links.
    * @return {Promise<string>} A promise that resolves with the email action link.
    */
   public getEmailActionLink(
       requestType: string, email: string,
-      actionCodeSettings?: ActionCodeSettings): Promise<string> {
-    let request = {requestType, email, returnOobLink: true};
+      actionCodeSettings?: ActionCodeSettings, newEmail?: string): Promise<string> {
+    let request: any = {requestType, email, returnOobLink: true};
+    if (typeof newEmail !== 'undefined') {
+      if (requestType !== 'VERIFY_AND_CHANGE_EMAIL') {
+        return Promise.reject(new FirebaseAuthError(
+          AuthClientErrorCode.INVALID_ARGUMENT,
+          `"newEmail" can only be provided for the "VERIFY_AND_CHANGE_EMAIL" request type.`,
+        ));
+      }
+      request.newEmail = newEmail;
+    }
     // ActionCodeSettings required for email link sign-in to determine the url where the sign-in will
     // be completed.
     if (typeof actionCodeSettings !== 'undefined' || requestType === 'EMAIL_SIGNIN') {
@@ -1089,6 +1623,43 @@ export abstract class AbstractAuthRequestHandler {
       });
   }
 
+  /**
+   * Checks an out of band email action code without applying it. Returns a promise that resolves
+   * with the action code information.
+   *
+   * @param {string} oobCode The action code to check.
+   * @return {Promise<object>} A promise that resolves with the resetPassword server response.
+   */
+  public checkActionCode(oobCode: string): Promise<object> {
+    return this.invokeRequestHandler(
+      this.getUnscopedAuthUrlBuilder(), FIREBASE_AUTH_RESET_PASSWORD, this.addTenantId({oobCode}));
+  }
+
+  /**
+   * Applies an out of band email action code, such as an email verification code.
+   *
+   * @param {string} oobCode The action code to apply.
+   * @return {Promise<object>} A promise that resolves with the setAccountInfo server response.
+   */
+  public applyActionCode(oobCode: string): Promise<object> {
+    return this.invokeRequestHandler(this.getAuthUrlBuilder(), FIREBASE_AUTH_APPLY_OOB_CODE, {oobCode});
+  }
+
+  /**
+   * Resets the password of the user a password reset code was issued for.
+   *
+   * @param {string} oobCode The password reset code.
+   * @param {string} newPassword The new password of the user.
+   * @return {Promise<object>} A promise that resolves with the resetPassword server response.
+   */
+  public confirmPasswordReset(oobCode: string, newPassword: string): Promise<object> {
+    if (!validator.isPassword(newPassword)) {
+      return Promise.reject(new FirebaseAuthError(AuthClientErrorCode.INVALID_PASSWORD));
+    }
+    return this.invokeRequestHandler(
+      this.getUnscopedAuthUrlBuilder(), FIREBASE_AUTH_RESET_PASSWORD, this.addTenantId({oobCode, newPassword}));
+  }
+
   /**
    * Looks up an OIDC provider configuration by provider ID.
    *
@@ -1388,6 +1959,17 @@ export abstract class AbstractAuthRequestHandler {
    */
   protected abstract newProjectConfigUrlBuilder(): AuthResourceUrlBuilder;
 
+  /**
+   * Adds the tenant of the request handler, if any, to a request sent to an endpoint that is not
+   * scoped to a project, since the URL of such an endpoint cannot identify the tenant.
+   *
+   * @param {object} request The request to send.
+   * @return {object} The request to send along with the tenant ID, if any.
+   */
+  protected addTenantId(request: object): object {
+    return request;
+  }
+
   /**
    * @return {AuthResourceUrlBuilder} The current Auth user management resource URL builder.
    */
@@ -1398,6 +1980,17 @@ export abstract class AbstractAuthRequestHandler {
     return this.authUrlBuilder;
   }
 
+  /**
+   * @return {AuthResourceUrlBuilder} The current resource URL builder of the endpoints that are not
+   *     scoped to a project.
+   */
+  private getUnscopedAuthUrlBuilder(): AuthResourceUrlBuilder {
+    if (!this.unscopedAuthUrlBuilder) {
+      this.unscopedAuthUrlBuilder = new UnscopedAuthResourceUrlBuilder(this.projectId, 'v1');
+    }
+    return this.unscopedAuthUrlBuilder;
+  }
+
   /**
    * @return {AuthResourceUrlBuilder} The current project config resource URL builder.
    */
@@ -1475,6 +2068,32 @@ const CREATE_TENANT = new ApiSettings('/tenants', 'POST')
       }
     });
 
+/** Instantiates the getProjectConfig endpoint settings. */
+const GET_PROJECT_CONFIG = new ApiSettings('/config', 'GET')
+    // Set response validator.
+    .setResponseValidator((response: any) => {
+      // Response should always contain at least the config name.
+      if (!validator.isNonEmptyString(response.name)) {
+        throw new FirebaseAuthError(
+          AuthClientErrorCode.INTERNAL_ERROR,
+          'INTERNAL ASSERT FAILED: Unable to get project config',
+        );
+      }
+    });
+
+/** Instantiates the updateProjectConfig endpoint settings. */
+const UPDATE_PROJECT_CONFIG = new ApiSettings('/config?updateMask={updateMask}', 'PATCH')
+    // Set response validator.
+    .setResponseValidator((response: any) => {
+      // Response should always contain at least the config name.
+      if (!validator.isNonEmptyString(response.name)) {
+        throw new FirebaseAuthError(
+          AuthClientErrorCode.INTERNAL_ERROR,
+          'INTERNAL ASSERT FAILED: Unable to update project config',
+        );
+      }
+    });
+
 
 /**
  * Utility for sending requests to Auth server that are Auth instance related. This includes user and
@@ -1609,7 +2228,8 @@ export class AuthRequestHandler extends AbstractAuthRequestHandler {
     try {
       // Construct backend request.
       const request = Tenant.buildServerRequest(tenantOptions, false);
-      const updateMask = utils.generateUpdateMask(request);
+      // Do not traverse the user defined test phone numbers when computing the update mask.
+      const updateMask = utils.generateUpdateMask(request, ['testPhoneNumbers']);
       return this.invokeRequestHandler(this.tenantMgmtResourceBuilder, UPDATE_TENANT, request,
         {tenantId, updateMask: updateMask.join(',')})
         .then((response: any) => {
@@ -1619,6 +2239,41 @@ export class AuthRequestHandler extends AbstractAuthRequestHandler {
       return Promise.reject(e);
     }
   }
+
+  /**
+   * Looks up the project level Auth configuration.
+   *
+   * @return {Promise<ProjectConfigServerResponse>} A promise that resolves with the project config.
+   */
+  public getProjectConfig(): Promise<ProjectConfigServerResponse> {
+    return this.invokeRequestHandler(this.tenantMgmtResourceBuilder, GET_PROJECT_CONFIG, {})
+      .then((response: any) => {
+        return response as ProjectConfigServerResponse;
+      });
+  }
+
+  /**
+   * Updates the project level Auth configuration.
+   *
+   * @param {UpdateProjectConfigRequest} options The properties to update on the project config.
+   * @return {Promise<ProjectConfigServerResponse>} A promise that resolves with the updated
+   *     project config.
+   */
+  public updateProjectConfig(options: UpdateProjectConfigRequest): Promise<ProjectConfigServerResponse> {
+    try {
+      // Construct backend request.
+      const request = ProjectConfig.buildServerRequest(options);
+      // The authorized domains list is replaced as a whole.
+      const updateMask = utils.generateUpdateMask(request, ['authorizedDomains']);
+      return this.invokeRequestHandler(this.tenantMgmtResourceBuilder, UPDATE_PROJECT_CONFIG, request,
+        {updateMask: updateMask.join(',')})
+        .then((response: any) => {
+          return response as ProjectConfigServerResponse;
+        });
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
 }
 
 /**
@@ -1653,6 +2308,14 @@ export class TenantAwareAuthRequestHandler extends AbstractAuthRequestHandler {
     return new TenantAwareAuthResourceUrlBuilder(this.projectId, 'v2beta1', this.tenantId);
   }
 
+  /**
+   * @param {object} request The request to send.
+   * @return {object} The request to send along with the tenant ID of the request handler.
+   */
+  protected addTenantId(request: object): object {
+    return {...request, tenantId: this.tenantId};
+  }
+
   /**
    * Imports the list of users provided to Firebase Auth. This is useful when
    * migrating from an external authentication system without having to use the Firebase CLI SDK.
@@ -18,6 +18,8 @@ import * as utils from '../utils';
 import * as validator from '../utils/validator';
 import {deepCopy} from '../utils/deep-copy';
 import {AuthClientErrorCode, FirebaseAuthError} from '../utils/error';
+import {PageIteratorOptions} from '../utils/page-iterator';
+import {buildSpMetadataXml, parseIdpMetadataXml} from './saml-metadata';
 
 
 /** The filter interface used for listing provider configurations. */
@@ -27,6 +29,11 @@ export interface AuthProviderConfigFilter {
   pageToken?: string;
 }
 
+/** The options used to iterate over all the provider configurations of a given type. */
+export interface AuthProviderConfigIteratorOptions extends PageIteratorOptions {
+  type: 'saml' | 'oidc';
+}
+
 /** The base Auth provider configuration interface. */
 export interface AuthProviderConfig {
   providerId: string;
@@ -48,6 +55,8 @@ export interface SAMLAuthProviderConfig extends AuthProviderConfig {
   rpEntityId: string;
   callbackURL?: string;
   enableRequestSigning?: boolean;
+  /** The certificates the authentication requests are signed with. Output only. */
+  spCertificates?: string[];
 }
 
 /** The server side SAML configuration request interface. */
@@ -85,6 +94,10 @@ export interface SAMLConfigServerResponse {
   spConfig?: {
     spEntityId?: string;
     callbackUri?: string;
+    spCertificates?: Array<{
+      x509Certificate: string;
+      expiresAt?: string;
+    }>;
   };
   displayName?: string;
   enabled?: boolean;
@@ -162,6 +175,194 @@ export interface EmailSignInConfigServerRequest {
 }
 
 
+/** The multi-factor configuration state. */
+export type MultiFactorConfigState = 'ENABLED' | 'DISABLED';
+
+/** The client side identifiers of the supported second factors. */
+export type AuthFactorType = 'phone';
+
+/** The server side identifiers of the supported second factors. */
+export type AuthFactorServerType = 'PHONE_SMS';
+
+/** The multi-factor configuration interface. */
+export interface MultiFactorConfig {
+  state: MultiFactorConfigState;
+  factorIds?: AuthFactorType[];
+}
+
+/** The server side multi-factor configuration request/response interface. */
+export interface MultiFactorAuthServerConfig {
+  state?: MultiFactorConfigState;
+  enabledProviders?: AuthFactorServerType[];
+}
+
+/** Client to server second factor identifiers mapping. */
+export const AUTH_FACTOR_CLIENT_TO_SERVER_TYPE: {[key: string]: AuthFactorServerType} = {
+  phone: 'PHONE_SMS',
+};
+
+/** Server to client second factor identifiers mapping. */
+export const AUTH_FACTOR_SERVER_TO_CLIENT_TYPE: {[key: string]: AuthFactorType} =
+    Object.keys(AUTH_FACTOR_CLIENT_TO_SERVER_TYPE)
+      .reduce((res: {[key: string]: AuthFactorType}, key) => {
+        res[AUTH_FACTOR_CLIENT_TO_SERVER_TYPE[key]] = key as AuthFactorType;
+        return res;
+      }, {});
+
+/** The maximum number of test phone numbers allowed per project or tenant. */
+export const MAXIMUM_TEST_PHONE_NUMBERS = 10;
+
+
+/**
+ * Validates the provided map of test phone numbers to their 6 digit SMS codes. Throws
+ * an error on failure.
+ *
+ * @param {any} testPhoneNumbers The phone number / code pairs to validate.
+ */
+export function validateTestPhoneNumbers(testPhoneNumbers: {[phoneNumber: string]: string}) {
+  if (!validator.isNonNullObject(testPhoneNumbers)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      '"testPhoneNumbers" must be a map of phone number / code pairs.',
+    );
+  }
+  if (Object.keys(testPhoneNumbers).length > MAXIMUM_TEST_PHONE_NUMBERS) {
+    throw new FirebaseAuthError(AuthClientErrorCode.MAXIMUM_TEST_PHONE_NUMBER_EXCEEDED);
+  }
+  Object.keys(testPhoneNumbers).forEach((phoneNumber) => {
+    if (!validator.isPhoneNumber(phoneNumber)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_TESTING_PHONE_NUMBER,
+        `"${phoneNumber}" is not a valid E.164 standard compliant phone number.`,
+      );
+    }
+    const code = testPhoneNumbers[phoneNumber];
+    if (!validator.isString(code) || !/^\d{6}$/.test(code)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_TESTING_PHONE_NUMBER,
+        `"${code}" is not a valid 6 digit code string.`,
+      );
+    }
+  });
+}
+
+
+/**
+ * Defines the multi-factor config class used to convert client side MultiFactorConfig
+ * to a format that is understood by the Auth server.
+ */
+export class MultiFactorAuthConfig implements MultiFactorConfig {
+  public readonly state: MultiFactorConfigState;
+  public readonly factorIds: AuthFactorType[];
+
+  /**
+   * Static method to convert a client side request to a MultiFactorAuthServerConfig.
+   * Throws an error if validation fails.
+   *
+   * @param {any} options The options object to convert to a server request.
+   * @return {MultiFactorAuthServerConfig} The resulting server request.
+   */
+  public static buildServerRequest(options: MultiFactorConfig): MultiFactorAuthServerConfig {
+    const request: MultiFactorAuthServerConfig = {};
+    MultiFactorAuthConfig.validate(options);
+    if (options.hasOwnProperty('state')) {
+      request.state = options.state;
+    }
+    if (options.hasOwnProperty('factorIds')) {
+      // An empty list is passed through so that the enabled providers are cleared.
+      request.enabledProviders = (options.factorIds || []).map((factorId) => {
+        return AUTH_FACTOR_CLIENT_TO_SERVER_TYPE[factorId];
+      });
+    }
+    return request;
+  }
+
+  /**
+   * Validates the MultiFactorConfig options object. Throws an error on failure.
+   *
+   * @param {any} options The options object to validate.
+   */
+  private static validate(options: {[key: string]: any}) {
+    const validKeys = {
+      state: true,
+      factorIds: true,
+    };
+    if (!validator.isNonNullObject(options)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        '"MultiFactorConfig" must be a non-null object.',
+      );
+    }
+    // Check for unsupported top level attributes.
+    for (const key in options) {
+      if (!(key in validKeys)) {
+        throw new FirebaseAuthError(
+          AuthClientErrorCode.INVALID_ARGUMENT,
+          `"${key}" is not a valid MultiFactorConfig parameter.`,
+        );
+      }
+    }
+    // Validate content.
+    if (typeof options.state !== 'undefined' &&
+        options.state !== 'ENABLED' &&
+        options.state !== 'DISABLED') {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        '"MultiFactorConfig.state" must be either "ENABLED" or "DISABLED".',
+      );
+    }
+    if (typeof options.factorIds !== 'undefined') {
+      if (!validator.isArray(options.factorIds)) {
+        throw new FirebaseAuthError(
+          AuthClientErrorCode.INVALID_ARGUMENT,
+          '"MultiFactorConfig.factorIds" must be an array of valid "AuthFactorTypes".',
+        );
+      }
+      // Validate each factor ID.
+      options.factorIds.forEach((factorId: any) => {
+        if (typeof AUTH_FACTOR_CLIENT_TO_SERVER_TYPE[factorId] === 'undefined') {
+          throw new FirebaseAuthError(
+            AuthClientErrorCode.INVALID_ARGUMENT,
+            `"${factorId}" is not a valid "AuthFactorType".`,
+          );
+        }
+      });
+    }
+  }
+
+  /**
+   * The MultiFactorAuthConfig constructor.
+   *
+   * @param {any} response The server side response used to initialize the
+   *     MultiFactorAuthConfig object.
+   * @constructor
+   */
+  constructor(response: MultiFactorAuthServerConfig) {
+    if (typeof response.state === 'undefined') {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INTERNAL_ERROR,
+        'INTERNAL ASSERT FAILED: Invalid multi-factor configuration response');
+    }
+    this.state = response.state;
+    this.factorIds = [];
+    (response.enabledProviders || []).forEach((enabledProvider) => {
+      // Ignore second factors the backend supports but this SDK version does not.
+      if (typeof AUTH_FACTOR_SERVER_TO_CLIENT_TYPE[enabledProvider] !== 'undefined') {
+        this.factorIds.push(AUTH_FACTOR_SERVER_TO_CLIENT_TYPE[enabledProvider]);
+      }
+    });
+  }
+
+  /** @return {object} The plain object representation of the multi-factor config. */
+  public toJSON(): object {
+    return {
+      state: this.state,
+      factorIds: this.factorIds,
+    };
+  }
+}
+
+
 /**
  * Defines the email sign-in config class used to convert client side EmailSignInConfig
  * to a format that is understood by the Auth server.
@@ -273,6 +474,7 @@ export class SAMLConfig implements SAMLAuthProviderConfig {
   public readonly rpEntityId: string;
   public readonly callbackURL?: string;
   public readonly enableRequestSigning?: boolean;
+  public readonly spCertificates: string[];
 
   /**
    * Converts a client side request to a SAMLConfigServerRequest which is the format
@@ -298,7 +500,8 @@ export class SAMLConfig implements SAMLAuthProviderConfig {
     request.enabled = options.enabled;
     request.displayName = options.displayName;
     // IdP config.
-    if (options.idpEntityId || options.ssoURL || options.x509Certificates) {
+    if (options.idpEntityId || options.ssoURL || options.x509Certificates ||
+        typeof options.enableRequestSigning !== 'undefined') {
       request.idpConfig = {
         idpEntityId: options.idpEntityId,
         ssoUrl: options.ssoURL,
@@ -344,6 +547,61 @@ export class SAMLConfig implements SAMLAuthProviderConfig {
     return validator.isNonEmptyString(providerId) && providerId.indexOf('saml.') === 0;
   }
 
+  /**
+   * Builds the request of a SAML provider configuration from the SAML 2.0 metadata of its
+   * identity provider. The relying party fields are left for the caller to provide.
+   *
+   * @param {string} xml The IdP metadata XML.
+   * @param {string} providerId The provider ID of the configuration, prefixed with "saml.".
+   * @return {SAMLAuthProviderRequest} The request, including the IdP entity ID, the single sign-on
+   *     URL and the PEM encoded signing certificates of the identity provider.
+   */
+  public static fromIdpMetadataXml(xml: string, providerId: string): SAMLAuthProviderRequest {
+    if (!SAMLConfig.isProviderId(providerId)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_PROVIDER_ID,
+        '"SAMLAuthProviderConfig.providerId" must be a valid non-empty string prefixed with "saml.".',
+      );
+    }
+    const request: SAMLAuthProviderRequest = {providerId, ...parseIdpMetadataXml(xml)};
+    SAMLConfig.validate(request, true);
+    return request;
+  }
+
+  /**
+   * Builds the SAML 2.0 metadata of the relying party of a SAML provider configuration, to be
+   * provided to its identity provider.
+   *
+   * @param {SAMLAuthProviderConfig} config The SAML provider configuration.
+   * @return {string} The SP metadata XML.
+   */
+  public static toSpMetadataXml(config: SAMLAuthProviderConfig): string {
+    if (!validator.isNonNullObject(config)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_CONFIG,
+        '"SAMLAuthProviderConfig" must be a valid non-null object.',
+      );
+    }
+    if (!validator.isNonEmptyString(config.rpEntityId)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_CONFIG,
+        '"SAMLAuthProviderConfig.rpEntityId" must be a valid non-empty string.',
+      );
+    }
+    if (!validator.isURL(config.callbackURL)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_CONFIG,
+        '"SAMLAuthProviderConfig.callbackURL" must be a valid URL string.',
+      );
+    }
+    return buildSpMetadataXml({
+      rpEntityId: config.rpEntityId,
+      callbackURL: config.callbackURL,
+      enableRequestSigning: config.enableRequestSigning,
+      signingCertificates: config.spCertificates,
+    });
+  }
+
   /**
    * Validates the SAMLConfig options object. Throws an error on failure.
    *
@@ -361,6 +619,8 @@ export class SAMLConfig implements SAMLAuthProviderConfig {
       rpEntityId: true,
       callbackURL: true,
       enableRequestSigning: true,
+      // Output only, accepted so that configurations can be passed back as is.
+      spCertificates: true,
     };
     if (!validator.isNonNullObject(options)) {
       throw new FirebaseAuthError(
@@ -491,6 +751,13 @@ export class SAMLConfig implements SAMLAuthProviderConfig {
       }
     }
     this.x509Certificates = x509Certificates;
+    const spCertificates: string[] = [];
+    for (const cert of (response.spConfig.spCertificates || [])) {
+      if (cert.x509Certificate) {
+        spCertificates.push(cert.x509Certificate);
+      }
+    }
+    this.spCertificates = spCertificates;
     // When enabled is undefined, it takes its default value of false.
     this.enabled = !!response.enabled;
     this.displayName = response.displayName;
@@ -508,6 +775,7 @@ export class SAMLConfig implements SAMLAuthProviderConfig {
       rpEntityId: this.rpEntityId,
       callbackURL: this.callbackURL,
       enableRequestSigning: this.enableRequestSigning,
+      spCertificates: deepCopy(this.spCertificates),
     };
   }
 }
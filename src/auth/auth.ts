@@ -16,11 +16,16 @@
 
 import {UserRecord, CreateRequest, UpdateRequest} from './user-record';
 import {FirebaseApp} from '../firebase-app';
-import {FirebaseTokenGenerator, CryptoSigner, cryptoSignerFromApp} from './token-generator';
 import {
-  AbstractAuthRequestHandler, AuthRequestHandler, TenantAwareAuthRequestHandler,
+  FirebaseTokenGenerator, CryptoSigner, CustomTokenOptions, DecodedCustomToken, cryptoSignerFromApp,
+} from './token-generator';
+import {
+  AbstractAuthRequestHandler, AuthRequestHandler, TenantAwareAuthRequestHandler, useEmulator,
+  BatchDeleteAccountsResponse,
 } from './auth-api-request';
-import {AuthClientErrorCode, FirebaseAuthError, ErrorInfo} from '../utils/error';
+import {
+  AuthClientErrorCode, FirebaseAuthError, ErrorInfo, FirebaseArrayIndexError,
+} from '../utils/error';
 import {FirebaseServiceInterface, FirebaseServiceInternalsInterface} from '../firebase-service';
 import {
   UserImportOptions, UserImportRecord, UserImportResult,
@@ -28,13 +33,48 @@ import {
 
 import * as utils from '../utils/index';
 import * as validator from '../utils/validator';
-import { FirebaseTokenVerifier, createSessionCookieVerifier, createIdTokenVerifier } from './token-verifier';
+import {
+  FirebaseTokenVerifier, createSessionCookieVerifier, createIdTokenVerifier, createLocalIdTokenVerifier,
+  createLocalSessionCookieVerifier,
+} from './token-verifier';
+import { PublicKeyCache } from './public-key-cache';
+import {
+  ProviderIdTokenVerifier, DecodedProviderIdToken, decodeProviderIdTokenHeader,
+} from './provider-token-verifier';
 import {ActionCodeSettings} from './action-code-settings-builder';
 import {
   AuthProviderConfig, AuthProviderConfigFilter, ListProviderConfigResults, UpdateAuthProviderRequest,
   SAMLConfig, OIDCConfig, OIDCConfigServerResponse, SAMLConfigServerResponse,
+  AuthProviderConfigIteratorOptions,
 } from './auth-config';
+import {FlattenedIterable, PageIterable, PageIteratorOptions} from '../utils/page-iterator';
 import {TenantManager} from './tenant-manager';
+import {ProjectConfigManager} from './project-config-manager';
+import {
+  UserIdentifier, isUidIdentifier, isEmailIdentifier, isPhoneIdentifier,
+} from './identifier';
+import {
+  UserExportFormat, UserExportOptions, UserExportStream, UserExportTenantGroup, parseUserExport,
+  parseUserExportByTenant, validateUserExportOptions,
+} from './user-export';
+import {BulkUserImport, BulkUserImportOptions, UserImportSource} from './bulk-user-import';
+import {BulkUserOperations, BulkUserOperationsOptions} from './bulk-user-operations';
+import {
+  ApplyProviderConfigsOptions, ProviderConfigChange, ProviderConfigPlan, planProviderConfigChanges,
+  validateApplyProviderConfigsOptions, validateDesiredProviderConfigs,
+} from './provider-config-plan';
+import {PasswordHashVerifier} from './password-hash-verifier';
+import {
+  CustomClaimsUpdate, CustomClaimsValidator, UpdateCustomClaimsOptions, applyCustomClaimsUpdate,
+  runCustomClaimsValidator, validateCustomClaims, validateUpdateCustomClaimsOptions,
+} from './custom-claims';
+import {SessionRecord, SessionRegistry, SessionStore} from './session-registry';
+import {
+  QueryUsersResult, UserQueryFilter, UserQueryOptions, createUserQueryMatcher,
+  getUserQueryLookupIdentifier, validateUserQueryFilter, validateUserQueryOptions,
+} from './user-query';
+import {RequestAuthenticator, RequestAuthenticatorOptions} from './request-authenticator';
+import {Readable} from 'stream';
 
 
 /**
@@ -60,6 +100,42 @@ export interface ListUsersResult {
 }
 
 
+/** Response object for a getUsers operation. */
+export interface GetUsersResult {
+  users: UserRecord[];
+  notFound: UserIdentifier[];
+}
+
+
+/** Response object for a deleteUsers operation. */
+export interface DeleteUsersResult {
+  failureCount: number;
+  successCount: number;
+  errors: FirebaseArrayIndexError[];
+}
+
+
+/** Maximum allowed number of identifiers to look up in a single backend request. */
+const MAX_GET_USERS_BATCH_SIZE = 100;
+
+/** Maximum allowed number of users to delete in a single backend request. */
+const MAX_DELETE_USERS_BATCH_SIZE = 1000;
+
+/** How long the OIDC provider configurations used to verify provider ID tokens are cached for. */
+const PROVIDER_CONFIG_CACHE_TTL_MILLIS = 5 * 60 * 1000;
+
+/** Maximum number of OIDC provider configurations cached to verify provider ID tokens. */
+const MAX_PROVIDER_CONFIG_CACHE_SIZE = 100;
+
+/** A cached OIDC provider configuration, along with the verifier of its ID tokens. */
+interface ProviderIdTokenVerifierEntry {
+  issuer: string;
+  clientId: string;
+  verifier: ProviderIdTokenVerifier;
+  expiresAt: number;
+}
+
+
 /** Interface representing a decoded ID token. */
 export interface DecodedIdToken {
   aud: string;
@@ -87,12 +163,74 @@ export interface SessionCookieOptions {
 
 
 /**
- * Base Auth class. Mainly used for user management APIs.
+ * Interface representing the information of an out of band email action code, returned when
+ * checking a code or resetting a password.
+ */
+export interface ActionCodeInfo {
+  /** The email action request type the code was issued for, such as "PASSWORD_RESET". */
+  operation: string;
+  /** The email of the user the code was issued for. */
+  email: string;
+  /** The other email of email change and recovery codes. */
+  newEmail?: string;
+  /** The ID of the tenant of the user, if any. */
+  tenantId?: string;
+}
+
+
+/**
+ * Base Auth class. Mainly used for user management APIs. The custom claims set on users and
+ * returned in decoded ID tokens and session cookies are typed with the claims type C.
  */
-export class BaseAuth<T extends AbstractAuthRequestHandler> {
+export class BaseAuth<T extends AbstractAuthRequestHandler, C extends object = object> {
   protected readonly tokenGenerator: FirebaseTokenGenerator;
   protected readonly idTokenVerifier: FirebaseTokenVerifier;
   protected readonly sessionCookieVerifier: FirebaseTokenVerifier;
+  private readonly providerIdTokenVerifiers: {[providerId: string]: ProviderIdTokenVerifierEntry} = {};
+  private customClaimsValidator: CustomClaimsValidator<C> | null = null;
+  private sessionRegistry: SessionRegistry | null = null;
+
+  /**
+   * Checks if the specified identifier is within the list of user records.
+   *
+   * @param {UserIdentifier} id The identifier to look for.
+   * @param {UserRecord[]} userRecords The list of user records to search.
+   * @return {boolean} Whether a user record matching the identifier was found.
+   */
+  private static isUserFound(id: UserIdentifier, userRecords: UserRecord[]): boolean {
+    return userRecords.some((userRecord) => {
+      if (isUidIdentifier(id)) {
+        return id.uid === userRecord.uid;
+      } else if (isEmailIdentifier(id)) {
+        // Emails are case insensitive.
+        return typeof userRecord.email === 'string' &&
+            id.email.toLowerCase() === userRecord.email.toLowerCase();
+      } else if (isPhoneIdentifier(id)) {
+        return id.phoneNumber === userRecord.phoneNumber;
+      }
+      return false;
+    });
+  }
+
+  /**
+   * Converts a resetPassword server response to the information of the action code.
+   *
+   * @param {any} response The resetPassword server response.
+   * @return {ActionCodeInfo} The information of the action code.
+   */
+  private static toActionCodeInfo(response: any): ActionCodeInfo {
+    const actionCodeInfo: ActionCodeInfo = {
+      operation: response.requestType,
+      email: response.email,
+    };
+    if (typeof response.newEmail !== 'undefined') {
+      actionCodeInfo.newEmail = response.newEmail;
+    }
+    if (typeof response.tenantId !== 'undefined') {
+      actionCodeInfo.tenantId = response.tenantId;
+    }
+    return actionCodeInfo;
+  }
 
   /**
    * The BaseAuth class constructor.
@@ -102,14 +240,25 @@ export class BaseAuth<T extends AbstractAuthRequestHandler> {
    *     for this instance.
    * @param {CryptoSigner} cryptoSigner The instance crypto signer used for custom token
    *     minting.
+   * @param {PublicKeyCache=} publicKeyCache Optional cache for the public keys used to verify
+   *     ID tokens and session cookies.
+   * @param {object=} publicKeys Optional public keys, keyed by key ID, to verify ID tokens and
+   *     session cookies with instead of the Google certs.
    * @constructor
    */
   constructor(protected readonly projectId: string,
               protected readonly authRequestHandler: T,
-              cryptoSigner: CryptoSigner) {
+              cryptoSigner: CryptoSigner,
+              private readonly publicKeyCache?: PublicKeyCache,
+              publicKeys?: {[keyId: string]: string}) {
     this.tokenGenerator = new FirebaseTokenGenerator(cryptoSigner);
-    this.sessionCookieVerifier = createSessionCookieVerifier(projectId);
-    this.idTokenVerifier = createIdTokenVerifier(projectId);
+    if (typeof publicKeys !== 'undefined') {
+      this.sessionCookieVerifier = createLocalSessionCookieVerifier(projectId, publicKeys);
+      this.idTokenVerifier = createLocalIdTokenVerifier(projectId, publicKeys);
+    } else {
+      this.sessionCookieVerifier = createSessionCookieVerifier(projectId, publicKeyCache);
+      this.idTokenVerifier = createIdTokenVerifier(projectId, publicKeyCache);
+    }
   }
 
   /**
@@ -118,11 +267,27 @@ export class BaseAuth<T extends AbstractAuthRequestHandler> {
    *
    * @param {string} uid The uid to use as the JWT subject.
    * @param {object=} developerClaims Optional additional claims to include in the JWT payload.
+   * @param {CustomTokenOptions=} options Optional expiration and header settings of the JWT.
    *
    * @return {Promise<string>} A JWT for the provided payload.
    */
-  public createCustomToken(uid: string, developerClaims?: object): Promise<string> {
-    return this.tokenGenerator.createCustomToken(uid, developerClaims);
+  public createCustomToken(
+      uid: string, developerClaims?: object, options?: CustomTokenOptions): Promise<string> {
+    return this.tokenGenerator.createCustomToken(uid, developerClaims, options);
+  }
+
+  /**
+   * Verifies a custom token created with the service account of this instance, without calling the
+   * Auth backend. This is intended for services which receive the custom tokens minted by another
+   * service sharing the same service account credential.
+   *
+   * @param {string} token The custom token to verify.
+   *
+   * @return {Promise<DecodedCustomToken>} A promise that resolves with the decoded claims of the
+   *     custom token.
+   */
+  public verifyCustomToken(token: string): Promise<DecodedCustomToken> {
+    return this.tokenGenerator.verifyCustomToken(token);
   }
 
   /**
@@ -134,12 +299,12 @@ export class BaseAuth<T extends AbstractAuthRequestHandler> {
    *
    * @param {string} idToken The JWT to verify.
    * @param {boolean=} checkRevoked Whether to check if the ID token is revoked.
-   * @return {Promise<DecodedIdToken>} A Promise that will be fulfilled after a successful
+   * @return {Promise<DecodedIdToken & C>} A Promise that will be fulfilled after a successful
    *     verification.
    */
-  public verifyIdToken(idToken: string, checkRevoked: boolean = false): Promise<DecodedIdToken> {
-    return this.idTokenVerifier.verifyJWT(idToken)
-      .then((decodedIdToken: DecodedIdToken) => {
+  public verifyIdToken(idToken: string, checkRevoked: boolean = false): Promise<DecodedIdToken & C> {
+    return this.idTokenVerifier.verifyJWT(idToken, useEmulator())
+      .then((decodedIdToken: DecodedIdToken & C) => {
         // Whether to check if the token was revoked.
         if (!checkRevoked) {
           return decodedIdToken;
@@ -195,6 +360,46 @@ export class BaseAuth<T extends AbstractAuthRequestHandler> {
       });
   }
 
+  /**
+   * Gets the user data corresponding to the specified identifiers.
+   *
+   * There are no ordering guarantees; in particular, the nth entry in the result list is not
+   * guaranteed to correspond to the nth entry in the input parameters list.
+   *
+   * The identifiers are looked up in batches of up to 100 identifiers per backend request,
+   * with larger lists split into multiple sequential requests.
+   *
+   * @param {UserIdentifier[]} identifiers The identifiers used to indicate which user records
+   *     should be returned.
+   * @return {Promise<GetUsersResult>} A promise that resolves to the corresponding user records
+   *     and the identifiers for which no user was found.
+   */
+  public getUsers(identifiers: UserIdentifier[]): Promise<GetUsersResult> {
+    if (!validator.isArray(identifiers)) {
+      return Promise.reject(new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT, '"identifiers" must be an array.'));
+    }
+    const batches: UserIdentifier[][] = [];
+    for (let i = 0; i < identifiers.length; i += MAX_GET_USERS_BATCH_SIZE) {
+      batches.push(identifiers.slice(i, i + MAX_GET_USERS_BATCH_SIZE));
+    }
+    const users: UserRecord[] = [];
+    // Look up each batch sequentially to avoid exceeding the backend quota.
+    return batches.reduce((previous: Promise<void>, batch: UserIdentifier[]) => {
+      return previous
+        .then(() => this.authRequestHandler.getAccountInfoByIdentifiers(batch))
+        .then((response: any) => {
+          response.users.forEach((userResponse: any) => {
+            users.push(new UserRecord(userResponse));
+          });
+        });
+    }, Promise.resolve())
+      .then(() => {
+        const notFound = identifiers.filter((id) => !BaseAuth.isUserFound(id, users));
+        return {users, notFound};
+      });
+  }
+
   /**
    * Exports a batch of user accounts. Batch size is determined by the maxResults argument.
    * Starting point of the batch is determined by the pageToken argument.
@@ -229,6 +434,124 @@ export class BaseAuth<T extends AbstractAuthRequestHandler> {
       });
   }
 
+  /**
+   * Returns an AsyncIterable over all the user accounts. Users are downloaded lazily in pages of
+   * the requested size, with the next page only fetched once the current page has been consumed.
+   *
+   * @param {PageIteratorOptions=} options The optional iteration options, including the page
+   *     size (1000 if undefined, which is also the maximum allowed limit).
+   * @return {AsyncIterable<UserRecord>} An AsyncIterable over all the user records.
+   */
+  public iterateUsers(options?: PageIteratorOptions): AsyncIterable<UserRecord> {
+    const pageSize = options ? options.pageSize : undefined;
+    return new PageIterable<UserRecord>((pageToken?: string) => {
+      return this.listUsers(pageSize, pageToken)
+        .then((result) => ({items: result.users, pageToken: result.pageToken}));
+    });
+  }
+
+  /**
+   * Finds the users matching a filter. When the filter specifies a uid, an email or a phone
+   * number, the user is looked up by the backend. Otherwise the user accounts are downloaded
+   * page by page and matched locally. The scan can be bounded with the maxPages option, and
+   * resumed from the returned page token.
+   *
+   * @param {UserQueryFilter} filter The filter the users must match.
+   * @param {UserQueryOptions=} options The query options.
+   * @return {Promise<QueryUsersResult>} A promise that resolves with the matching users, the
+   *     number of scanned users and, when the scan stopped early, the page token to resume from.
+   */
+  public queryUsers(filter: UserQueryFilter, options: UserQueryOptions = {}): Promise<QueryUsersResult> {
+    try {
+      validateUserQueryFilter(filter);
+      validateUserQueryOptions(options);
+    } catch (e) {
+      return Promise.reject(e);
+    }
+    const matches = createUserQueryMatcher(filter);
+    const identifier = getUserQueryLookupIdentifier(filter);
+    if (identifier !== null) {
+      return this.getUsers([identifier])
+        .then((result) => {
+          const users = result.users.filter(matches);
+          if (options.onProgress) {
+            options.onProgress({scannedCount: result.users.length, matchedCount: users.length});
+          }
+          return {users, scannedCount: result.users.length};
+        });
+    }
+
+    const matchingUsers: UserRecord[] = [];
+    let scannedCount = 0;
+    let scannedPages = 0;
+    const scan = (pageToken?: string): Promise<QueryUsersResult> => {
+      return this.listUsers(options.pageSize, pageToken)
+        .then((page) => {
+          scannedCount += page.users.length;
+          scannedPages++;
+          page.users.forEach((user) => {
+            if (matches(user)) {
+              matchingUsers.push(user);
+            }
+          });
+          if (options.onProgress) {
+            options.onProgress({scannedCount, matchedCount: matchingUsers.length, pageToken: page.pageToken});
+          }
+          if (typeof page.pageToken === 'undefined') {
+            return {users: matchingUsers, scannedCount};
+          }
+          if (typeof options.maxPages !== 'undefined' && scannedPages >= options.maxPages) {
+            return {users: matchingUsers, scannedCount, pageToken: page.pageToken};
+          }
+          return scan(page.pageToken);
+        });
+    };
+    return scan(options.pageToken);
+  }
+
+  /**
+   * Exports all the user accounts to a Readable stream, in a format that can be parsed back into
+   * user import records with parseUserExport(). Users are downloaded as the stream is consumed.
+   *
+   * @param {UserExportOptions=} options The user export options.
+   * @return {Readable} A stream of the exported users.
+   */
+  public exportUsers(options: UserExportOptions = {}): Readable {
+    validateUserExportOptions(options);
+    if (options.includeTenants) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        '"UserExportOptions.includeTenants" is only supported by the project level Auth instance.',
+      );
+    }
+    return new UserExportStream([this.iterateUsers({pageSize: options.pageSize})], options.format);
+  }
+
+  /**
+   * Parses the content of a user export into user import records, so that the exported users can
+   * be imported with importUsers().
+   *
+   * @param {string} data The content of the user export.
+   * @param {UserExportFormat=} format The format of the export. Defaults to JSON.
+   * @return {UserImportRecord[]} The exported users as user import records.
+   */
+  public parseUserExport(data: string, format?: UserExportFormat): UserImportRecord[] {
+    return parseUserExport(data, format);
+  }
+
+  /**
+   * Parses the content of a user export into user import records grouped by the tenant they were
+   * exported from, so that the users of an export including tenants can be imported back into
+   * their tenants.
+   *
+   * @param {string} data The content of the user export.
+   * @param {UserExportFormat=} format The format of the export. Defaults to JSON.
+   * @return {UserExportTenantGroup[]} The exported users grouped by tenant.
+   */
+  public parseUserExportByTenant(data: string, format?: UserExportFormat): UserExportTenantGroup[] {
+    return parseUserExportByTenant(data, format);
+  }
+
   /**
    * Creates a new user with the properties provided.
    *
@@ -266,6 +589,62 @@ export class BaseAuth<T extends AbstractAuthRequestHandler> {
       });
   }
 
+  /**
+   * Deletes the users specified by the given uids.
+   *
+   * Deleting a non-existing user won't generate an error (i.e. this method is idempotent).
+   * Non-existing users are considered to be successfully deleted, and are therefore counted in
+   * the `DeleteUsersResult.successCount` value.
+   *
+   * The uids are deleted in batches of up to 1000 uids per backend request, with larger lists
+   * split into multiple sequential requests. Error indices always refer to the position of the
+   * uid in the provided list.
+   *
+   * @param {string[]} uids The uids corresponding to the users to delete.
+   * @return {Promise<DeleteUsersResult>} A promise that resolves to the total number of successful/failed
+   *     deletions, as well as the array of errors that correspond to the failed deletions.
+   */
+  public deleteUsers(uids: string[]): Promise<DeleteUsersResult> {
+    if (!validator.isArray(uids)) {
+      return Promise.reject(new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT, '"uids" must be an array.'));
+    }
+    // Validate all the uids upfront, so that an invalid uid in a later batch does not reject after
+    // the earlier batches were deleted.
+    for (const uid of uids) {
+      if (!validator.isUid(uid)) {
+        return Promise.reject(new FirebaseAuthError(AuthClientErrorCode.INVALID_UID));
+      }
+    }
+    const result: DeleteUsersResult = {
+      failureCount: 0,
+      successCount: 0,
+      errors: [],
+    };
+    const batches: string[][] = [];
+    for (let i = 0; i < uids.length; i += MAX_DELETE_USERS_BATCH_SIZE) {
+      batches.push(uids.slice(i, i + MAX_DELETE_USERS_BATCH_SIZE));
+    }
+    // Delete each batch sequentially to avoid exceeding the backend quota.
+    return batches.reduce((previous: Promise<void>, batch: string[], batchIndex: number) => {
+      return previous
+        .then(() => this.authRequestHandler.deleteAccounts(batch))
+        .then((response: BatchDeleteAccountsResponse) => {
+          const errors = response.errors || [];
+          errors.forEach((batchDeleteErrorInfo) => {
+            result.errors.push({
+              // Map the batch index to the original developer provided array index.
+              index: batchIndex * MAX_DELETE_USERS_BATCH_SIZE + batchDeleteErrorInfo.index,
+              error: FirebaseAuthError.fromServerError(batchDeleteErrorInfo.message),
+            });
+          });
+          result.failureCount += errors.length;
+          result.successCount += batch.length - errors.length;
+        });
+    }, Promise.resolve())
+      .then(() => result);
+  }
+
   /**
    * Updates an existing user with the properties provided.
    *
@@ -283,19 +662,114 @@ export class BaseAuth<T extends AbstractAuthRequestHandler> {
 
   /**
    * Sets additional developer claims on an existing user identified by the provided UID.
+   * The claims are validated locally, and by the custom claims validator when set, before
+   * being sent to the Auth backend.
    *
    * @param {string} uid The user to edit.
-   * @param {object} customUserClaims The developer claims to set.
+   * @param {C|null} customUserClaims The developer claims to set, or null to delete them.
    * @return {Promise<void>} A promise that resolves when the operation completes
    *     successfully.
    */
-  public setCustomUserClaims(uid: string, customUserClaims: object): Promise<void> {
-    return this.authRequestHandler.setCustomUserClaims(uid, customUserClaims)
+  public setCustomUserClaims(uid: string, customUserClaims: C | null): Promise<void> {
+    // Invalid arguments and deletions are left to the request handler.
+    if (!validator.isNonNullObject(customUserClaims)) {
+      return this.authRequestHandler.setCustomUserClaims(uid, customUserClaims)
+        .then((existingUid) => {
+          // Return nothing on success.
+        });
+    }
+    try {
+      validateCustomClaims(customUserClaims);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+    const validated = this.customClaimsValidator ?
+      runCustomClaimsValidator(this.customClaimsValidator, customUserClaims) : Promise.resolve();
+    return validated
+      .then(() => this.authRequestHandler.setCustomUserClaims(uid, customUserClaims))
       .then((existingUid) => {
         // Return nothing on success.
       });
   }
 
+  /**
+   * Updates the developer claims of an existing user identified by the provided UID, by merging
+   * the provided claims into the current ones or by applying the provided updater function to
+   * them. Undefined values in the merged claims delete the corresponding claims.
+   *
+   * As the Auth backend does not support conditional writes, the current claims are read again
+   * right before writing the updated ones, and the update is retried when they were modified in
+   * the meantime. This narrows, but does not close, the window for concurrent updates.
+   *
+   * @param {string} uid The user to edit.
+   * @param {CustomClaimsUpdate<C>} update The claims to merge, or the updater function.
+   * @param {UpdateCustomClaimsOptions=} options The optional update options.
+   * @return {Promise<C>} A promise that resolves with the updated claims.
+   */
+  public updateCustomUserClaims(
+      uid: string, update: CustomClaimsUpdate<C>, options: UpdateCustomClaimsOptions = {}): Promise<C> {
+    try {
+      validateUpdateCustomClaimsOptions(options);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+    const maxRetries = typeof options.maxRetries === 'undefined' ? 3 : options.maxRetries;
+    const attemptUpdate = (retries: number): Promise<C> => {
+      let currentClaims: C;
+      let updatedClaims: C;
+      return this.getUser(uid)
+        .then((user) => {
+          currentClaims = (user.customClaims || {}) as C;
+          return applyCustomClaimsUpdate(currentClaims, update);
+        })
+        .then((claims) => {
+          updatedClaims = claims;
+          if (JSON.stringify(updatedClaims) === JSON.stringify(currentClaims)) {
+            // Nothing to write.
+            return updatedClaims;
+          }
+          return this.getUser(uid)
+            .then((user) => {
+              if (JSON.stringify(user.customClaims || {}) !== JSON.stringify(currentClaims)) {
+                if (retries >= maxRetries) {
+                  throw new FirebaseAuthError(
+                    AuthClientErrorCode.CLAIMS_UPDATE_CONFLICT,
+                    `The custom claims of user "${uid}" were modified concurrently ` +
+                    `${retries + 1} times while being updated.`,
+                  );
+                }
+                return attemptUpdate(retries + 1);
+              }
+              return this.setCustomUserClaims(uid, updatedClaims)
+                .then(() => updatedClaims);
+            });
+        });
+    };
+    return attemptUpdate(0);
+  }
+
+  /**
+   * Sets the function used to validate custom claims before they are set on a user by
+   * setCustomUserClaims(). The claims are rejected with an auth/invalid-claims error when the
+   * validator throws or returns a rejected promise.
+   *
+   * The validator is set on this instance, which is cached and shared by all the callers of the
+   * same app (or tenant) whatever the custom claims type they use. It must therefore accept the
+   * claims of all these callers.
+   *
+   * @param {CustomClaimsValidator<C>|null} claimsValidator The custom claims validator, or null
+   *     to remove the current one.
+   */
+  public setCustomClaimsValidator(claimsValidator: CustomClaimsValidator<C> | null): void {
+    if (claimsValidator !== null && typeof claimsValidator !== 'function') {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        'The custom claims validator must be a function or null.',
+      );
+    }
+    this.customClaimsValidator = claimsValidator;
+  }
+
   /**
    * Revokes all refresh tokens for the specified user identified by the provided UID.
    * In addition to revoking all refresh tokens for a user, all ID tokens issued before
@@ -331,6 +805,57 @@ export class BaseAuth<T extends AbstractAuthRequestHandler> {
     return this.authRequestHandler.uploadAccount(users, options);
   }
 
+  /**
+   * Imports an arbitrarily large iterable, async iterable or object mode stream of users. The
+   * users are split into batches imported with bounded concurrency, and a 'progress' event is
+   * emitted after each batch. The aggregated result, whose error indices refer to the position of
+   * the users in the source, is available via the result promise of the returned BulkUserImport.
+   *
+   * @param {UserImportSource} users The users to import to Firebase Auth.
+   * @param {UserImportOptions=} options The user import options, required when the users provided
+   *     include password credentials.
+   * @param {BulkUserImportOptions=} bulkOptions The batch size and concurrency options.
+   * @return {BulkUserImport} The bulk user import, which starts immediately.
+   */
+  public bulkImportUsers(
+      users: UserImportSource, options?: UserImportOptions,
+      bulkOptions?: BulkUserImportOptions): BulkUserImport {
+    return new BulkUserImport(users, (batch) => this.importUsers(batch, options), bulkOptions);
+  }
+
+  /**
+   * Creates a helper applying the same update, such as disabling the users or verifying their
+   * emails, or revoking the refresh tokens of a list of users. The operations are rate limited and
+   * retried when rejected because the project quota is exceeded.
+   *
+   * @param {BulkUserOperationsOptions=} options The rate limiting and retry options.
+   * @return {BulkUserOperations} The bulk user operations.
+   */
+  public createBulkUserOperations(options: BulkUserOperationsOptions = {}): BulkUserOperations {
+    return new BulkUserOperations(
+      // The updated user records are not looked up, as that would double the quota usage.
+      (uid, properties) => this.authRequestHandler.updateExistingAccount(uid, properties),
+      (uid) => this.revokeRefreshTokens(uid),
+      options);
+  }
+
+  /**
+   * Verifies locally that the password hash of a user import record matches a known plaintext
+   * password when hashed with the provided user import options. This allows the hash options to
+   * be checked before importing users, as a wrong key or round count would otherwise lock out
+   * every imported user. BCRYPT hashes require the "bcrypt" npm package and scrypt hashes require
+   * Node.js 10.5.0 or higher.
+   *
+   * @param {string} password The known plaintext password of the user.
+   * @param {UserImportRecord} user The user import record, including the password hash and salt.
+   * @param {UserImportOptions} options The user import options to check.
+   * @return {Promise<boolean>} A promise that resolves with whether the password hash matches.
+   */
+  public verifyPasswordHash(
+      password: string, user: UserImportRecord, options: UserImportOptions): Promise<boolean> {
+    return new PasswordHashVerifier().verify(password, user, options);
+  }
+
   /**
    * Creates a new Firebase session cookie with the specified options that can be used for
    * session management (set as a server side session cookie with custom cookie policy).
@@ -350,7 +875,15 @@ export class BaseAuth<T extends AbstractAuthRequestHandler> {
       return Promise.reject(new FirebaseAuthError(AuthClientErrorCode.INVALID_SESSION_COOKIE_DURATION));
     }
     return this.authRequestHandler.createSessionCookie(
-      idToken, sessionCookieOptions.expiresIn);
+      idToken, sessionCookieOptions.expiresIn)
+      .then((sessionCookie) => {
+        // Record the session when the sessions are tracked individually.
+        if (!this.sessionRegistry) {
+          return sessionCookie;
+        }
+        return this.sessionRegistry.recordSession(sessionCookie)
+          .then(() => sessionCookie);
+      });
   }
 
   /**
@@ -360,15 +893,25 @@ export class BaseAuth<T extends AbstractAuthRequestHandler> {
    * user's session was invalidated, an auth/session-cookie-revoked error is thrown. If not
    * specified the check is not performed.
    *
+   * When a session store is set, session cookies whose session was revoked with revokeSession()
+   * are also rejected with an auth/session-cookie-revoked error, regardless of checkRevoked.
+   *
    * @param {string} sessionCookie The session cookie to verify.
    * @param {boolean=} checkRevoked Whether to check if the session cookie is revoked.
-   * @return {Promise<DecodedIdToken>} A Promise that will be fulfilled after a successful
+   * @return {Promise<DecodedIdToken & C>} A Promise that will be fulfilled after a successful
    *     verification.
    */
   public verifySessionCookie(
-      sessionCookie: string, checkRevoked: boolean = false): Promise<DecodedIdToken> {
-    return this.sessionCookieVerifier.verifyJWT(sessionCookie)
-      .then((decodedIdToken: DecodedIdToken) => {
+      sessionCookie: string, checkRevoked: boolean = false): Promise<DecodedIdToken & C> {
+    return this.sessionCookieVerifier.verifyJWT(sessionCookie, useEmulator())
+      .then((decodedIdToken: DecodedIdToken & C) => {
+        if (!this.sessionRegistry) {
+          return decodedIdToken;
+        }
+        return this.sessionRegistry.checkSessionNotRevoked(sessionCookie, decodedIdToken)
+          .then(() => decodedIdToken);
+      })
+      .then((decodedIdToken: DecodedIdToken & C) => {
         // Whether to check if the token was revoked.
         if (!checkRevoked) {
           return decodedIdToken;
@@ -379,6 +922,98 @@ export class BaseAuth<T extends AbstractAuthRequestHandler> {
       });
   }
 
+  /**
+   * Sets the store used to record the session cookies issued by createSessionCookie(), which
+   * allows the sessions of a user to be listed and revoked individually. Only the session
+   * cookies created after the store is set are recorded.
+   *
+   * @param {SessionStore|null} store The session store, or null to stop tracking sessions.
+   */
+  public setSessionStore(store: SessionStore | null): void {
+    this.sessionRegistry = store === null ? null : this.createSessionRegistry(store);
+  }
+
+  /**
+   * Lists the active sessions of a user, recorded in the session store. Expired and revoked
+   * sessions are not included.
+   *
+   * @param {string} uid The uid of the user whose sessions are to be listed.
+   * @return {Promise<SessionRecord[]>} A promise that resolves with the active sessions of the
+   *     user, sorted by issue time.
+   */
+  public listSessions(uid: string): Promise<SessionRecord[]> {
+    return this.getSessionRegistry()
+      .then((sessionRegistry) => sessionRegistry.listSessions(uid));
+  }
+
+  /**
+   * Revokes an individual session of a user. Subsequent verifications of the session cookies of
+   * the session are rejected with an auth/session-cookie-revoked error. The other sessions of
+   * the user are not affected.
+   *
+   * @param {string} uid The uid of the user whose session is to be revoked.
+   * @param {string} sessionId The ID of the session to revoke.
+   * @return {Promise<void>} A promise that resolves once the session is revoked.
+   */
+  public revokeSession(uid: string, sessionId: string): Promise<void> {
+    return this.getSessionRegistry()
+      .then((sessionRegistry) => sessionRegistry.revokeSession(uid, sessionId));
+  }
+
+  /**
+   * Returns the ID of the session of a session cookie, which can be used to tell the current
+   * session apart from the ones returned by listSessions().
+   *
+   * @param {string} sessionCookie The session cookie.
+   * @return {string} The session ID.
+   */
+  public getSessionId(sessionCookie: string): string {
+    if (!validator.isNonEmptyString(sessionCookie)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        'The session cookie must be a non-empty string.',
+      );
+    }
+    return SessionRegistry.getSessionId(sessionCookie);
+  }
+
+  /**
+   * Creates an authenticator of incoming HTTP requests, which verifies the ID token of the
+   * Authorization header or the session cookie of the cookie header with this Auth instance.
+   *
+   * @param {RequestAuthenticatorOptions=} options The authenticator options.
+   * @return {RequestAuthenticator<C>} The request authenticator, which provides adapters for
+   *     Node.js http servers and Connect-style middleware.
+   */
+  public createRequestAuthenticator(options: RequestAuthenticatorOptions = {}): RequestAuthenticator<C> {
+    return new RequestAuthenticator<C>(this, options);
+  }
+
+  /**
+   * Verifies an ID token issued by the OIDC provider corresponding to the provider ID passed.
+   * The provider configuration is looked up to determine the expected issuer and client ID, and
+   * the public keys are discovered from the issuer's OpenID Connect discovery document. The format
+   * of the token is checked before any network call, and the provider configurations are cached
+   * for a few minutes.
+   *
+   * @param {string} providerId The provider ID of the OIDC provider which issued the token.
+   * @param {string} idToken The OIDC provider ID token to verify.
+   * @return {Promise<DecodedProviderIdToken>} A Promise that will be fulfilled with the decoded
+   *     claims after a successful verification.
+   */
+  public verifyProviderIdToken(providerId: string, idToken: string): Promise<DecodedProviderIdToken> {
+    if (!OIDCConfig.isProviderId(providerId)) {
+      return Promise.reject(new FirebaseAuthError(AuthClientErrorCode.INVALID_PROVIDER_ID));
+    }
+    try {
+      decodeProviderIdTokenHeader(idToken);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+    return this.getProviderIdTokenVerifier(providerId)
+      .then((verifier) => verifier.verifyJWT(idToken));
+  }
+
   /**
    * Generates the out of band email action link for password reset flows for the
    * email specified using the action code settings provided.
@@ -424,6 +1059,78 @@ export class BaseAuth<T extends AbstractAuthRequestHandler> {
     return this.authRequestHandler.getEmailActionLink('EMAIL_SIGNIN', email, actionCodeSettings);
   }
 
+  /**
+   * Generates the out of band email action link for email change flows. Once the link is
+   * followed, the email of the user is changed to the new email, which is verified at the same
+   * time. The link should therefore be sent to the new email.
+   * Returns a promise that resolves with the generated link.
+   *
+   * @param {string} email The current email of the user.
+   * @param {string} newEmail The email address the user's email is to be changed to.
+   * @param {ActionCodeSettings=} actionCodeSettings The optional action code setings which defines whether
+   *     the link is to be handled by a mobile app and the additional state information to be passed in the
+   *     deep link, etc.
+   * @return {Promise<string>} A promise that resolves with the email change link.
+   */
+  public generateVerifyAndChangeEmailLink(
+      email: string, newEmail: string, actionCodeSettings?: ActionCodeSettings): Promise<string> {
+    return this.authRequestHandler.getEmailActionLink(
+      'VERIFY_AND_CHANGE_EMAIL', email, actionCodeSettings, newEmail);
+  }
+
+  /**
+   * Generates the out of band email action link for email recovery flows for the email specified,
+   * which allows a user to revert a change of their email back to it.
+   * Returns a promise that resolves with the generated link.
+   *
+   * @param {string} email The email to be recovered, which the link is to be sent to.
+   * @param {ActionCodeSettings=} actionCodeSettings The optional action code setings which defines whether
+   *     the link is to be handled by a mobile app and the additional state information to be passed in the
+   *     deep link, etc.
+   * @return {Promise<string>} A promise that resolves with the email recovery link.
+   */
+  public generateRecoverEmailLink(email: string, actionCodeSettings?: ActionCodeSettings): Promise<string> {
+    return this.authRequestHandler.getEmailActionLink('RECOVER_EMAIL', email, actionCodeSettings);
+  }
+
+  /**
+   * Checks an out of band email action code without applying it.
+   *
+   * @param {string} oobCode The action code to check.
+   * @return {Promise<ActionCodeInfo>} A promise that resolves with the information of the action code.
+   */
+  public checkActionCode(oobCode: string): Promise<ActionCodeInfo> {
+    return this.authRequestHandler.checkActionCode(oobCode)
+      .then((response) => BaseAuth.toActionCodeInfo(response));
+  }
+
+  /**
+   * Applies an out of band email action code, such as the code of an email verification link.
+   *
+   * @param {string} oobCode The action code to apply.
+   * @return {Promise<void>} A promise that resolves when the action code is applied.
+   */
+  public applyActionCode(oobCode: string): Promise<void> {
+    return this.authRequestHandler.applyActionCode(oobCode)
+      .then(() => {
+        // Return nothing on success.
+      });
+  }
+
+  /**
+   * Completes a password reset flow by setting the new password of the user a password reset
+   * code was issued for.
+   *
+   * @param {string} oobCode The password reset code.
+   * @param {string} newPassword The new password of the user.
+   * @return {Promise<ActionCodeInfo>} A promise that resolves with the information of the password
+   *     reset code once the password is reset.
+   */
+  public confirmPasswordReset(oobCode: string, newPassword: string): Promise<ActionCodeInfo> {
+    return this.authRequestHandler.confirmPasswordReset(oobCode, newPassword)
+      .then((response) => BaseAuth.toActionCodeInfo(response));
+  }
+
   /**
    * Returns the list of existing provider configuation matching the filter provided.
    * At most, 100 provider configs are allowed to be imported at a time.
@@ -475,6 +1182,28 @@ export class BaseAuth<T extends AbstractAuthRequestHandler> {
           `"AuthProviderConfigFilter.type" must be either "saml' or "oidc"`));
   }
 
+  /**
+   * Returns an AsyncIterable over all the provider configurations of the type specified.
+   * Configurations are downloaded lazily in pages of the requested size, with the next page only
+   * fetched once the current page has been consumed.
+   *
+   * @param {AuthProviderConfigIteratorOptions} options The iteration options, including the
+   *     provider type and the optional page size (100 if undefined, which is also the maximum
+   *     allowed limit).
+   * @return {AsyncIterable<AuthProviderConfig>} An AsyncIterable over the provider configurations.
+   */
+  public iterateProviderConfigs(options: AuthProviderConfigIteratorOptions): AsyncIterable<AuthProviderConfig> {
+    return new PageIterable<AuthProviderConfig>((pageToken?: string) => {
+      const filter: AuthProviderConfigFilter = {
+        type: options ? options.type : undefined,
+        maxResults: options ? options.pageSize : undefined,
+        pageToken,
+      };
+      return this.listProviderConfigs(filter)
+        .then((result) => ({items: result.providerConfigs, pageToken: result.pageToken}));
+    });
+  }
+
   /**
    * Looks up an Auth provider configuration by ID.
    * Returns a promise that resolves with the provider configuration corresponding to the provider ID specified.
@@ -505,6 +1234,7 @@ export class BaseAuth<T extends AbstractAuthRequestHandler> {
    */
   public deleteProviderConfig(providerId: string): Promise<void> {
     if (OIDCConfig.isProviderId(providerId)) {
+      delete this.providerIdTokenVerifiers[providerId];
       return this.authRequestHandler.deleteOAuthIdpConfig(providerId);
     } else if (SAMLConfig.isProviderId(providerId)) {
       return this.authRequestHandler.deleteInboundSamlConfig(providerId);
@@ -529,6 +1259,7 @@ export class BaseAuth<T extends AbstractAuthRequestHandler> {
       ));
     }
     if (OIDCConfig.isProviderId(providerId)) {
+      delete this.providerIdTokenVerifiers[providerId];
       return this.authRequestHandler.updateOAuthIdpConfig(providerId, updatedConfig)
         .then((response) => {
           return new OIDCConfig(response);
@@ -569,6 +1300,146 @@ export class BaseAuth<T extends AbstractAuthRequestHandler> {
     return Promise.reject(new FirebaseAuthError(AuthClientErrorCode.INVALID_PROVIDER_ID));
   }
 
+  /**
+   * Reconciles the SAML and OIDC provider configurations with the desired ones. The desired
+   * providers which do not exist are created, and the existing ones are updated with the desired
+   * fields which differ from their current values. The existing providers which are not desired
+   * are only deleted when pruning. The changes are applied one at a time, creations first, and
+   * the returned promise is rejected on the first failure. The plan of the changes applied before
+   * the failure is then attached to the error as its partialResult property.
+   *
+   * @param {AuthProviderConfig[]} desired The complete desired provider configurations.
+   * @param {ApplyProviderConfigsOptions=} options The pruning and dry run options.
+   * @return {Promise<ProviderConfigPlan>} A promise that resolves with the planned changes, once
+   *     applied unless this is a dry run.
+   */
+  public applyProviderConfigs(
+      desired: AuthProviderConfig[], options: ApplyProviderConfigsOptions = {}): Promise<ProviderConfigPlan> {
+    try {
+      validateDesiredProviderConfigs(desired);
+      validateApplyProviderConfigsOptions(options);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+    return Promise.all([this.listAllProviderConfigs('saml'), this.listAllProviderConfigs('oidc')])
+      .then(([samlConfigs, oidcConfigs]) => {
+        const plan = planProviderConfigChanges(desired, samlConfigs.concat(oidcConfigs), !!options.prune);
+        if (options.dryRun) {
+          return plan;
+        }
+        const applied: ProviderConfigPlan = {changes: [], unchangedProviderIds: plan.unchangedProviderIds};
+        return plan.changes
+          .reduce((previous, change) => {
+            return previous
+              .then(() => this.applyProviderConfigChange(change))
+              .then(() => {
+                applied.changes.push(change);
+              });
+          }, Promise.resolve())
+          .then(() => plan)
+          .catch((error) => {
+            if (validator.isNonNullObject(error)) {
+              error.partialResult = applied;
+            }
+            throw error;
+          });
+      });
+  }
+
+  /**
+   * @param {SessionStore} store The session store.
+   * @return {SessionRegistry} The session registry recording the sessions of this instance's users.
+   */
+  protected createSessionRegistry(store: SessionStore): SessionRegistry {
+    return new SessionRegistry(store);
+  }
+
+  /**
+   * @return {Promise<SessionRegistry>} A promise that resolves with the session registry, or is
+   *     rejected when no session store is set.
+   */
+  private getSessionRegistry(): Promise<SessionRegistry> {
+    if (!this.sessionRegistry) {
+      return Promise.reject(new FirebaseAuthError(
+        AuthClientErrorCode.OPERATION_NOT_ALLOWED,
+        'A session store must be set with setSessionStore() to manage individual sessions.',
+      ));
+    }
+    return Promise.resolve(this.sessionRegistry);
+  }
+
+  /**
+   * Looks up the verifier of the ID tokens of an OIDC provider, using the cached provider
+   * configuration while it is fresh. The verifier, and the public keys it caches, are reused while
+   * the issuer and client ID of the configuration are unchanged. The least recently fetched
+   * configuration is evicted when the cache is full.
+   *
+   * @param {string} providerId The provider ID of the OIDC provider.
+   * @return {Promise<ProviderIdTokenVerifier>} A promise that resolves with the verifier.
+   */
+  private getProviderIdTokenVerifier(providerId: string): Promise<ProviderIdTokenVerifier> {
+    const cached = this.providerIdTokenVerifiers.hasOwnProperty(providerId) ?
+      this.providerIdTokenVerifiers[providerId] : undefined;
+    if (cached && cached.expiresAt > Date.now()) {
+      return Promise.resolve(cached.verifier);
+    }
+    return this.getProviderConfig(providerId)
+      .then((config: OIDCConfig) => {
+        delete this.providerIdTokenVerifiers[providerId];
+        if (!config.enabled) {
+          throw new FirebaseAuthError(
+            AuthClientErrorCode.OPERATION_NOT_ALLOWED,
+            `The OIDC provider "${providerId}" is disabled.`,
+          );
+        }
+        const verifier = cached && cached.issuer === config.issuer && cached.clientId === config.clientId ?
+          cached.verifier : new ProviderIdTokenVerifier(config.issuer, config.clientId, this.publicKeyCache);
+        const providerIds = Object.keys(this.providerIdTokenVerifiers);
+        if (providerIds.length >= MAX_PROVIDER_CONFIG_CACHE_SIZE) {
+          delete this.providerIdTokenVerifiers[providerIds[0]];
+        }
+        this.providerIdTokenVerifiers[providerId] = {
+          issuer: config.issuer,
+          clientId: config.clientId,
+          verifier,
+          expiresAt: Date.now() + PROVIDER_CONFIG_CACHE_TTL_MILLIS,
+        };
+        return verifier;
+      });
+  }
+
+  /**
+   * @param {'saml'|'oidc'} type The type of the provider configurations to list.
+   * @param {string=} pageToken The page token of the next page to list.
+   * @param {AuthProviderConfig[]=} providerConfigs The provider configurations listed so far.
+   * @return {Promise<AuthProviderConfig[]>} A promise that resolves with all the provider
+   *     configurations of the type.
+   */
+  private listAllProviderConfigs(
+      type: 'saml' | 'oidc', pageToken?: string,
+      providerConfigs: AuthProviderConfig[] = []): Promise<AuthProviderConfig[]> {
+    return this.listProviderConfigs({type, pageToken})
+      .then((result) => {
+        const listed = providerConfigs.concat(result.providerConfigs);
+        return result.pageToken ? this.listAllProviderConfigs(type, result.pageToken, listed) : listed;
+      });
+  }
+
+  /**
+   * @param {ProviderConfigChange} change The provider configuration change to apply.
+   * @return {Promise<void>} A promise that resolves once the change is applied.
+   */
+  private applyProviderConfigChange(change: ProviderConfigChange): Promise<void> {
+    let applied: Promise<any>;
+    if (change.action === 'create') {
+      applied = this.createProviderConfig(change.request as AuthProviderConfig);
+    } else if (change.action === 'update') {
+      applied = this.updateProviderConfig(change.providerId, change.request);
+    } else {
+      applied = this.deleteProviderConfig(change.providerId);
+    }
+    return applied.then(() => undefined);
+  }
 
   /**
    * Verifies the decoded Firebase issued JWT is not revoked. Returns a promise that resolves
@@ -580,8 +1451,8 @@ export class BaseAuth<T extends AbstractAuthRequestHandler> {
    * @return {Promise<DecodedIdToken>} A Promise that will be fulfilled after a successful
    *     verification.
    */
-  private verifyDecodedJWTNotRevoked(
-      decodedIdToken: DecodedIdToken, revocationErrorInfo: ErrorInfo): Promise<DecodedIdToken> {
+  private verifyDecodedJWTNotRevoked<D extends DecodedIdToken>(
+      decodedIdToken: D, revocationErrorInfo: ErrorInfo): Promise<D> {
     // Get tokens valid after time for the corresponding user.
     return this.getUser(decodedIdToken.sub)
       .then((user: UserRecord) => {
@@ -606,7 +1477,7 @@ export class BaseAuth<T extends AbstractAuthRequestHandler> {
 /**
  * The tenant aware Auth class.
  */
-export class TenantAwareAuth extends BaseAuth<TenantAwareAuthRequestHandler> {
+export class TenantAwareAuth<C extends object = object> extends BaseAuth<TenantAwareAuthRequestHandler, C> {
   public readonly tenantId: string;
 
   /**
@@ -620,7 +1491,9 @@ export class TenantAwareAuth extends BaseAuth<TenantAwareAuthRequestHandler> {
     super(
         utils.getProjectId(app),
         new TenantAwareAuthRequestHandler(app, tenantId),
-        cryptoSignerFromApp(app));
+        cryptoSignerFromApp(app),
+        app.options.publicKeyCache,
+        app.options.authPublicKeys);
     utils.addReadonlyGetter(this, 'tenantId', tenantId);
   }
 
@@ -630,10 +1503,12 @@ export class TenantAwareAuth extends BaseAuth<TenantAwareAuthRequestHandler> {
    *
    * @param {string} uid The uid to use as the JWT subject.
    * @param {object=} developerClaims Optional additional claims to include in the JWT payload.
+   * @param {CustomTokenOptions=} options Optional expiration and header settings of the JWT.
    *
    * @return {Promise<string>} A JWT for the provided payload.
    */
-  public createCustomToken(uid: string, developerClaims?: object): Promise<string> {
+  public createCustomToken(
+      uid: string, developerClaims?: object, options?: CustomTokenOptions): Promise<string> {
     // This is not yet supported by the Auth server. It is also not yet determined how this will be
     // supported.
     return Promise.reject(
@@ -649,10 +1524,10 @@ export class TenantAwareAuth extends BaseAuth<TenantAwareAuthRequestHandler> {
    *
    * @param {string} idToken The JWT to verify.
    * @param {boolean=} checkRevoked Whether to check if the ID token is revoked.
-   * @return {Promise<DecodedIdToken>} A Promise that will be fulfilled after a successful
+   * @return {Promise<DecodedIdToken & C>} A Promise that will be fulfilled after a successful
    *     verification.
    */
-  public verifyIdToken(idToken: string, checkRevoked: boolean = false): Promise<DecodedIdToken> {
+  public verifyIdToken(idToken: string, checkRevoked: boolean = false): Promise<DecodedIdToken & C> {
     return super.verifyIdToken(idToken, checkRevoked)
       .then((decodedClaims) => {
         // Validate tenant ID.
@@ -691,6 +1566,15 @@ export class TenantAwareAuth extends BaseAuth<TenantAwareAuthRequestHandler> {
       });
   }
 
+  /**
+   * @param {SessionStore} store The session store.
+   * @return {SessionRegistry} The session registry recording the sessions of the tenant's users,
+   *     which may share the store with other tenants.
+   */
+  protected createSessionRegistry(store: SessionStore): SessionRegistry {
+    return new SessionRegistry(store, this.tenantId);
+  }
+
   /**
    * Verifies a Firebase session cookie. Returns a Promise with the tokens claims. Rejects
    * the promise if the token could not be verified. If checkRevoked is set to true,
@@ -700,11 +1584,11 @@ export class TenantAwareAuth extends BaseAuth<TenantAwareAuthRequestHandler> {
    *
    * @param {string} sessionCookie The session cookie to verify.
    * @param {boolean=} checkRevoked Whether to check if the session cookie is revoked.
-   * @return {Promise<DecodedIdToken>} A Promise that will be fulfilled after a successful
+   * @return {Promise<DecodedIdToken & C>} A Promise that will be fulfilled after a successful
    *     verification.
    */
   public verifySessionCookie(
-      sessionCookie: string, checkRevoked: boolean = false): Promise<DecodedIdToken> {
+      sessionCookie: string, checkRevoked: boolean = false): Promise<DecodedIdToken & C> {
     return super.verifySessionCookie(sessionCookie, checkRevoked)
       .then((decodedClaims) => {
         if (decodedClaims.firebase.tenant !== this.tenantId) {
@@ -720,9 +1604,11 @@ export class TenantAwareAuth extends BaseAuth<TenantAwareAuthRequestHandler> {
  * Auth service bound to the provided app.
  * An Auth instance can have multiple tenants.
  */
-export class Auth extends BaseAuth<AuthRequestHandler> implements FirebaseServiceInterface {
+export class Auth<C extends object = object> extends BaseAuth<AuthRequestHandler, C>
+    implements FirebaseServiceInterface {
   public INTERNAL: AuthInternals = new AuthInternals();
   private readonly tenantManager_: TenantManager;
+  private readonly projectConfigManager_: ProjectConfigManager;
   private readonly app_: FirebaseApp;
 
   /**
@@ -749,9 +1635,12 @@ export class Auth extends BaseAuth<AuthRequestHandler> implements FirebaseServic
     super(
         Auth.getProjectId(app),
         new AuthRequestHandler(app),
-        cryptoSignerFromApp(app));
+        cryptoSignerFromApp(app),
+        app.options.publicKeyCache,
+        app.options.authPublicKeys);
     this.app_ = app;
     this.tenantManager_ = new TenantManager(app);
+    this.projectConfigManager_ = new ProjectConfigManager(app);
   }
 
   /**
@@ -763,8 +1652,39 @@ export class Auth extends BaseAuth<AuthRequestHandler> implements FirebaseServic
     return this.app_;
   }
 
+  /**
+   * Exports all the user accounts to a Readable stream. When includeTenants is set, the users of
+   * all the tenants are exported after the project level users.
+   *
+   * @param {UserExportOptions=} options The user export options.
+   * @return {Readable} A stream of the exported users.
+   */
+  public exportUsers(options: UserExportOptions = {}): Readable {
+    validateUserExportOptions(options);
+    if (!options.includeTenants) {
+      return super.exportUsers(options);
+    }
+    const pageOptions = {pageSize: options.pageSize};
+    const tenantUsers = new FlattenedIterable<UserRecord>(
+      new PageIterable<AsyncIterable<UserRecord>>((pageToken?: string) => {
+        return this.tenantManager_.listTenants(undefined, pageToken)
+          .then((result) => ({
+            items: result.tenants.map((tenant) => {
+              return this.tenantManager_.authForTenant(tenant.tenantId).iterateUsers(pageOptions);
+            }),
+            pageToken: result.pageToken,
+          }));
+      }));
+    return new UserExportStream([this.iterateUsers(pageOptions), tenantUsers], options.format);
+  }
+
   /** @return The current Auth instance's tenant manager. */
   public tenantManager(): TenantManager {
     return this.tenantManager_;
   }
+
+  /** @return The current Auth instance's project config manager. */
+  public projectConfigManager(): ProjectConfigManager {
+    return this.projectConfigManager_;
+  }
 }
@@ -0,0 +1,331 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {EventEmitter} from 'events';
+import {Readable} from 'stream';
+
+import * as validator from '../utils/validator';
+import {AuthClientErrorCode, FirebaseAuthError} from '../utils/error';
+import {UserImportRecord, UserImportResult} from './user-import-builder';
+
+/** Maximum number of users imported by a single uploadAccount request. */
+const MAX_BATCH_SIZE = 1000;
+
+/** Maximum number of uploadAccount requests in flight at any time. */
+const MAX_CONCURRENCY = 10;
+
+/** The sources of user import records accepted by a bulk user import. */
+export type UserImportSource =
+    Iterable<UserImportRecord> | AsyncIterable<UserImportRecord> | Readable;
+
+/** Options used to configure a bulk user import. */
+export interface BulkUserImportOptions {
+  /** The number of users imported per request. Defaults to the maximum of 1000. */
+  batchSize?: number;
+  /** The maximum number of concurrent import requests. Defaults to 1. */
+  maxConcurrency?: number;
+}
+
+/** The progress of a bulk user import, emitted after each imported batch. */
+export interface UserImportProgress {
+  /** The number of users processed so far, successfully or not. */
+  processedCount: number;
+  successCount: number;
+  failureCount: number;
+}
+
+/** Function that imports a single batch of users. */
+export type BatchImporter = (users: UserImportRecord[]) => Promise<UserImportResult>;
+
+/**
+ * Imports an arbitrarily large source of user import records by splitting it into batches which
+ * are imported with bounded concurrency. Records are only read from the source as batches are
+ * dispatched, so at most (maxConcurrency + 1) batches are held in memory at any time.
+ *
+ * A 'progress' event is emitted with a UserImportProgress after each imported batch. The
+ * aggregated UserImportResult, whose error indices refer to the position of the records in the
+ * source, is available via the result promise. If a batch cannot be imported at all, no further
+ * batches are dispatched and, once the batches in flight have completed, the result is rejected
+ * with the corresponding error. The result aggregated so far is attached to the error as its
+ * partialResult property, leaving out the users of the batch that could not be imported.
+ */
+export class BulkUserImport extends EventEmitter {
+  /** A promise that resolves with the aggregated result once all the users are processed. */
+  public readonly result: Promise<UserImportResult>;
+
+  private readonly iterator: AsyncIterator<UserImportRecord>;
+  private readonly batchSize: number;
+  private readonly maxConcurrency: number;
+  private readonly aggregated: UserImportResult = {successCount: 0, failureCount: 0, errors: []};
+  private readCount = 0;
+  private inFlight = 0;
+  private reading = false;
+  private exhausted = false;
+  private failure: Error;
+  private resolveResult: (result: UserImportResult) => void;
+  private rejectResult: (error: Error) => void;
+
+  /**
+   * @param {UserImportSource} users The source of the user import records.
+   * @param {BatchImporter} importBatch The function used to import each batch.
+   * @param {BulkUserImportOptions=} options The bulk import options.
+   * @constructor
+   */
+  constructor(
+      users: UserImportSource,
+      private readonly importBatch: BatchImporter,
+      options: BulkUserImportOptions = {}) {
+    super();
+    validateBulkUserImportOptions(options);
+    this.iterator = toAsyncIterator(users);
+    this.batchSize = options.batchSize || MAX_BATCH_SIZE;
+    this.maxConcurrency = options.maxConcurrency || 1;
+    this.result = new Promise<UserImportResult>((resolve, reject) => {
+      this.resolveResult = resolve;
+      this.rejectResult = reject;
+    });
+    this.dispatchBatches();
+  }
+
+  /**
+   * Reads and dispatches the next batch when below the concurrency limit, and settles the result
+   * once all the batches have completed.
+   */
+  private dispatchBatches(): void {
+    if (this.reading) {
+      return;
+    }
+    if (this.exhausted || typeof this.failure !== 'undefined') {
+      if (this.inFlight === 0) {
+        this.settle();
+      }
+      return;
+    }
+    if (this.inFlight >= this.maxConcurrency) {
+      return;
+    }
+    this.reading = true;
+    const startIndex = this.readCount;
+    this.readBatch([])
+      .then((batch) => {
+        this.reading = false;
+        this.readCount += batch.length;
+        if (batch.length > 0) {
+          this.importAndAggregate(batch, startIndex);
+        }
+        this.dispatchBatches();
+      })
+      .catch((error) => {
+        this.reading = false;
+        this.fail(error);
+        this.dispatchBatches();
+      });
+  }
+
+  /**
+   * Reads records from the source until the batch is full or the source is exhausted.
+   *
+   * @param {UserImportRecord[]} batch The records read so far.
+   * @return {Promise<UserImportRecord[]>} A promise that resolves with the batch.
+   */
+  private readBatch(batch: UserImportRecord[]): Promise<UserImportRecord[]> {
+    if (batch.length >= this.batchSize) {
+      return Promise.resolve(batch);
+    }
+    return this.iterator.next()
+      .then((result) => {
+        if (result.done) {
+          this.exhausted = true;
+          return batch;
+        }
+        batch.push(result.value);
+        return this.readBatch(batch);
+      });
+  }
+
+  /**
+   * Imports a batch and adds its result to the aggregated result.
+   *
+   * @param {UserImportRecord[]} batch The records to import.
+   * @param {number} startIndex The position of the first record of the batch in the source.
+   */
+  private importAndAggregate(batch: UserImportRecord[], startIndex: number): void {
+    this.inFlight++;
+    Promise.resolve()
+      .then(() => this.importBatch(batch))
+      .then((batchResult) => {
+        this.inFlight--;
+        this.aggregated.successCount += batchResult.successCount;
+        this.aggregated.failureCount += batchResult.failureCount;
+        batchResult.errors.forEach((indexedError) => {
+          // Map the batch index to the position of the record in the source.
+          this.aggregated.errors.push({index: startIndex + indexedError.index, error: indexedError.error});
+        });
+        const progress: UserImportProgress = {
+          processedCount: this.aggregated.successCount + this.aggregated.failureCount,
+          successCount: this.aggregated.successCount,
+          failureCount: this.aggregated.failureCount,
+        };
+        this.emit('progress', progress);
+      }, (error) => {
+        this.inFlight--;
+        this.fail(error);
+      })
+      // Errors thrown by the progress listeners also stop the import.
+      .catch((error) => this.fail(error))
+      .then(() => this.dispatchBatches());
+  }
+
+  /**
+   * Records the first failure, which stops any further batch from being dispatched.
+   *
+   * @param {Error} error The failure.
+   */
+  private fail(error: Error): void {
+    if (typeof this.failure === 'undefined') {
+      this.failure = error;
+    }
+  }
+
+  /**
+   * Settles the result promise with the aggregated result, sorting the errors by index. On failure,
+   * the aggregated result is attached to the error instead.
+   */
+  private settle(): void {
+    this.aggregated.errors.sort((a, b) => a.index - b.index);
+    if (typeof this.failure !== 'undefined') {
+      if (validator.isNonNullObject(this.failure)) {
+        (this.failure as any).partialResult = this.aggregated;
+      }
+      this.rejectResult(this.failure);
+      return;
+    }
+    this.resolveResult(this.aggregated);
+  }
+}
+
+/**
+ * Validates the options of a bulk user import. Throws an error on failure.
+ *
+ * @param {any} options The bulk user import options to validate.
+ */
+function validateBulkUserImportOptions(options: any) {
+  if (!validator.isNonNullObject(options)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      '"BulkUserImportOptions" must be a valid non-null object.',
+    );
+  }
+  if (typeof options.batchSize !== 'undefined' &&
+      !validator.isIntegerInRange(options.batchSize, 1, MAX_BATCH_SIZE)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      `"BulkUserImportOptions.batchSize" must be an integer between 1 and ${MAX_BATCH_SIZE}.`,
+    );
+  }
+  if (typeof options.maxConcurrency !== 'undefined' &&
+      !validator.isIntegerInRange(options.maxConcurrency, 1, MAX_CONCURRENCY)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      `"BulkUserImportOptions.maxConcurrency" must be an integer between 1 and ${MAX_CONCURRENCY}.`,
+    );
+  }
+}
+
+/**
+ * Returns an AsyncIterator over the records of a user import source. Readable streams must be in
+ * object mode.
+ *
+ * @param {UserImportSource} users The source of the user import records.
+ * @return {AsyncIterator<UserImportRecord>} An iterator over the records.
+ */
+function toAsyncIterator(users: UserImportSource): AsyncIterator<UserImportRecord> {
+  // Streams are checked first, as their async iterator is experimental in some Node.js versions.
+  if (users instanceof Readable) {
+    return new ReadableIterator(users);
+  }
+  // Strings are iterable but are not valid sources.
+  const isObject = typeof users === 'object' && users !== null;
+  if (isObject && typeof (users as any)[Symbol.asyncIterator] === 'function') {
+    return (users as AsyncIterable<UserImportRecord>)[Symbol.asyncIterator]();
+  }
+  if (isObject && typeof (users as any)[Symbol.iterator] === 'function') {
+    const iterator = (users as Iterable<UserImportRecord>)[Symbol.iterator]();
+    return {
+      next: () => Promise.resolve().then(() => iterator.next()),
+    };
+  }
+  throw new FirebaseAuthError(
+    AuthClientErrorCode.INVALID_ARGUMENT,
+    'The users to import must be an iterable, an async iterable or an object mode Readable stream.',
+  );
+}
+
+/**
+ * An AsyncIterator over the objects of a Readable stream in object mode.
+ */
+class ReadableIterator<T> implements AsyncIterator<T> {
+  private ended = false;
+  private error: Error;
+  private waiting: () => void;
+
+  /**
+   * @param {Readable} readable The stream to read from.
+   * @constructor
+   */
+  constructor(private readonly readable: Readable) {
+    readable.on('readable', () => this.notify());
+    readable.on('end', () => {
+      this.ended = true;
+      this.notify();
+    });
+    readable.on('error', (error: Error) => {
+      this.error = error;
+      this.notify();
+    });
+  }
+
+  /**
+   * @return {Promise<IteratorResult<T>>} A promise that resolves with the next object of the
+   *     stream, once available.
+   */
+  public next(): Promise<IteratorResult<T>> {
+    return new Promise((resolve, reject) => {
+      const attempt = () => {
+        if (typeof this.error !== 'undefined') {
+          return reject(this.error);
+        }
+        const value = this.readable.read();
+        if (value !== null) {
+          return resolve({done: false, value});
+        }
+        if (this.ended) {
+          return resolve({done: true, value: undefined});
+        }
+        this.waiting = attempt;
+      };
+      attempt();
+    });
+  }
+
+  private notify(): void {
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    if (waiting) {
+      waiting();
+    }
+  }
+}
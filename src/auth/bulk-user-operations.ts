@@ -0,0 +1,302 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as validator from '../utils/validator';
+import {AuthClientErrorCode, FirebaseArrayIndexError, FirebaseAuthError} from '../utils/error';
+import {UpdateRequest} from './user-record';
+
+/** Maximum number of operations in flight at any time. */
+const MAX_CONCURRENCY = 100;
+
+/** Maximum number of operations started per second. */
+const MAX_OPERATIONS_PER_SECOND = 1000;
+
+/** Maximum number of retries of an operation rejected with a quota error. */
+const MAX_RETRIES = 10;
+
+/** The error code of the operations rejected because the project quota is exceeded. */
+const QUOTA_EXCEEDED_ERROR_CODE = 'auth/quota-exceeded';
+
+/** Options used to configure bulk user operations. */
+export interface BulkUserOperationsOptions {
+  /** The maximum number of operations started per second. Defaults to 10. */
+  maxOperationsPerSecond?: number;
+  /** The maximum number of concurrent operations. Defaults to 10. */
+  maxConcurrency?: number;
+  /** The number of times an operation rejected with a quota error is retried. Defaults to 3. */
+  maxRetries?: number;
+  /** The delay before the first retry in milliseconds, doubled on each retry. Defaults to 1000. */
+  retryDelayMillis?: number;
+}
+
+/** Response object for a bulk user operation. */
+export interface BulkUserOperationResult {
+  successCount: number;
+  failureCount: number;
+  /** The errors of the failed operations, indexed by the position of the uid in the provided list. */
+  errors: FirebaseArrayIndexError[];
+}
+
+/** Function that updates a single user. */
+export type UserUpdater = (uid: string, properties: UpdateRequest) => Promise<any>;
+
+/** Function that revokes the refresh tokens of a single user. */
+export type RefreshTokenRevoker = (uid: string) => Promise<void>;
+
+/**
+ * Spaces out the start of operations so that at most the given number of operations start per
+ * second.
+ */
+export class RateLimiter {
+  private readonly intervalMillis: number;
+  private nextSlot = 0;
+
+  /**
+   * @param {number} operationsPerSecond The maximum number of operations started per second.
+   * @constructor
+   */
+  constructor(operationsPerSecond: number) {
+    this.intervalMillis = 1000 / operationsPerSecond;
+  }
+
+  /**
+   * Reserves the next available slot.
+   *
+   * @return {Promise<void>} A promise that resolves once the operation can start.
+   */
+  public acquire(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.intervalMillis;
+    return delay(slot - now);
+  }
+}
+
+/**
+ * Applies the same operation to a list of users, such as disabling them or revoking their refresh
+ * tokens. The operations are run with bounded concurrency and rate limited, and the operations
+ * rejected because the project quota is exceeded are retried with exponential backoff. The
+ * failure of an operation does not stop the others: all the failures are reported in the
+ * aggregated result.
+ */
+export class BulkUserOperations {
+  private readonly rateLimiter: RateLimiter;
+  private readonly maxConcurrency: number;
+  private readonly maxRetries: number;
+  private readonly retryDelayMillis: number;
+
+  /**
+   * @param {UserUpdater} userUpdater The function used to update each user.
+   * @param {RefreshTokenRevoker} refreshTokenRevoker The function used to revoke the refresh
+   *     tokens of each user.
+   * @param {BulkUserOperationsOptions=} options The rate limiting and retry options.
+   * @constructor
+   */
+  constructor(
+      private readonly userUpdater: UserUpdater,
+      private readonly refreshTokenRevoker: RefreshTokenRevoker,
+      options: BulkUserOperationsOptions = {}) {
+    validateBulkUserOperationsOptions(options);
+    this.rateLimiter = new RateLimiter(options.maxOperationsPerSecond || 10);
+    this.maxConcurrency = options.maxConcurrency || 10;
+    this.maxRetries = typeof options.maxRetries !== 'undefined' ? options.maxRetries : 3;
+    this.retryDelayMillis =
+      typeof options.retryDelayMillis !== 'undefined' ? options.retryDelayMillis : 1000;
+  }
+
+  /**
+   * Applies the same update to a list of users.
+   *
+   * @param {string[]} uids The uids of the users to update.
+   * @param {UpdateRequest} properties The properties to update on each user.
+   * @return {Promise<BulkUserOperationResult>} A promise that resolves with the aggregated result.
+   */
+  public updateUsers(uids: string[], properties: UpdateRequest): Promise<BulkUserOperationResult> {
+    if (!validator.isNonNullObject(properties)) {
+      return Promise.reject(new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        'Properties argument must be a non-null object.',
+      ));
+    }
+    return this.run(uids, (uid) => this.userUpdater(uid, properties));
+  }
+
+  /**
+   * Disables a list of users.
+   *
+   * @param {string[]} uids The uids of the users to disable.
+   * @return {Promise<BulkUserOperationResult>} A promise that resolves with the aggregated result.
+   */
+  public disableUsers(uids: string[]): Promise<BulkUserOperationResult> {
+    return this.updateUsers(uids, {disabled: true});
+  }
+
+  /**
+   * Enables a list of users.
+   *
+   * @param {string[]} uids The uids of the users to enable.
+   * @return {Promise<BulkUserOperationResult>} A promise that resolves with the aggregated result.
+   */
+  public enableUsers(uids: string[]): Promise<BulkUserOperationResult> {
+    return this.updateUsers(uids, {disabled: false});
+  }
+
+  /**
+   * Marks the emails of a list of users as verified.
+   *
+   * @param {string[]} uids The uids of the users whose emails are verified.
+   * @return {Promise<BulkUserOperationResult>} A promise that resolves with the aggregated result.
+   */
+  public verifyEmails(uids: string[]): Promise<BulkUserOperationResult> {
+    return this.updateUsers(uids, {emailVerified: true});
+  }
+
+  /**
+   * Revokes the refresh tokens of a list of users.
+   *
+   * @param {string[]} uids The uids of the users whose refresh tokens are revoked.
+   * @return {Promise<BulkUserOperationResult>} A promise that resolves with the aggregated result.
+   */
+  public revokeRefreshTokens(uids: string[]): Promise<BulkUserOperationResult> {
+    return this.run(uids, (uid) => this.refreshTokenRevoker(uid));
+  }
+
+  /**
+   * Runs an operation on each uid with bounded concurrency, and aggregates the failures.
+   *
+   * @param {string[]} uids The uids to run the operation on.
+   * @param {function(string): Promise<any>} operation The operation to run.
+   * @return {Promise<BulkUserOperationResult>} A promise that resolves with the aggregated result.
+   */
+  private run(uids: string[], operation: (uid: string) => Promise<any>): Promise<BulkUserOperationResult> {
+    if (!validator.isArray(uids)) {
+      return Promise.reject(new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        '"uids" must be an array.',
+      ));
+    }
+    const result: BulkUserOperationResult = {successCount: 0, failureCount: 0, errors: []};
+    let nextIndex = 0;
+    // Each worker runs the operations of the next uids until there are none left.
+    const runWorker = (): Promise<void> => {
+      if (nextIndex >= uids.length) {
+        return Promise.resolve();
+      }
+      const index = nextIndex++;
+      return this.runWithRetries(() => operation(uids[index]), 0)
+        .then(() => {
+          result.successCount++;
+        }, (error) => {
+          result.failureCount++;
+          result.errors.push({index, error});
+        })
+        .then(runWorker);
+    };
+    const workers: Array<Promise<void>> = [];
+    for (let i = 0; i < Math.min(this.maxConcurrency, uids.length); i++) {
+      workers.push(runWorker());
+    }
+    return Promise.all(workers)
+      .then(() => {
+        result.errors.sort((a, b) => a.index - b.index);
+        return result;
+      });
+  }
+
+  /**
+   * Runs an operation once a rate limiter slot is available, retrying it with exponential backoff
+   * when it is rejected with a quota error.
+   *
+   * @param {function(): Promise<any>} operation The operation to run.
+   * @param {number} retryCount The number of retries performed so far.
+   * @return {Promise<any>} A promise that resolves with the result of the operation.
+   */
+  private runWithRetries(operation: () => Promise<any>, retryCount: number): Promise<any> {
+    return this.rateLimiter.acquire()
+      .then(() => operation())
+      .catch((error) => {
+        if (!isQuotaExceededError(error) || retryCount >= this.maxRetries) {
+          throw error;
+        }
+        return delay(this.retryDelayMillis * Math.pow(2, retryCount))
+          .then(() => this.runWithRetries(operation, retryCount + 1));
+      });
+  }
+}
+
+/**
+ * Validates the options of bulk user operations. Throws an error on failure.
+ *
+ * @param {any} options The options to validate.
+ */
+function validateBulkUserOperationsOptions(options: any): void {
+  if (!validator.isNonNullObject(options)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      '"BulkUserOperationsOptions" must be a valid non-null object.',
+    );
+  }
+  if (typeof options.maxOperationsPerSecond !== 'undefined' &&
+      !(validator.isNumber(options.maxOperationsPerSecond) && options.maxOperationsPerSecond > 0 &&
+        options.maxOperationsPerSecond <= MAX_OPERATIONS_PER_SECOND)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      `"BulkUserOperationsOptions.maxOperationsPerSecond" must be a positive number that does not exceed ` +
+      `${MAX_OPERATIONS_PER_SECOND}.`,
+    );
+  }
+  if (typeof options.maxConcurrency !== 'undefined' &&
+      !validator.isIntegerInRange(options.maxConcurrency, 1, MAX_CONCURRENCY)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      `"BulkUserOperationsOptions.maxConcurrency" must be an integer between 1 and ${MAX_CONCURRENCY}.`,
+    );
+  }
+  if (typeof options.maxRetries !== 'undefined' && !validator.isIntegerInRange(options.maxRetries, 0, MAX_RETRIES)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      `"BulkUserOperationsOptions.maxRetries" must be an integer between 0 and ${MAX_RETRIES}.`,
+    );
+  }
+  if (typeof options.retryDelayMillis !== 'undefined' &&
+      !(validator.isNumber(options.retryDelayMillis) && options.retryDelayMillis >= 0)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      '"BulkUserOperationsOptions.retryDelayMillis" must be a non-negative number.',
+    );
+  }
+}
+
+/**
+ * @param {any} error The error an operation was rejected with.
+ * @return {boolean} Whether the operation was rejected because the project quota is exceeded.
+ */
+function isQuotaExceededError(error: any): boolean {
+  return error instanceof FirebaseAuthError && error.code === QUOTA_EXCEEDED_ERROR_CODE;
+}
+
+/**
+ * @param {number} delayMillis The delay in milliseconds.
+ * @return {Promise<void>} A promise that resolves after the delay.
+ */
+function delay(delayMillis: number): Promise<void> {
+  if (delayMillis > 0) {
+    return new Promise((resolve) => {
+      setTimeout(resolve, delayMillis);
+    });
+  }
+  return Promise.resolve();
+}
@@ -0,0 +1,225 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as validator from '../utils/validator';
+import {deepCopy} from '../utils/deep-copy';
+import {AuthClientErrorCode, FirebaseAuthError} from '../utils/error';
+import {MAX_CLAIMS_PAYLOAD_SIZE, RESERVED_CLAIMS} from './auth-api-request';
+
+/** The root of the paths reported by custom claims validation errors. */
+const CLAIMS_PATH = 'customClaims';
+
+/**
+ * Function that validates custom claims before they are set on a user. The claims are rejected
+ * when the function throws or returns a rejected promise.
+ */
+export type CustomClaimsValidator<C extends object> = (claims: C) => void | Promise<void>;
+
+/**
+ * The update applied to custom claims by updateCustomUserClaims(). Either claims to merge into
+ * the existing ones, where undefined values delete the corresponding claims, or a function that
+ * returns the updated claims, or null to delete all the claims.
+ */
+export type CustomClaimsUpdate<C extends object> =
+    Partial<C> | ((claims: C) => C | null | Promise<C | null>);
+
+/** Options used to configure updateCustomUserClaims(). */
+export interface UpdateCustomClaimsOptions {
+  /** The number of times the update is retried after a concurrent modification. Defaults to 3. */
+  maxRetries?: number;
+}
+
+/** Maximum number of retries of a custom claims update. */
+const MAX_UPDATE_RETRIES = 10;
+
+/**
+ * Validates the options of a custom claims update. Throws an error on failure.
+ *
+ * @param {any} options The update options to validate.
+ */
+export function validateUpdateCustomClaimsOptions(options: any): void {
+  if (!validator.isNonNullObject(options)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      '"UpdateCustomClaimsOptions" must be a valid non-null object.',
+    );
+  }
+  if (typeof options.maxRetries !== 'undefined' &&
+      !validator.isIntegerInRange(options.maxRetries, 0, MAX_UPDATE_RETRIES)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      `"UpdateCustomClaimsOptions.maxRetries" must be an integer between 0 and ${MAX_UPDATE_RETRIES}.`,
+    );
+  }
+}
+
+/**
+ * Applies an update to custom claims.
+ *
+ * @param {object} claims The current custom claims, which are not modified.
+ * @param {CustomClaimsUpdate} update The claims to merge, or the updater function.
+ * @return {Promise<object>} A promise that resolves with the updated custom claims.
+ */
+export function applyCustomClaimsUpdate<C extends object>(
+    claims: C, update: CustomClaimsUpdate<C>): Promise<C> {
+  if (typeof update === 'function') {
+    return Promise.resolve()
+      .then(() => update(deepCopy(claims)))
+      .then((result) => {
+        if (result === null) {
+          const noClaims: any = {};
+          return noClaims as C;
+        }
+        if (!validator.isNonNullObject(result)) {
+          throw new FirebaseAuthError(
+            AuthClientErrorCode.INVALID_ARGUMENT,
+            'The custom claims updater must return an object or null.',
+          );
+        }
+        return result;
+      });
+  }
+  if (!validator.isNonNullObject(update)) {
+    return Promise.reject(new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      'The custom claims update must be an object or a function.',
+    ));
+  }
+  const updatedClaims: any = deepCopy(claims);
+  Object.keys(update).forEach((claim) => {
+    const value = (update as any)[claim];
+    if (typeof value === 'undefined') {
+      delete updatedClaims[claim];
+    } else {
+      updatedClaims[claim] = value;
+    }
+  });
+  return Promise.resolve(updatedClaims as C);
+}
+
+/**
+ * Validates custom claims locally, before they are sent to the Auth backend. Throws an error
+ * identifying the path of the offending claim when the claims contain a value which cannot be
+ * serialized to JSON, a reserved claim, or exceed the maximum payload size.
+ *
+ * @param {object} claims The custom claims to validate.
+ */
+export function validateCustomClaims(claims: object): void {
+  validateJsonValue(claims, CLAIMS_PATH, []);
+  Object.keys(claims).forEach((claim) => {
+    if (RESERVED_CLAIMS.indexOf(claim) !== -1) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.FORBIDDEN_CLAIM,
+        `"${getClaimPath(CLAIMS_PATH, claim)}" is a reserved claim and cannot be specified.`,
+      );
+    }
+  });
+  const payloadSize = JSON.stringify(claims).length;
+  if (payloadSize > MAX_CLAIMS_PAYLOAD_SIZE) {
+    // Report the largest top level claim, which is the most likely to need trimming.
+    let largestClaim: string;
+    let largestClaimSize = 0;
+    Object.keys(claims).forEach((claim) => {
+      const claimSize = JSON.stringify({[claim]: (claims as any)[claim]}).length - 2;
+      if (claimSize > largestClaimSize) {
+        largestClaim = claim;
+        largestClaimSize = claimSize;
+      }
+    });
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.CLAIMS_TOO_LARGE,
+      `Developer claims payload should not exceed ${MAX_CLAIMS_PAYLOAD_SIZE} characters, ` +
+      `but has ${payloadSize} characters. The largest claim is ` +
+      `"${getClaimPath(CLAIMS_PATH, largestClaim)}" with ${largestClaimSize} characters.`,
+    );
+  }
+}
+
+/**
+ * Runs a custom claims validator, converting its failures to invalid claims errors.
+ *
+ * @param {CustomClaimsValidator} claimsValidator The custom claims validator to run.
+ * @param {object} claims The custom claims to validate.
+ * @return {Promise<void>} A promise that resolves when the claims are valid.
+ */
+export function runCustomClaimsValidator<C extends object>(
+    claimsValidator: CustomClaimsValidator<C>, claims: C): Promise<void> {
+  return Promise.resolve()
+    .then(() => claimsValidator(claims))
+    .catch((error) => {
+      if (error instanceof FirebaseAuthError) {
+        throw error;
+      }
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_CLAIMS,
+        `The custom claims were rejected by the custom claims validator: ${error && error.message}`,
+      );
+    });
+}
+
+/**
+ * Checks that a value is preserved when serialized to JSON. Throws an error with the path of the
+ * first value which would be dropped or altered.
+ *
+ * @param {any} value The value to check.
+ * @param {string} path The path of the value.
+ * @param {any[]} ancestors The objects and arrays containing the value, to detect cycles.
+ */
+function validateJsonValue(value: any, path: string, ancestors: any[]): void {
+  if (value === null || validator.isString(value) || validator.isBoolean(value)) {
+    return;
+  }
+  if (typeof value === 'number') {
+    if (!isFinite(value)) {
+      throw invalidClaimError(path, 'must be a finite number');
+    }
+    return;
+  }
+  if (typeof value !== 'object') {
+    throw invalidClaimError(path, `must be a JSON value but is of type ${typeof value}`);
+  }
+  if (ancestors.indexOf(value) !== -1) {
+    throw invalidClaimError(path, 'contains a circular reference');
+  }
+  if (validator.isArray(value)) {
+    value.forEach((item: any, index: number) => {
+      validateJsonValue(item, `${path}[${index}]`, ancestors.concat([value]));
+    });
+  } else if (typeof value.toJSON !== 'function') {
+    // Objects with a toJSON method, such as dates, are serialized using that method.
+    Object.keys(value).forEach((key) => {
+      validateJsonValue(value[key], getClaimPath(path, key), ancestors.concat([value]));
+    });
+  }
+}
+
+/**
+ * @param {string} path The path of an object.
+ * @param {string} key The key of a property of the object.
+ * @return {string} The path of the property.
+ */
+function getClaimPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}['${key}']`;
+}
+
+/**
+ * @param {string} path The path of the invalid claim.
+ * @param {string} reason The reason why the claim is invalid.
+ * @return {FirebaseAuthError} The invalid claims error.
+ */
+function invalidClaimError(path: string, reason: string): FirebaseAuthError {
+  return new FirebaseAuthError(AuthClientErrorCode.INVALID_CLAIMS, `"${path}" ${reason}.`);
+}
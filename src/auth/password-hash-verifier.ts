@@ -0,0 +1,233 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as crypto from 'crypto';
+
+import * as validator from '../utils/validator';
+import {AuthClientErrorCode, FirebaseAuthError} from '../utils/error';
+import {UploadAccountOptions, UserImportBuilder, UserImportOptions, UserImportRecord} from './user-import-builder';
+
+/** Digest names of the hash algorithms which hash the salted password with a message digest. */
+const DIGEST_ALGORITHMS: {[algorithm: string]: string} = {
+  MD5: 'md5',
+  SHA1: 'sha1',
+  SHA256: 'sha256',
+  SHA512: 'sha512',
+};
+
+/** Digest names of the hash algorithms which sign the salted password with an HMAC key. */
+const HMAC_ALGORITHMS: {[algorithm: string]: string} = {
+  HMAC_MD5: 'md5',
+  HMAC_SHA1: 'sha1',
+  HMAC_SHA256: 'sha256',
+  HMAC_SHA512: 'sha512',
+};
+
+/** Digest names of the PBKDF2 based hash algorithms. */
+const PBKDF2_ALGORITHMS: {[algorithm: string]: string} = {
+  PBKDF_SHA1: 'sha1',
+  PBKDF2_SHA256: 'sha256',
+};
+
+/** Length of the key derived by the Firebase modified scrypt algorithm. */
+const FIREBASE_SCRYPT_KEY_LENGTH = 64;
+
+/** Interface of the subset of the bcrypt npm package used to verify BCRYPT hashes. */
+interface Bcrypt {
+  compare(data: string, encrypted: string): Promise<boolean>;
+}
+
+/**
+ * Verifies password hashes locally, the same way Firebase Auth verifies the password hashes of
+ * imported users. This allows the hash options of a user import to be checked against a user
+ * whose password is known, before importing any user.
+ */
+export class PasswordHashVerifier {
+  /**
+   * Verifies that the password hash of a user import record matches the provided password when
+   * hashed with the provided user import options.
+   *
+   * The MD5, SHA* and HMAC_* password hashes may be provided either as raw digests or as
+   * hex-encoded digests.
+   *
+   * @param {string} password The known plaintext password of the user.
+   * @param {UserImportRecord} user The user import record, including the password hash and salt.
+   * @param {UserImportOptions} options The user import options used to hash the password.
+   * @return {Promise<boolean>} A promise that resolves with whether the password hash matches,
+   *     or is rejected when the record or the options are invalid.
+   */
+  public verify(password: string, user: UserImportRecord, options: UserImportOptions): Promise<boolean> {
+    return Promise.resolve()
+      .then(() => {
+        if (!validator.isString(password)) {
+          throw new FirebaseAuthError(
+            AuthClientErrorCode.INVALID_ARGUMENT,
+            'The password to verify must be a string.',
+          );
+        }
+        if (!validator.isNonNullObject(user) || typeof user.passwordHash === 'undefined') {
+          throw new FirebaseAuthError(
+            AuthClientErrorCode.INVALID_PASSWORD_HASH,
+            'The user import record to verify must include a passwordHash.',
+          );
+        }
+        // This validates the record and the hash options the same way importUsers() does.
+        const builder = new UserImportBuilder([user], options);
+        const recordErrors = builder.buildResponse([]).errors;
+        if (recordErrors.length > 0) {
+          throw recordErrors[0].error;
+        }
+        const hashOptions: UploadAccountOptions = builder.buildRequest();
+        if (hashOptions.hashAlgorithm === 'BCRYPT') {
+          // BCRYPT hashes embed their own salt and cost.
+          return this.loadBcrypt().compare(password, user.passwordHash.toString());
+        }
+        const salt = user.passwordSalt || Buffer.from('');
+        return this.computeHashes(password, salt, user.passwordHash.length, hashOptions, options)
+          .then((hashes) => hashes.some((computedHash) => timingSafeEqual(computedHash, user.passwordHash)));
+      });
+  }
+
+  /**
+   * Loads the bcrypt npm package, which is not a dependency of this SDK.
+   *
+   * @return {Bcrypt} The bcrypt module.
+   */
+  protected loadBcrypt(): Bcrypt {
+    try {
+      return require('bcrypt');
+    } catch (err) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_HASH_ALGORITHM,
+        'Failed to import the bcrypt library needed to verify BCRYPT password hashes. ' +
+        `Make sure to install the "bcrypt" npm package. Original error: ${err}`,
+      );
+    }
+  }
+
+  /**
+   * Computes the accepted encodings of the hash of a password.
+   *
+   * @param {string} password The plaintext password.
+   * @param {Buffer} salt The password salt.
+   * @param {number} hashLength The length of the expected password hash.
+   * @param {UploadAccountOptions} hashOptions The validated hash options.
+   * @param {UserImportOptions} options The raw user import options, holding the key buffers.
+   * @return {Promise<Buffer[]>} A promise that resolves with the accepted password hashes.
+   */
+  private computeHashes(
+      password: string, salt: Buffer, hashLength: number,
+      hashOptions: UploadAccountOptions, options: UserImportOptions): Promise<Buffer[]> {
+    const algorithm = hashOptions.hashAlgorithm;
+    const passwordBuffer = Buffer.from(password);
+    if (algorithm in DIGEST_ALGORITHMS) {
+      // The salted password is hashed once, and the digest is then rehashed for the remaining rounds.
+      let digest = hash(DIGEST_ALGORITHMS[algorithm], Buffer.concat([salt, passwordBuffer]));
+      for (let round = 1; round < hashOptions.rounds; round++) {
+        digest = hash(DIGEST_ALGORITHMS[algorithm], digest);
+      }
+      return Promise.resolve([digest, Buffer.from(digest.toString('hex'))]);
+    }
+    if (algorithm in HMAC_ALGORITHMS) {
+      const digest = crypto.createHmac(HMAC_ALGORITHMS[algorithm], options.hash.key)
+        .update(Buffer.concat([passwordBuffer, salt]))
+        .digest();
+      return Promise.resolve([digest, Buffer.from(digest.toString('hex'))]);
+    }
+    if (algorithm in PBKDF2_ALGORITHMS) {
+      return new Promise<Buffer[]>((resolve, reject) => {
+        const iterations = Math.max(hashOptions.rounds, 1);
+        crypto.pbkdf2(
+          passwordBuffer, salt, iterations, hashLength, PBKDF2_ALGORITHMS[algorithm],
+          (error, derivedKey) => error ? reject(error) : resolve([derivedKey]));
+      });
+    }
+    switch (algorithm) {
+      case 'SCRYPT':
+        // Firebase scrypt encrypts the signer key with the key derived from the password.
+        const saltSeparator = options.hash.saltSeparator || Buffer.from('');
+        return scrypt(
+          passwordBuffer, Buffer.concat([salt, saltSeparator]), FIREBASE_SCRYPT_KEY_LENGTH,
+          Math.pow(2, hashOptions.memoryCost), hashOptions.rounds, 1)
+          .then((derivedKey) => {
+            const cipher = crypto.createCipheriv('aes-256-ctr', derivedKey.slice(0, 32), Buffer.alloc(16));
+            return [Buffer.concat([cipher.update(options.hash.key), cipher.final()])];
+          });
+      case 'STANDARD_SCRYPT':
+        return scrypt(
+          passwordBuffer, salt, hashOptions.dkLen, hashOptions.cpuMemCost, hashOptions.blockSize,
+          hashOptions.parallelization)
+          .then((derivedKey) => [derivedKey]);
+      default:
+        throw new FirebaseAuthError(
+          AuthClientErrorCode.INVALID_HASH_ALGORITHM,
+          `Unsupported hash algorithm provider "${algorithm}".`,
+        );
+    }
+  }
+
+}
+
+/**
+ * @param {string} digestName The name of the message digest.
+ * @param {Buffer} data The data to hash.
+ * @return {Buffer} The digest of the data.
+ */
+function hash(digestName: string, data: Buffer): Buffer {
+  return crypto.createHash(digestName).update(data).digest();
+}
+
+/**
+ * Derives a key with the scrypt key derivation function, available as of Node.js 10.5.
+ *
+ * @param {Buffer} password The password.
+ * @param {Buffer} salt The salt.
+ * @param {number} keyLength The length of the derived key.
+ * @param {number} cost The CPU/memory cost parameter N.
+ * @param {number} blockSize The block size parameter r.
+ * @param {number} parallelization The parallelization parameter p.
+ * @return {Promise<Buffer>} A promise that resolves with the derived key.
+ */
+function scrypt(
+    password: Buffer, salt: Buffer, keyLength: number, cost: number, blockSize: number,
+    parallelization: number): Promise<Buffer> {
+  // The scrypt typings are missing from the Node.js 8 type definitions.
+  const scryptFn = (crypto as any).scrypt;
+  if (typeof scryptFn !== 'function') {
+    return Promise.reject(new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_HASH_ALGORITHM,
+      'Verifying scrypt password hashes requires Node.js 10.5.0 or higher.',
+    ));
+  }
+  return new Promise<Buffer>((resolve, reject) => {
+    // The memory required by scrypt is about 128 * N * r bytes, which may exceed the default limit.
+    const maxmem = 256 * cost * blockSize;
+    scryptFn(
+      password, salt, keyLength, {N: cost, r: blockSize, p: parallelization, maxmem},
+      (error: Error, derivedKey: Buffer) => error ? reject(error) : resolve(derivedKey));
+  });
+}
+
+/**
+ * Compares two buffers in constant time.
+ *
+ * @param {Buffer} a The first buffer.
+ * @param {Buffer} b The second buffer.
+ * @return {boolean} Whether the buffers are equal.
+ */
+function timingSafeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
@@ -0,0 +1,63 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {AuthRequestHandler} from './auth-api-request';
+import {FirebaseApp} from '../firebase-app';
+import {
+  ProjectConfig, ProjectConfigServerResponse, UpdateProjectConfigRequest,
+} from './project-config';
+
+/**
+ * Data structure used to help manage the project level Auth configuration. This includes
+ * the authorized domains, the enabled state of the email, phone and anonymous providers, and the
+ * email templates.
+ */
+export class ProjectConfigManager {
+  private readonly authRequestHandler: AuthRequestHandler;
+
+  /**
+   * Initializes a ProjectConfigManager instance for a specified FirebaseApp.
+   * @param app The app for this ProjectConfigManager instance.
+   */
+  constructor(app: FirebaseApp) {
+    this.authRequestHandler = new AuthRequestHandler(app);
+  }
+
+  /**
+   * Gets the project level Auth configuration.
+   *
+   * @return A promise that resolves with the project configuration.
+   */
+  public getProjectConfig(): Promise<ProjectConfig> {
+    return this.authRequestHandler.getProjectConfig()
+      .then((response: ProjectConfigServerResponse) => {
+        return new ProjectConfig(response);
+      });
+  }
+
+  /**
+   * Updates the project level Auth configuration. Only the provided properties are updated.
+   *
+   * @param options The properties to update on the project configuration.
+   * @return A promise that resolves with the updated project configuration.
+   */
+  public updateProjectConfig(options: UpdateProjectConfigRequest): Promise<ProjectConfig> {
+    return this.authRequestHandler.updateProjectConfig(options)
+      .then((response: ProjectConfigServerResponse) => {
+        return new ProjectConfig(response);
+      });
+  }
+}
@@ -0,0 +1,360 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as validator from '../utils/validator';
+import {AuthClientErrorCode, FirebaseAuthError} from '../utils/error';
+import {deepCopy} from '../utils/deep-copy';
+import {EmailSignInConfig, EmailSignInProviderConfig} from './auth-config';
+
+/** The format of the body of an email template. */
+export type EmailTemplateBodyFormat = 'PLAIN_TEXT' | 'HTML';
+
+/** The email template interface, used to customize an email sent by Firebase Auth. */
+export interface EmailTemplate {
+  senderLocalPart?: string;
+  senderDisplayName?: string;
+  replyTo?: string;
+  subject?: string;
+  body?: string;
+  bodyFormat?: EmailTemplateBodyFormat;
+  /** Whether the template differs from the default one. Output only. */
+  customized?: boolean;
+}
+
+/** The email templates of a project, keyed by the action the emails are sent for. */
+export interface EmailTemplatesConfig {
+  resetPassword?: EmailTemplate;
+  verifyEmail?: EmailTemplate;
+  changeEmail?: EmailTemplate;
+}
+
+/** The UpdateProjectConfigRequest interface used to update the project level Auth configuration. */
+export interface UpdateProjectConfigRequest {
+  authorizedDomains?: string[];
+  emailSignInConfig?: EmailSignInProviderConfig;
+  phoneSignInEnabled?: boolean;
+  anonymousSignInEnabled?: boolean;
+  emailTemplates?: EmailTemplatesConfig;
+}
+
+/** The server side representation of the sign-in providers of a project. */
+export interface SignInServerConfig {
+  email?: {
+    enabled?: boolean;
+    passwordRequired?: boolean;
+  };
+  phoneNumber?: {
+    enabled?: boolean;
+  };
+  anonymous?: {
+    enabled?: boolean;
+  };
+}
+
+/** The server side representation of the email templates of a project. */
+export interface NotificationServerConfig {
+  sendEmail?: {
+    resetPasswordTemplate?: EmailTemplate;
+    verifyEmailTemplate?: EmailTemplate;
+    changeEmailTemplate?: EmailTemplate;
+  };
+}
+
+/** The corresponding server side representation of an UpdateProjectConfigRequest object. */
+export interface ProjectConfigServerRequest {
+  authorizedDomains?: string[];
+  signIn?: SignInServerConfig;
+  notification?: NotificationServerConfig;
+}
+
+/** The project config server response interface. */
+export interface ProjectConfigServerResponse {
+  name: string;
+  authorizedDomains?: string[];
+  signIn?: SignInServerConfig;
+  notification?: NotificationServerConfig;
+}
+
+/** The server side names of the email templates, keyed by their client side names. */
+const EMAIL_TEMPLATE_SERVER_NAMES: {[key: string]: string} = {
+  resetPassword: 'resetPasswordTemplate',
+  verifyEmail: 'verifyEmailTemplate',
+  changeEmail: 'changeEmailTemplate',
+};
+
+/** The email template fields which can be updated, along with the output only customized field. */
+const EMAIL_TEMPLATE_KEYS = [
+  'senderLocalPart', 'senderDisplayName', 'replyTo', 'subject', 'body', 'bodyFormat', 'customized',
+];
+
+/** The supported email template body formats. */
+const EMAIL_TEMPLATE_BODY_FORMATS: EmailTemplateBodyFormat[] = ['PLAIN_TEXT', 'HTML'];
+
+
+/**
+ * ProjectConfig class that defines the project level Auth configuration.
+ */
+export class ProjectConfig {
+  public readonly authorizedDomains: string[];
+  public readonly emailSignInConfig: EmailSignInConfig;
+  public readonly phoneSignInEnabled: boolean;
+  public readonly anonymousSignInEnabled: boolean;
+  public readonly emailTemplates: EmailTemplatesConfig;
+
+  /**
+   * Builds the corresponding server request for an UpdateProjectConfigRequest object.
+   *
+   * @param {UpdateProjectConfigRequest} options The properties to convert to a server request.
+   * @return {ProjectConfigServerRequest} The equivalent server request.
+   */
+  public static buildServerRequest(options: UpdateProjectConfigRequest): ProjectConfigServerRequest {
+    ProjectConfig.validate(options);
+    const request: ProjectConfigServerRequest = {};
+    if (typeof options.authorizedDomains !== 'undefined') {
+      request.authorizedDomains = options.authorizedDomains.slice();
+    }
+    const signIn: SignInServerConfig = {};
+    if (typeof options.emailSignInConfig !== 'undefined') {
+      signIn.email = {};
+      if (typeof options.emailSignInConfig.enabled !== 'undefined') {
+        signIn.email.enabled = options.emailSignInConfig.enabled;
+      }
+      if (typeof options.emailSignInConfig.passwordRequired !== 'undefined') {
+        signIn.email.passwordRequired = options.emailSignInConfig.passwordRequired;
+      }
+    }
+    if (typeof options.phoneSignInEnabled !== 'undefined') {
+      signIn.phoneNumber = {enabled: options.phoneSignInEnabled};
+    }
+    if (typeof options.anonymousSignInEnabled !== 'undefined') {
+      signIn.anonymous = {enabled: options.anonymousSignInEnabled};
+    }
+    if (Object.keys(signIn).length > 0) {
+      request.signIn = signIn;
+    }
+    if (typeof options.emailTemplates !== 'undefined') {
+      const sendEmail: {[key: string]: EmailTemplate} = {};
+      for (const name in options.emailTemplates) {
+        if (typeof (options.emailTemplates as any)[name] === 'undefined') {
+          continue;
+        }
+        // The customized field is output only.
+        const template: EmailTemplate = {...(options.emailTemplates as any)[name]};
+        delete template.customized;
+        sendEmail[EMAIL_TEMPLATE_SERVER_NAMES[name]] = template;
+      }
+      request.notification = {sendEmail};
+    }
+    return request;
+  }
+
+  /**
+   * Validates an email template of an UpdateProjectConfigRequest object. Throws an error on
+   * failure.
+   *
+   * @param {any} template The email template to validate.
+   * @param {string} label The label of the email template used in error messages.
+   */
+  private static validateEmailTemplate(template: any, label: string) {
+    if (!validator.isNonNullObject(template)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        `"${label}" must be a valid non-null object.`,
+      );
+    }
+    for (const key in template) {
+      if (EMAIL_TEMPLATE_KEYS.indexOf(key) === -1) {
+        throw new FirebaseAuthError(
+          AuthClientErrorCode.INVALID_ARGUMENT,
+          `"${key}" is not a valid EmailTemplate parameter.`,
+        );
+      }
+    }
+    ['senderLocalPart', 'senderDisplayName', 'subject', 'body'].forEach((key) => {
+      if (typeof template[key] !== 'undefined' && !validator.isString(template[key])) {
+        throw new FirebaseAuthError(
+          AuthClientErrorCode.INVALID_ARGUMENT,
+          `"${label}.${key}" must be a string.`,
+        );
+      }
+    });
+    if (typeof template.replyTo !== 'undefined' && !validator.isEmail(template.replyTo)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        `"${label}.replyTo" must be a valid email address.`,
+      );
+    }
+    if (typeof template.bodyFormat !== 'undefined' &&
+        EMAIL_TEMPLATE_BODY_FORMATS.indexOf(template.bodyFormat) === -1) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        `"${label}.bodyFormat" must be either "PLAIN_TEXT" or "HTML".`,
+      );
+    }
+  }
+
+  /**
+   * @param {any} template The server side email template.
+   * @return {EmailTemplate} The email template, without the server side fields this SDK version
+   *     does not support.
+   */
+  private static toEmailTemplate(template: any): EmailTemplate {
+    const emailTemplate: {[key: string]: any} = {};
+    EMAIL_TEMPLATE_KEYS.forEach((key) => {
+      if (typeof template[key] !== 'undefined') {
+        emailTemplate[key] = template[key];
+      }
+    });
+    emailTemplate.customized = !!template.customized;
+    return emailTemplate;
+  }
+
+  /**
+   * Validates an UpdateProjectConfigRequest object. Throws an error on failure.
+   *
+   * @param {any} request The project config options object to validate.
+   */
+  private static validate(request: any) {
+    const validKeys = {
+      authorizedDomains: true,
+      emailSignInConfig: true,
+      phoneSignInEnabled: true,
+      anonymousSignInEnabled: true,
+      emailTemplates: true,
+    };
+    const label = 'UpdateProjectConfigRequest';
+    if (!validator.isNonNullObject(request)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        `"${label}" must be a valid non-null object.`,
+      );
+    }
+    // Check for unsupported top level attributes.
+    for (const key in request) {
+      if (!(key in validKeys)) {
+        throw new FirebaseAuthError(
+          AuthClientErrorCode.INVALID_ARGUMENT,
+          `"${key}" is not a valid ${label} parameter.`,
+        );
+      }
+    }
+    // Validate authorizedDomains if provided.
+    if (typeof request.authorizedDomains !== 'undefined') {
+      if (!validator.isArray(request.authorizedDomains)) {
+        throw new FirebaseAuthError(
+          AuthClientErrorCode.INVALID_ARGUMENT,
+          `"${label}.authorizedDomains" must be an array of non-empty strings.`,
+        );
+      }
+      request.authorizedDomains.forEach((domain: any) => {
+        if (!validator.isNonEmptyString(domain)) {
+          throw new FirebaseAuthError(
+            AuthClientErrorCode.INVALID_ARGUMENT,
+            `"${label}.authorizedDomains" must be an array of non-empty strings.`,
+          );
+        }
+      });
+    }
+    // Validate emailSignInConfig type if provided.
+    if (typeof request.emailSignInConfig !== 'undefined') {
+      // This will throw an error if invalid.
+      EmailSignInConfig.buildServerRequest(request.emailSignInConfig);
+    }
+    // Validate phoneSignInEnabled type if provided.
+    if (typeof request.phoneSignInEnabled !== 'undefined' &&
+        !validator.isBoolean(request.phoneSignInEnabled)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        `"${label}.phoneSignInEnabled" must be a boolean.`,
+      );
+    }
+    // Validate anonymousSignInEnabled type if provided.
+    if (typeof request.anonymousSignInEnabled !== 'undefined' &&
+        !validator.isBoolean(request.anonymousSignInEnabled)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        `"${label}.anonymousSignInEnabled" must be a boolean.`,
+      );
+    }
+    // Validate emailTemplates if provided.
+    if (typeof request.emailTemplates !== 'undefined') {
+      if (!validator.isNonNullObject(request.emailTemplates)) {
+        throw new FirebaseAuthError(
+          AuthClientErrorCode.INVALID_ARGUMENT,
+          `"${label}.emailTemplates" must be a valid non-null object.`,
+        );
+      }
+      Object.keys(request.emailTemplates).forEach((name) => {
+        if (!(name in EMAIL_TEMPLATE_SERVER_NAMES)) {
+          throw new FirebaseAuthError(
+            AuthClientErrorCode.INVALID_ARGUMENT,
+            `"${name}" is not a valid EmailTemplatesConfig parameter.`,
+          );
+        }
+        if (typeof request.emailTemplates[name] !== 'undefined') {
+          ProjectConfig.validateEmailTemplate(request.emailTemplates[name], `${label}.emailTemplates.${name}`);
+        }
+      });
+    }
+  }
+
+  /**
+   * The ProjectConfig object constructor.
+   *
+   * @param {any} response The server side response used to initialize the ProjectConfig object.
+   * @constructor
+   */
+  constructor(response: any) {
+    if (!validator.isNonNullObject(response) || !validator.isNonEmptyString(response.name)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INTERNAL_ERROR,
+        'INTERNAL ASSERT FAILED: Invalid project config response',
+      );
+    }
+    const signIn: SignInServerConfig = response.signIn || {};
+    const email = signIn.email || {};
+    this.authorizedDomains = (response.authorizedDomains || []).slice();
+    // Booleans missing from the response are false, as omitted by the backend. A missing
+    // passwordRequired thus means that email link sign-in is enabled.
+    this.emailSignInConfig = new EmailSignInConfig({
+      allowPasswordSignup: !!email.enabled,
+      enableEmailLinkSignin: !email.passwordRequired,
+    });
+    this.phoneSignInEnabled = !!(signIn.phoneNumber && signIn.phoneNumber.enabled);
+    this.anonymousSignInEnabled = !!(signIn.anonymous && signIn.anonymous.enabled);
+    const sendEmail: {[key: string]: EmailTemplate} =
+      (response.notification && response.notification.sendEmail) || {};
+    const emailTemplates: {[key: string]: EmailTemplate} = {};
+    Object.keys(EMAIL_TEMPLATE_SERVER_NAMES).forEach((name) => {
+      const template = sendEmail[EMAIL_TEMPLATE_SERVER_NAMES[name]];
+      if (validator.isNonNullObject(template)) {
+        emailTemplates[name] = ProjectConfig.toEmailTemplate(template);
+      }
+    });
+    this.emailTemplates = emailTemplates;
+  }
+
+  /** @return {object} The plain object representation of the project config. */
+  public toJSON(): object {
+    return {
+      authorizedDomains: this.authorizedDomains.slice(),
+      emailSignInConfig: this.emailSignInConfig.toJSON(),
+      phoneSignInEnabled: this.phoneSignInEnabled,
+      anonymousSignInEnabled: this.anonymousSignInEnabled,
+      emailTemplates: deepCopy(this.emailTemplates),
+    };
+  }
+}
@@ -0,0 +1,191 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as validator from '../utils/validator';
+import {AuthClientErrorCode, FirebaseAuthError} from '../utils/error';
+import {AuthProviderConfig, OIDCConfig, SAMLConfig, UpdateAuthProviderRequest} from './auth-config';
+
+/** The action applied to a provider configuration. */
+export type ProviderConfigAction = 'create' | 'update' | 'delete';
+
+/** A change of a provider configuration. */
+export interface ProviderConfigChange {
+  action: ProviderConfigAction;
+  providerId: string;
+  /** The configuration to create, or the changed fields to update. Undefined for deletions. */
+  request?: AuthProviderConfig | UpdateAuthProviderRequest;
+}
+
+/** The changes needed to reconcile the provider configurations with the desired ones. */
+export interface ProviderConfigPlan {
+  /** The changes, with the creations first, then the updates and the deletions. */
+  changes: ProviderConfigChange[];
+  /** The IDs of the desired providers whose configuration is already up to date. */
+  unchangedProviderIds: string[];
+}
+
+/** Options used to configure the reconciliation of provider configurations. */
+export interface ApplyProviderConfigsOptions {
+  /** Whether to delete the existing providers which are not desired. Defaults to false. */
+  prune?: boolean;
+  /** Whether to only plan the changes, without applying them. Defaults to false. */
+  dryRun?: boolean;
+}
+
+/** The fields of a SAML provider configuration compared with the desired configuration. */
+const SAML_CONFIG_FIELDS = [
+  'displayName', 'enabled', 'idpEntityId', 'ssoURL', 'x509Certificates', 'rpEntityId', 'callbackURL',
+  'enableRequestSigning',
+];
+
+/** The fields of an OIDC provider configuration compared with the desired configuration. */
+const OIDC_CONFIG_FIELDS = ['displayName', 'enabled', 'clientId', 'issuer'];
+
+/**
+ * Validates the options of the reconciliation of provider configurations. Throws an error on
+ * failure.
+ *
+ * @param {any} options The options to validate.
+ */
+export function validateApplyProviderConfigsOptions(options: any): void {
+  if (!validator.isNonNullObject(options)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      '"ApplyProviderConfigsOptions" must be a valid non-null object.',
+    );
+  }
+  ['prune', 'dryRun'].forEach((key) => {
+    if (typeof options[key] !== 'undefined' && !validator.isBoolean(options[key])) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        `"ApplyProviderConfigsOptions.${key}" must be a boolean.`,
+      );
+    }
+  });
+}
+
+/**
+ * Validates the desired provider configurations, which must be complete SAML or OIDC
+ * configurations with distinct provider IDs. Throws an error on failure.
+ *
+ * @param {any} desired The desired provider configurations to validate.
+ */
+export function validateDesiredProviderConfigs(desired: any): void {
+  if (!Array.isArray(desired)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      'The desired provider configurations must be an array.',
+    );
+  }
+  const providerIds: {[providerId: string]: boolean} = {};
+  desired.forEach((config) => {
+    if (!validator.isNonNullObject(config)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_CONFIG,
+        '"AuthProviderConfig" must be a valid non-null object.',
+      );
+    }
+    if (SAMLConfig.isProviderId(config.providerId)) {
+      SAMLConfig.validate(config);
+    } else if (OIDCConfig.isProviderId(config.providerId)) {
+      OIDCConfig.validate(config);
+    } else {
+      throw new FirebaseAuthError(AuthClientErrorCode.INVALID_PROVIDER_ID);
+    }
+    if (providerIds[config.providerId]) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        `The provider ID "${config.providerId}" is desired more than once.`,
+      );
+    }
+    providerIds[config.providerId] = true;
+  });
+}
+
+/**
+ * Plans the changes reconciling the current provider configurations with the desired ones. The
+ * desired providers which do not exist are created. The existing ones are updated with the desired
+ * fields which differ from their current values, while the fields left undefined are not managed.
+ * The existing providers which are not desired are deleted when pruning.
+ *
+ * @param {AuthProviderConfig[]} desired The validated desired provider configurations.
+ * @param {AuthProviderConfig[]} current The current provider configurations.
+ * @param {boolean} prune Whether to delete the existing providers which are not desired.
+ * @return {ProviderConfigPlan} The planned changes.
+ */
+export function planProviderConfigChanges(
+    desired: AuthProviderConfig[], current: AuthProviderConfig[], prune: boolean): ProviderConfigPlan {
+  const currentById: {[providerId: string]: AuthProviderConfig} = {};
+  current.forEach((config) => {
+    currentById[config.providerId] = config;
+  });
+  const desiredIds: {[providerId: string]: boolean} = {};
+  const creations: ProviderConfigChange[] = [];
+  const updates: ProviderConfigChange[] = [];
+  const unchangedProviderIds: string[] = [];
+  desired.forEach((config) => {
+    desiredIds[config.providerId] = true;
+    const currentConfig = currentById[config.providerId];
+    if (!currentConfig) {
+      creations.push({action: 'create', providerId: config.providerId, request: config});
+      return;
+    }
+    const request = getChangedFields(config, currentConfig);
+    if (Object.keys(request).length > 0) {
+      updates.push({action: 'update', providerId: config.providerId, request});
+    } else {
+      unchangedProviderIds.push(config.providerId);
+    }
+  });
+  const deletions: ProviderConfigChange[] = prune ?
+    current
+      .filter((config) => !desiredIds[config.providerId])
+      .map((config): ProviderConfigChange => ({action: 'delete', providerId: config.providerId})) :
+    [];
+  return {
+    changes: creations.concat(updates, deletions),
+    unchangedProviderIds,
+  };
+}
+
+/**
+ * @param {AuthProviderConfig} desired The desired provider configuration.
+ * @param {AuthProviderConfig} current The current configuration of the same provider.
+ * @return {UpdateAuthProviderRequest} The desired fields which differ from their current values.
+ */
+function getChangedFields(desired: AuthProviderConfig, current: AuthProviderConfig): UpdateAuthProviderRequest {
+  const fields = SAMLConfig.isProviderId(desired.providerId) ? SAML_CONFIG_FIELDS : OIDC_CONFIG_FIELDS;
+  const request: {[key: string]: any} = {};
+  fields.forEach((key) => {
+    const desiredValue = (desired as any)[key];
+    if (typeof desiredValue !== 'undefined' && !isEqual(desiredValue, (current as any)[key])) {
+      request[key] = desiredValue;
+    }
+  });
+  return request;
+}
+
+/**
+ * @param {any} a A field value, which is a primitive or an array of strings.
+ * @param {any} b Another field value.
+ * @return {boolean} Whether the values are equal.
+ */
+function isEqual(a: any, b: any): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => value === b[index]);
+  }
+  return a === b;
+}
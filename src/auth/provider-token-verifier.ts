@@ -0,0 +1,291 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as jwt from 'jsonwebtoken';
+
+import * as validator from '../utils/validator';
+import {AuthClientErrorCode, FirebaseAuthError} from '../utils/error';
+import {HttpClient, HttpError, HttpRequestConfig} from '../utils/api-request';
+import {PublicKeyCache} from './public-key-cache';
+import {ALGORITHM_RS256, FirebaseTokenInfo, KeyFetcher, UrlKeyFetcher} from './token-verifier';
+
+// Path of the OpenID Connect discovery document relative to the issuer.
+const DISCOVERY_DOCUMENT_PATH = '/.well-known/openid-configuration';
+
+/** User facing token information related to the ID tokens issued by OIDC providers. */
+export const PROVIDER_ID_TOKEN_INFO: FirebaseTokenInfo = {
+  url: 'https://openid.net/specs/openid-connect-core-1_0.html#IDToken',
+  verifyApiName: 'verifyProviderIdToken()',
+  jwtName: 'OIDC provider ID token',
+  shortName: 'ID token',
+  expiredErrorCode: AuthClientErrorCode.ID_TOKEN_EXPIRED,
+};
+
+/** Interface representing the decoded claims of an OIDC provider ID token. */
+export interface DecodedProviderIdToken {
+  iss: string;
+  aud: string | string[];
+  sub: string;
+  exp: number;
+  iat: number;
+  [key: string]: any;
+}
+
+/**
+ * Decodes the header of an OIDC provider ID token without verifying it, checking that the token
+ * is a JWT signed with RS256 and has a key ID. This can be done before any network call.
+ *
+ * @param {string} idToken The ID token to decode.
+ * @param {FirebaseTokenInfo=} tokenInfo The user facing token information.
+ * @return {any} The decoded JWT header.
+ */
+export function decodeProviderIdTokenHeader(
+    idToken: string, tokenInfo: FirebaseTokenInfo = PROVIDER_ID_TOKEN_INFO): any {
+  if (!validator.isNonEmptyString(idToken)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ID_TOKEN,
+      `Second argument to ${tokenInfo.verifyApiName} must be a non-empty ${tokenInfo.jwtName} string.`,
+    );
+  }
+  const fullDecodedToken: any = jwt.decode(idToken, {complete: true});
+  const header = fullDecodedToken && fullDecodedToken.header;
+  let errorMessage: string;
+  if (!fullDecodedToken) {
+    errorMessage = `Decoding ${tokenInfo.jwtName} failed. Make sure you passed the entire string JWT.`;
+  } else if (header.alg !== ALGORITHM_RS256) {
+    errorMessage = `${tokenInfo.jwtName} has incorrect algorithm. Expected "${ALGORITHM_RS256}" but got ` +
+      `"${header.alg}".`;
+  } else if (!validator.isNonEmptyString(header.kid)) {
+    errorMessage = `${tokenInfo.jwtName} has no "kid" claim.`;
+  }
+  if (typeof errorMessage !== 'undefined') {
+    throw new FirebaseAuthError(AuthClientErrorCode.INVALID_ID_TOKEN, errorMessage);
+  }
+  return header;
+}
+
+/**
+ * UrlKeyFetcher implementation that fetches the public keys from a JSON Web Key Set (JWKS) URL and
+ * converts the RSA signing keys to PEM encoded public keys.
+ */
+export class JwksKeyFetcher extends UrlKeyFetcher {
+  protected readonly keysName: string = 'the OIDC provider';
+  /**
+   * Many OIDC providers serve their JWKS without a "max-age" directive, so the keys are cached
+   * for 5 minutes in that case instead of being fetched for every verification.
+   */
+  protected readonly defaultMaxAge: number = 5 * 60;
+
+  /**
+   * Converts the RSA signing keys of a JWKS to PEM encoded public keys. Other keys are ignored.
+   *
+   * @param {any} data The JWKS.
+   * @return {object} The PEM encoded public keys keyed by key ID.
+   */
+  protected parsePublicKeys(data: any): {[key: string]: string} {
+    if (!validator.isNonNullObject(data) || !validator.isArray(data.keys)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INTERNAL_ERROR,
+        'The OIDC provider JSON Web Key Set does not contain a "keys" array.',
+      );
+    }
+    const forge = require('node-forge');
+    const publicKeys: {[key: string]: string} = {};
+    data.keys.forEach((jwk: any) => {
+      const isSigningKey = typeof jwk.use === 'undefined' || jwk.use === 'sig';
+      if (!validator.isNonNullObject(jwk) || jwk.kty !== 'RSA' || !isSigningKey ||
+          !validator.isNonEmptyString(jwk.kid) ||
+          !validator.isNonEmptyString(jwk.n) || !validator.isNonEmptyString(jwk.e)) {
+        return;
+      }
+      const modulus = new forge.jsbn.BigInteger(base64UrlToHex(jwk.n), 16);
+      const exponent = new forge.jsbn.BigInteger(base64UrlToHex(jwk.e), 16);
+      publicKeys[jwk.kid] = forge.pki.publicKeyToPem(forge.pki.setRsaPublicKey(modulus, exponent));
+    });
+    return publicKeys;
+  }
+}
+
+/**
+ * KeyFetcher implementation that discovers the JWKS URL of an OIDC provider from its discovery
+ * document, and fetches the public keys from it.
+ */
+export class OIDCDiscoveryKeyFetcher implements KeyFetcher {
+  private jwksKeyFetcher: Promise<KeyFetcher>;
+
+  /**
+   * @param {string} issuer The issuer of the OIDC provider.
+   * @param {PublicKeyCache=} publicKeyCache The cache to store the public keys in.
+   * @constructor
+   */
+  constructor(private readonly issuer: string, private readonly publicKeyCache?: PublicKeyCache) {
+    if (!validator.isURL(issuer)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        'The provided OIDC issuer is an invalid URL.',
+      );
+    }
+  }
+
+  /**
+   * @return {Promise<object>} A promise fulfilled with the public keys of the OIDC provider.
+   */
+  public fetchPublicKeys(): Promise<{[key: string]: string}> {
+    if (typeof this.jwksKeyFetcher === 'undefined') {
+      this.jwksKeyFetcher = this.discoverJwksUri()
+        .then((jwksUri) => new JwksKeyFetcher(jwksUri, this.publicKeyCache));
+      // Retry the discovery on the next call if it fails.
+      this.jwksKeyFetcher.catch(() => {
+        this.jwksKeyFetcher = undefined;
+      });
+    }
+    return this.jwksKeyFetcher.then((keyFetcher) => keyFetcher.fetchPublicKeys());
+  }
+
+  /**
+   * Fetches the discovery document of the OIDC provider.
+   *
+   * @return {Promise<string>} A promise fulfilled with the JWKS URL of the OIDC provider.
+   */
+  private discoverJwksUri(): Promise<string> {
+    const client = new HttpClient();
+    const request: HttpRequestConfig = {
+      method: 'GET',
+      url: this.issuer.replace(/\/$/, '') + DISCOVERY_DOCUMENT_PATH,
+    };
+    return client.send(request).then((resp) => {
+      if (!resp.isJson()) {
+        throw new HttpError(resp);
+      }
+      if (resp.data.issuer !== this.issuer) {
+        throw new FirebaseAuthError(
+          AuthClientErrorCode.INVALID_CONFIG,
+          `The OIDC discovery document issuer "${resp.data.issuer}" does not match the ` +
+          `configured issuer "${this.issuer}".`,
+        );
+      }
+      if (!validator.isURL(resp.data.jwks_uri)) {
+        throw new FirebaseAuthError(
+          AuthClientErrorCode.INTERNAL_ERROR,
+          'The OIDC discovery document does not contain a valid "jwks_uri".',
+        );
+      }
+      return resp.data.jwks_uri;
+    }).catch((err) => {
+      if (err instanceof HttpError) {
+        throw new FirebaseAuthError(
+          AuthClientErrorCode.INTERNAL_ERROR,
+          `Error fetching the OIDC discovery document of "${this.issuer}": ${err.response.text}`,
+        );
+      }
+      throw err;
+    });
+  }
+}
+
+/**
+ * Class for verifying the ID tokens issued by an OIDC provider. Unlike FirebaseTokenVerifier, the
+ * expected issuer and audience are those of the provider configuration rather than the project.
+ */
+export class ProviderIdTokenVerifier {
+  private readonly keyFetcher: KeyFetcher;
+
+  /**
+   * @param {string} issuer The issuer of the OIDC provider.
+   * @param {string} clientId The client ID expected in the audience claim.
+   * @param {PublicKeyCache=} publicKeyCache The cache to store the provider public keys in.
+   * @param {FirebaseTokenInfo=} tokenInfo The user facing token information.
+   * @constructor
+   */
+  constructor(private readonly issuer: string, private readonly clientId: string,
+              publicKeyCache?: PublicKeyCache,
+              private readonly tokenInfo: FirebaseTokenInfo = PROVIDER_ID_TOKEN_INFO) {
+    if (!validator.isNonEmptyString(clientId)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        'The provided OIDC client ID must be a non-empty string.',
+      );
+    }
+    this.keyFetcher = new OIDCDiscoveryKeyFetcher(issuer, publicKeyCache);
+  }
+
+  /**
+   * Verifies the signature, issuer, audience and expiration of an OIDC provider ID token.
+   *
+   * @param {string} idToken The ID token to verify.
+   * @return {Promise<DecodedProviderIdToken>} A promise fulfilled with the decoded claims.
+   */
+  public verifyJWT(idToken: string): Promise<DecodedProviderIdToken> {
+    let header: any;
+    try {
+      header = decodeProviderIdTokenHeader(idToken, this.tokenInfo);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    return this.keyFetcher.fetchPublicKeys().then((publicKeys) => {
+      if (!publicKeys.hasOwnProperty(header.kid)) {
+        throw new FirebaseAuthError(
+          AuthClientErrorCode.INVALID_ID_TOKEN,
+          `${this.tokenInfo.jwtName} has "kid" claim which does not correspond to a known public key.`,
+        );
+      }
+      return this.verifyJwtSignatureWithKey(idToken, publicKeys[header.kid]);
+    });
+  }
+
+  /**
+   * Verifies the JWT signature and claims using the provided public key.
+   *
+   * @param {string} idToken The JWT to verify.
+   * @param {string} publicKey The PEM encoded public key.
+   * @return {Promise<DecodedProviderIdToken>} A promise fulfilled with the decoded claims.
+   */
+  private verifyJwtSignatureWithKey(idToken: string, publicKey: string): Promise<DecodedProviderIdToken> {
+    return new Promise((resolve, reject) => {
+      jwt.verify(idToken, publicKey, {
+        algorithms: [ALGORITHM_RS256],
+        audience: this.clientId,
+        issuer: this.issuer,
+      }, (error: jwt.VerifyErrors, decodedToken: any) => {
+        if (error) {
+          if (error.name === 'TokenExpiredError') {
+            return reject(new FirebaseAuthError(
+              this.tokenInfo.expiredErrorCode, `${this.tokenInfo.jwtName} has expired.`));
+          }
+          return reject(new FirebaseAuthError(
+            AuthClientErrorCode.INVALID_ID_TOKEN, `${this.tokenInfo.jwtName} is invalid: ${error.message}.`));
+        }
+        if (!validator.isNonEmptyString(decodedToken.sub)) {
+          return reject(new FirebaseAuthError(
+            AuthClientErrorCode.INVALID_ID_TOKEN, `${this.tokenInfo.jwtName} has no "sub" (subject) claim.`));
+        }
+        resolve(decodedToken);
+      });
+    });
+  }
+}
+
+/**
+ * Converts a base64url encoded string to its hex representation.
+ *
+ * @param {string} value The base64url encoded string.
+ * @return {string} The hex encoded string.
+ */
+function base64UrlToHex(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return Buffer.from(base64, 'base64').toString('hex');
+}
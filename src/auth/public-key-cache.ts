@@ -0,0 +1,99 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as validator from '../utils/validator';
+import {AuthClientErrorCode, FirebaseAuthError} from '../utils/error';
+
+/**
+ * Interface for a cache of the public keys used to verify ID tokens and session cookies. The keys
+ * fetched from each public key URL are cached under that URL. Implementations backed by a shared
+ * store (e.g. Redis or the filesystem) allow the keys to be reused across processes.
+ */
+export interface PublicKeyCache {
+  /**
+   * Looks up the public keys cached under the provided key.
+   *
+   * @param {string} key The cache key.
+   * @return {Promise<object|null>} A promise fulfilled with the cached public keys, or null if
+   *     none are cached or they have expired.
+   */
+  get(key: string): Promise<{[kid: string]: string} | null>;
+
+  /**
+   * Caches the public keys under the provided key.
+   *
+   * @param {string} key The cache key.
+   * @param {object} publicKeys The public keys to cache, keyed by key ID.
+   * @param {number} ttlMillis The duration in milliseconds for which the public keys are valid.
+   * @return {Promise<void>} A promise fulfilled once the public keys are cached.
+   */
+  set(key: string, publicKeys: {[kid: string]: string}, ttlMillis: number): Promise<void>;
+}
+
+/** A cached set of public keys along with their expiration time. */
+interface PublicKeyCacheEntry {
+  publicKeys: {[kid: string]: string};
+  expiresAt: number;
+}
+
+/**
+ * The default PublicKeyCache implementation, which keeps the public keys in memory.
+ */
+export class InMemoryPublicKeyCache implements PublicKeyCache {
+  private readonly entries: {[key: string]: PublicKeyCacheEntry} = {};
+
+  /**
+   * @inheritDoc
+   */
+  public get(key: string): Promise<{[kid: string]: string} | null> {
+    const entry = this.entries[key];
+    if (typeof entry === 'undefined') {
+      return Promise.resolve(null);
+    }
+    if (Date.now() >= entry.expiresAt) {
+      delete this.entries[key];
+      return Promise.resolve(null);
+    }
+    return Promise.resolve(entry.publicKeys);
+  }
+
+  /**
+   * @inheritDoc
+   */
+  public set(key: string, publicKeys: {[kid: string]: string}, ttlMillis: number): Promise<void> {
+    this.entries[key] = {
+      publicKeys,
+      expiresAt: Date.now() + ttlMillis,
+    };
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Validates a user provided PublicKeyCache. Throws an error on failure.
+ *
+ * @param {any} cache The public key cache to validate.
+ */
+export function validatePublicKeyCache(cache: any) {
+  if (!validator.isNonNullObject(cache) ||
+      typeof cache.get !== 'function' ||
+      typeof cache.set !== 'function') {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      'The "publicKeyCache" app option must be an object with get() and set() methods.',
+    );
+  }
+}
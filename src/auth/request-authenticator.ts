@@ -0,0 +1,332 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {IncomingMessage, ServerResponse} from 'http';
+
+import * as validator from '../utils/validator';
+import {AuthClientErrorCode, FirebaseAuthError} from '../utils/error';
+import {AbstractAuthRequestHandler} from './auth-api-request';
+import {BaseAuth, DecodedIdToken} from './auth';
+
+/** The name of the cookie holding the session cookie, which is the only cookie forwarded by Firebase Hosting. */
+const DEFAULT_SESSION_COOKIE_NAME = '__session';
+
+/** The name of the request property the decoded token is attached to by default. */
+const DEFAULT_REQUEST_PROPERTY = 'decodedToken';
+
+/** The codes of the errors due to a valid token which is not allowed to access the requested resource. */
+const FORBIDDEN_ERROR_CODES = [
+  'auth/insufficient-claims',
+  'auth/mismatching-tenant-id',
+  'auth/user-disabled',
+];
+
+/** Options used to configure a RequestAuthenticator. */
+export interface RequestAuthenticatorOptions {
+  /** Whether to check that the ID tokens and session cookies are not revoked. Defaults to false. */
+  checkRevoked?: boolean;
+  /** Claims that the decoded tokens must have, each with the given value. */
+  requiredClaims?: {[claim: string]: any};
+  /** The ID of the tenant the users must belong to. */
+  tenantId?: string;
+  /** The name of the cookie holding the session cookie. Defaults to "__session". */
+  sessionCookieName?: string;
+  /** The name of the request property the decoded token is attached to. Defaults to "decodedToken". */
+  requestProperty?: string;
+  /** Whether the middleware passes authentication failures to next() instead of responding. Defaults to false. */
+  passErrorsToNext?: boolean;
+}
+
+/** The result of a successful request authentication. */
+export interface RequestAuthenticationResult<C extends object = object> {
+  /** The decoded ID token or session cookie. */
+  decodedToken: DecodedIdToken & C;
+  /** Whether the request was authenticated with an ID token or with a session cookie. */
+  source: 'idToken' | 'sessionCookie';
+}
+
+/** The subset of an incoming HTTP request used to authenticate it. */
+export interface RequestHeaders {
+  headers: {[name: string]: string | string[] | undefined};
+}
+
+/** Connect-style middleware function. */
+export type RequestAuthenticatorMiddleware =
+    (request: IncomingMessage, response: ServerResponse, next: (error?: any) => void) => void;
+
+/** Node.js http request listener function. */
+export type RequestListener = (request: IncomingMessage, response: ServerResponse) => void;
+
+/**
+ * Authenticates incoming HTTP requests with either the Firebase ID token of the Authorization
+ * header, sent with the Bearer scheme, or the Firebase session cookie of the cookie header. The
+ * authenticator itself is independent of any web framework, and provides adapters for Node.js
+ * http servers and Connect-style middleware, such as the Express middleware.
+ *
+ * Authentication failures are mapped to HTTP status codes: missing, invalid, expired and revoked
+ * credentials result in 401 responses, while valid credentials of a user who is not allowed to
+ * access the resource, because of a missing required claim or a different tenant, result in 403
+ * responses.
+ */
+export class RequestAuthenticator<C extends object = object> {
+  private readonly checkRevoked: boolean;
+  private readonly requiredClaims: {[claim: string]: any};
+  private readonly tenantId?: string;
+  private readonly sessionCookieName: string;
+  private readonly requestProperty: string;
+  private readonly passErrorsToNext: boolean;
+
+  /**
+   * Returns the HTTP status code corresponding to an authentication failure.
+   *
+   * @param {any} error The error the authentication was rejected with.
+   * @return {number} 403 when the user is not allowed to access the resource, 500 on internal
+   *     errors and 401 otherwise.
+   */
+  public static getHttpStatus(error: any): number {
+    if (!(error instanceof FirebaseAuthError) || error.code === 'auth/internal-error') {
+      return 500;
+    }
+    return FORBIDDEN_ERROR_CODES.indexOf(error.code) !== -1 ? 403 : 401;
+  }
+
+  /**
+   * @param {BaseAuth} auth The Auth instance used to verify the ID tokens and session cookies. When
+   *     a tenant-aware Auth instance is provided, the tokens of other tenants are rejected.
+   * @param {RequestAuthenticatorOptions=} options The authenticator options.
+   * @constructor
+   */
+  constructor(
+      private readonly auth: BaseAuth<AbstractAuthRequestHandler, C>,
+      options: RequestAuthenticatorOptions = {}) {
+    validateRequestAuthenticatorOptions(options);
+    this.checkRevoked = options.checkRevoked || false;
+    this.requiredClaims = options.requiredClaims || {};
+    this.tenantId = options.tenantId;
+    this.sessionCookieName = options.sessionCookieName || DEFAULT_SESSION_COOKIE_NAME;
+    this.requestProperty = options.requestProperty || DEFAULT_REQUEST_PROPERTY;
+    this.passErrorsToNext = options.passErrorsToNext || false;
+  }
+
+  /**
+   * Authenticates a request. The ID token of the Authorization header takes precedence over the
+   * session cookie.
+   *
+   * @param {RequestHeaders} request The request to authenticate.
+   * @return {Promise<RequestAuthenticationResult>} A promise that resolves with the decoded
+   *     token, or is rejected with the error to map to an HTTP status with getHttpStatus().
+   */
+  public authenticate(request: RequestHeaders): Promise<RequestAuthenticationResult<C>> {
+    const headers = (request && request.headers) || {};
+    const idToken = getBearerToken(headers.authorization);
+    const sessionCookie = getCookie(headers.cookie, this.sessionCookieName);
+    let source: 'idToken' | 'sessionCookie';
+    let verification: Promise<DecodedIdToken & C>;
+    if (idToken) {
+      source = 'idToken';
+      verification = this.auth.verifyIdToken(idToken, this.checkRevoked);
+    } else if (sessionCookie) {
+      source = 'sessionCookie';
+      verification = this.auth.verifySessionCookie(sessionCookie, this.checkRevoked);
+    } else {
+      return Promise.reject(new FirebaseAuthError(AuthClientErrorCode.MISSING_CREDENTIALS));
+    }
+    return verification
+      .then((decodedToken) => {
+        this.checkDecodedToken(decodedToken);
+        return {decodedToken, source};
+      });
+  }
+
+  /**
+   * Returns a Connect-style middleware which attaches the decoded token to authenticated requests
+   * and responds to the other requests with an error, or passes the error to next() when the
+   * passErrorsToNext option is set.
+   *
+   * @return {RequestAuthenticatorMiddleware} The middleware function.
+   */
+  public middleware(): RequestAuthenticatorMiddleware {
+    return (request, response, next) => {
+      this.authenticate(request)
+        .then((result) => {
+          (request as any)[this.requestProperty] = result.decodedToken;
+          next();
+        }, (error) => {
+          if (this.passErrorsToNext) {
+            next(error);
+          } else {
+            this.sendError(response, error);
+          }
+        })
+        .catch(() => this.sendInternalError(response));
+    };
+  }
+
+  /**
+   * Wraps a Node.js http request listener so that it is only called with authenticated requests,
+   * to which the decoded token is attached. The other requests are responded to with an error.
+   *
+   * @param {RequestListener} listener The request listener to call with authenticated requests.
+   * @return {RequestListener} The request listener to pass to http.createServer().
+   */
+  public requestListener(listener: RequestListener): RequestListener {
+    if (typeof listener !== 'function') {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        'The request listener must be a function.',
+      );
+    }
+    return (request, response) => {
+      this.authenticate(request)
+        .then((result) => {
+          (request as any)[this.requestProperty] = result.decodedToken;
+          listener(request, response);
+        }, (error) => this.sendError(response, error))
+        .catch(() => this.sendInternalError(response));
+    };
+  }
+
+  /**
+   * Checks the tenant and the required claims of a verified token. Throws an error on failure.
+   *
+   * @param {DecodedIdToken} decodedToken The verified token.
+   */
+  private checkDecodedToken(decodedToken: DecodedIdToken): void {
+    if (typeof this.tenantId !== 'undefined' && decodedToken.firebase.tenant !== this.tenantId) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.MISMATCHING_TENANT_ID,
+        `The user does not belong to the tenant "${this.tenantId}".`,
+      );
+    }
+    Object.keys(this.requiredClaims).forEach((claim) => {
+      if (decodedToken[claim] !== this.requiredClaims[claim]) {
+        throw new FirebaseAuthError(
+          AuthClientErrorCode.INSUFFICIENT_CLAIMS,
+          `The decoded token does not have the required "${claim}" claim value.`,
+        );
+      }
+    });
+  }
+
+  /**
+   * Responds to a request with the JSON representation of an authentication error.
+   *
+   * @param {ServerResponse} response The response to send.
+   * @param {any} error The error the authentication was rejected with.
+   */
+  private sendError(response: ServerResponse, error: any): void {
+    const status = RequestAuthenticator.getHttpStatus(error);
+    // Internal errors are not disclosed to the client.
+    const body = status === 500 ?
+      {error: {code: 'auth/internal-error', message: 'Failed to authenticate the request.'}} :
+      {error: {code: error.code, message: error.message}};
+    const headers: {[name: string]: string} = {'Content-Type': 'application/json; charset=utf-8'};
+    if (status === 401) {
+      headers['WWW-Authenticate'] = 'Bearer';
+    }
+    response.writeHead(status, headers);
+    response.end(JSON.stringify(body));
+  }
+
+  /**
+   * Responds to a request with a 500 error after the request listener or next() threw, or after
+   * the error response could not be sent. The response is only ended if it was already started.
+   *
+   * @param {ServerResponse} response The response to send.
+   */
+  private sendInternalError(response: ServerResponse): void {
+    try {
+      if (response.headersSent) {
+        response.end();
+      } else {
+        this.sendError(response, new FirebaseAuthError(AuthClientErrorCode.INTERNAL_ERROR));
+      }
+    } catch (e) {
+      // Nothing else can be done with a broken response.
+    }
+  }
+}
+
+/**
+ * Validates the options of a request authenticator. Throws an error on failure.
+ *
+ * @param {any} options The options to validate.
+ */
+function validateRequestAuthenticatorOptions(options: any): void {
+  if (!validator.isNonNullObject(options)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      '"RequestAuthenticatorOptions" must be a valid non-null object.',
+    );
+  }
+  ['checkRevoked', 'passErrorsToNext'].forEach((key) => {
+    if (typeof options[key] !== 'undefined' && !validator.isBoolean(options[key])) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        `"RequestAuthenticatorOptions.${key}" must be a boolean.`,
+      );
+    }
+  });
+  if (typeof options.requiredClaims !== 'undefined' &&
+      (!validator.isNonNullObject(options.requiredClaims) || validator.isArray(options.requiredClaims))) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      '"RequestAuthenticatorOptions.requiredClaims" must be a non-null object.',
+    );
+  }
+  ['tenantId', 'sessionCookieName', 'requestProperty'].forEach((key) => {
+    if (typeof options[key] !== 'undefined' && !validator.isNonEmptyString(options[key])) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        `"RequestAuthenticatorOptions.${key}" must be a non-empty string.`,
+      );
+    }
+  });
+}
+
+/**
+ * @param {string|string[]=} header The Authorization header.
+ * @return {string|null} The token of the Bearer scheme, or null when there is none.
+ */
+function getBearerToken(header: string | string[] | undefined): string | null {
+  const value = Array.isArray(header) ? header[0] : header;
+  const match = validator.isString(value) ? /^Bearer\s+(\S+)\s*$/i.exec(value) : null;
+  return match ? match[1] : null;
+}
+
+/**
+ * @param {string|string[]=} header The cookie header.
+ * @param {string} name The name of the cookie.
+ * @return {string|null} The value of the cookie, or null when there is none.
+ */
+function getCookie(header: string | string[] | undefined, name: string): string | null {
+  const value = Array.isArray(header) ? header.join('; ') : header;
+  if (!validator.isString(value)) {
+    return null;
+  }
+  for (const pair of value.split(';')) {
+    const separatorIndex = pair.indexOf('=');
+    if (separatorIndex !== -1 && pair.slice(0, separatorIndex).trim() === name) {
+      const cookie = pair.slice(separatorIndex + 1).trim().replace(/^"(.*)"$/, '$1');
+      try {
+        return decodeURIComponent(cookie) || null;
+      } catch (e) {
+        return cookie || null;
+      }
+    }
+  }
+  return null;
+}
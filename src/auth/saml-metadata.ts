@@ -0,0 +1,404 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as validator from '../utils/validator';
+import {AuthClientErrorCode, FirebaseAuthError} from '../utils/error';
+
+/** The SAML 2.0 metadata namespace. */
+const METADATA_NAMESPACE = 'urn:oasis:names:tc:SAML:2.0:metadata';
+
+/** The XML digital signature namespace, which the certificates of the key descriptors belong to. */
+const XMLDSIG_NAMESPACE = 'http://www.w3.org/2000/09/xmldsig#';
+
+/** The SAML 2.0 protocol, as supported by the described entities. */
+const SAML_PROTOCOL = 'urn:oasis:names:tc:SAML:2.0:protocol';
+
+/** The SAML 2.0 HTTP-POST binding. */
+const HTTP_POST_BINDING = 'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST';
+
+/** The single sign-on service bindings, in order of preference. */
+const SSO_BINDINGS = ['urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect', HTTP_POST_BINDING];
+
+/** The namespace bound to the reserved "xml" prefix. */
+const XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace';
+
+/** Matches a start tag, with its qualified name, attributes and self-closing slash. */
+const START_TAG_PATTERN = /<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+
+/** Matches an attribute of a start tag, with its qualified name and quoted value. */
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/** The predefined XML entities. */
+const XML_ENTITIES: {[name: string]: string} = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: '\'',
+};
+
+/** The identity provider settings described by SAML IdP metadata. */
+export interface SAMLIdpMetadata {
+  idpEntityId: string;
+  ssoURL: string;
+  x509Certificates: string[];
+}
+
+/** The service provider settings described by SAML SP metadata. */
+export interface SAMLSpMetadata {
+  rpEntityId: string;
+  callbackURL: string;
+  enableRequestSigning?: boolean;
+  /** The PEM encoded certificates of the keys the authentication requests are signed with. */
+  signingCertificates?: string[];
+}
+
+/** An element of a parsed XML document. */
+interface XmlElement {
+  qualifiedName: string;
+  localName: string;
+  namespace?: string;
+  attributes: {[qualifiedName: string]: string};
+  children: XmlElement[];
+  text: string;
+  /** The namespaces in scope, by prefix. The default namespace has an empty prefix. */
+  namespaces: {[prefix: string]: string};
+}
+
+/**
+ * Parses SAML 2.0 metadata describing a single identity provider, such as the metadata XML files
+ * provided by enterprise identity providers. The single sign-on URL of the HTTP-Redirect binding
+ * is preferred over the HTTP-POST one. Throws an error on failure.
+ *
+ * @param {string} xml The IdP metadata XML.
+ * @return {SAMLIdpMetadata} The identity provider settings, with PEM encoded certificates.
+ */
+export function parseIdpMetadataXml(xml: string): SAMLIdpMetadata {
+  if (!validator.isNonEmptyString(xml)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      'The IdP metadata must be a non-empty XML string.',
+    );
+  }
+  const root = parseXml(xml);
+  const entities = (isMetadataElement(root, 'EntityDescriptor') ? [root] :
+    findDescendants(root, METADATA_NAMESPACE, 'EntityDescriptor'))
+    .filter((candidate) => findChildren(candidate, 'IDPSSODescriptor').length > 0);
+  if (entities.length === 0) {
+    throw invalidMetadata('The metadata does not describe any identity provider.');
+  } else if (entities.length > 1) {
+    throw invalidMetadata('The metadata describes more than one identity provider.');
+  }
+  const entity = entities[0];
+  const idpEntityId = entity.attributes.entityID;
+  if (!validator.isNonEmptyString(idpEntityId)) {
+    throw invalidMetadata('The entity descriptor of the identity provider has no "entityID" attribute.');
+  }
+  const descriptor = findChildren(entity, 'IDPSSODescriptor')[0];
+
+  const services = findChildren(descriptor, 'SingleSignOnService');
+  let ssoURL: string | undefined;
+  for (const binding of SSO_BINDINGS) {
+    const service = services.find((candidate) => candidate.attributes.Binding === binding);
+    if (service) {
+      ssoURL = service.attributes.Location;
+      break;
+    }
+  }
+  if (!validator.isNonEmptyString(ssoURL)) {
+    throw invalidMetadata('The identity provider has no HTTP-Redirect or HTTP-POST single sign-on service.');
+  }
+
+  const x509Certificates: string[] = [];
+  findChildren(descriptor, 'KeyDescriptor')
+    .filter((keyDescriptor) => {
+      const use = keyDescriptor.attributes.use;
+      return typeof use === 'undefined' || use === 'signing';
+    })
+    .forEach((keyDescriptor) => {
+      findDescendants(keyDescriptor, XMLDSIG_NAMESPACE, 'X509Certificate').forEach((certificate) => {
+        const pem = toPem(certificate.text);
+        if (x509Certificates.indexOf(pem) === -1) {
+          x509Certificates.push(pem);
+        }
+      });
+    });
+  if (x509Certificates.length === 0) {
+    throw invalidMetadata('The identity provider has no signing certificate.');
+  }
+  return {idpEntityId, ssoURL, x509Certificates};
+}
+
+/**
+ * Builds the SAML 2.0 metadata describing a relying party, to be provided to its identity
+ * provider. When the authentication requests are signed, the signing certificates are described
+ * by signing key descriptors, so that the identity provider can verify the signatures. Throws an
+ * error if the authentication requests are signed but there are no signing certificates.
+ *
+ * @param {SAMLSpMetadata} settings The service provider settings.
+ * @return {string} The SP metadata XML.
+ */
+export function buildSpMetadataXml(settings: SAMLSpMetadata): string {
+  let keyDescriptors = '';
+  if (settings.enableRequestSigning) {
+    const certificates = settings.signingCertificates || [];
+    if (certificates.length === 0) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_CONFIG,
+        'The SP metadata of a relying party which signs its authentication requests requires ' +
+        'the signing certificates.',
+      );
+    }
+    keyDescriptors = certificates.map((certificate) => {
+      return '    <md:KeyDescriptor use="signing">\n' +
+        `      <ds:KeyInfo xmlns:ds="${XMLDSIG_NAMESPACE}">\n` +
+        '        <ds:X509Data>\n' +
+        `          <ds:X509Certificate>${fromPem(certificate)}</ds:X509Certificate>\n` +
+        '        </ds:X509Data>\n' +
+        '      </ds:KeyInfo>\n' +
+        '    </md:KeyDescriptor>\n';
+    }).join('');
+  }
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<md:EntityDescriptor xmlns:md="${METADATA_NAMESPACE}" entityID="${escapeXml(settings.rpEntityId)}">\n` +
+    `  <md:SPSSODescriptor AuthnRequestsSigned="${!!settings.enableRequestSigning}" ` +
+    `protocolSupportEnumeration="${SAML_PROTOCOL}">\n` +
+    keyDescriptors +
+    `    <md:AssertionConsumerService Binding="${HTTP_POST_BINDING}" ` +
+    `Location="${escapeXml(settings.callbackURL)}" index="0" isDefault="true"/>\n` +
+    '  </md:SPSSODescriptor>\n' +
+    '</md:EntityDescriptor>\n';
+}
+
+/**
+ * Parses an XML document into a tree of namespace aware elements. Only the subset of XML used by
+ * metadata documents is supported: DOCTYPE declarations, and thus custom entities, are rejected.
+ *
+ * @param {string} xml The XML document.
+ * @return {XmlElement} The root element.
+ */
+function parseXml(xml: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | undefined;
+  let position = 0;
+  while (position < xml.length) {
+    const start = xml.indexOf('<', position);
+    const text = xml.substring(position, start === -1 ? xml.length : start);
+    if (stack.length > 0) {
+      stack[stack.length - 1].text += decodeEntities(text);
+    } else if (text.trim() !== '') {
+      throw invalidMetadata('The XML document has text outside of its root element.');
+    }
+    if (start === -1) {
+      break;
+    }
+    if (xml.startsWith('<!--', start)) {
+      position = findEnd(xml, '-->', start);
+    } else if (xml.startsWith('<![CDATA[', start)) {
+      position = findEnd(xml, ']]>', start);
+      if (stack.length === 0) {
+        throw invalidMetadata('The XML document has text outside of its root element.');
+      }
+      stack[stack.length - 1].text += xml.substring(start + '<![CDATA['.length, position - ']]>'.length);
+    } else if (xml.startsWith('<?', start)) {
+      position = findEnd(xml, '?>', start);
+    } else if (xml.startsWith('<!', start)) {
+      throw invalidMetadata('XML documents with a DOCTYPE declaration are not supported.');
+    } else if (xml.startsWith('</', start)) {
+      position = findEnd(xml, '>', start);
+      const qualifiedName = xml.substring(start + 2, position - 1).trim();
+      const element = stack.pop();
+      if (!element || element.qualifiedName !== qualifiedName) {
+        throw invalidMetadata(`The XML document has an unexpected closing tag "${qualifiedName}".`);
+      }
+    } else {
+      START_TAG_PATTERN.lastIndex = start;
+      const match = START_TAG_PATTERN.exec(xml);
+      if (!match) {
+        throw invalidMetadata('The XML document has a malformed start tag.');
+      }
+      if (root && stack.length === 0) {
+        throw invalidMetadata('The XML document has more than one root element.');
+      }
+      const element = createElement(match[1], match[2], stack.length > 0 ? stack[stack.length - 1] : undefined);
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(element);
+      } else {
+        root = element;
+      }
+      if (!match[3]) {
+        stack.push(element);
+      }
+      position = START_TAG_PATTERN.lastIndex;
+    }
+  }
+  if (!root || stack.length > 0) {
+    throw invalidMetadata('The XML document is incomplete.');
+  }
+  return root;
+}
+
+/**
+ * @param {string} qualifiedName The qualified name of the element.
+ * @param {string} attributesSource The attributes of the start tag.
+ * @param {XmlElement=} parent The parent element, if any.
+ * @return {XmlElement} The element, with its namespace resolved.
+ */
+function createElement(qualifiedName: string, attributesSource: string, parent?: XmlElement): XmlElement {
+  const attributes: {[qualifiedName: string]: string} = {};
+  const namespaces: {[prefix: string]: string} = parent ? {...parent.namespaces} : {xml: XML_NAMESPACE};
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  let match = ATTRIBUTE_PATTERN.exec(attributesSource);
+  while (match) {
+    const value = decodeEntities(typeof match[2] !== 'undefined' ? match[2] : match[3]);
+    attributes[match[1]] = value;
+    if (match[1] === 'xmlns') {
+      namespaces[''] = value;
+    } else if (match[1].indexOf('xmlns:') === 0) {
+      namespaces[match[1].substring('xmlns:'.length)] = value;
+    }
+    match = ATTRIBUTE_PATTERN.exec(attributesSource);
+  }
+  const separator = qualifiedName.indexOf(':');
+  const prefix = separator === -1 ? '' : qualifiedName.substring(0, separator);
+  if (prefix !== '' && !(prefix in namespaces)) {
+    throw invalidMetadata(`The XML document uses the undeclared namespace prefix "${prefix}".`);
+  }
+  return {
+    qualifiedName,
+    localName: qualifiedName.substring(separator + 1),
+    namespace: namespaces[prefix] || undefined,
+    attributes,
+    children: [],
+    text: '',
+    namespaces,
+  };
+}
+
+/**
+ * @param {string} xml The XML document.
+ * @param {string} delimiter The delimiter ending the construct starting at the given index.
+ * @param {number} start The index of the start of the construct.
+ * @return {number} The index following the delimiter.
+ */
+function findEnd(xml: string, delimiter: string, start: number): number {
+  const end = xml.indexOf(delimiter, start);
+  if (end === -1) {
+    throw invalidMetadata('The XML document is incomplete.');
+  }
+  return end + delimiter.length;
+}
+
+/**
+ * @param {string} text Text or an attribute value of an XML document.
+ * @return {string} The text with its entity and character references replaced.
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (reference, name: string) => {
+    if (name.charAt(0) === '#') {
+      const codePoint = name.charAt(1) === 'x' ? parseInt(name.substring(2), 16) : parseInt(name.substring(1), 10);
+      if (codePoint > 0x10FFFF) {
+        throw invalidMetadata(`The XML document uses the invalid character reference "${reference}".`);
+      }
+      return String.fromCodePoint(codePoint);
+    } else if (name in XML_ENTITIES) {
+      return XML_ENTITIES[name];
+    }
+    throw invalidMetadata(`The XML document uses the undefined entity "${reference}".`);
+  });
+}
+
+/**
+ * @param {string} value Text to include in an XML attribute value.
+ * @return {string} The escaped text.
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * @param {XmlElement} element An element.
+ * @param {string} localName The local name of the metadata element.
+ * @return {boolean} Whether the element is the metadata element with the given local name.
+ */
+function isMetadataElement(element: XmlElement, localName: string): boolean {
+  return element.namespace === METADATA_NAMESPACE && element.localName === localName;
+}
+
+/**
+ * @param {XmlElement} element An element.
+ * @param {string} localName The local name of the metadata elements to find.
+ * @return {XmlElement[]} The child metadata elements with the given local name.
+ */
+function findChildren(element: XmlElement, localName: string): XmlElement[] {
+  return element.children.filter((child) => isMetadataElement(child, localName));
+}
+
+/**
+ * @param {XmlElement} element An element.
+ * @param {string} namespace The namespace of the elements to find.
+ * @param {string} localName The local name of the elements to find.
+ * @return {XmlElement[]} The descendant elements with the given name, in document order.
+ */
+function findDescendants(element: XmlElement, namespace: string, localName: string): XmlElement[] {
+  const descendants: XmlElement[] = [];
+  element.children.forEach((child) => {
+    if (child.namespace === namespace && child.localName === localName) {
+      descendants.push(child);
+    }
+    descendants.push(...findDescendants(child, namespace, localName));
+  });
+  return descendants;
+}
+
+/**
+ * @param {string} base64 The base64 encoded DER certificate of a metadata document.
+ * @return {string} The PEM encoded certificate.
+ */
+function toPem(base64: string): string {
+  const body = base64.replace(/\s+/g, '');
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(body)) {
+    throw invalidMetadata('The identity provider has an invalid X.509 certificate.');
+  }
+  return '-----BEGIN CERTIFICATE-----\n' + body.match(/.{1,64}/g).join('\n') + '\n-----END CERTIFICATE-----\n';
+}
+
+/**
+ * @param {string} certificate The PEM encoded X.509 certificate, or its base64 encoded DER.
+ * @return {string} The base64 encoded DER of the certificate, as found in metadata documents.
+ */
+function fromPem(certificate: string): string {
+  const body = certificate.replace(/-----(BEGIN|END) CERTIFICATE-----/g, '').replace(/\s+/g, '');
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(body)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_CONFIG,
+      'The relying party has an invalid X.509 signing certificate.',
+    );
+  }
+  return body;
+}
+
+/**
+ * @param {string} message The error message.
+ * @return {FirebaseAuthError} The error thrown when a metadata document is invalid.
+ */
+function invalidMetadata(message: string): FirebaseAuthError {
+  return new FirebaseAuthError(AuthClientErrorCode.INVALID_SAML_METADATA, message);
+}
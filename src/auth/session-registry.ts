@@ -0,0 +1,265 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as crypto from 'crypto';
+import * as jwt from 'jsonwebtoken';
+
+import * as validator from '../utils/validator';
+import {deepCopy} from '../utils/deep-copy';
+import {AuthClientErrorCode, FirebaseAuthError} from '../utils/error';
+import {DecodedIdToken} from './auth';
+
+/** Interface representing a session cookie recorded in a session store. */
+export interface SessionRecord {
+  /** The uid of the user the session cookie was issued for. */
+  uid: string;
+  /** The identifier of the session, as returned by SessionRegistry.getSessionId(). */
+  sessionId: string;
+  /** The ID of the tenant of the user, if any. */
+  tenantId?: string;
+  /** The time the user signed in, in seconds since the epoch. */
+  authTime: number;
+  /** The time the session cookie was issued, in seconds since the epoch. */
+  issuedAt: number;
+  /** The time the session cookie expires, in seconds since the epoch. */
+  expiresAt: number;
+  /** Whether the session has been revoked. */
+  revoked: boolean;
+}
+
+/**
+ * Storage of the session cookies issued by createSessionCookie(). Implementations may persist the
+ * sessions in any database shared by the servers which verify the session cookies.
+ */
+export interface SessionStore {
+  /** Returns the session with the given ID of a user, or null when there is none. */
+  get(uid: string, sessionId: string): Promise<SessionRecord | null>;
+  /** Returns all the sessions of a user, including the expired and revoked ones. */
+  list(uid: string): Promise<SessionRecord[]>;
+  /** Adds a session, or replaces the session of the same user with the same ID. */
+  set(session: SessionRecord): Promise<void>;
+  /** Deletes the session with the given ID of a user, if any. */
+  delete(uid: string, sessionId: string): Promise<void>;
+}
+
+/** The methods a session store must implement. */
+const SESSION_STORE_METHODS = ['get', 'list', 'set', 'delete'];
+
+/**
+ * Session store which keeps the sessions in the memory of the current process. This is only
+ * suitable when the session cookies are verified by a single server.
+ */
+export class InMemorySessionStore implements SessionStore {
+  private readonly sessions: {[uid: string]: {[sessionId: string]: SessionRecord}} = {};
+
+  /**
+   * @param {string} uid The uid of the user.
+   * @param {string} sessionId The session ID.
+   * @return {Promise<SessionRecord|null>} A promise that resolves with a copy of the session.
+   */
+  public get(uid: string, sessionId: string): Promise<SessionRecord | null> {
+    const userSessions = this.sessions[uid] || {};
+    const session = userSessions.hasOwnProperty(sessionId) ? deepCopy(userSessions[sessionId]) : null;
+    return Promise.resolve(session);
+  }
+
+  /**
+   * @param {string} uid The uid of the user.
+   * @return {Promise<SessionRecord[]>} A promise that resolves with copies of the sessions of the user.
+   */
+  public list(uid: string): Promise<SessionRecord[]> {
+    const userSessions = this.sessions[uid] || {};
+    return Promise.resolve(Object.keys(userSessions).map((sessionId) => deepCopy(userSessions[sessionId])));
+  }
+
+  /**
+   * @param {SessionRecord} session The session to store.
+   * @return {Promise<void>} A promise that resolves once the session is stored.
+   */
+  public set(session: SessionRecord): Promise<void> {
+    if (!this.sessions.hasOwnProperty(session.uid)) {
+      this.sessions[session.uid] = {};
+    }
+    this.sessions[session.uid][session.sessionId] = deepCopy(session);
+    return Promise.resolve();
+  }
+
+  /**
+   * @param {string} uid The uid of the user.
+   * @param {string} sessionId The session ID.
+   * @return {Promise<void>} A promise that resolves once the session is deleted.
+   */
+  public delete(uid: string, sessionId: string): Promise<void> {
+    if (this.sessions.hasOwnProperty(uid)) {
+      delete this.sessions[uid][sessionId];
+      if (Object.keys(this.sessions[uid]).length === 0) {
+        delete this.sessions[uid];
+      }
+    }
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Keeps track of the session cookies issued to users in a session store, so that the active
+ * sessions of a user can be listed and revoked individually. Unlike revokeRefreshTokens(), which
+ * revokes all the sessions of a user, this allows signing a user out of other devices.
+ *
+ * Only the session cookies recorded after the registry is set up are listed. The session cookies
+ * which are not recorded are never considered revoked by the registry.
+ */
+export class SessionRegistry {
+  /**
+   * Returns the ID of the session of a session cookie, which is the SHA-256 hash of the cookie.
+   * Session cookies have no identifier of their own, and the cookies created in the same second
+   * from the same sign-in have the same claims otherwise.
+   *
+   * @param {string} sessionCookie The session cookie.
+   * @return {string} The session ID.
+   */
+  public static getSessionId(sessionCookie: string): string {
+    return crypto.createHash('sha256').update(sessionCookie).digest('hex');
+  }
+
+  /**
+   * @param {SessionStore} store The store of the sessions.
+   * @param {string=} tenantId The ID of the tenant of the users, if any.
+   * @constructor
+   */
+  constructor(private readonly store: SessionStore, private readonly tenantId?: string) {
+    if (!validator.isNonNullObject(store) ||
+        SESSION_STORE_METHODS.some((method) => typeof (store as any)[method] !== 'function')) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        `The session store must be an object implementing the "${SESSION_STORE_METHODS.join('", "')}" methods.`,
+      );
+    }
+  }
+
+  /**
+   * Records a session cookie issued by the Auth backend.
+   *
+   * @param {string} sessionCookie The issued session cookie.
+   * @return {Promise<SessionRecord>} A promise that resolves with the recorded session.
+   */
+  public recordSession(sessionCookie: string): Promise<SessionRecord> {
+    // The session cookie has just been issued by the Auth backend, so it does not need to be verified.
+    const decodedClaims = jwt.decode(sessionCookie) as DecodedIdToken;
+    if (!validator.isNonNullObject(decodedClaims) || !validator.isNonEmptyString(decodedClaims.sub)) {
+      return Promise.reject(new FirebaseAuthError(
+        AuthClientErrorCode.INTERNAL_ERROR,
+        'INTERNAL ASSERT FAILED: Unable to decode the session cookie to record'));
+    }
+    const session: SessionRecord = {
+      uid: decodedClaims.sub,
+      sessionId: SessionRegistry.getSessionId(sessionCookie),
+      authTime: decodedClaims.auth_time,
+      issuedAt: decodedClaims.iat,
+      expiresAt: decodedClaims.exp,
+      revoked: false,
+    };
+    if (typeof this.tenantId !== 'undefined') {
+      session.tenantId = this.tenantId;
+    }
+    return this.store.set(session)
+      .then(() => session);
+  }
+
+  /**
+   * Lists the active sessions of a user, which are neither expired nor revoked. The expired
+   * sessions are deleted from the store.
+   *
+   * @param {string} uid The uid of the user.
+   * @return {Promise<SessionRecord[]>} A promise that resolves with the active sessions, sorted by
+   *     issue time.
+   */
+  public listSessions(uid: string): Promise<SessionRecord[]> {
+    if (!validator.isUid(uid)) {
+      return Promise.reject(new FirebaseAuthError(AuthClientErrorCode.INVALID_UID));
+    }
+    const now = Math.floor(Date.now() / 1000);
+    return this.store.list(uid)
+      .then((sessions) => {
+        const tenantSessions = sessions.filter((session) => session.tenantId === this.tenantId);
+        const expiredSessions = tenantSessions.filter((session) => session.expiresAt <= now);
+        return Promise.all(expiredSessions.map((session) => this.store.delete(uid, session.sessionId)))
+          .then(() => {
+            return tenantSessions
+              .filter((session) => session.expiresAt > now && !session.revoked)
+              .sort((a, b) => a.issuedAt - b.issuedAt);
+          });
+      });
+  }
+
+  /**
+   * Revokes a session of a user. The session cookies of the session are rejected by subsequent
+   * verifications.
+   *
+   * @param {string} uid The uid of the user.
+   * @param {string} sessionId The ID of the session to revoke.
+   * @return {Promise<void>} A promise that resolves once the session is revoked.
+   */
+  public revokeSession(uid: string, sessionId: string): Promise<void> {
+    if (!validator.isUid(uid)) {
+      return Promise.reject(new FirebaseAuthError(AuthClientErrorCode.INVALID_UID));
+    }
+    if (!validator.isNonEmptyString(sessionId)) {
+      return Promise.reject(new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        'The session ID must be a non-empty string.',
+      ));
+    }
+    return this.getSession(uid, sessionId)
+      .then((session) => {
+        if (!session) {
+          throw new FirebaseAuthError(AuthClientErrorCode.SESSION_NOT_FOUND);
+        }
+        if (session.revoked) {
+          return;
+        }
+        session.revoked = true;
+        return this.store.set(session);
+      });
+  }
+
+  /**
+   * Checks that the session of a verified session cookie has not been revoked.
+   *
+   * @param {string} sessionCookie The verified session cookie.
+   * @param {DecodedIdToken} decodedClaims The decoded session cookie claims.
+   * @return {Promise<void>} A promise that resolves when the session is not revoked, or is
+   *     rejected with an auth/session-cookie-revoked error.
+   */
+  public checkSessionNotRevoked(sessionCookie: string, decodedClaims: DecodedIdToken): Promise<void> {
+    return this.getSession(decodedClaims.sub, SessionRegistry.getSessionId(sessionCookie))
+      .then((session) => {
+        if (session && session.revoked) {
+          throw new FirebaseAuthError(AuthClientErrorCode.SESSION_COOKIE_REVOKED);
+        }
+      });
+  }
+
+  /**
+   * @param {string} uid The uid of the user.
+   * @param {string} sessionId The session ID.
+   * @return {Promise<SessionRecord|null>} A promise that resolves with the session of the tenant,
+   *     or null when there is none.
+   */
+  private getSession(uid: string, sessionId: string): Promise<SessionRecord | null> {
+    return this.store.get(uid, sessionId)
+      .then((session) => (session && session.tenantId === this.tenantId) ? session : null);
+  }
+}
@@ -22,6 +22,7 @@ import {
 } from './tenant';
 import {AuthClientErrorCode, FirebaseAuthError} from '../utils/error';
 import * as validator from '../utils/validator';
+import {PageIterable, PageIteratorOptions} from '../utils/page-iterator';
 
 /**
  * Data structure used to help manage tenant related operations.
@@ -32,7 +33,7 @@ import * as validator from '../utils/validator';
  */
 export class TenantManager {
   private readonly authRequestHandler: AuthRequestHandler;
-  private readonly tenantsMap: {[key: string]: TenantAwareAuth};
+  private readonly tenantsMap: {[key: string]: TenantAwareAuth<object>};
 
   /**
    * Initializes a TenantManager instance for a specified FirebaseApp.
@@ -44,19 +45,20 @@ export class TenantManager {
   }
 
   /**
-   * Returns a TenantAwareAuth instance for the corresponding tenant ID.
+   * Returns a TenantAwareAuth instance for the corresponding tenant ID. The instance is shared
+   * by all the callers, whichever custom claims type C they use.
    *
    * @param tenantId The tenant ID whose TenantAwareAuth is to be returned.
    * @return The corresponding TenantAwareAuth instance.
    */
-  public authForTenant(tenantId: string): TenantAwareAuth {
+  public authForTenant<C extends object = object>(tenantId: string): TenantAwareAuth<C> {
     if (!validator.isNonEmptyString(tenantId)) {
       throw new FirebaseAuthError(AuthClientErrorCode.INVALID_TENANT_ID);
     }
     if (typeof this.tenantsMap[tenantId] === 'undefined') {
       this.tenantsMap[tenantId] = new TenantAwareAuth(this.app, tenantId);
     }
-    return this.tenantsMap[tenantId];
+    return this.tenantsMap[tenantId] as TenantAwareAuth<C>;
   }
 
   /**
@@ -109,6 +111,22 @@ export class TenantManager {
       });
   }
 
+  /**
+   * Returns an AsyncIterable over all the tenants. Tenants are downloaded lazily in pages of the
+   * requested size, with the next page only fetched once the current page has been consumed.
+   *
+   * @param options The optional iteration options, including the page size (1000 if undefined,
+   *     which is also the maximum allowed limit).
+   * @return An AsyncIterable over all the tenants.
+   */
+  public iterateTenants(options?: PageIteratorOptions): AsyncIterable<Tenant> {
+    const pageSize = options ? options.pageSize : undefined;
+    return new PageIterable<Tenant>((pageToken?: string) => {
+      return this.listTenants(pageSize, pageToken)
+        .then((result) => ({items: result.tenants, pageToken: result.pageToken}));
+    });
+  }
+
   /**
    * Deletes the tenant identified by the provided tenant ID and returns a promise that is
    * fulfilled when the tenant is found and successfully deleted.
@@ -16,20 +16,30 @@
 
 import * as utils from '../utils';
 import * as validator from '../utils/validator';
+import {deepCopy} from '../utils/deep-copy';
 import {AuthClientErrorCode, FirebaseAuthError} from '../utils/error';
 import {
   EmailSignInConfig, EmailSignInConfigServerRequest, EmailSignInProviderConfig,
+  MultiFactorAuthConfig, MultiFactorAuthServerConfig, MultiFactorConfig,
+  validateTestPhoneNumbers,
 } from './auth-config';
 
 /** The TenantOptions interface used for create/read/update tenant operations. */
 export interface TenantOptions {
   displayName?: string;
   emailSignInConfig?: EmailSignInProviderConfig;
+  anonymousSignInEnabled?: boolean;
+  multiFactorConfig?: MultiFactorConfig;
+  // Passing null on update clears all the existing test phone numbers.
+  testPhoneNumbers?: {[phoneNumber: string]: string} | null;
 }
 
 /** The corresponding server side representation of a TenantOptions object. */
 export interface TenantOptionsServerRequest extends EmailSignInConfigServerRequest {
   displayName?: string;
+  enableAnonymousUser?: boolean;
+  mfaConfig?: MultiFactorAuthServerConfig;
+  testPhoneNumbers?: {[phoneNumber: string]: string};
 }
 
 /** The tenant server response interface. */
@@ -38,6 +48,9 @@ export interface TenantServerResponse {
   displayName?: string;
   allowPasswordSignup?: boolean;
   enableEmailLinkSignin?: boolean;
+  enableAnonymousUser?: boolean;
+  mfaConfig?: MultiFactorAuthServerConfig;
+  testPhoneNumbers?: {[phoneNumber: string]: string};
 }
 
 /** The interface representing the listTenant API response. */
@@ -54,6 +67,9 @@ export class Tenant {
   public readonly tenantId: string;
   public readonly displayName?: string;
   public readonly emailSignInConfig?: EmailSignInConfig;
+  public readonly anonymousSignInEnabled: boolean;
+  public readonly multiFactorConfig?: MultiFactorAuthConfig;
+  public readonly testPhoneNumbers?: {[phoneNumber: string]: string};
 
   /**
    * Builds the corresponding server request for a TenantOptions object.
@@ -72,6 +88,16 @@ export class Tenant {
     if (typeof tenantOptions.displayName !== 'undefined') {
       request.displayName = tenantOptions.displayName;
     }
+    if (typeof tenantOptions.anonymousSignInEnabled !== 'undefined') {
+      request.enableAnonymousUser = tenantOptions.anonymousSignInEnabled;
+    }
+    if (typeof tenantOptions.multiFactorConfig !== 'undefined') {
+      request.mfaConfig = MultiFactorAuthConfig.buildServerRequest(tenantOptions.multiFactorConfig);
+    }
+    if (typeof tenantOptions.testPhoneNumbers !== 'undefined') {
+      // null clears the existing test phone numbers, which the backend expects as an empty map.
+      request.testPhoneNumbers = tenantOptions.testPhoneNumbers || {};
+    }
     return request;
   }
 
@@ -100,6 +126,9 @@ export class Tenant {
     const validKeys = {
       displayName: true,
       emailSignInConfig: true,
+      anonymousSignInEnabled: true,
+      multiFactorConfig: true,
+      testPhoneNumbers: true,
     };
     const label = createRequest ? 'CreateTenantRequest' : 'UpdateTenantRequest';
     if (!validator.isNonNullObject(request)) {
@@ -130,6 +159,30 @@ export class Tenant {
       // This will throw an error if invalid.
       EmailSignInConfig.buildServerRequest(request.emailSignInConfig);
     }
+    // Validate anonymousSignInEnabled type if provided.
+    if (typeof request.anonymousSignInEnabled !== 'undefined' &&
+        !validator.isBoolean(request.anonymousSignInEnabled)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        `"${label}.anonymousSignInEnabled" must be a boolean.`,
+      );
+    }
+    // Validate multiFactorConfig type if provided.
+    if (typeof request.multiFactorConfig !== 'undefined') {
+      // This will throw an error if invalid.
+      MultiFactorAuthConfig.buildServerRequest(request.multiFactorConfig);
+    }
+    // Validate testPhoneNumbers if provided. null is only allowed on update to clear them.
+    if (typeof request.testPhoneNumbers !== 'undefined') {
+      if (request.testPhoneNumbers !== null) {
+        validateTestPhoneNumbers(request.testPhoneNumbers);
+      } else if (createRequest) {
+        throw new FirebaseAuthError(
+          AuthClientErrorCode.INVALID_ARGUMENT,
+          `"${label}.testPhoneNumbers" must be a non-null object.`,
+        );
+      }
+    }
   }
 
   /**
@@ -156,15 +209,30 @@ export class Tenant {
         allowPasswordSignup: false,
       });
     }
+    this.anonymousSignInEnabled = !!response.enableAnonymousUser;
+    if (typeof response.mfaConfig !== 'undefined') {
+      this.multiFactorConfig = new MultiFactorAuthConfig(response.mfaConfig);
+    }
+    if (typeof response.testPhoneNumbers !== 'undefined') {
+      this.testPhoneNumbers = deepCopy(response.testPhoneNumbers || {});
+    }
   }
 
   /** @return {object} The plain object representation of the tenant. */
   public toJSON(): object {
-    return {
+    const json: any = {
       tenantId: this.tenantId,
       displayName: this.displayName,
       emailSignInConfig: this.emailSignInConfig && this.emailSignInConfig.toJSON(),
+      anonymousSignInEnabled: this.anonymousSignInEnabled,
     };
+    if (this.multiFactorConfig) {
+      json.multiFactorConfig = this.multiFactorConfig.toJSON();
+    }
+    if (this.testPhoneNumbers) {
+      json.testPhoneNumbers = deepCopy(this.testPhoneNumbers);
+    }
+    return json;
   }
 }
 
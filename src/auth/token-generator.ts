@@ -14,6 +14,8 @@
  * limitations under the License.
  */
 
+import * as jwt from 'jsonwebtoken';
+
 import { FirebaseApp } from '../firebase-app';
 import {Certificate, tryGetCertificate} from './credential';
 import {AuthClientErrorCode, FirebaseAuthError } from '../utils/error';
@@ -21,6 +23,9 @@ import { AuthorizedHttpClient, HttpError, HttpRequestConfig, HttpClient } from '
 
 import * as validator from '../utils/validator';
 import { toWebSafeBase64 } from '../utils';
+import {
+  FirebaseTokenInfo, ID_TOKEN_INFO, ID_TOKEN_ISSUER, SESSION_COOKIE_INFO, SESSION_COOKIE_ISSUER,
+} from './token-verifier';
 
 
 const ALGORITHM_RS256 = 'RS256';
@@ -32,6 +37,13 @@ const BLACKLISTED_CLAIMS = [
   'nbf', 'nonce',
 ];
 
+// List of claims set by the backend on ID tokens and session cookies which cannot be overridden when
+// minting them locally.
+const RESERVED_LOCAL_TOKEN_CLAIMS = BLACKLISTED_CLAIMS.concat(['firebase', 'sub', 'user_id']);
+
+// JWT header fields which are set by the SDK and cannot be provided when creating a custom token
+const RESERVED_CUSTOM_TOKEN_HEADERS = ['alg', 'typ', 'kid'];
+
 // Audience to use for Firebase Auth Custom tokens
 const FIREBASE_AUDIENCE = 'https://identitytoolkit.googleapis.com/google.identity.identitytoolkit.v1.IdentityToolkit';
 
@@ -61,6 +73,41 @@ export interface CryptoSigner {
 interface JWTHeader {
   alg: string;
   typ: string;
+  kid?: string;
+  [key: string]: any;
+}
+
+/** Options used when creating a Firebase Auth Custom token. */
+export interface CustomTokenOptions {
+  /** The lifetime of the token in milliseconds, of at most one hour. Defaults to one hour. */
+  expiresIn?: number;
+  /** The key ID set in the "kid" header of the token. */
+  keyId?: string;
+  /** Additional fields to include in the token header. */
+  headers?: {[key: string]: any};
+}
+
+/** Interface representing the decoded claims of a verified Firebase Auth Custom token. */
+export interface DecodedCustomToken {
+  uid: string;
+  claims?: {[key: string]: any};
+  aud: string;
+  iat: number;
+  exp: number;
+  iss: string;
+  sub: string;
+}
+
+/** Options used when minting a Firebase ID token or session cookie locally. */
+export interface LocalTokenOptions {
+  /** The lifetime of the token in milliseconds. Defaults to one hour. */
+  expiresIn?: number;
+  /** The time the user authenticated, in seconds since the epoch. Defaults to the issue time. */
+  authTime?: number;
+  /** The sign-in provider reported in the "firebase" claim. Defaults to "custom". */
+  signInProvider?: string;
+  /** Additional claims, such as custom claims, to include in the token. */
+  claims?: {[key: string]: any};
 }
 
 /**
@@ -121,6 +168,18 @@ export class ServiceAccountSigner implements CryptoSigner {
   public getAccountId(): Promise<string> {
     return Promise.resolve(this.certificate.clientEmail);
   }
+
+  /**
+   * Returns the public key corresponding to the service account private key, which verifies the
+   * signatures of this signer.
+   *
+   * @return {string} The PEM encoded public key.
+   */
+  public getPublicKey(): string {
+    const forge = require('node-forge');
+    const privateKey = forge.pki.privateKeyFromPem(this.certificate.privateKey);
+    return forge.pki.publicKeyToPem(forge.pki.setRsaPublicKey(privateKey.n, privateKey.e));
+  }
 }
 
 /**
@@ -250,10 +309,12 @@ export class FirebaseTokenGenerator {
    * @param {string} uid The user ID to use for the generated Firebase Auth Custom token.
    * @param {object} [developerClaims] Optional developer claims to include in the generated Firebase
    *                 Auth Custom token.
+   * @param {CustomTokenOptions} [options] Optional expiration and header settings of the token.
    * @return {Promise<string>} A Promise fulfilled with a Firebase Auth Custom token signed with a
    *                           service account key and containing the provided payload.
    */
-  public createCustomToken(uid: string, developerClaims?: {[key: string]: any}): Promise<string> {
+  public createCustomToken(
+      uid: string, developerClaims?: {[key: string]: any}, options?: CustomTokenOptions): Promise<string> {
     let errorMessage: string;
     if (typeof uid !== 'string' || uid === '') {
       errorMessage = 'First argument to createCustomToken() must be a non-empty string uid.';
@@ -261,11 +322,15 @@ export class FirebaseTokenGenerator {
       errorMessage = 'First argument to createCustomToken() must a uid with less than or equal to 128 characters.';
     } else if (!this.isDeveloperClaimsValid_(developerClaims)) {
       errorMessage = 'Second argument to createCustomToken() must be an object containing the developer claims.';
+    } else if (typeof options !== 'undefined' && !validator.isNonNullObject(options)) {
+      errorMessage = 'Third argument to createCustomToken() must be an object containing the token options.';
     }
 
     if (typeof errorMessage !== 'undefined') {
       throw new FirebaseAuthError(AuthClientErrorCode.INVALID_ARGUMENT, errorMessage);
     }
+    const header = this.getCustomTokenHeader_(options || {});
+    const expiresIn = (options && options.expiresIn) || ONE_HOUR_IN_SECONDS * 1000;
 
     const claims: {[key: string]: any} = {};
     if (typeof developerClaims !== 'undefined') {
@@ -283,15 +348,11 @@ export class FirebaseTokenGenerator {
       }
     }
     return this.signer.getAccountId().then((account) => {
-      const header: JWTHeader = {
-        alg: ALGORITHM_RS256,
-        typ: 'JWT',
-      };
       const iat = Math.floor(Date.now() / 1000);
       const body: JWTBody = {
         aud: FIREBASE_AUDIENCE,
         iat,
-        exp: iat + ONE_HOUR_IN_SECONDS,
+        exp: iat + Math.floor(expiresIn / 1000),
         iss: account,
         sub: account,
         uid,
@@ -299,17 +360,108 @@ export class FirebaseTokenGenerator {
       if (Object.keys(claims).length > 0) {
         body.claims = claims;
       }
-      const token = `${this.encodeSegment(header)}.${this.encodeSegment(body)}`;
-      const signPromise = this.signer.sign(Buffer.from(token));
-      return Promise.all([token, signPromise]);
-    }).then(([token, signature]) => {
-      return `${token}.${this.encodeSegment(signature)}`;
+      return signJwt(this.signer, header, body);
     });
   }
 
-  private encodeSegment(segment: object | Buffer) {
-    const buffer: Buffer = (segment instanceof Buffer) ? segment : Buffer.from(JSON.stringify(segment));
-    return toWebSafeBase64(buffer).replace(/\=+$/, '');
+  /**
+   * Verifies a Firebase Auth Custom token created with the same service account, without calling
+   * the Firebase Auth backend. This requires a service account credential, whose public key is
+   * used to check the token signature.
+   *
+   * @param {string} token The Firebase Auth Custom token to verify.
+   * @return {Promise<DecodedCustomToken>} A Promise fulfilled with the decoded claims of the token.
+   */
+  public verifyCustomToken(token: string): Promise<DecodedCustomToken> {
+    if (!validator.isNonEmptyString(token)) {
+      return Promise.reject(new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        'First argument to verifyCustomToken() must be a non-empty string custom token.',
+      ));
+    }
+    const signer = this.signer;
+    if (!(signer instanceof ServiceAccountSigner)) {
+      return Promise.reject(new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_CREDENTIAL,
+        'Custom tokens can only be verified when the SDK is initialized with a service account credential.',
+      ));
+    }
+    return signer.getAccountId().then((account) => {
+      return new Promise<DecodedCustomToken>((resolve, reject) => {
+        jwt.verify(token, signer.getPublicKey(), {
+          algorithms: [ALGORITHM_RS256],
+          audience: FIREBASE_AUDIENCE,
+          issuer: account,
+          subject: account,
+        }, (error: jwt.VerifyErrors, decodedToken: any) => {
+          if (error) {
+            if (error.name === 'TokenExpiredError') {
+              return reject(new FirebaseAuthError(AuthClientErrorCode.CUSTOM_TOKEN_EXPIRED));
+            }
+            return reject(new FirebaseAuthError(
+              AuthClientErrorCode.INVALID_CUSTOM_TOKEN,
+              `Firebase custom token could not be verified: ${error.message}.`,
+            ));
+          }
+          if (!validator.isNonEmptyString(decodedToken.uid)) {
+            return reject(new FirebaseAuthError(
+              AuthClientErrorCode.INVALID_CUSTOM_TOKEN,
+              'Firebase custom token has no "uid" claim.',
+            ));
+          }
+          resolve(decodedToken);
+        });
+      });
+    });
+  }
+
+  /**
+   * Returns the header of a custom token after validating the token options. Throws an error on
+   * invalid options.
+   *
+   * @param {CustomTokenOptions} options The custom token options.
+   * @return {JWTHeader} The custom token header.
+   */
+  private getCustomTokenHeader_(options: CustomTokenOptions): JWTHeader {
+    if (typeof options.expiresIn !== 'undefined' &&
+        !(validator.isNumber(options.expiresIn) && options.expiresIn >= 1000 &&
+          options.expiresIn <= ONE_HOUR_IN_SECONDS * 1000)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        '"CustomTokenOptions.expiresIn" must be a number of milliseconds between 1 second and 1 hour.',
+      );
+    }
+    if (typeof options.keyId !== 'undefined' && !validator.isNonEmptyString(options.keyId)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        '"CustomTokenOptions.keyId" must be a non-empty string.',
+      );
+    }
+    if (typeof options.headers !== 'undefined' &&
+        (!validator.isNonNullObject(options.headers) || Array.isArray(options.headers))) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        '"CustomTokenOptions.headers" must be a non-null object.',
+      );
+    }
+    const header: JWTHeader = {
+      alg: ALGORITHM_RS256,
+      typ: 'JWT',
+    };
+    const headers = options.headers || {};
+    Object.keys(headers).forEach((key) => {
+      if (RESERVED_CUSTOM_TOKEN_HEADERS.indexOf(key) !== -1) {
+        throw new FirebaseAuthError(
+          AuthClientErrorCode.INVALID_ARGUMENT,
+          `Header "${key}" is reserved and cannot be specified.`,
+        );
+      }
+      header[key] = headers[key];
+    });
+    if (typeof options.keyId !== 'undefined') {
+      header.kid = options.keyId;
+    }
+    return header;
   }
 
   /**
@@ -326,3 +478,278 @@ export class FirebaseTokenGenerator {
   }
 }
 
+
+/**
+ * Class for minting Firebase ID tokens and session cookies locally, without calling the Firebase
+ * Auth backend. The tokens are signed with the provided CryptoSigner (typically backed by a local
+ * RSA key) and can only be verified by a FirebaseTokenVerifier that trusts the corresponding public
+ * key. This is intended for tests and offline tooling.
+ */
+export class LocalFirebaseTokenSigner {
+  /**
+   * @param {CryptoSigner} signer The signer used to sign the tokens.
+   * @param {string} keyId The key ID set in the "kid" header of the tokens.
+   * @param {string} issuer The issuer prefix; the project ID is appended to it.
+   * @param {string} projectId The project ID set as the audience of the tokens.
+   * @param {FirebaseTokenInfo} tokenInfo The user facing token information.
+   * @constructor
+   */
+  constructor(private readonly signer: CryptoSigner, private readonly keyId: string,
+              private readonly issuer: string, private readonly projectId: string,
+              private readonly tokenInfo: FirebaseTokenInfo) {
+    if (!validator.isNonNullObject(signer)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_CREDENTIAL,
+        'INTERNAL ASSERT: Must provide a CryptoSigner to use LocalFirebaseTokenSigner.',
+      );
+    } else if (!validator.isNonEmptyString(keyId)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        'The provided key ID must be a non-empty string.',
+      );
+    } else if (!validator.isURL(issuer)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        'The provided JWT issuer is an invalid URL.',
+      );
+    } else if (!validator.isNonEmptyString(projectId)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        'The provided project ID must be a non-empty string.',
+      );
+    } else if (!validator.isNonNullObject(tokenInfo)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        'The provided JWT information is not an object or null.',
+      );
+    }
+  }
+
+  /**
+   * Mints a new token for the provided user.
+   *
+   * @param {string} uid The user ID to set as the subject of the token.
+   * @param {LocalTokenOptions=} options The optional token settings.
+   * @return {Promise<string>} A promise fulfilled with the signed token.
+   */
+  public createToken(uid: string, options: LocalTokenOptions = {}): Promise<string> {
+    const jwtName = this.tokenInfo.jwtName;
+    let errorMessage: string;
+    if (!validator.isNonEmptyString(uid) || uid.length > 128) {
+      errorMessage = `The uid of a ${jwtName} must be a non-empty string with at most 128 characters.`;
+    } else if (!validator.isNonNullObject(options)) {
+      errorMessage = `The ${jwtName} options must be a non-null object.`;
+    } else if (typeof options.expiresIn !== 'undefined' &&
+        (!validator.isNumber(options.expiresIn) || options.expiresIn <= 0)) {
+      errorMessage = `The ${jwtName} "expiresIn" must be a positive number of milliseconds.`;
+    } else if (typeof options.authTime !== 'undefined' &&
+        (!validator.isNumber(options.authTime) || options.authTime < 0)) {
+      errorMessage = `The ${jwtName} "authTime" must be a non-negative number of seconds.`;
+    } else if (typeof options.signInProvider !== 'undefined' &&
+        !validator.isNonEmptyString(options.signInProvider)) {
+      errorMessage = `The ${jwtName} "signInProvider" must be a non-empty string.`;
+    } else if (typeof options.claims !== 'undefined' && !validator.isNonNullObject(options.claims)) {
+      errorMessage = `The ${jwtName} "claims" must be a non-null object.`;
+    }
+    if (typeof errorMessage !== 'undefined') {
+      return Promise.reject(new FirebaseAuthError(AuthClientErrorCode.INVALID_ARGUMENT, errorMessage));
+    }
+
+    const iat = Math.floor(Date.now() / 1000);
+    const expiresIn = options.expiresIn || ONE_HOUR_IN_SECONDS * 1000;
+    const body: {[key: string]: any} = {};
+    const claims = options.claims || {};
+    for (const key in claims) {
+      /* istanbul ignore else */
+      if (claims.hasOwnProperty(key)) {
+        if (RESERVED_LOCAL_TOKEN_CLAIMS.indexOf(key) !== -1) {
+          return Promise.reject(new FirebaseAuthError(
+            AuthClientErrorCode.INVALID_ARGUMENT,
+            `Claim "${key}" is reserved and cannot be specified on a ${jwtName}.`,
+          ));
+        }
+        body[key] = claims[key];
+      }
+    }
+    body.iss = this.issuer + this.projectId;
+    body.aud = this.projectId;
+    body.auth_time = typeof options.authTime !== 'undefined' ? options.authTime : iat;
+    body.user_id = uid;
+    body.sub = uid;
+    body.iat = iat;
+    body.exp = iat + Math.floor(expiresIn / 1000);
+    body.firebase = {
+      identities: {},
+      sign_in_provider: options.signInProvider || 'custom',
+    };
+    const header: JWTHeader = {
+      alg: ALGORITHM_RS256,
+      typ: 'JWT',
+      kid: this.keyId,
+    };
+    return signJwt(this.signer, header, body);
+  }
+}
+
+/**
+ * Creates a new LocalFirebaseTokenSigner to mint Firebase ID tokens locally.
+ *
+ * @param {string} projectId Project ID string.
+ * @param {CryptoSigner} signer The signer used to sign the tokens.
+ * @param {string} keyId The key ID of the signing key.
+ * @return {LocalFirebaseTokenSigner}
+ */
+export function createLocalIdTokenSigner(
+    projectId: string, signer: CryptoSigner, keyId: string): LocalFirebaseTokenSigner {
+  return new LocalFirebaseTokenSigner(signer, keyId, ID_TOKEN_ISSUER, projectId, ID_TOKEN_INFO);
+}
+
+/**
+ * Creates a new LocalFirebaseTokenSigner to mint Firebase session cookies locally.
+ *
+ * @param {string} projectId Project ID string.
+ * @param {CryptoSigner} signer The signer used to sign the session cookies.
+ * @param {string} keyId The key ID of the signing key.
+ * @return {LocalFirebaseTokenSigner}
+ */
+export function createLocalSessionCookieSigner(
+    projectId: string, signer: CryptoSigner, keyId: string): LocalFirebaseTokenSigner {
+  return new LocalFirebaseTokenSigner(signer, keyId, SESSION_COOKIE_ISSUER, projectId, SESSION_COOKIE_INFO);
+}
+
+/** Options used to create a LocalTokenSigner. */
+export interface LocalTokenSignerOptions {
+  /** The project ID set as the audience of the tokens. */
+  projectId: string;
+  /** The key ID set in the "kid" header of the tokens. */
+  keyId: string;
+  /** The PEM encoded RSA private key used to sign the tokens. */
+  privateKey: string;
+}
+
+/**
+ * A CryptoSigner implementation that signs data with a bare RSA private key. Used by
+ * LocalTokenSigner, where there is no service account.
+ */
+class PrivateKeySigner implements CryptoSigner {
+  /**
+   * @param {string} privateKey The PEM encoded RSA private key.
+   * @param {string} keyId The ID of the key, reported as the account ID.
+   * @constructor
+   */
+  constructor(private readonly privateKey: string, private readonly keyId: string) {}
+
+  /**
+   * @inheritDoc
+   */
+  public sign(buffer: Buffer): Promise<Buffer> {
+    const crypto = require('crypto');
+    const sign = crypto.createSign('RSA-SHA256');
+    sign.update(buffer);
+    return Promise.resolve(sign.sign(this.privateKey));
+  }
+
+  /**
+   * @inheritDoc
+   */
+  public getAccountId(): Promise<string> {
+    return Promise.resolve(this.keyId);
+  }
+}
+
+/**
+ * Mints Firebase ID tokens and session cookies signed with a local RSA key, for tests and offline
+ * tooling. The tokens are only accepted by Auth instances of apps initialized with the public key
+ * of the signer in the "authPublicKeys" option.
+ */
+export class LocalTokenSigner {
+  private readonly publicKey: string;
+  private readonly keyId: string;
+  private readonly idTokenSigner: LocalFirebaseTokenSigner;
+  private readonly sessionCookieSigner: LocalFirebaseTokenSigner;
+
+  /**
+   * @param {LocalTokenSignerOptions} options The project ID, key ID and private key to use.
+   * @constructor
+   */
+  constructor(options: LocalTokenSignerOptions) {
+    if (!validator.isNonNullObject(options)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        'The local token signer options must be a non-null object.',
+      );
+    } else if (!validator.isNonEmptyString(options.privateKey)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        'The provided private key must be a non-empty string.',
+      );
+    }
+    const forge = require('node-forge');
+    try {
+      const privateKey = forge.pki.privateKeyFromPem(options.privateKey);
+      this.publicKey = forge.pki.publicKeyToPem(forge.pki.setRsaPublicKey(privateKey.n, privateKey.e));
+    } catch (e) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        `The provided private key is not a valid PEM encoded RSA private key: ${e.message}`,
+      );
+    }
+    const signer = new PrivateKeySigner(options.privateKey, options.keyId);
+    this.keyId = options.keyId;
+    this.idTokenSigner = createLocalIdTokenSigner(options.projectId, signer, options.keyId);
+    this.sessionCookieSigner = createLocalSessionCookieSigner(options.projectId, signer, options.keyId);
+  }
+
+  /**
+   * Mints a new Firebase ID token for the provided user.
+   *
+   * @param {string} uid The user ID to set as the subject of the token.
+   * @param {LocalTokenOptions=} options The optional token settings.
+   * @return {Promise<string>} A promise fulfilled with the signed ID token.
+   */
+  public createIdToken(uid: string, options?: LocalTokenOptions): Promise<string> {
+    return this.idTokenSigner.createToken(uid, options);
+  }
+
+  /**
+   * Mints a new Firebase session cookie for the provided user.
+   *
+   * @param {string} uid The user ID to set as the subject of the session cookie.
+   * @param {LocalTokenOptions=} options The optional session cookie settings.
+   * @return {Promise<string>} A promise fulfilled with the signed session cookie.
+   */
+  public createSessionCookie(uid: string, options?: LocalTokenOptions): Promise<string> {
+    return this.sessionCookieSigner.createToken(uid, options);
+  }
+
+  /**
+   * Returns the public key of the signer keyed by its key ID, in the format expected by the
+   * "authPublicKeys" app option.
+   *
+   * @return {object} The PEM encoded public key keyed by key ID.
+   */
+  public getPublicKeys(): {[keyId: string]: string} {
+    return {[this.keyId]: this.publicKey};
+  }
+}
+
+/**
+ * Signs a JWT with the provided header and body.
+ *
+ * @param {CryptoSigner} signer The signer used to sign the JWT.
+ * @param {JWTHeader} header The JWT header.
+ * @param {object} body The JWT body.
+ * @return {Promise<string>} A promise fulfilled with the signed JWT.
+ */
+function signJwt(signer: CryptoSigner, header: JWTHeader, body: object): Promise<string> {
+  const token = `${encodeSegment(header)}.${encodeSegment(body)}`;
+  return signer.sign(Buffer.from(token))
+    .then((signature) => {
+      return `${token}.${encodeSegment(signature)}`;
+    });
+}
+
+function encodeSegment(segment: object | Buffer): string {
+  const buffer: Buffer = (segment instanceof Buffer) ? segment : Buffer.from(JSON.stringify(segment));
+  return toWebSafeBase64(buffer).replace(/\=+$/, '');
+}
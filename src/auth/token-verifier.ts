@@ -17,6 +17,8 @@
 import {AuthClientErrorCode, FirebaseAuthError, ErrorInfo} from '../utils/error';
 
 import * as validator from '../utils/validator';
+import {deepCopy} from '../utils/deep-copy';
+import {InMemoryPublicKeyCache, PublicKeyCache, validatePublicKeyCache} from './public-key-cache';
 import * as jwt from 'jsonwebtoken';
 import { HttpClient, HttpRequestConfig, HttpError } from '../utils/api-request';
 
@@ -25,6 +27,9 @@ const FIREBASE_AUDIENCE = 'https://identitytoolkit.googleapis.com/google.identit
 
 export const ALGORITHM_RS256 = 'RS256';
 
+// Algorithm of the unsigned tokens issued by the Firebase Auth emulator.
+const ALGORITHM_NONE = 'none';
+
 // URL containing the public keys for the Google certs (whose private keys are used to sign Firebase
 // Auth ID tokens)
 const CLIENT_CERT_URL = 'https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com';
@@ -32,6 +37,12 @@ const CLIENT_CERT_URL = 'https://www.googleapis.com/robot/v1/metadata/x509/secur
 // URL containing the public keys for Firebase session cookies. This will be updated to a different URL soon.
 const SESSION_COOKIE_CERT_URL = 'https://www.googleapis.com/identitytoolkit/v3/relyingparty/publicKeys';
 
+// Issuer prefix of Firebase ID tokens. The project ID is appended to it.
+export const ID_TOKEN_ISSUER = 'https://securetoken.google.com/';
+
+// Issuer prefix of Firebase session cookies. The project ID is appended to it.
+export const SESSION_COOKIE_ISSUER = 'https://session.firebase.google.com/';
+
 /** User facing token information related to the Firebase ID token. */
 export const ID_TOKEN_INFO: FirebaseTokenInfo = {
   url: 'https://firebase.google.com/docs/auth/admin/verify-id-tokens',
@@ -64,23 +75,200 @@ export interface FirebaseTokenInfo {
   expiredErrorCode: ErrorInfo;
 }
 
+/** Interface for a source of the public keys used to verify JWT signatures, keyed by key ID. */
+export interface KeyFetcher {
+  fetchPublicKeys(): Promise<{[key: string]: string}>;
+}
+
 /**
- * Class for verifying general purpose Firebase JWTs. This verifies ID tokens and session cookies.
+ * KeyFetcher implementation that fetches the public keys from a URL, and caches them for as long
+ * as allowed by the "max-age" directive of the response. Concurrent calls share a single lookup.
  */
-export class FirebaseTokenVerifier {
-  private publicKeys: {[key: string]: string};
-  private publicKeysExpireAt: number;
-  private readonly shortNameArticle: string;
+export class UrlKeyFetcher implements KeyFetcher {
+  /** The name of the public keys used in error messages. */
+  protected readonly keysName: string = 'Google certs';
+  /**
+   * How long to cache the public keys for, in seconds, when the response has no "max-age"
+   * directive. The public keys are not cached by default.
+   */
+  protected readonly defaultMaxAge: number = 0;
+  private readonly publicKeyCache: PublicKeyCache;
+  private pendingFetch: Promise<{[key: string]: string}>;
 
-  constructor(private clientCertUrl: string, private algorithm: string,
-              private issuer: string, private projectId: string,
-              private tokenInfo: FirebaseTokenInfo) {
+  /**
+   * @param {string} clientCertUrl The URL to fetch the public keys from.
+   * @param {PublicKeyCache=} publicKeyCache The cache to store the public keys in. Defaults to an
+   *     in-memory cache scoped to this instance.
+   * @constructor
+   */
+  constructor(private readonly clientCertUrl: string, publicKeyCache?: PublicKeyCache) {
     if (!validator.isURL(clientCertUrl)) {
       throw new FirebaseAuthError(
         AuthClientErrorCode.INVALID_ARGUMENT,
         `The provided public client certificate URL is an invalid URL.`,
       );
-    } else if (!validator.isNonEmptyString(algorithm)) {
+    }
+    if (typeof publicKeyCache !== 'undefined') {
+      validatePublicKeyCache(publicKeyCache);
+    }
+    this.publicKeyCache = publicKeyCache || new InMemoryPublicKeyCache();
+  }
+
+  /**
+   * Fetches the public keys for the Google certs, unless unexpired keys are found in the cache.
+   *
+   * @return {Promise<object>} A promise fulfilled with public keys for the Google certs.
+   */
+  public fetchPublicKeys(): Promise<{[key: string]: string}> {
+    if (typeof this.pendingFetch === 'undefined') {
+      const clearPendingFetch = () => {
+        this.pendingFetch = undefined;
+      };
+      this.pendingFetch = this.getCachedPublicKeys()
+        .then((publicKeys) => publicKeys || this.fetchAndCachePublicKeys());
+      this.pendingFetch.then(clearPendingFetch, clearPendingFetch);
+    }
+    return this.pendingFetch;
+  }
+
+  /**
+   * Converts the response of the public key URL to public keys keyed by key ID. The Google certs
+   * are already in that format.
+   *
+   * @param {any} data The JSON response of the public key URL.
+   * @return {object} The public keys keyed by key ID.
+   */
+  protected parsePublicKeys(data: any): {[key: string]: string} {
+    return data;
+  }
+
+  /**
+   * Looks up the public keys in the cache. Cache failures are treated as cache misses so that a
+   * faulty cache never prevents tokens from being verified.
+   *
+   * @return {Promise<object|null>} A promise fulfilled with the cached public keys if available.
+   */
+  private getCachedPublicKeys(): Promise<{[key: string]: string} | null> {
+    return Promise.resolve()
+      .then(() => this.publicKeyCache.get(this.clientCertUrl))
+      .then((publicKeys) => validator.isNonNullObject(publicKeys) ? publicKeys : null)
+      .catch(() => null);
+  }
+
+  /**
+   * Fetches the public keys from the public key URL, and caches them for the duration specified
+   * by the response, or for the default duration when the response does not specify any.
+   *
+   * @return {Promise<object>} A promise fulfilled with the fetched public keys.
+   */
+  private fetchAndCachePublicKeys(): Promise<{[key: string]: string}> {
+    const client = new HttpClient();
+    const request: HttpRequestConfig = {
+      method: 'GET',
+      url: this.clientCertUrl,
+    };
+    return client.send(request).then((resp) => {
+      if (!resp.isJson() || resp.data.error) {
+        // Treat all non-json messages and messages with an 'error' field as
+        // error responses.
+        throw new HttpError(resp);
+      }
+      let maxAge = this.defaultMaxAge;
+      if (resp.headers.hasOwnProperty('cache-control')) {
+        const cacheControlHeader: string = resp.headers['cache-control'];
+        const parts = cacheControlHeader.split(',');
+        parts.forEach((part) => {
+          const subParts = part.trim().split('=');
+          if (subParts[0] === 'max-age') {
+            maxAge = +subParts[1];
+          }
+        });
+      }
+      const publicKeys = this.parsePublicKeys(resp.data);
+      if (maxAge > 0) {
+        // Failing to cache the keys does not prevent them from being used.
+        return Promise.resolve()
+          .then(() => this.publicKeyCache.set(this.clientCertUrl, publicKeys, maxAge * 1000))
+          .catch(() => undefined)
+          .then(() => publicKeys);
+      }
+      return publicKeys;
+    }).catch((err) => {
+      if (err instanceof HttpError) {
+        let errorMessage = `Error fetching public keys for ${this.keysName}: `;
+        const resp = err.response;
+        if (resp.isJson() && resp.data.error) {
+          errorMessage += `${resp.data.error}`;
+          if (resp.data.error_description) {
+            errorMessage += ' (' + resp.data.error_description + ')';
+          }
+        } else {
+          errorMessage += `${resp.text}`;
+        }
+        throw new FirebaseAuthError(AuthClientErrorCode.INTERNAL_ERROR, errorMessage);
+      }
+      throw err;
+    });
+  }
+}
+
+/**
+ * KeyFetcher implementation that serves a fixed set of public keys, such as the public half of a
+ * local RSA key pair used to sign tokens in tests. Never makes any network calls.
+ */
+export class StaticKeyFetcher implements KeyFetcher {
+  private readonly publicKeys: {[key: string]: string};
+
+  constructor(publicKeys: {[key: string]: string}) {
+    if (!validator.isNonNullObject(publicKeys) || Object.keys(publicKeys).length === 0) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        'The provided public keys must be a non-empty object of key IDs to public keys.',
+      );
+    }
+    Object.keys(publicKeys).forEach((kid) => {
+      if (!validator.isNonEmptyString(publicKeys[kid])) {
+        throw new FirebaseAuthError(
+          AuthClientErrorCode.INVALID_ARGUMENT,
+          `The public key for key ID "${kid}" must be a non-empty string.`,
+        );
+      }
+    });
+    this.publicKeys = deepCopy(publicKeys);
+  }
+
+  /**
+   * @return {Promise<object>} A promise fulfilled with the injected public keys.
+   */
+  public fetchPublicKeys(): Promise<{[key: string]: string}> {
+    return Promise.resolve(deepCopy(this.publicKeys));
+  }
+}
+
+/**
+ * Class for verifying general purpose Firebase JWTs. This verifies ID tokens and session cookies.
+ */
+export class FirebaseTokenVerifier {
+  private readonly keyFetcher: KeyFetcher;
+  private readonly shortNameArticle: string;
+
+  /**
+   * @param {string|KeyFetcher} clientCertUrl The URL to fetch the public keys from, or the
+   *     KeyFetcher to obtain them from.
+   * @param {string} algorithm The expected signing algorithm.
+   * @param {string} issuer The issuer prefix; the project ID is appended to it.
+   * @param {string} projectId The project ID expected in the audience claim.
+   * @param {FirebaseTokenInfo} tokenInfo The user facing token information.
+   * @constructor
+   */
+  constructor(clientCertUrl: string | KeyFetcher, private algorithm: string,
+              private issuer: string, private projectId: string,
+              private tokenInfo: FirebaseTokenInfo) {
+    const isKeyFetcher = validator.isNonNullObject(clientCertUrl) &&
+        typeof (clientCertUrl as KeyFetcher).fetchPublicKeys === 'function';
+    this.keyFetcher = isKeyFetcher ?
+        clientCertUrl as KeyFetcher : new UrlKeyFetcher(clientCertUrl as string);
+    if (!validator.isNonEmptyString(algorithm)) {
       throw new FirebaseAuthError(
         AuthClientErrorCode.INVALID_ARGUMENT,
         `The provided JWT algorithm is an empty string.`,
@@ -130,10 +318,12 @@ export class FirebaseTokenVerifier {
    * Verifies the format and signature of a Firebase Auth JWT token.
    *
    * @param {string} jwtToken The Firebase Auth JWT token to verify.
+   * @param {boolean=} isEmulator Whether the token was issued by the Firebase Auth emulator, in
+   *     which case it is expected to be unsigned and no public keys are fetched.
    * @return {Promise<object>} A promise fulfilled with the decoded claims of the Firebase Auth ID
    *                           token.
    */
-  public verifyJWT(jwtToken: string): Promise<object> {
+  public verifyJWT(jwtToken: string, isEmulator: boolean = false): Promise<object> {
     if (!validator.isString(jwtToken)) {
       throw new FirebaseAuthError(
         AuthClientErrorCode.INVALID_ARGUMENT,
@@ -165,7 +355,7 @@ export class FirebaseTokenVerifier {
     if (!fullDecodedToken) {
       errorMessage = `Decoding ${this.tokenInfo.jwtName} failed. Make sure you passed the entire string JWT ` +
         `which represents ${this.shortNameArticle} ${this.tokenInfo.shortName}.` + verifyJwtTokenDocsMessage;
-    } else if (typeof header.kid === 'undefined') {
+    } else if (!isEmulator && typeof header.kid === 'undefined') {
       const isCustomToken = (payload.aud === FIREBASE_AUDIENCE);
       const isLegacyCustomToken = (header.alg === 'HS256' && payload.v === 0 && 'd' in payload && 'uid' in payload.d);
 
@@ -180,7 +370,7 @@ export class FirebaseTokenVerifier {
       }
 
       errorMessage += verifyJwtTokenDocsMessage;
-    } else if (header.alg !== this.algorithm) {
+    } else if (!isEmulator && header.alg !== this.algorithm) {
       errorMessage = `${this.tokenInfo.jwtName} has incorrect algorithm. Expected "` + this.algorithm + `" but got ` +
         `"` + header.alg + `".` + verifyJwtTokenDocsMessage;
     } else if (payload.aud !== this.projectId) {
@@ -203,7 +393,12 @@ export class FirebaseTokenVerifier {
       return Promise.reject(new FirebaseAuthError(AuthClientErrorCode.INVALID_ARGUMENT, errorMessage));
     }
 
-    return this.fetchPublicKeys().then((publicKeys) => {
+    if (isEmulator) {
+      // Tokens issued by the Auth emulator are not signed.
+      return this.verifyJwtSignatureWithKey(jwtToken, '', ALGORITHM_NONE);
+    }
+
+    return this.keyFetcher.fetchPublicKeys().then((publicKeys) => {
       if (!publicKeys.hasOwnProperty(header.kid)) {
         return Promise.reject(
           new FirebaseAuthError(
@@ -224,15 +419,17 @@ export class FirebaseTokenVerifier {
    * Verifies the JWT signature using the provided public key.
    * @param {string} jwtToken The JWT token to verify.
    * @param {string} publicKey The public key certificate.
+   * @param {string=} algorithm The expected signing algorithm. Defaults to the verifier's algorithm.
    * @return {Promise<object>} A promise that resolves with the decoded JWT claims on successful
    *     verification.
    */
-  private verifyJwtSignatureWithKey(jwtToken: string, publicKey: string): Promise<object> {
+  private verifyJwtSignatureWithKey(
+      jwtToken: string, publicKey: string, algorithm: string = this.algorithm): Promise<object> {
     const verifyJwtTokenDocsMessage = ` See ${this.tokenInfo.url} ` +
       `for details on how to retrieve ${this.shortNameArticle} ${this.tokenInfo.shortName}.`;
     return new Promise((resolve, reject) => {
       jwt.verify(jwtToken, publicKey, {
-        algorithms: [this.algorithm],
+        algorithms: [algorithm],
       }, (error: jwt.VerifyErrors, decodedToken: any) => {
         if (error) {
           if (error.name === 'TokenExpiredError') {
@@ -252,74 +449,20 @@ export class FirebaseTokenVerifier {
       });
     });
   }
-
-  /**
-   * Fetches the public keys for the Google certs.
-   *
-   * @return {Promise<object>} A promise fulfilled with public keys for the Google certs.
-   */
-  private fetchPublicKeys(): Promise<{[key: string]: string}> {
-    const publicKeysExist = (typeof this.publicKeys !== 'undefined');
-    const publicKeysExpiredExists = (typeof this.publicKeysExpireAt !== 'undefined');
-    const publicKeysStillValid = (publicKeysExpiredExists && Date.now() < this.publicKeysExpireAt);
-    if (publicKeysExist && publicKeysStillValid) {
-      return Promise.resolve(this.publicKeys);
-    }
-
-    const client = new HttpClient();
-    const request: HttpRequestConfig = {
-      method: 'GET',
-      url: this.clientCertUrl,
-    };
-    return client.send(request).then((resp) => {
-      if (!resp.isJson() || resp.data.error) {
-        // Treat all non-json messages and messages with an 'error' field as
-        // error responses.
-        throw new HttpError(resp);
-      }
-      if (resp.headers.hasOwnProperty('cache-control')) {
-        const cacheControlHeader: string = resp.headers['cache-control'];
-        const parts = cacheControlHeader.split(',');
-        parts.forEach((part) => {
-          const subParts = part.trim().split('=');
-          if (subParts[0] === 'max-age') {
-            const maxAge: number = +subParts[1];
-            this.publicKeysExpireAt = Date.now() + (maxAge * 1000);
-          }
-        });
-      }
-      this.publicKeys = resp.data;
-      return resp.data;
-    }).catch((err) => {
-      if (err instanceof HttpError) {
-        let errorMessage = 'Error fetching public keys for Google certs: ';
-        const resp = err.response;
-        if (resp.isJson() && resp.data.error) {
-          errorMessage += `${resp.data.error}`;
-          if (resp.data.error_description) {
-            errorMessage += ' (' + resp.data.error_description + ')';
-          }
-        } else {
-          errorMessage += `${resp.text}`;
-        }
-        throw new FirebaseAuthError(AuthClientErrorCode.INTERNAL_ERROR, errorMessage);
-      }
-      throw err;
-    });
-  }
 }
 
 /**
  * Creates a new FirebaseTokenVerifier to verify Firebase ID tokens.
  *
  * @param {string} projectId Project ID string.
+ * @param {PublicKeyCache=} publicKeyCache Optional cache for the Google cert public keys.
  * @return {FirebaseTokenVerifier}
  */
-export function createIdTokenVerifier(projectId: string): FirebaseTokenVerifier {
+export function createIdTokenVerifier(projectId: string, publicKeyCache?: PublicKeyCache): FirebaseTokenVerifier {
   return new FirebaseTokenVerifier(
-      CLIENT_CERT_URL,
+      new UrlKeyFetcher(CLIENT_CERT_URL, publicKeyCache),
       ALGORITHM_RS256,
-      'https://securetoken.google.com/',
+      ID_TOKEN_ISSUER,
       projectId,
       ID_TOKEN_INFO,
   );
@@ -329,13 +472,53 @@ export function createIdTokenVerifier(projectId: string): FirebaseTokenVerifier
  * Creates a new FirebaseTokenVerifier to verify Firebase session cookies.
  *
  * @param {string} projectId Project ID string.
+ * @param {PublicKeyCache=} publicKeyCache Optional cache for the session cookie public keys.
+ * @return {FirebaseTokenVerifier}
+ */
+export function createSessionCookieVerifier(
+    projectId: string, publicKeyCache?: PublicKeyCache): FirebaseTokenVerifier {
+  return new FirebaseTokenVerifier(
+    new UrlKeyFetcher(SESSION_COOKIE_CERT_URL, publicKeyCache),
+    ALGORITHM_RS256,
+    SESSION_COOKIE_ISSUER,
+    projectId,
+    SESSION_COOKIE_INFO,
+  );
+}
+
+/**
+ * Creates a new FirebaseTokenVerifier to verify Firebase ID tokens signed with one of the provided
+ * keys instead of the Google certs, such as tokens minted locally in tests.
+ *
+ * @param {string} projectId Project ID string.
+ * @param {object} publicKeys The public keys (or certificates) to trust, keyed by key ID.
+ * @return {FirebaseTokenVerifier}
+ */
+export function createLocalIdTokenVerifier(
+    projectId: string, publicKeys: {[key: string]: string}): FirebaseTokenVerifier {
+  return new FirebaseTokenVerifier(
+    new StaticKeyFetcher(publicKeys),
+    ALGORITHM_RS256,
+    ID_TOKEN_ISSUER,
+    projectId,
+    ID_TOKEN_INFO,
+  );
+}
+
+/**
+ * Creates a new FirebaseTokenVerifier to verify Firebase session cookies signed with one of the
+ * provided keys instead of the Google certs, such as session cookies minted locally in tests.
+ *
+ * @param {string} projectId Project ID string.
+ * @param {object} publicKeys The public keys (or certificates) to trust, keyed by key ID.
  * @return {FirebaseTokenVerifier}
  */
-export function createSessionCookieVerifier(projectId: string): FirebaseTokenVerifier {
+export function createLocalSessionCookieVerifier(
+    projectId: string, publicKeys: {[key: string]: string}): FirebaseTokenVerifier {
   return new FirebaseTokenVerifier(
-    SESSION_COOKIE_CERT_URL,
+    new StaticKeyFetcher(publicKeys),
     ALGORITHM_RS256,
-    'https://session.firebase.google.com/',
+    SESSION_COOKIE_ISSUER,
     projectId,
     SESSION_COOKIE_INFO,
   );
@@ -0,0 +1,484 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Readable} from 'stream';
+
+import * as validator from '../utils/validator';
+import {AuthClientErrorCode, FirebaseAuthError} from '../utils/error';
+import {UserRecord} from './user-record';
+import {UserImportRecord} from './user-import-builder';
+
+/**
+ * The formats in which users can be exported. JSON exports contain one JSON object per line
+ * (JSON Lines), while CSV exports start with a header row.
+ */
+export type UserExportFormat = 'JSON' | 'CSV';
+
+/** Options used to configure a user export. */
+export interface UserExportOptions {
+  /** The format of the export. Defaults to JSON. */
+  format?: UserExportFormat;
+  /** The number of users to download from the backend per request. */
+  pageSize?: number;
+  /** Whether to also export the users of all tenants. Only supported by the project level Auth. */
+  includeTenants?: boolean;
+}
+
+/** The users of a user export which belong to the same tenant, returned by parseUserExportByTenant(). */
+export interface UserExportTenantGroup {
+  /** The ID of the tenant of the users, or undefined for the project level users. */
+  tenantId?: string;
+  /** The users of the tenant as user import records, in export order. */
+  users: UserImportRecord[];
+}
+
+/** The columns of a CSV export, in order. */
+const CSV_COLUMNS = [
+  'uid', 'email', 'emailVerified', 'displayName', 'phoneNumber', 'photoURL', 'disabled',
+  'creationTime', 'lastSignInTime', 'passwordHash', 'passwordSalt', 'customClaims', 'providerData',
+  'multiFactor', 'tenantId',
+];
+
+/** The CSV columns holding boolean values. */
+const CSV_BOOLEAN_COLUMNS = ['emailVerified', 'disabled'];
+
+/** The CSV columns holding JSON encoded values. */
+const CSV_JSON_COLUMNS = ['customClaims', 'providerData', 'multiFactor'];
+
+/**
+ * Providers which are not exported as provider data as they are derived from the email, password
+ * and phone number of the user on import.
+ */
+const DERIVED_PROVIDER_IDS = ['password', 'phone'];
+
+/**
+ * Validates the options of a user export. Throws an error on failure.
+ *
+ * @param {any} options The user export options to validate.
+ */
+export function validateUserExportOptions(options: any) {
+  if (!validator.isNonNullObject(options)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      '"UserExportOptions" must be a valid non-null object.',
+    );
+  }
+  if (typeof options.format !== 'undefined' && options.format !== 'JSON' && options.format !== 'CSV') {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      '"UserExportOptions.format" must be either "JSON" or "CSV".',
+    );
+  }
+  if (typeof options.includeTenants !== 'undefined' && !validator.isBoolean(options.includeTenants)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      '"UserExportOptions.includeTenants" must be a boolean.',
+    );
+  }
+}
+
+/**
+ * Converts a user record to a user import record, so that it can be imported into another
+ * project or tenant. The tenant ID of the user is left out, as tenant aware imports reject the
+ * records of other tenants.
+ *
+ * @param {UserRecord} user The user record to convert.
+ * @return {UserImportRecord} The corresponding user import record.
+ */
+export function toUserImportRecord(user: UserRecord): UserImportRecord {
+  const record: UserImportRecord = {
+    uid: user.uid,
+    email: user.email,
+    emailVerified: user.emailVerified,
+    displayName: user.displayName,
+    phoneNumber: user.phoneNumber,
+    photoURL: user.photoURL,
+    disabled: user.disabled,
+    metadata: {
+      creationTime: user.metadata.creationTime || undefined,
+      lastSignInTime: user.metadata.lastSignInTime || undefined,
+    },
+    providerData: user.providerData
+      .filter((info) => DERIVED_PROVIDER_IDS.indexOf(info.providerId) === -1)
+      .map((info) => ({
+        uid: info.uid,
+        displayName: info.displayName,
+        email: info.email,
+        photoURL: info.photoURL,
+        providerId: info.providerId,
+      })),
+    customClaims: user.customClaims,
+    passwordHash: user.passwordHash ? Buffer.from(user.passwordHash, 'base64') : undefined,
+    passwordSalt: user.passwordSalt ? Buffer.from(user.passwordSalt, 'base64') : undefined,
+  };
+  if (user.multiFactor) {
+    record.multiFactor = {
+      enrolledFactors: user.multiFactor.enrolledFactors.map((info) => info.toJSON()),
+    };
+  }
+  return removeEmptyValues(record);
+}
+
+/**
+ * Serializes a user record in the requested export format.
+ *
+ * @param {UserRecord} user The user record to serialize.
+ * @param {UserExportFormat} format The export format.
+ * @return {string} The serialized user, terminated by a line break.
+ */
+export function serializeUser(user: UserRecord, format: UserExportFormat): string {
+  const exported: {[key: string]: any} = toUserImportRecord(user);
+  // The tenant ID is only exported as metadata, used to group the users by parseUserExportByTenant().
+  if (user.tenantId) {
+    exported.tenantId = user.tenantId;
+  }
+  if (exported.passwordHash) {
+    exported.passwordHash = exported.passwordHash.toString('base64');
+  }
+  if (exported.passwordSalt) {
+    exported.passwordSalt = exported.passwordSalt.toString('base64');
+  }
+  if (format === 'JSON') {
+    return JSON.stringify(exported) + '\n';
+  }
+  const metadata = exported.metadata || {};
+  const values = CSV_COLUMNS.map((column) => {
+    let value = exported[column];
+    if (column === 'creationTime' || column === 'lastSignInTime') {
+      value = metadata[column];
+    } else if (CSV_JSON_COLUMNS.indexOf(column) !== -1 && typeof value !== 'undefined') {
+      value = JSON.stringify(value);
+    }
+    return typeof value === 'undefined' ? '' : escapeCsvValue(String(value));
+  });
+  return values.join(',') + '\n';
+}
+
+/**
+ * Parses the content of a user export back into user import records. The exported tenant IDs are
+ * dropped, so that the records can be imported into any project or tenant. Use
+ * parseUserExportByTenant() to restore the users of an export of several tenants.
+ *
+ * @param {string} data The content of the user export.
+ * @param {UserExportFormat=} format The format of the export. Defaults to JSON.
+ * @return {UserImportRecord[]} The exported users as user import records.
+ */
+export function parseUserExport(data: string, format: UserExportFormat = 'JSON'): UserImportRecord[] {
+  return parseUserExportEntries(data, format).map(toParsedRecord);
+}
+
+/**
+ * Parses the content of a user export back into user import records grouped by the tenant the
+ * users were exported from, so that each group can be imported into its tenant. The groups are in
+ * the order in which their first user appears in the export.
+ *
+ * @param {string} data The content of the user export.
+ * @param {UserExportFormat=} format The format of the export. Defaults to JSON.
+ * @return {UserExportTenantGroup[]} The exported users grouped by tenant.
+ */
+export function parseUserExportByTenant(
+    data: string, format: UserExportFormat = 'JSON'): UserExportTenantGroup[] {
+  const groups: UserExportTenantGroup[] = [];
+  const groupsByTenantId: {[tenantId: string]: UserExportTenantGroup} = {};
+  parseUserExportEntries(data, format).forEach((entry) => {
+    const tenantId: string | undefined = validator.isNonEmptyString(entry.tenantId) ? entry.tenantId : undefined;
+    // The project level users are keyed by the empty string, which is not a valid tenant ID.
+    const key = tenantId || '';
+    if (!groupsByTenantId.hasOwnProperty(key)) {
+      groupsByTenantId[key] = tenantId ? {tenantId, users: []} : {users: []};
+      groups.push(groupsByTenantId[key]);
+    }
+    groupsByTenantId[key].users.push(toParsedRecord(entry));
+  });
+  return groups;
+}
+
+/**
+ * Parses the content of a user export into the exported entries, keyed by field name.
+ *
+ * @param {string} data The content of the user export.
+ * @param {UserExportFormat} format The format of the export.
+ * @return {Array<object>} The exported entries.
+ */
+function parseUserExportEntries(data: string, format: UserExportFormat): Array<{[key: string]: any}> {
+  if (!validator.isString(data)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      'The user export data must be a string.',
+    );
+  }
+  validateUserExportOptions({format});
+  if (format === 'CSV') {
+    return parseCsvEntries(data);
+  }
+  return data.split('\n')
+    .filter((line) => line.trim() !== '')
+    .map((line, index) => {
+      try {
+        return JSON.parse(line);
+      } catch (e) {
+        throw new FirebaseAuthError(
+          AuthClientErrorCode.INVALID_ARGUMENT,
+          `Line ${index + 1} of the user export is not valid JSON.`,
+        );
+      }
+    });
+}
+
+/**
+ * Converts an exported entry to a user import record, without the exported tenant ID.
+ *
+ * @param {object} entry The exported entry.
+ * @return {UserImportRecord} The corresponding user import record.
+ */
+function toParsedRecord(entry: {[key: string]: any}): UserImportRecord {
+  const record: {[key: string]: any} = entry;
+  delete record.tenantId;
+  if (validator.isNonEmptyString(record.passwordHash)) {
+    record.passwordHash = Buffer.from(record.passwordHash, 'base64');
+  }
+  if (validator.isNonEmptyString(record.passwordSalt)) {
+    record.passwordSalt = Buffer.from(record.passwordSalt, 'base64');
+  }
+  return record as UserImportRecord;
+}
+
+/**
+ * A Readable stream that serializes the users of one or more sources in the requested export
+ * format. Users are only downloaded as the stream is consumed.
+ */
+export class UserExportStream extends Readable {
+  private readonly format: UserExportFormat;
+  private readonly iterators: Array<AsyncIterator<UserRecord>>;
+  private headerWritten = false;
+  private reading = false;
+  private isDestroyed = false;
+
+  /**
+   * @param {Array<AsyncIterable<UserRecord>>} sources The sources of the users to export, in order.
+   * @param {UserExportFormat=} format The export format. Defaults to JSON.
+   * @constructor
+   */
+  constructor(sources: Array<AsyncIterable<UserRecord>>, format: UserExportFormat = 'JSON') {
+    super({encoding: 'utf8'});
+    this.format = format;
+    this.iterators = sources.map((source) => source[Symbol.asyncIterator]());
+  }
+
+  /**
+   * Pushes the next exported user, or ends the stream once all the users have been exported.
+   */
+  public _read(): void {
+    if (this.reading) {
+      return;
+    }
+    if (this.format === 'CSV' && !this.headerWritten) {
+      this.headerWritten = true;
+      this.push(CSV_COLUMNS.join(',') + '\n');
+      return;
+    }
+    this.reading = true;
+    this.nextUser()
+      .then((user) => {
+        this.reading = false;
+        if (!this.isDestroyed) {
+          this.push(user ? serializeUser(user, this.format) : null);
+        }
+      })
+      .catch((err) => {
+        this.reading = false;
+        if (!this.isDestroyed) {
+          this.emit('error', err);
+        }
+      });
+  }
+
+  /**
+   * Stops the iteration over the sources that have not been exhausted yet, so that no more users
+   * are downloaded once the stream is destroyed.
+   *
+   * @param {Error|undefined} error The error the stream was destroyed with, if any.
+   * @param {function} callback The function to call once the sources are stopped.
+   */
+  public _destroy(error: Error | undefined, callback: (error?: Error) => void): void {
+    this.isDestroyed = true;
+    const iterators = this.iterators.splice(0);
+    Promise.all(iterators.map((iterator) => {
+      if (typeof iterator.return === 'function') {
+        return iterator.return();
+      }
+    }))
+      .then(() => callback(error), (returnError) => callback(error || returnError));
+  }
+
+  /**
+   * @return {Promise<UserRecord|null>} A promise that resolves with the next user to export, or
+   *     null once all the sources have been exhausted.
+   */
+  private nextUser(): Promise<UserRecord | null> {
+    if (this.iterators.length === 0) {
+      return Promise.resolve(null);
+    }
+    return this.iterators[0].next()
+      .then((result) => {
+        if (result.done) {
+          this.iterators.shift();
+          return this.nextUser();
+        }
+        return result.value;
+      });
+  }
+}
+
+/**
+ * Removes the undefined, null and empty values from a user import record.
+ *
+ * @param {UserImportRecord} record The user import record.
+ * @return {UserImportRecord} The same record without the empty values.
+ */
+function removeEmptyValues(record: UserImportRecord): UserImportRecord {
+  const entries: {[key: string]: any} = record;
+  Object.keys(entries).forEach((key) => {
+    const value = entries[key];
+    if (typeof value === 'undefined' || value === null ||
+        (validator.isArray(value) && value.length === 0)) {
+      delete entries[key];
+    } else if (key === 'metadata' || key === 'providerData') {
+      const items = validator.isArray(value) ? value : [value];
+      items.forEach((item: {[key: string]: any}) => {
+        Object.keys(item).forEach((itemKey) => {
+          if (typeof item[itemKey] === 'undefined' || item[itemKey] === null) {
+            delete item[itemKey];
+          }
+        });
+      });
+      if (key === 'metadata' && Object.keys(value).length === 0) {
+        delete entries[key];
+      }
+    }
+  });
+  return record;
+}
+
+/**
+ * Escapes a CSV value, quoting it when it contains a separator, a quote or a line break.
+ *
+ * @param {string} value The value to escape.
+ * @return {string} The escaped value.
+ */
+function escapeCsvValue(value: string): string {
+  if (/[",\r\n]/.test(value)) {
+    return '"' + value.replace(/"/g, '""') + '"';
+  }
+  return value;
+}
+
+/**
+ * Parses the rows of a CSV user export into entries keyed by column name.
+ *
+ * @param {string} data The CSV user export.
+ * @return {Array<object>} The exported entries.
+ */
+function parseCsvEntries(data: string): Array<{[key: string]: any}> {
+  const rows = parseCsvRows(data);
+  if (rows.length === 0) {
+    return [];
+  }
+  const header = rows.shift();
+  const unknownColumns = header.filter((column) => CSV_COLUMNS.indexOf(column) === -1);
+  if (header.indexOf('uid') === -1 || unknownColumns.length > 0) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      'The user export CSV header must only contain the exported columns, including "uid".',
+    );
+  }
+  return rows.map((row, rowIndex) => {
+    const entry: {[key: string]: any} = {};
+    header.forEach((column, columnIndex) => {
+      const value = row[columnIndex];
+      if (typeof value === 'undefined' || value === '') {
+        return;
+      }
+      if (column === 'creationTime' || column === 'lastSignInTime') {
+        entry.metadata = entry.metadata || {};
+        entry.metadata[column] = value;
+      } else if (CSV_BOOLEAN_COLUMNS.indexOf(column) !== -1) {
+        entry[column] = value === 'true';
+      } else if (CSV_JSON_COLUMNS.indexOf(column) !== -1) {
+        try {
+          entry[column] = JSON.parse(value);
+        } catch (e) {
+          throw new FirebaseAuthError(
+            AuthClientErrorCode.INVALID_ARGUMENT,
+            `The "${column}" column of row ${rowIndex + 1} of the user export is not valid JSON.`,
+          );
+        }
+      } else {
+        entry[column] = value;
+      }
+    });
+    return entry;
+  });
+}
+
+/**
+ * Splits CSV content into rows of values. Quoted values may contain separators, escaped quotes
+ * and line breaks. Empty lines are skipped.
+ *
+ * @param {string} data The CSV content.
+ * @return {string[][]} The rows of values.
+ */
+function parseCsvRows(data: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let quoted = false;
+  for (let i = 0; i < data.length; i++) {
+    const char = data.charAt(i);
+    if (quoted) {
+      if (char === '"' && data.charAt(i + 1) === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && data.charAt(i + 1) === '\n') {
+        i++;
+      }
+      row.push(value);
+      if (row.length > 1 || row[0] !== '') {
+        rows.push(row);
+      }
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+  row.push(value);
+  if (row.length > 1 || row[0] !== '') {
+    rows.push(row);
+  }
+  return rows;
+}
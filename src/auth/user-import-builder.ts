@@ -18,6 +18,9 @@ import {deepCopy, deepExtend} from '../utils/deep-copy';
 import * as utils from '../utils';
 import * as validator from '../utils/validator';
 import {AuthClientErrorCode, FirebaseAuthError, FirebaseArrayIndexError} from '../utils/error';
+import {
+  MultiFactorId, MultiFactorUpdateSettings, UpdateMultiFactorInfoRequest, UpdatePhoneMultiFactorInfoRequest,
+} from './user-record';
 
 /** Firebase Auth supported hashing algorithms for import operations. */
 export type HashAlgorithmType = 'SCRYPT' | 'STANDARD_SCRYPT' | 'HMAC_SHA512' |
@@ -64,6 +67,17 @@ export interface UserImportRecord {
   passwordHash?: Buffer;
   passwordSalt?: Buffer;
   tenantId?: string;
+  multiFactor?: MultiFactorUpdateSettings;
+}
+
+
+/** Second factor request interface as accepted by the backend. */
+export interface AuthFactorInfo {
+  mfaEnrollmentId?: string;
+  displayName?: string;
+  phoneInfo?: string;
+  enrolledAt?: string;
+  [key: string]: any;
 }
 
 
@@ -89,6 +103,7 @@ interface UploadAccountUser {
   createdAt?: number;
   customAttributes?: string;
   tenantId?: string;
+  mfaInfo?: AuthFactorInfo[];
 }
 
 
@@ -137,6 +152,64 @@ function getNumberField(obj: any, key: string): number | undefined {
 }
 
 
+/**
+ * @param {UpdateMultiFactorInfoRequest} multiFactorInfo The second factor to check.
+ * @return {boolean} Whether the second factor is a phone second factor.
+ */
+function isPhoneFactor(
+    multiFactorInfo: UpdateMultiFactorInfoRequest): multiFactorInfo is UpdatePhoneMultiFactorInfoRequest {
+  return multiFactorInfo.factorId === MultiFactorId.Phone;
+}
+
+
+/**
+ * Converts a client side second factor request to the AuthFactorInfo format expected by
+ * the backend. Throws an error when an unsupported second factor or an invalid enrollment
+ * time is provided. The remaining fields are validated as part of the backend request.
+ *
+ * @param {UpdateMultiFactorInfoRequest} multiFactorInfo The client side second factor.
+ * @return {AuthFactorInfo} The corresponding backend second factor.
+ */
+export function convertMultiFactorInfoToServerFormat(
+    multiFactorInfo: UpdateMultiFactorInfoRequest): AuthFactorInfo {
+  if (!validator.isNonNullObject(multiFactorInfo)) {
+    throw new FirebaseAuthError(AuthClientErrorCode.INVALID_ENROLLED_FACTORS);
+  }
+  let enrolledAt: string;
+  if (typeof multiFactorInfo.enrollmentTime !== 'undefined') {
+    if (!validator.isUTCDateString(multiFactorInfo.enrollmentTime)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ENROLLMENT_TIME,
+        `The second factor "enrollmentTime" for "${multiFactorInfo.uid}" must be a valid ` +
+        `UTC date string.`,
+      );
+    }
+    // Convert from the client side UTC date string to the server side ISO date string.
+    enrolledAt = new Date(multiFactorInfo.enrollmentTime).toISOString();
+  }
+  // Only phone second factors are currently supported.
+  if (!isPhoneFactor(multiFactorInfo)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.UNSUPPORTED_SECOND_FACTOR,
+      `Unsupported second factor "${JSON.stringify(multiFactorInfo)}" provided.`,
+    );
+  }
+  const authFactorInfo: AuthFactorInfo = {
+    mfaEnrollmentId: multiFactorInfo.uid,
+    displayName: multiFactorInfo.displayName,
+    phoneInfo: multiFactorInfo.phoneNumber,
+    enrolledAt,
+  };
+  // Remove blank fields.
+  for (const key in authFactorInfo) {
+    if (typeof authFactorInfo[key] === 'undefined') {
+      delete authFactorInfo[key];
+    }
+  }
+  return authFactorInfo;
+}
+
+
 /**
  * Converts a UserImportRecord to a UploadAccountUser object. Throws an error when invalid
  * fields are provided.
@@ -193,6 +266,12 @@ function populateUploadAccountUser(
       });
     });
   }
+  if (validator.isNonNullObject(user.multiFactor) &&
+      validator.isNonEmptyArray(user.multiFactor.enrolledFactors)) {
+    result.mfaInfo = user.multiFactor.enrolledFactors.map((multiFactorInfo) => {
+      return convertMultiFactorInfoToServerFormat(multiFactorInfo);
+    });
+  }
   // Remove blank fields.
   let key: keyof UploadAccountUser;
   for (key in result) {
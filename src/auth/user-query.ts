@@ -0,0 +1,269 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as validator from '../utils/validator';
+import {AuthClientErrorCode, FirebaseAuthError} from '../utils/error';
+import {UserRecord} from './user-record';
+import {UserIdentifier} from './identifier';
+import {MAX_DOWNLOAD_ACCOUNT_PAGE_SIZE} from './auth-api-request';
+
+/**
+ * Filter of a user query. A user matches the filter when it matches all the specified criteria.
+ */
+export interface UserQueryFilter {
+  /** The uid of the user. */
+  uid?: string;
+  /** The email of the user, compared case-insensitively. */
+  email?: string;
+  /** The domain of the email of the user, such as "example.com", compared case-insensitively. */
+  emailDomain?: string;
+  /** The phone number of the user. */
+  phoneNumber?: string;
+  /** The ID of a provider linked to the user, such as "google.com" or "password". */
+  providerId?: string;
+  /** Whether the user is disabled. */
+  disabled?: boolean;
+  /** Whether the email of the user is verified. */
+  emailVerified?: boolean;
+  /** The user was created at or after this time. */
+  createdAfter?: Date;
+  /** The user was created before this time. */
+  createdBefore?: Date;
+  /** The user last signed in at or after this time. */
+  lastSignInAfter?: Date;
+  /** The user last signed in before this time, or never signed in. */
+  lastSignInBefore?: Date;
+  /** Custom claims the user must have, each strictly equal to the given value. */
+  customClaims?: {[claim: string]: any};
+}
+
+/** The progress of the scan of a user query, reported after each downloaded page. */
+export interface UserQueryProgress {
+  /** The number of users scanned so far. */
+  scannedCount: number;
+  /** The number of users matching the filter so far. */
+  matchedCount: number;
+  /** The page token of the next page to scan, or undefined once all the users are scanned. */
+  pageToken?: string;
+}
+
+/** Options used to configure a user query. */
+export interface UserQueryOptions {
+  /** The number of users to download from the backend per request. Defaults to 1000. */
+  pageSize?: number;
+  /** The page token to resume a previous scan from. */
+  pageToken?: string;
+  /** The maximum number of pages to scan. All the pages are scanned by default. */
+  maxPages?: number;
+  /** Function called with the progress of the scan after each page. */
+  onProgress?: (progress: UserQueryProgress) => void;
+}
+
+/** Response object for a queryUsers operation. */
+export interface QueryUsersResult {
+  /** The users matching the filter. */
+  users: UserRecord[];
+  /** The number of users scanned. */
+  scannedCount: number;
+  /** The page token to resume the scan from, when it stopped before scanning all the users. */
+  pageToken?: string;
+}
+
+/** The filter fields which can be looked up by the backend, in order of preference. */
+const LOOKUP_FIELDS = ['uid', 'email', 'phoneNumber'];
+
+/** The filter fields holding strings. */
+const STRING_FIELDS = ['uid', 'emailDomain', 'providerId'];
+
+/** The filter fields holding booleans. */
+const BOOLEAN_FIELDS = ['disabled', 'emailVerified'];
+
+/** The filter fields holding dates. */
+const DATE_FIELDS = ['createdAfter', 'createdBefore', 'lastSignInAfter', 'lastSignInBefore'];
+
+/**
+ * Validates the filter of a user query. Throws an error on failure.
+ *
+ * @param {any} filter The filter to validate.
+ */
+export function validateUserQueryFilter(filter: any): void {
+  if (!validator.isNonNullObject(filter)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      '"UserQueryFilter" must be a valid non-null object.',
+    );
+  }
+  STRING_FIELDS.forEach((key) => {
+    if (typeof filter[key] !== 'undefined' && !validator.isNonEmptyString(filter[key])) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        `"UserQueryFilter.${key}" must be a non-empty string.`,
+      );
+    }
+  });
+  if (typeof filter.email !== 'undefined' && !validator.isEmail(filter.email)) {
+    throw new FirebaseAuthError(AuthClientErrorCode.INVALID_EMAIL);
+  }
+  if (typeof filter.phoneNumber !== 'undefined' && !validator.isPhoneNumber(filter.phoneNumber)) {
+    throw new FirebaseAuthError(AuthClientErrorCode.INVALID_PHONE_NUMBER);
+  }
+  BOOLEAN_FIELDS.forEach((key) => {
+    if (typeof filter[key] !== 'undefined' && !validator.isBoolean(filter[key])) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        `"UserQueryFilter.${key}" must be a boolean.`,
+      );
+    }
+  });
+  DATE_FIELDS.forEach((key) => {
+    if (typeof filter[key] !== 'undefined' && !(filter[key] instanceof Date && !isNaN(filter[key].getTime()))) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INVALID_ARGUMENT,
+        `"UserQueryFilter.${key}" must be a valid Date.`,
+      );
+    }
+  });
+  if (typeof filter.customClaims !== 'undefined' &&
+      (!validator.isNonNullObject(filter.customClaims) || Array.isArray(filter.customClaims))) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      '"UserQueryFilter.customClaims" must be a non-null object.',
+    );
+  }
+}
+
+/**
+ * Validates the options of a user query. Throws an error on failure.
+ *
+ * @param {any} options The options to validate.
+ */
+export function validateUserQueryOptions(options: any): void {
+  if (!validator.isNonNullObject(options)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      '"UserQueryOptions" must be a valid non-null object.',
+    );
+  }
+  if (typeof options.pageSize !== 'undefined' &&
+      !validator.isIntegerInRange(options.pageSize, 1, MAX_DOWNLOAD_ACCOUNT_PAGE_SIZE)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      `"UserQueryOptions.pageSize" must be a positive integer that does not exceed ${MAX_DOWNLOAD_ACCOUNT_PAGE_SIZE}.`,
+    );
+  }
+  if (typeof options.pageToken !== 'undefined' && !validator.isNonEmptyString(options.pageToken)) {
+    throw new FirebaseAuthError(AuthClientErrorCode.INVALID_PAGE_TOKEN);
+  }
+  if (typeof options.maxPages !== 'undefined' &&
+      !validator.isIntegerInRange(options.maxPages, 1, Infinity)) {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      '"UserQueryOptions.maxPages" must be a positive integer.',
+    );
+  }
+  if (typeof options.onProgress !== 'undefined' && typeof options.onProgress !== 'function') {
+    throw new FirebaseAuthError(
+      AuthClientErrorCode.INVALID_ARGUMENT,
+      '"UserQueryOptions.onProgress" must be a function.',
+    );
+  }
+}
+
+/**
+ * Returns the identifier to look the users matching a filter up with, when the filter specifies
+ * a uid, an email or a phone number. The other users cannot match the filter, so they do not
+ * need to be scanned.
+ *
+ * @param {UserQueryFilter} filter The validated filter.
+ * @return {UserIdentifier|null} The identifier to look up, or null when the users must be scanned.
+ */
+export function getUserQueryLookupIdentifier(filter: UserQueryFilter): UserIdentifier | null {
+  for (const key of LOOKUP_FIELDS) {
+    const value = (filter as any)[key];
+    if (typeof value !== 'undefined') {
+      const identifier: any = {[key]: value};
+      return identifier;
+    }
+  }
+  return null;
+}
+
+/**
+ * Returns a predicate which checks whether a user matches a filter. The filter values are
+ * normalized once, so that the predicate can be applied to many users.
+ *
+ * @param {UserQueryFilter} filter The validated filter.
+ * @return {function(UserRecord): boolean} The predicate.
+ */
+export function createUserQueryMatcher(filter: UserQueryFilter): (user: UserRecord) => boolean {
+  const email = typeof filter.email !== 'undefined' ? filter.email.toLowerCase() : undefined;
+  const emailSuffix = typeof filter.emailDomain !== 'undefined' ?
+    '@' + filter.emailDomain.replace(/^@/, '').toLowerCase() : undefined;
+  const customClaims = filter.customClaims || {};
+  const claimNames = Object.keys(customClaims);
+  const createdAfter = getTime(filter.createdAfter);
+  const createdBefore = getTime(filter.createdBefore);
+  const lastSignInAfter = getTime(filter.lastSignInAfter);
+  const lastSignInBefore = getTime(filter.lastSignInBefore);
+
+  return (user: UserRecord) => {
+    const userEmail = validator.isString(user.email) ? user.email.toLowerCase() : undefined;
+    if ((typeof filter.uid !== 'undefined' && user.uid !== filter.uid) ||
+        (typeof email !== 'undefined' && userEmail !== email) ||
+        (typeof emailSuffix !== 'undefined' &&
+          !(typeof userEmail !== 'undefined' && userEmail.endsWith(emailSuffix))) ||
+        (typeof filter.phoneNumber !== 'undefined' && user.phoneNumber !== filter.phoneNumber) ||
+        (typeof filter.disabled !== 'undefined' && user.disabled !== filter.disabled) ||
+        (typeof filter.emailVerified !== 'undefined' && user.emailVerified !== filter.emailVerified)) {
+      return false;
+    }
+    if (typeof filter.providerId !== 'undefined' &&
+        !user.providerData.some((userInfo) => userInfo.providerId === filter.providerId)) {
+      return false;
+    }
+    const userClaims: {[claim: string]: any} = user.customClaims || {};
+    if (claimNames.some((claim) => userClaims[claim] !== customClaims[claim])) {
+      return false;
+    }
+    const creationTime = parseTime(user.metadata.creationTime);
+    if ((typeof createdAfter !== 'undefined' && !(creationTime >= createdAfter)) ||
+        (typeof createdBefore !== 'undefined' && !(creationTime < createdBefore))) {
+      return false;
+    }
+    const lastSignInTime = parseTime(user.metadata.lastSignInTime);
+    if ((typeof lastSignInAfter !== 'undefined' && !(lastSignInTime >= lastSignInAfter)) ||
+        (typeof lastSignInBefore !== 'undefined' && lastSignInTime >= lastSignInBefore)) {
+      return false;
+    }
+    return true;
+  };
+}
+
+/**
+ * @param {Date=} date A date.
+ * @return {number|undefined} The time of the date in milliseconds, if any.
+ */
+function getTime(date?: Date): number | undefined {
+  return typeof date !== 'undefined' ? date.getTime() : undefined;
+}
+
+/**
+ * @param {string} time A UTC date string of the user metadata, which may be missing.
+ * @return {number} The time in milliseconds, or NaN when the time is missing.
+ */
+function parseTime(time: string): number {
+  return validator.isNonEmptyString(time) ? Date.parse(time) : NaN;
+}
@@ -16,6 +16,7 @@
 
 import {deepCopy} from '../utils/deep-copy';
 import * as utils from '../utils';
+import * as validator from '../utils/validator';
 import {AuthClientErrorCode, FirebaseAuthError} from '../utils/error';
 
 /**
@@ -36,6 +37,60 @@ function parseDate(time: any): string {
   return null;
 }
 
+/** Enum of the supported second factor identifiers. */
+export enum MultiFactorId {
+  Phone = 'phone',
+}
+
+/** Parameters for enrolling a second factor on a new user. */
+export interface CreateMultiFactorInfoRequest {
+  displayName?: string;
+  factorId: string;
+}
+
+/** Parameters for enrolling a phone second factor on a new user. */
+export interface CreatePhoneMultiFactorInfoRequest extends CreateMultiFactorInfoRequest {
+  phoneNumber: string;
+}
+
+/** Parameters for adding or keeping a second factor on an existing user. */
+export interface UpdateMultiFactorInfoRequest {
+  uid?: string;
+  displayName?: string;
+  enrollmentTime?: string;
+  factorId: string;
+}
+
+/** Parameters for adding or keeping a phone second factor on an existing user. */
+export interface UpdatePhoneMultiFactorInfoRequest extends UpdateMultiFactorInfoRequest {
+  phoneNumber: string;
+}
+
+/** The multi-factor related properties of a create user operation. */
+export interface MultiFactorCreateSettings {
+  enrolledFactors: CreateMultiFactorInfoRequest[];
+}
+
+/**
+ * The multi-factor related properties of an update user operation. Setting enrolledFactors
+ * to null or an empty array removes all the second factors of the user.
+ */
+export interface MultiFactorUpdateSettings {
+  enrolledFactors: UpdateMultiFactorInfoRequest[] | null;
+}
+
+/**
+ * A provider user identity to link to an existing user. This has the properties of a UserInfo,
+ * so that the entries of the providerData of a user can be linked to another user.
+ */
+export interface UserProvider {
+  uid: string;
+  providerId: string;
+  displayName?: string;
+  email?: string;
+  photoURL?: string;
+}
+
 /** Parameters for update user operation */
 export interface UpdateRequest {
   disabled?: boolean;
@@ -45,11 +100,176 @@ export interface UpdateRequest {
   password?: string;
   phoneNumber?: string | null;
   photoURL?: string | null;
+  multiFactor?: MultiFactorUpdateSettings;
+  providerToLink?: UserProvider;
+  providersToUnlink?: string[];
 }
 
 /** Parameters for create user operation */
 export interface CreateRequest extends UpdateRequest {
   uid?: string;
+  multiFactor?: MultiFactorCreateSettings;
+}
+
+/**
+ * Interface representing a second factor as returned by the getAccountInfo endpoint.
+ */
+export interface MultiFactorInfoResponse {
+  mfaEnrollmentId: string;
+  displayName?: string;
+  phoneInfo?: string;
+  enrolledAt?: string;
+  [key: string]: any;
+}
+
+/**
+ * Abstract class representing a second factor enrolled on a user. Use
+ * MultiFactorInfo.initMultiFactorInfo() to instantiate the subclass matching a
+ * server response.
+ *
+ * @param {MultiFactorInfoResponse} response The server side response of the second factor.
+ * @constructor
+ */
+export abstract class MultiFactorInfo {
+  public readonly uid: string;
+  public readonly displayName?: string;
+  public readonly factorId: MultiFactorId;
+  public readonly enrollmentTime?: string;
+
+  /**
+   * Initializes the MultiFactorInfo subclass matching the server response provided.
+   *
+   * @param {MultiFactorInfoResponse} response The server side response.
+   * @return {MultiFactorInfo|null} The corresponding MultiFactorInfo or null if the
+   *     second factor type is not supported.
+   */
+  public static initMultiFactorInfo(response: MultiFactorInfoResponse): MultiFactorInfo | null {
+    let multiFactorInfo: MultiFactorInfo | null = null;
+    // Only phone second factors are currently available.
+    try {
+      multiFactorInfo = new PhoneMultiFactorInfo(response);
+    } catch (e) {
+      // Ignore error. Unsupported second factors are skipped.
+    }
+    return multiFactorInfo;
+  }
+
+  constructor(response: MultiFactorInfoResponse) {
+    this.initFromServerResponse(response);
+  }
+
+  /** @return {object} The plain object representation of the second factor. */
+  public toJSON(): any {
+    return {
+      uid: this.uid,
+      displayName: this.displayName,
+      factorId: this.factorId,
+      enrollmentTime: this.enrollmentTime,
+    };
+  }
+
+  /**
+   * Returns the factor ID based on the response provided.
+   *
+   * @param {MultiFactorInfoResponse} response The server side response.
+   * @return {MultiFactorId|null} The factor ID, or null if the response does not match
+   *     the current second factor type.
+   */
+  protected abstract getFactorId(response: MultiFactorInfoResponse): MultiFactorId | null;
+
+  /**
+   * Initializes the second factor from the server side response.
+   *
+   * @param {MultiFactorInfoResponse} response The server side response.
+   */
+  private initFromServerResponse(response: MultiFactorInfoResponse) {
+    const factorId = response && this.getFactorId(response);
+    if (!factorId || !response.mfaEnrollmentId) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INTERNAL_ERROR,
+        'INTERNAL ASSERT FAILED: Invalid multi-factor info response');
+    }
+    utils.addReadonlyGetter(this, 'uid', response.mfaEnrollmentId);
+    utils.addReadonlyGetter(this, 'factorId', factorId);
+    utils.addReadonlyGetter(this, 'displayName', response.displayName);
+    // The server returns enrolledAt as an RFC 3339 string, for example
+    // "2017-01-15T01:30:15.01Z". Expose it in the same UTC format as the user metadata.
+    if (response.enrolledAt) {
+      utils.addReadonlyGetter(
+        this, 'enrollmentTime', new Date(response.enrolledAt).toUTCString());
+    } else {
+      utils.addReadonlyGetter(this, 'enrollmentTime', null);
+    }
+  }
+}
+
+/**
+ * Class representing a phone second factor enrolled on a user.
+ *
+ * @param {MultiFactorInfoResponse} response The server side response of the second factor.
+ * @constructor
+ */
+export class PhoneMultiFactorInfo extends MultiFactorInfo {
+  public readonly phoneNumber: string;
+
+  constructor(response: MultiFactorInfoResponse) {
+    super(response);
+    utils.addReadonlyGetter(this, 'phoneNumber', response.phoneInfo);
+  }
+
+  /** @return {object} The plain object representation of the phone second factor. */
+  public toJSON(): any {
+    return Object.assign(
+      super.toJSON(),
+      {
+        phoneNumber: this.phoneNumber,
+      });
+  }
+
+  /**
+   * @param {MultiFactorInfoResponse} response The server side response.
+   * @return {MultiFactorId|null} The phone factor ID, or null if the response is not a
+   *     phone second factor.
+   */
+  protected getFactorId(response: MultiFactorInfoResponse): MultiFactorId | null {
+    return (response && response.phoneInfo) ? MultiFactorId.Phone : null;
+  }
+}
+
+/**
+ * Class representing the multi-factor related properties of a user.
+ *
+ * @param {any} response The server side response returned from the getAccountInfo
+ *     endpoint.
+ * @constructor
+ */
+export class MultiFactor {
+  public readonly enrolledFactors: ReadonlyArray<MultiFactorInfo>;
+
+  constructor(response: any) {
+    const parsedEnrolledFactors: MultiFactorInfo[] = [];
+    if (!validator.isNonNullObject(response)) {
+      throw new FirebaseAuthError(
+        AuthClientErrorCode.INTERNAL_ERROR,
+        'INTERNAL ASSERT FAILED: Invalid multi-factor response');
+    } else if (validator.isArray(response.mfaInfo)) {
+      response.mfaInfo.forEach((factorResponse: MultiFactorInfoResponse) => {
+        const multiFactorInfo = MultiFactorInfo.initMultiFactorInfo(factorResponse);
+        if (multiFactorInfo) {
+          parsedEnrolledFactors.push(multiFactorInfo);
+        }
+      });
+    }
+    // Make enrolled factors immutable.
+    utils.addReadonlyGetter(this, 'enrolledFactors', Object.freeze(parsedEnrolledFactors));
+  }
+
+  /** @return {object} The plain object representation of the multi-factor properties. */
+  public toJSON(): any {
+    return {
+      enrolledFactors: this.enrolledFactors.map((info) => info.toJSON()),
+    };
+  }
 }
 
 /**
@@ -150,6 +370,7 @@ export class UserRecord {
   public readonly customClaims: object;
   public readonly tenantId?: string | null;
   public readonly tokensValidAfterTime?: string;
+  public readonly multiFactor?: MultiFactor;
 
   constructor(response: any) {
     // The Firebase user id is required.
@@ -189,6 +410,11 @@ export class UserRecord {
     }
     utils.addReadonlyGetter(this, 'tokensValidAfterTime', validAfterTime || undefined);
     utils.addReadonlyGetter(this, 'tenantId', response.tenantId);
+    // Only expose the multi-factor properties when second factors are enrolled.
+    const multiFactor = new MultiFactor(response);
+    if (multiFactor.enrolledFactors.length > 0) {
+      utils.addReadonlyGetter(this, 'multiFactor', multiFactor);
+    }
   }
 
   /** @return {object} The plain object representation of the user record. */
@@ -209,6 +435,9 @@ export class UserRecord {
       tokensValidAfterTime: this.tokensValidAfterTime,
       tenantId: this.tenantId,
     };
+    if (this.multiFactor) {
+      json.multiFactor = this.multiFactor.toJSON();
+    }
     json.providerData = [];
     for (const entry of this.providerData) {
        // Convert each provider data to json.
@@ -22,6 +22,7 @@ import {FirebaseNamespaceInternals} from './firebase-namespace';
 import {AppErrorCodes, FirebaseAppError} from './utils/error';
 
 import {Auth} from './auth/auth';
+import {PublicKeyCache} from './auth/public-key-cache';
 import {Messaging} from './messaging/messaging';
 import {Storage} from './storage/storage';
 import {Database} from '@firebase/database';
@@ -49,6 +50,8 @@ export interface FirebaseAppOptions {
   storageBucket?: string;
   projectId?: string;
   httpAgent?: Agent;
+  publicKeyCache?: PublicKeyCache;
+  authPublicKeys?: {[keyId: string]: string};
 }
 
 /**
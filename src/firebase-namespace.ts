@@ -329,7 +329,15 @@ export class FirebaseNamespace {
       return this.ensureApp(app).auth();
     };
     const auth = require('./auth/auth').Auth;
-    return Object.assign(fn, {Auth: auth});
+    const inMemorySessionStore = require('./auth/session-registry').InMemorySessionStore;
+    const samlConfig = require('./auth/auth-config').SAMLConfig;
+    const localTokenSigner = require('./auth/token-generator').LocalTokenSigner;
+    return Object.assign(fn, {
+      Auth: auth,
+      InMemorySessionStore: inMemorySessionStore,
+      LocalTokenSigner: localTokenSigner,
+      SAMLConfig: samlConfig,
+    });
   }
 
   /**
@@ -16,7 +16,16 @@
 
 import {Bucket} from '@google-cloud/storage';
 import * as _firestore from '@google-cloud/firestore';
-import {Agent} from 'http';
+import {Agent, IncomingMessage, ServerResponse} from 'http';
+import {EventEmitter} from 'events';
+import {Readable} from 'stream';
+
+declare global {
+  // Forward declaration of the ES2018 AsyncIterable interface, so that these typings do not
+  // require the esnext.asynciterable library. It merges with the full declaration when the
+  // library is used, which is needed to iterate with a `for await...of` loop.
+  interface AsyncIterable<T> { }
+}
 
 /**
  * `admin` is a global namespace from which all Firebase Admin
@@ -176,6 +185,22 @@ declare namespace admin {
      * specifying an HTTP Agent in the corresponding factory methods.
      */
     httpAgent?: Agent;
+
+    /**
+     * The cache used by the `auth` service to store the public keys used to
+     * verify ID tokens and session cookies. Failures of the cache are treated
+     * as cache misses. If not specified, the keys are cached in memory.
+     */
+    publicKeyCache?: admin.auth.PublicKeyCache;
+
+    /**
+     * Public keys, keyed by key ID, with which the `auth` service verifies ID
+     * tokens and session cookies instead of the Google public keys. This is
+     * intended for tests and offline tooling, together with the tokens minted
+     * by an {@link admin.auth.LocalTokenSigner `LocalTokenSigner`}. Tokens
+     * issued by Firebase Auth are rejected when this option is set.
+     */
+    authPublicKeys?: {[kid: string]: string};
   }
 
   var SDK_VERSION: string;
@@ -203,8 +228,15 @@ declare namespace admin {
    * var otherAuth = admin.auth(otherApp);
    * ```
    *
+   * @example
+   * ```typescript
+   * // Get the Auth service with typed custom claims
+   * interface MyClaims { admin?: boolean; groupId?: string; }
+   * const typedAuth = admin.auth<MyClaims>();
+   * ```
+   *
    */
-  function auth(app?: admin.app.App): admin.auth.Auth;
+  function auth<C extends object = object>(app?: admin.app.App): admin.auth.Auth<C>;
 
   /**
    * Gets the {@link admin.database.Database `Database`} service for the default
@@ -417,7 +449,7 @@ declare namespace admin.app {
     options: admin.AppOptions;
 
 
-    auth(): admin.auth.Auth;
+    auth<C extends object = object>(): admin.auth.Auth<C>;
     database(url?: string): admin.database.Database;
     firestore(): admin.firestore.Firestore;
     instanceId(): admin.instanceId.InstanceId;
@@ -512,6 +544,159 @@ declare namespace admin.auth {
     toJSON(): Object;
   }
 
+  /**
+   * Interface representing the common properties of a user enrolled second factor.
+   */
+  interface MultiFactorInfo {
+
+    /**
+     * The ID of the enrolled second factor. This ID is unique to the user.
+     */
+    uid: string;
+
+    /**
+     * The optional display name of the enrolled second factor.
+     */
+    displayName?: string;
+
+    /**
+     * The optional date the second factor was enrolled, formatted as a UTC string.
+     */
+    enrollmentTime?: string;
+
+    /**
+     * The type identifier of the second factor. For SMS second factors, this is `phone`.
+     */
+    factorId: string;
+
+    /**
+     * @return A JSON-serializable representation of this object.
+     */
+    toJSON(): Object;
+  }
+
+  /**
+   * Interface representing a phone specific user enrolled second factor.
+   */
+  interface PhoneMultiFactorInfo extends MultiFactorInfo {
+
+    /**
+     * The phone number associated with a phone second factor.
+     */
+    phoneNumber: string;
+  }
+
+  /**
+   * The multi-factor related user settings.
+   */
+  interface MultiFactorSettings {
+
+    /**
+     * List of second factors enrolled with the current user.
+     * Currently only phone second factors are supported.
+     */
+    enrolledFactors: admin.auth.MultiFactorInfo[];
+
+    /**
+     * @return A JSON-serializable representation of this multi-factor object.
+     */
+    toJSON(): Object;
+  }
+
+  /**
+   * Interface representing common properties of a user enrolled second factor
+   * for a `CreateRequest`.
+   */
+  interface CreateMultiFactorInfoRequest {
+
+    /**
+     * The optional display name for an enrolled second factor.
+     */
+    displayName?: string;
+
+    /**
+     * The type identifier of the second factor. For SMS second factors, this is `phone`.
+     */
+    factorId: string;
+  }
+
+  /**
+   * Interface representing a phone specific user enrolled second factor
+   * for a `CreateRequest`.
+   */
+  interface CreatePhoneMultiFactorInfoRequest extends CreateMultiFactorInfoRequest {
+
+    /**
+     * The phone number associated with a phone second factor.
+     */
+    phoneNumber: string;
+  }
+
+  /**
+   * Interface representing common properties of a user enrolled second factor
+   * for an `UpdateRequest`.
+   */
+  interface UpdateMultiFactorInfoRequest {
+
+    /**
+     * The ID of the enrolled second factor. This ID is unique to the user. When not provided,
+     * a new one is provisioned by the Auth server.
+     */
+    uid?: string;
+
+    /**
+     * The optional display name for an enrolled second factor.
+     */
+    displayName?: string;
+
+    /**
+     * The optional date the second factor was enrolled, formatted as a UTC string.
+     */
+    enrollmentTime?: string;
+
+    /**
+     * The type identifier of the second factor. For SMS second factors, this is `phone`.
+     */
+    factorId: string;
+  }
+
+  /**
+   * Interface representing a phone specific user enrolled second factor
+   * for an `UpdateRequest`.
+   */
+  interface UpdatePhoneMultiFactorInfoRequest extends UpdateMultiFactorInfoRequest {
+
+    /**
+     * The phone number associated with a phone second factor.
+     */
+    phoneNumber: string;
+  }
+
+  /**
+   * The multi-factor related user settings for create operations.
+   */
+  interface MultiFactorCreateSettings {
+
+    /**
+     * The created user's list of enrolled second factors.
+     */
+    enrolledFactors: admin.auth.CreateMultiFactorInfoRequest[];
+  }
+
+  /**
+   * The multi-factor related user settings for update and import operations.
+   */
+  interface MultiFactorUpdateSettings {
+
+    /**
+     * The updated list of enrolled second factors. The provided list overwrites the user's
+     * existing list of second factors.
+     * When null or an empty array is passed, all of the user's existing second factors are
+     * removed.
+     */
+    enrolledFactors: admin.auth.UpdateMultiFactorInfoRequest[] | null;
+  }
+
   /**
    * Interface representing a user.
    */
@@ -607,6 +792,11 @@ declare namespace admin.auth {
      */
     tenantId?: string | null;
 
+    /**
+     * The multi-factor related properties for the current user, if available.
+     */
+    multiFactor?: admin.auth.MultiFactorSettings;
+
     /**
      * @return A JSON-serializable representation of this object.
      */
@@ -653,6 +843,61 @@ declare namespace admin.auth {
      * The user's photo URL.
      */
     photoURL?: string | null;
+
+    /**
+     * The user's updated multi-factor related properties.
+     */
+    multiFactor?: admin.auth.MultiFactorUpdateSettings;
+
+    /**
+     * A provider user identity to link to the user. This can be an entry of
+     * the `providerData` of another user. The `phone` and `password` providers
+     * cannot be linked this way: set `phoneNumber`, or `email` and `password`
+     * instead. The update is rejected with an `auth/provider-already-linked`
+     * error if the provider user identity is linked to another user.
+     *
+     * This is only supported by `updateUser()`.
+     */
+    providerToLink?: admin.auth.UserProvider;
+
+    /**
+     * The IDs of the providers to unlink from the user, such as `google.com`.
+     *
+     * This is only supported by `updateUser()`.
+     */
+    providersToUnlink?: string[];
+  }
+
+  /**
+   * Interface representing a provider user identity to link to an existing user
+   * via the `providerToLink` property of an `updateUser()` request.
+   */
+  interface UserProvider {
+
+    /**
+     * The user identifier for the linked provider.
+     */
+    uid: string;
+
+    /**
+     * The linked provider ID (for example, "google.com" for the Google provider).
+     */
+    providerId: string;
+
+    /**
+     * The display name for the linked provider.
+     */
+    displayName?: string;
+
+    /**
+     * The email for the linked provider.
+     */
+    email?: string;
+
+    /**
+     * The photo URL for the linked provider.
+     */
+    photoURL?: string;
   }
 
   /**
@@ -665,6 +910,41 @@ declare namespace admin.auth {
      * The user's `uid`.
      */
     uid?: string;
+
+    /**
+     * The user's multi-factor related properties.
+     */
+    multiFactor?: admin.auth.MultiFactorCreateSettings;
+  }
+
+  /**
+   * Interface representing the information of an out of band email action code,
+   * returned from the `checkActionCode()` and `confirmPasswordReset()` methods.
+   */
+  interface ActionCodeInfo {
+
+    /**
+     * The email action request type the code was issued for, such as
+     * `PASSWORD_RESET`, `VERIFY_EMAIL`, `EMAIL_SIGNIN`,
+     * `VERIFY_AND_CHANGE_EMAIL` or `RECOVER_EMAIL`.
+     */
+    operation: string;
+
+    /**
+     * The email of the user the code was issued for.
+     */
+    email: string;
+
+    /**
+     * For email change and email recovery codes, the other email involved in
+     * the change.
+     */
+    newEmail?: string;
+
+    /**
+     * The ID of the tenant the user belongs to, if any.
+     */
+    tenantId?: string;
   }
 
   /**
@@ -795,192 +1075,1055 @@ declare namespace admin.auth {
     pageToken?: string;
   }
 
-  type HashAlgorithmType = 'SCRYPT' | 'STANDARD_SCRYPT' | 'HMAC_SHA512' |
-      'HMAC_SHA256' | 'HMAC_SHA1' | 'HMAC_MD5' | 'MD5' | 'PBKDF_SHA1' | 'BCRYPT' |
-      'PBKDF2_SHA256' | 'SHA512' | 'SHA256' | 'SHA1';
-
   /**
-   * Interface representing the user import options needed for
-   * {@link https://firebase.google.com/docs/reference/admin/node/admin.auth.Auth#importUsers `importUsers()`} method. This is used to
-   * provide the password hashing algorithm information.
+   * Interface representing the filter of a
+   * {@link https://firebase.google.com/docs/reference/admin/node/admin.auth.Auth#queryUsers `queryUsers()`}
+   * operation. A user matches the filter when it matches all the specified
+   * criteria.
    */
-  interface UserImportOptions {
+  interface UserQueryFilter {
 
     /**
-     * The password hashing information.
+     * The `uid` of the user.
      */
-    hash: {
-
-      /**
-       * The password hashing algorithm identifier. The following algorithm
-       * identifiers are supported:
-       * `SCRYPT`, `STANDARD_SCRYPT`, `HMAC_SHA512`, `HMAC_SHA256`, `HMAC_SHA1`,
-       * `HMAC_MD5`, `MD5`, `PBKDF_SHA1`, `BCRYPT`, `PBKDF2_SHA256`, `SHA512`,
-       * `SHA256` and `SHA1`.
-       */
-      algorithm: HashAlgorithmType;
-
-      /**
-       * The signing key used in the hash algorithm in buffer bytes.
-       * Required by hashing algorithms `SCRYPT`, `HMAC_SHA512`, `HMAC_SHA256`,
-       * `HAMC_SHA1` and `HMAC_MD5`.
-       */
-      key?: Buffer;
-
-      /**
-       * The salt separator in buffer bytes which is appended to salt when
-       * verifying a password. This is only used by the `SCRYPT` algorithm.
-       */
-      saltSeparator?: string;
-
-      /**
-       * The number of rounds for hashing calculation.
-       * Required for `SCRYPT`, `MD5`, `SHA512`, `SHA256`, `SHA1`, `PBKDF_SHA1` and
-       * `PBKDF2_SHA256`.
-       */
-      rounds?: number;
-
-      /**
-       * The memory cost required for `SCRYPT` algorithm, or the CPU/memory cost.
-       * Required for `STANDARD_SCRYPT` algorithm.
-       */
-      memoryCost?: number;
-
-      /**
-       * The parallelization of the hashing algorithm. Required for the
-       * `STANDARD_SCRYPT` algorithm.
-       */
-      parallelization?: number;
+    uid?: string;
 
-      /**
-       * The block size (normally 8) of the hashing algorithm. Required for the
-       * `STANDARD_SCRYPT` algorithm.
-       */
-      blockSize?: number;
-      /**
-       * The derived key length of the hashing algorithm. Required for the
-       * `STANDARD_SCRYPT` algorithm.
-       */
-      derivedKeyLength?: number;
-    };
-  }
+    /**
+     * The email of the user, compared case-insensitively.
+     */
+    email?: string;
 
-  /**
-   * Interface representing the response from the
-   * {@link https://firebase.google.com/docs/reference/admin/node/admin.auth.Auth#importUsers `importUsers()`} method for batch
-   * importing users to Firebase Auth.
-   */
-  interface UserImportResult {
+    /**
+     * The domain of the email of the user, such as `example.com`, compared
+     * case-insensitively.
+     */
+    emailDomain?: string;
 
     /**
-     * The number of user records that failed to import to Firebase Auth.
+     * The phone number of the user.
      */
-    failureCount: number;
+    phoneNumber?: string;
 
     /**
-     * The number of user records that successfully imported to Firebase Auth.
+     * The ID of a provider linked to the user, such as `google.com` or
+     * `password`.
      */
-    successCount: number;
+    providerId?: string;
 
     /**
-     * An array of errors corresponding to the provided users to import. The
-     * length of this array is equal to [`failureCount`](#failureCount).
+     * Whether the user is disabled.
+     */
+    disabled?: boolean;
+
+    /**
+     * Whether the email of the user is verified.
+     */
+    emailVerified?: boolean;
+
+    /**
+     * Matches the users created at or after this time.
+     */
+    createdAfter?: Date;
+
+    /**
+     * Matches the users created before this time.
+     */
+    createdBefore?: Date;
+
+    /**
+     * Matches the users who last signed in at or after this time.
+     */
+    lastSignInAfter?: Date;
+
+    /**
+     * Matches the users who last signed in before this time, or never signed in.
+     */
+    lastSignInBefore?: Date;
+
+    /**
+     * Custom claims the user must have, each strictly equal to the given value.
+     */
+    customClaims?: {[claim: string]: any};
+  }
+
+  /**
+   * Interface representing the progress of the scan of a `queryUsers()`
+   * operation, reported after each downloaded page.
+   */
+  interface UserQueryProgress {
+
+    /**
+     * The number of users scanned so far.
+     */
+    scannedCount: number;
+
+    /**
+     * The number of users matching the filter so far.
+     */
+    matchedCount: number;
+
+    /**
+     * The page token of the next page to scan. Undefined once all the users
+     * have been scanned.
+     */
+    pageToken?: string;
+  }
+
+  /**
+   * Interface representing the options of a `queryUsers()` operation.
+   */
+  interface UserQueryOptions {
+
+    /**
+     * The number of users to download per request. Defaults to 1000, which is
+     * also the maximum allowed limit.
+     */
+    pageSize?: number;
+
+    /**
+     * The page token returned by a previous query to resume its scan from.
+     */
+    pageToken?: string;
+
+    /**
+     * The maximum number of pages to scan. All the pages are scanned by default.
+     */
+    maxPages?: number;
+
+    /**
+     * Function called with the progress of the scan after each page.
+     */
+    onProgress?: (progress: admin.auth.UserQueryProgress) => void;
+  }
+
+  /**
+   * Interface representing the result of a `queryUsers()` operation.
+   */
+  interface QueryUsersResult {
+
+    /**
+     * The users matching the filter.
+     */
+    users: admin.auth.UserRecord[];
+
+    /**
+     * The number of users scanned.
+     */
+    scannedCount: number;
+
+    /**
+     * The page token to resume the scan from, when it stopped before all the
+     * users were scanned.
+     */
+    pageToken?: string;
+  }
+
+  /**
+   * Used for looking up an account by uid.
+   *
+   * See `auth.getUsers()`
+   */
+  interface UidIdentifier {
+    uid: string;
+  }
+
+  /**
+   * Used for looking up an account by email.
+   *
+   * See `auth.getUsers()`
+   */
+  interface EmailIdentifier {
+    email: string;
+  }
+
+  /**
+   * Used for looking up an account by phone number.
+   *
+   * See `auth.getUsers()`
+   */
+  interface PhoneIdentifier {
+    phoneNumber: string;
+  }
+
+  /**
+   * Identifies a user to be looked up.
+   */
+  type UserIdentifier = UidIdentifier | EmailIdentifier | PhoneIdentifier;
+
+  /**
+   * Represents the result of the
+   * {@link https://firebase.google.com/docs/reference/admin/node/admin.auth.Auth#getUsers `getUsers()`}
+   * API.
+   */
+  interface GetUsersResult {
+    /**
+     * Set of user records, corresponding to the set of users that were
+     * requested. Only users that were found are listed here. The result set is
+     * unordered.
+     */
+    users: UserRecord[];
+
+    /** Set of identifiers that were requested, but not found. */
+    notFound: UserIdentifier[];
+  }
+
+  /**
+   * Represents the result of the
+   * {@link https://firebase.google.com/docs/reference/admin/node/admin.auth.Auth#deleteUsers `deleteUsers()`}
+   * API.
+   */
+  interface DeleteUsersResult {
+    /**
+     * The number of user records that failed to be deleted (possibly zero).
+     */
+    failureCount: number;
+
+    /**
+     * The number of users that were deleted successfully (possibly zero).
+     * Users that did not exist prior to calling `deleteUsers()` are
+     * considered to be successfully deleted.
+     */
+    successCount: number;
+
+    /**
+     * A list of `FirebaseArrayIndexError` instances describing the errors that
+     * were encountered during the deletion. Length of this list is equal to
+     * the return value of [`failureCount`](#failureCount). The error indices
+     * refer to the positions of the uids in the provided list.
+     */
+    errors: admin.FirebaseArrayIndexError[];
+  }
+
+  type HashAlgorithmType = 'SCRYPT' | 'STANDARD_SCRYPT' | 'HMAC_SHA512' |
+      'HMAC_SHA256' | 'HMAC_SHA1' | 'HMAC_MD5' | 'MD5' | 'PBKDF_SHA1' | 'BCRYPT' |
+      'PBKDF2_SHA256' | 'SHA512' | 'SHA256' | 'SHA1';
+
+  /**
+   * Interface representing the user import options needed for
+   * {@link https://firebase.google.com/docs/reference/admin/node/admin.auth.Auth#importUsers `importUsers()`} method. This is used to
+   * provide the password hashing algorithm information.
+   */
+  interface UserImportOptions {
+
+    /**
+     * The password hashing information.
+     */
+    hash: {
+
+      /**
+       * The password hashing algorithm identifier. The following algorithm
+       * identifiers are supported:
+       * `SCRYPT`, `STANDARD_SCRYPT`, `HMAC_SHA512`, `HMAC_SHA256`, `HMAC_SHA1`,
+       * `HMAC_MD5`, `MD5`, `PBKDF_SHA1`, `BCRYPT`, `PBKDF2_SHA256`, `SHA512`,
+       * `SHA256` and `SHA1`.
+       */
+      algorithm: HashAlgorithmType;
+
+      /**
+       * The signing key used in the hash algorithm in buffer bytes.
+       * Required by hashing algorithms `SCRYPT`, `HMAC_SHA512`, `HMAC_SHA256`,
+       * `HAMC_SHA1` and `HMAC_MD5`.
+       */
+      key?: Buffer;
+
+      /**
+       * The salt separator in buffer bytes which is appended to salt when
+       * verifying a password. This is only used by the `SCRYPT` algorithm.
+       */
+      saltSeparator?: string;
+
+      /**
+       * The number of rounds for hashing calculation.
+       * Required for `SCRYPT`, `MD5`, `SHA512`, `SHA256`, `SHA1`, `PBKDF_SHA1` and
+       * `PBKDF2_SHA256`.
+       */
+      rounds?: number;
+
+      /**
+       * The memory cost required for `SCRYPT` algorithm, or the CPU/memory cost.
+       * Required for `STANDARD_SCRYPT` algorithm.
+       */
+      memoryCost?: number;
+
+      /**
+       * The parallelization of the hashing algorithm. Required for the
+       * `STANDARD_SCRYPT` algorithm.
+       */
+      parallelization?: number;
+
+      /**
+       * The block size (normally 8) of the hashing algorithm. Required for the
+       * `STANDARD_SCRYPT` algorithm.
+       */
+      blockSize?: number;
+      /**
+       * The derived key length of the hashing algorithm. Required for the
+       * `STANDARD_SCRYPT` algorithm.
+       */
+      derivedKeyLength?: number;
+    };
+  }
+
+  /**
+   * Interface representing the response from the
+   * {@link https://firebase.google.com/docs/reference/admin/node/admin.auth.Auth#importUsers `importUsers()`} method for batch
+   * importing users to Firebase Auth.
+   */
+  interface UserImportResult {
+
+    /**
+     * The number of user records that failed to import to Firebase Auth.
+     */
+    failureCount: number;
+
+    /**
+     * The number of user records that successfully imported to Firebase Auth.
+     */
+    successCount: number;
+
+    /**
+     * An array of errors corresponding to the provided users to import. The
+     * length of this array is equal to [`failureCount`](#failureCount).
      */
     errors: admin.FirebaseArrayIndexError[];
   }
 
   /**
-   * Interface representing a user to import to Firebase Auth via the
-   * {@link https://firebase.google.com/docs/reference/admin/node/admin.auth.Auth#importUsers `importUsers()`} method.
+   * Interface representing the options of the
+   * {@link admin.auth.Auth#bulkImportUsers `bulkImportUsers()`} method.
+   */
+  interface BulkUserImportOptions {
+
+    /**
+     * The number of users imported per request, between 1 and 1000. Defaults to
+     * 1000.
+     */
+    batchSize?: number;
+
+    /**
+     * The maximum number of concurrent import requests, between 1 and 10.
+     * Defaults to 1.
+     */
+    maxConcurrency?: number;
+  }
+
+  /**
+   * Interface representing the progress of a bulk user import, emitted with the
+   * `'progress'` event of a {@link admin.auth.BulkUserImport `BulkUserImport`}
+   * after each imported batch.
+   */
+  interface UserImportProgress {
+
+    /**
+     * The number of users processed so far, successfully or not.
+     */
+    processedCount: number;
+
+    /**
+     * The number of users successfully imported so far.
+     */
+    successCount: number;
+
+    /**
+     * The number of users which failed to be imported so far.
+     */
+    failureCount: number;
+  }
+
+  /**
+   * A bulk user import started by the
+   * {@link admin.auth.Auth#bulkImportUsers `bulkImportUsers()`} method. A
+   * `'progress'` event is emitted with a
+   * {@link admin.auth.UserImportProgress `UserImportProgress`} after each
+   * imported batch.
+   */
+  interface BulkUserImport extends EventEmitter {
+
+    /**
+     * A promise that resolves with the aggregated result once all the users have
+     * been processed. The error indices refer to the position of the users in the
+     * source. The promise is rejected if a batch cannot be imported at all, in
+     * which case no further batches are imported. It is only rejected once the
+     * batches in flight have completed, with an error whose `partialResult`
+     * property holds the result aggregated so far. The users of the batch that
+     * could not be imported are left out of it.
+     */
+    result: Promise<admin.auth.UserImportResult>;
+
+    on(event: 'progress', listener: (progress: admin.auth.UserImportProgress) => void): this;
+  }
+
+  /**
+   * Interface representing the options of the
+   * {@link admin.auth.Auth#createBulkUserOperations `createBulkUserOperations()`}
+   * method.
+   */
+  interface BulkUserOperationsOptions {
+
+    /**
+     * The maximum number of operations started per second, up to 1000. Defaults
+     * to 10.
+     */
+    maxOperationsPerSecond?: number;
+
+    /**
+     * The maximum number of concurrent operations, between 1 and 100. Defaults
+     * to 10.
+     */
+    maxConcurrency?: number;
+
+    /**
+     * The number of times an operation rejected with an `auth/quota-exceeded`
+     * error is retried, between 0 and 10. Defaults to 3.
+     */
+    maxRetries?: number;
+
+    /**
+     * The delay before the first retry in milliseconds, doubled on each retry.
+     * Defaults to 1000.
+     */
+    retryDelayMillis?: number;
+  }
+
+  /**
+   * Interface representing the result of a bulk user operation.
+   */
+  interface BulkUserOperationResult {
+
+    /**
+     * The number of users the operation succeeded for.
+     */
+    successCount: number;
+
+    /**
+     * The number of users the operation failed for.
+     */
+    failureCount: number;
+
+    /**
+     * The errors of the failed operations, indexed by the position of the uid in
+     * the provided list.
+     */
+    errors: admin.FirebaseArrayIndexError[];
+  }
+
+  /**
+   * Applies the same operation to a list of users with bounded concurrency and
+   * rate limiting. The operations rejected with an `auth/quota-exceeded` error
+   * are retried with exponential backoff, and the other failures are reported in
+   * the aggregated result without stopping the remaining operations.
+   */
+  interface BulkUserOperations {
+
+    /**
+     * Applies the same update to a list of users.
+     *
+     * @param uids The uids of the users to update.
+     * @param properties The properties to update on each user.
+     * @return A promise that resolves with the aggregated result.
+     */
+    updateUsers(uids: string[], properties: admin.auth.UpdateRequest): Promise<admin.auth.BulkUserOperationResult>;
+
+    /**
+     * Disables a list of users.
+     *
+     * @param uids The uids of the users to disable.
+     * @return A promise that resolves with the aggregated result.
+     */
+    disableUsers(uids: string[]): Promise<admin.auth.BulkUserOperationResult>;
+
+    /**
+     * Enables a list of users.
+     *
+     * @param uids The uids of the users to enable.
+     * @return A promise that resolves with the aggregated result.
+     */
+    enableUsers(uids: string[]): Promise<admin.auth.BulkUserOperationResult>;
+
+    /**
+     * Marks the emails of a list of users as verified.
+     *
+     * @param uids The uids of the users whose emails are verified.
+     * @return A promise that resolves with the aggregated result.
+     */
+    verifyEmails(uids: string[]): Promise<admin.auth.BulkUserOperationResult>;
+
+    /**
+     * Revokes the refresh tokens of a list of users.
+     *
+     * @param uids The uids of the users whose refresh tokens are revoked.
+     * @return A promise that resolves with the aggregated result.
+     */
+    revokeRefreshTokens(uids: string[]): Promise<admin.auth.BulkUserOperationResult>;
+  }
+
+  /**
+   * Interface representing a user to import to Firebase Auth via the
+   * {@link https://firebase.google.com/docs/reference/admin/node/admin.auth.Auth#importUsers `importUsers()`} method.
+   */
+  interface UserImportRecord {
+
+    /**
+     * The user's `uid`.
+     */
+    uid: string;
+
+    /**
+     * The user's primary email, if set.
+     */
+    email?: string;
+
+    /**
+     * Whether or not the user's primary email is verified.
+     */
+    emailVerified: boolean;
+
+    /**
+     * The user's display name.
+     */
+    displayName?: string;
+
+    /**
+     * The user's primary phone number, if set.
+     */
+    phoneNumber?: string;
+
+    /**
+     * The user's photo URL.
+     */
+    photoURL?: string;
+
+    /**
+     * Whether or not the user is disabled: `true` for disabled; `false` for
+     * enabled.
+     */
+    disabled: boolean;
+
+    /**
+     * Additional metadata about the user.
+     */
+    metadata: admin.auth.UserMetadata;
+
+    /**
+     * An array of providers (for example, Google, Facebook) linked to the user.
+     */
+    providerData?: admin.auth.UserInfo[];
+
+    /**
+     * The user's custom claims object if available, typically used to define
+     * user roles and propagated to an authenticated user's ID token.
+     */
+    customClaims?: Object;
+
+    /**
+     * The buffer of bytes representing the user’s hashed password.
+     * When a user is to be imported with a password hash,
+     * {@link admin.auth.UserImportOptions `UserImportOptions`} are required to be
+     * specified to identify the hashing algorithm used to generate this hash.
+     */
+    passwordHash?: Buffer;
+
+    /**
+     * The buffer of bytes representing the user’s password salt.
+     */
+    passwordSalt?: Buffer;
+  
+    /**
+     * The identifier of the tenant where user is to be imported to.
+     * When not provided in an `admin.auth.Auth` context, the user is uploaded to
+     * the default parent project.
+     * When not provided in an `admin.auth.TenantAwareAuth` context, the user is uploaded
+     * to the tenant corresponding to that `TenantAwareAuth` instance's tenant ID.
+     */
+    tenantId?: string | null;
+
+    /**
+     * The user's multi-factor related properties.
+     */
+    multiFactor?: admin.auth.MultiFactorUpdateSettings;
+  }
+
+  /**
+   * The formats in which users can be exported via the
+   * {@link admin.auth.Auth#exportUsers `exportUsers()`} method. `'JSON'` exports
+   * contain one JSON object per line, while `'CSV'` exports start with a header row.
+   */
+  type UserExportFormat = 'JSON' | 'CSV';
+
+  /**
+   * Interface representing the options of the
+   * {@link admin.auth.Auth#exportUsers `exportUsers()`} method.
+   */
+  interface UserExportOptions {
+
+    /**
+     * The format of the export. Defaults to `'JSON'`.
+     */
+    format?: admin.auth.UserExportFormat;
+
+    /**
+     * The number of users to download per request (1000 if undefined, which is
+     * also the maximum allowed limit).
+     */
+    pageSize?: number;
+
+    /**
+     * Whether to also export the users of all the tenants of the project, after
+     * the project level users. Only supported by the project level `Auth`
+     * instance.
+     */
+    includeTenants?: boolean;
+  }
+
+  /**
+   * Interface representing the users of a user export which belong to the same
+   * tenant, returned by the
+   * {@link admin.auth.Auth#parseUserExportByTenant `parseUserExportByTenant()`}
+   * method.
+   */
+  interface UserExportTenantGroup {
+
+    /**
+     * The ID of the tenant of the users, or undefined for the project level
+     * users.
+     */
+    tenantId?: string;
+
+    /**
+     * The users of the tenant as user import records.
+     */
+    users: admin.auth.UserImportRecord[];
+  }
+
+  /**
+   * Interface representing a decoded ID token issued by an OIDC provider, returned
+   * from the {@link admin.auth.Auth#verifyProviderIdToken `verifyProviderIdToken()`}
+   * method.
+   */
+  interface DecodedProviderIdToken {
+
+    /**
+     * The issuer of the token, matching the issuer of the OIDC provider configuration.
+     */
+    iss: string;
+
+    /**
+     * The audience of the token, which includes the client ID of the OIDC provider
+     * configuration.
+     */
+    aud: string | string[];
+
+    /**
+     * The provider's identifier of the user the token belongs to.
+     */
+    sub: string;
+
+    /**
+     * The token's expiration time, in seconds since the Unix epoch.
+     */
+    exp: number;
+
+    /**
+     * The token's issued-at time, in seconds since the Unix epoch.
+     */
+    iat: number;
+
+    /**
+     * Other arbitrary claims included in the token.
+     */
+    [key: string]: any;
+  }
+
+  /**
+   * Interface representing a cache of the public keys used to verify ID tokens
+   * and session cookies. It can be provided via the `publicKeyCache` app option
+   * to share the keys across processes, for example using Redis or the
+   * filesystem. By default, the keys are cached in memory.
+   */
+  interface PublicKeyCache {
+
+    /**
+     * Looks up the public keys cached under the provided key.
+     *
+     * @param key The cache key. This is the URL the public keys were fetched from.
+     *
+     * @return A promise fulfilled with the cached public keys, keyed by key ID,
+     *   or `null` if none are cached or they have expired.
+     */
+    get(key: string): Promise<{[kid: string]: string} | null>;
+
+    /**
+     * Caches the public keys under the provided key.
+     *
+     * @param key The cache key. This is the URL the public keys were fetched from.
+     * @param publicKeys The public keys to cache, keyed by key ID.
+     * @param ttlMillis The duration in milliseconds for which the public keys are valid.
+     *
+     * @return A promise fulfilled once the public keys are cached.
+     */
+    set(key: string, publicKeys: {[kid: string]: string}, ttlMillis: number): Promise<void>;
+  }
+
+  /**
+   * Interface representing the options of an ID token or session cookie minted
+   * by a `LocalTokenSigner`.
+   */
+  interface LocalTokenOptions {
+
+    /**
+     * The lifetime of the token in milliseconds. Defaults to one hour.
+     */
+    expiresIn?: number;
+
+    /**
+     * The time the user authenticated, in seconds since the Unix epoch.
+     * Defaults to the issue time of the token.
+     */
+    authTime?: number;
+
+    /**
+     * The sign-in provider reported in the `firebase` claim. Defaults to
+     * `custom`.
+     */
+    signInProvider?: string;
+
+    /**
+     * Additional claims, such as custom claims, to include in the token. The
+     * claims set by Firebase Auth cannot be specified.
+     */
+    claims?: {[key: string]: any};
+  }
+
+  /**
+   * Interface representing the options used to create a `LocalTokenSigner`.
+   */
+  interface LocalTokenSignerOptions {
+
+    /**
+     * The project ID set as the audience of the tokens.
+     */
+    projectId: string;
+
+    /**
+     * The key ID set in the `kid` header of the tokens.
+     */
+    keyId: string;
+
+    /**
+     * The PEM encoded RSA private key used to sign the tokens.
+     */
+    privateKey: string;
+  }
+
+  /**
+   * Mints ID tokens and session cookies signed with a local RSA key, without
+   * calling Firebase Auth. The tokens are only accepted by the `auth` service of
+   * apps initialized with the public keys of the signer in the `authPublicKeys`
+   * app option. This is intended for tests and offline tooling.
+   */
+  class LocalTokenSigner {
+    constructor(options: admin.auth.LocalTokenSignerOptions);
+
+    /**
+     * Mints an ID token for the given user.
+     *
+     * @param uid The uid of the user.
+     * @param options Optional settings of the ID token.
+     *
+     * @return A promise fulfilled with the signed ID token.
+     */
+    createIdToken(uid: string, options?: admin.auth.LocalTokenOptions): Promise<string>;
+
+    /**
+     * Mints a session cookie for the given user.
+     *
+     * @param uid The uid of the user.
+     * @param options Optional settings of the session cookie.
+     *
+     * @return A promise fulfilled with the signed session cookie.
+     */
+    createSessionCookie(uid: string, options?: admin.auth.LocalTokenOptions): Promise<string>;
+
+    /**
+     * Returns the public key of the signer keyed by its key ID, to be passed
+     * as the `authPublicKeys` app option.
+     *
+     * @return The PEM encoded public key, keyed by key ID.
+     */
+    getPublicKeys(): {[kid: string]: string};
+  }
+
+  /**
+   * Interface representing the options of a custom token created with the
+   * {@link https://firebase.google.com/docs/reference/admin/node/admin.auth.Auth#createCustomToken `createCustomToken()`} method.
+   */
+  interface CustomTokenOptions {
+
+    /**
+     * The lifetime of the custom token in milliseconds. The minimum allowed is
+     * 1 second and the maximum allowed, which is also the default, is 1 hour.
+     */
+    expiresIn?: number;
+
+    /**
+     * The key ID set in the `kid` header of the custom token.
+     */
+    keyId?: string;
+
+    /**
+     * Additional fields to include in the custom token header. The `alg`, `typ`
+     * and `kid` fields cannot be specified.
+     */
+    headers?: {[key: string]: any};
+  }
+
+  /**
+   * Interface representing the decoded claims of a custom token verified with the
+   * {@link https://firebase.google.com/docs/reference/admin/node/admin.auth.Auth#verifyCustomToken `verifyCustomToken()`} method.
+   */
+  interface DecodedCustomToken {
+
+    /**
+     * The uid of the user the custom token was created for.
+     */
+    uid: string;
+
+    /**
+     * The developer claims of the custom token, if any.
+     */
+    claims?: {[key: string]: any};
+
+    /**
+     * The audience of the custom token, which is the Firebase Auth API.
+     */
+    aud: string;
+
+    /**
+     * The time the custom token was issued, in seconds since the Unix epoch.
+     */
+    iat: number;
+
+    /**
+     * The time the custom token expires, in seconds since the Unix epoch.
+     */
+    exp: number;
+
+    /**
+     * The service account email which created the custom token.
+     */
+    iss: string;
+
+    /**
+     * The service account email which created the custom token.
+     */
+    sub: string;
+  }
+
+  /**
+   * Interface representing the session cookie options needed for the
+   * {@link https://firebase.google.com/docs/reference/admin/node/admin.auth.Auth#createSessionCookie `createSessionCookie()`} method.
+   */
+  interface SessionCookieOptions {
+
+    /**
+     * The session cookie custom expiration in milliseconds. The minimum allowed is
+     * 5 minutes and the maxium allowed is 2 weeks.
+     */
+    expiresIn: number;
+  }
+
+  /**
+   * Interface representing a session cookie recorded in a session store, returned
+   * from the `listSessions()` method.
    */
-  interface UserImportRecord {
+  interface SessionRecord {
 
     /**
-     * The user's `uid`.
+     * The uid of the user the session cookie was issued for.
      */
     uid: string;
 
     /**
-     * The user's primary email, if set.
+     * The identifier of the session, as returned by `getSessionId()`.
      */
-    email?: string;
+    sessionId: string;
 
     /**
-     * Whether or not the user's primary email is verified.
+     * The ID of the tenant the user belongs to, if any.
      */
-    emailVerified: boolean;
+    tenantId?: string;
 
     /**
-     * The user's display name.
+     * The time the user signed in, in seconds since the epoch.
      */
-    displayName?: string;
+    authTime: number;
 
     /**
-     * The user's primary phone number, if set.
+     * The time the session cookie was issued, in seconds since the epoch.
      */
-    phoneNumber?: string;
+    issuedAt: number;
 
     /**
-     * The user's photo URL.
+     * The time the session cookie expires, in seconds since the epoch.
      */
-    photoURL?: string;
+    expiresAt: number;
 
     /**
-     * Whether or not the user is disabled: `true` for disabled; `false` for
-     * enabled.
+     * Whether the session has been revoked.
      */
-    disabled: boolean;
+    revoked: boolean;
+  }
+
+  /**
+   * Interface of the storage of the session cookies created by
+   * `createSessionCookie()`, set with the `setSessionStore()` method.
+   * Implementations may persist the sessions in any database shared by the
+   * servers which verify the session cookies.
+   */
+  interface SessionStore {
 
     /**
-     * Additional metadata about the user.
+     * Returns the session with the given ID of a user, or null when there is none.
      */
-    metadata: admin.auth.UserMetadata;
+    get(uid: string, sessionId: string): Promise<admin.auth.SessionRecord | null>;
 
     /**
-     * An array of providers (for example, Google, Facebook) linked to the user.
+     * Returns all the sessions of a user, including the expired and revoked ones.
      */
-    providerData?: admin.auth.UserInfo[];
+    list(uid: string): Promise<admin.auth.SessionRecord[]>;
 
     /**
-     * The user's custom claims object if available, typically used to define
-     * user roles and propagated to an authenticated user's ID token.
+     * Adds a session, or replaces the session of the same user with the same ID.
      */
-    customClaims?: Object;
+    set(session: admin.auth.SessionRecord): Promise<void>;
 
     /**
-     * The buffer of bytes representing the user’s hashed password.
-     * When a user is to be imported with a password hash,
-     * {@link admin.auth.UserImportOptions `UserImportOptions`} are required to be
-     * specified to identify the hashing algorithm used to generate this hash.
+     * Deletes the session with the given ID of a user, if any.
      */
-    passwordHash?: Buffer;
+    delete(uid: string, sessionId: string): Promise<void>;
+  }
+
+  /**
+   * Session store which keeps the sessions in the memory of the current process.
+   * This is only suitable when the session cookies are verified by a single
+   * server.
+   */
+  class InMemorySessionStore implements admin.auth.SessionStore {
+    get(uid: string, sessionId: string): Promise<admin.auth.SessionRecord | null>;
+    list(uid: string): Promise<admin.auth.SessionRecord[]>;
+    set(session: admin.auth.SessionRecord): Promise<void>;
+    delete(uid: string, sessionId: string): Promise<void>;
+  }
+
+  /**
+   * Interface representing the options of a request authenticator, created with
+   * the `createRequestAuthenticator()` method.
+   */
+  interface RequestAuthenticatorOptions {
 
     /**
-     * The buffer of bytes representing the user’s password salt.
+     * Whether to check that the ID tokens and session cookies are not revoked.
+     * This requires an extra request to the Firebase Auth backend. Defaults to
+     * false.
      */
-    passwordSalt?: Buffer;
-  
+    checkRevoked?: boolean;
+
     /**
-     * The identifier of the tenant where user is to be imported to.
-     * When not provided in an `admin.auth.Auth` context, the user is uploaded to
-     * the default parent project.
-     * When not provided in an `admin.auth.TenantAwareAuth` context, the user is uploaded
-     * to the tenant corresponding to that `TenantAwareAuth` instance's tenant ID.
+     * Claims that the decoded tokens must have, each with the given value.
+     * Requests whose token does not have a required claim value are rejected
+     * with a 403 status.
      */
-    tenantId?: string | null;
+    requiredClaims?: {[claim: string]: any};
+
+    /**
+     * The ID of the tenant the users must belong to. Requests of users of other
+     * tenants are rejected with a 403 status. Using an authenticator created by
+     * a `TenantAwareAuth` instance has the same effect.
+     */
+    tenantId?: string;
+
+    /**
+     * The name of the cookie holding the session cookie. Defaults to
+     * `__session`, the only cookie forwarded by Firebase Hosting.
+     */
+    sessionCookieName?: string;
+
+    /**
+     * The name of the request property the decoded token is attached to by the
+     * middleware and request listener adapters. Defaults to `decodedToken`.
+     */
+    requestProperty?: string;
+
+    /**
+     * Whether the middleware passes authentication failures to `next()`,
+     * for an error handling middleware to respond, instead of responding with a
+     * JSON error. Defaults to false.
+     */
+    passErrorsToNext?: boolean;
   }
 
   /**
-   * Interface representing the session cookie options needed for the
-   * {@link https://firebase.google.com/docs/reference/admin/node/admin.auth.Auth#createSessionCookie `createSessionCookie()`} method.
+   * Interface representing the result of a successful request authentication.
    */
-  interface SessionCookieOptions {
+  interface RequestAuthenticationResult<C extends object = object> {
 
     /**
-     * The session cookie custom expiration in milliseconds. The minimum allowed is
-     * 5 minutes and the maxium allowed is 2 weeks.
+     * The decoded ID token or session cookie.
      */
-    expiresIn: number;
+    decodedToken: admin.auth.DecodedIdToken & C;
+
+    /**
+     * Whether the request was authenticated with an ID token or with a session
+     * cookie.
+     */
+    source: 'idToken' | 'sessionCookie';
+  }
+
+  /**
+   * Authenticator of incoming HTTP requests, which verifies either the ID token
+   * sent in the `Authorization` header with the Bearer scheme or the session
+   * cookie of the `Cookie` header.
+   *
+   * Missing, invalid, expired and revoked credentials are rejected with a 401
+   * status, while users lacking the required claims or belonging to another
+   * tenant are rejected with a 403 status.
+   */
+  interface RequestAuthenticator<C extends object = object> {
+
+    /**
+     * Authenticates a request. The ID token of the `Authorization` header takes
+     * precedence over the session cookie.
+     *
+     * @param request The request to authenticate, or any object with the
+     *   headers of the request.
+     * @return A promise that resolves with the decoded token, or is rejected with
+     *   the authentication error.
+     */
+    authenticate(
+      request: {headers: {[name: string]: string | string[] | undefined}},
+    ): Promise<admin.auth.RequestAuthenticationResult<C>>;
+
+    /**
+     * Returns a Connect-style middleware, which can be used with Express. The
+     * middleware attaches the decoded token to authenticated requests, and
+     * responds to the other requests with a JSON error, or passes the error to
+     * `next()` when the `passErrorsToNext` option is set.
+     *
+     * @return The middleware function.
+     */
+    middleware(): (request: IncomingMessage, response: ServerResponse, next: (error?: any) => void) => void;
+
+    /**
+     * Wraps a Node.js `http` request listener so that it is only called with
+     * authenticated requests, to which the decoded token is attached. The other
+     * requests are responded to with a JSON error.
+     *
+     * @param listener The request listener to call with authenticated requests.
+     * @return The request listener to pass to `http.createServer()`.
+     */
+    requestListener(
+      listener: (request: IncomingMessage, response: ServerResponse) => void,
+    ): (request: IncomingMessage, response: ServerResponse) => void;
   }
 
   /**
@@ -1064,6 +2207,36 @@ declare namespace admin.auth {
     dynamicLinkDomain?: string;
   }
 
+  /**
+   * The multi-factor configuration state. This can be either `ENABLED` or `DISABLED`.
+   */
+  type MultiFactorConfigState = 'ENABLED' | 'DISABLED';
+
+  /**
+   * The identifier of a second factor type. Only `phone` (SMS) second factors are
+   * currently supported.
+   */
+  type AuthFactorType = 'phone';
+
+  /**
+   * Interface representing a multi-factor configuration.
+   * This can be used to define whether multi-factor authentication is enabled
+   * or disabled and the list of second factor challenges that are supported.
+   */
+  interface MultiFactorConfig {
+
+    /**
+     * The multi-factor config state.
+     */
+    state: admin.auth.MultiFactorConfigState;
+
+    /**
+     * The list of identifiers for enabled second factors.
+     * Currently only ‘phone’ is supported.
+     */
+    factorIds?: admin.auth.AuthFactorType[];
+  }
+
   /**
    * Interface representing a tenant configuration.
    * 
@@ -1113,6 +2286,21 @@ declare namespace admin.auth {
       passwordRequired?: boolean
     };
 
+    /**
+     * Whether the anonymous provider is enabled.
+     */
+    anonymousSignInEnabled: boolean;
+
+    /**
+     * The multi-factor auth configuration on the current tenant.
+     */
+    multiFactorConfig?: admin.auth.MultiFactorConfig;
+
+    /**
+     * The map containing the test phone number / code pairs for the tenant.
+     */
+    testPhoneNumbers?: {[phoneNumber: string]: string};
+
     /**
      * @return A JSON-serializable representation of this object.
      */
@@ -1145,6 +2333,23 @@ declare namespace admin.auth {
        */
       passwordRequired?: boolean;
     };
+
+    /**
+     * Whether the anonymous provider is enabled.
+     */
+    anonymousSignInEnabled?: boolean;
+
+    /**
+     * The multi-factor auth configuration to update on the tenant.
+     */
+    multiFactorConfig?: admin.auth.MultiFactorConfig;
+
+    /**
+     * The updated map containing the test phone number / code pairs for the tenant.
+     * Passing null clears the previously saved phone number / code pairs. At most
+     * 10 pairs can be configured.
+     */
+    testPhoneNumbers?: {[phoneNumber: string]: string} | null;
   }
 
   /**
@@ -1172,6 +2377,32 @@ declare namespace admin.auth {
     pageToken?: string;
   }
 
+  /**
+   * Options used to configure how a paged list is iterated over via
+   * {@link https://firebase.google.com/docs/reference/admin/node/admin.auth.Auth#iterateUsers `iterateUsers()`}
+   * or {@link https://firebase.google.com/docs/reference/admin/node/admin.auth.TenantManager#iterateTenants `iterateTenants()`}.
+   */
+  interface PageIteratorOptions {
+
+    /**
+     * The number of items to request from the backend per page. Defaults to the
+     * maximum page size allowed by the underlying list operation.
+     */
+    pageSize?: number;
+  }
+
+  /**
+   * The options used for iterating over provider configurations via
+   * {@link https://firebase.google.com/docs/reference/admin/node/admin.auth.Auth#iterateProviderConfigs `iterateProviderConfigs()`}.
+   */
+  interface AuthProviderConfigIteratorOptions extends PageIteratorOptions {
+
+    /**
+     * The Auth provider configuration type. This can be either `saml` or `oidc`.
+     */
+    type: 'saml' | 'oidc';
+  }
+
   /**
    * The filter interface used for listing provider configurations. This is used
    * when specifying how to list configured identity providers via
@@ -1268,6 +2499,14 @@ declare namespace admin.auth {
      * configuration.
      */
     callbackURL?: string;
+
+    /**
+     * The PEM encoded X.509 certificates the authentication requests of the
+     * relying party are signed with, when request signing is enabled. These
+     * are generated by Firebase Auth and ignored when creating or updating a
+     * provider configuration.
+     */
+    spCertificates?: string[];
   }
 
   /**
@@ -1354,6 +2593,45 @@ declare namespace admin.auth {
     callbackURL?: string;
   }
 
+  /**
+   * Helpers to exchange the SAML 2.0 metadata XML of SAML provider
+   * configurations with identity providers.
+   */
+  class SAMLConfig {
+
+    private constructor();
+
+    /**
+     * Builds the request of a SAML provider configuration from the SAML 2.0
+     * metadata of its identity provider. The IdP entity ID, the single sign-on
+     * URL and the PEM encoded signing certificates are read from the metadata,
+     * while the relying party fields are left for the caller to provide.
+     *
+     * @param xml The IdP metadata XML.
+     * @param providerId The provider ID of the configuration, prefixed with
+     *   `saml.`.
+     * @return The provider configuration request, to complete before passing
+     *   it to {@link admin.auth.Auth#createProviderConfig `createProviderConfig()`}
+     *   or {@link admin.auth.Auth#updateProviderConfig `updateProviderConfig()`}.
+     */
+    static fromIdpMetadataXml(
+      xml: string, providerId: string,
+    ): admin.auth.SAMLUpdateAuthProviderRequest & {providerId: string};
+
+    /**
+     * Builds the SAML 2.0 metadata of the relying party of a SAML provider
+     * configuration, including its entity ID, callback URL and whether its
+     * authentication requests are signed, to be provided to its identity
+     * provider. When the authentication requests are signed, the metadata
+     * describes the `spCertificates` of the configuration as signing keys, and
+     * an error is thrown if the configuration has none.
+     *
+     * @param config The SAML provider configuration.
+     * @return The SP metadata XML.
+     */
+    static toSpMetadataXml(config: admin.auth.SAMLAuthProviderConfig): string;
+  }
+
   /**
    * The request interface for updating an OIDC Auth provider. This is used
    * when updating an OIDC provider's configuration via
@@ -1408,7 +2686,99 @@ declare namespace admin.auth {
   type UpdateAuthProviderRequest =
     admin.auth.SAMLUpdateAuthProviderRequest | admin.auth.OIDCUpdateAuthProviderRequest;
 
-  interface BaseAuth {
+  /**
+   * Interface representing the options of the
+   * {@link admin.auth.Auth#applyProviderConfigs `applyProviderConfigs()`} method.
+   */
+  interface ApplyProviderConfigsOptions {
+
+    /**
+     * Whether to delete the existing providers which are not desired. Defaults to
+     * false.
+     */
+    prune?: boolean;
+
+    /**
+     * Whether to only plan the changes, without applying them. Defaults to false.
+     */
+    dryRun?: boolean;
+  }
+
+  /**
+   * Interface representing a change of a provider configuration planned by the
+   * {@link admin.auth.Auth#applyProviderConfigs `applyProviderConfigs()`} method.
+   */
+  interface ProviderConfigChange {
+
+    /**
+     * Whether the provider configuration is created, updated or deleted.
+     */
+    action: 'create' | 'update' | 'delete';
+
+    /**
+     * The provider ID of the changed configuration.
+     */
+    providerId: string;
+
+    /**
+     * The configuration to create, or the changed fields to update. Undefined for
+     * deletions.
+     */
+    request?: admin.auth.AuthProviderConfig | admin.auth.UpdateAuthProviderRequest;
+  }
+
+  /**
+   * Interface representing the changes reconciling the provider configurations
+   * with the desired ones.
+   */
+  interface ProviderConfigPlan {
+
+    /**
+     * The changes, with the creations first, then the updates and the deletions.
+     */
+    changes: admin.auth.ProviderConfigChange[];
+
+    /**
+     * The IDs of the desired providers whose configuration is already up to date.
+     */
+    unchangedProviderIds: string[];
+  }
+
+  /**
+   * A function that validates custom claims before they are set on a user by
+   * {@link admin.auth.Auth#setCustomUserClaims `setCustomUserClaims()`}. The
+   * claims are rejected when the function throws or returns a rejected promise.
+   */
+  type CustomClaimsValidator<C extends object> = (claims: C) => void | Promise<void>;
+
+  /**
+   * The update applied to custom claims by
+   * {@link admin.auth.Auth#updateCustomUserClaims `updateCustomUserClaims()`}.
+   * Either claims to merge into the existing ones, where `undefined` values
+   * delete the corresponding claims, or a function that returns the updated
+   * claims, or `null` to delete all the claims.
+   */
+  type CustomClaimsUpdate<C extends object> =
+    Partial<C> | ((claims: C) => C | null | Promise<C | null>);
+
+  /**
+   * Interface representing the options of the
+   * {@link admin.auth.Auth#updateCustomUserClaims `updateCustomUserClaims()`} method.
+   */
+  interface UpdateCustomClaimsOptions {
+
+    /**
+     * The number of times the update is retried after the claims were modified
+     * concurrently, between 0 and 10. Defaults to 3.
+     */
+    maxRetries?: number;
+  }
+
+  /**
+   * The base Auth interface. The custom claims set on users and returned in
+   * decoded ID tokens and session cookies are typed with the claims type `C`.
+   */
+  interface BaseAuth<C extends object = object> {
 
     /**
      * Creates a new Firebase custom token (JWT) that can be sent back to a client
@@ -1421,11 +2791,33 @@ declare namespace admin.auth {
      * @param uid The `uid` to use as the custom token's subject.
      * @param developerClaims Optional additional claims to include
      *   in the custom token's payload.
+     * @param options Optional expiration, key ID and header settings of the
+     *   custom token.
      *
      * @return A promise fulfilled with a custom token for the
      *   provided `uid` and payload.
      */
-    createCustomToken(uid: string, developerClaims?: Object): Promise<string>;
+    createCustomToken(
+      uid: string,
+      developerClaims?: Object,
+      options?: admin.auth.CustomTokenOptions
+    ): Promise<string>;
+
+    /**
+     * Verifies a custom token created with the service account of this instance,
+     * without calling the Firebase Auth backend. This allows services which share
+     * the service account credential of the service minting the custom tokens to
+     * check them locally.
+     *
+     * This requires the SDK to be initialized with a service account credential.
+     *
+     * @param token The custom token to verify.
+     *
+     * @return A promise fulfilled with the decoded claims of the custom token, or
+     *   rejected with an `auth/custom-token-expired` or `auth/invalid-custom-token`
+     *   error.
+     */
+    verifyCustomToken(token: string): Promise<admin.auth.DecodedCustomToken>;
 
     /**
      * Creates a new user.
@@ -1454,6 +2846,27 @@ declare namespace admin.auth {
      */
     deleteUser(uid: string): Promise<void>;
 
+    /**
+     * Deletes the users specified by the given uids.
+     *
+     * Deleting a non-existing user won't generate an error (i.e. this method
+     * is idempotent.) Non-existing users are considered to be successfully
+     * deleted, and are therefore counted in the
+     * `DeleteUsersResult.successCount` value.
+     *
+     * The uids are deleted in batches of up to 1000 per backend request; larger
+     * lists are split into multiple requests automatically. This API is
+     * rate limited on the backend, so deleting very large lists may take a
+     * while.
+     *
+     * @param uids The `uids` corresponding to the users to delete.
+     *
+     * @return A Promise that resolves to the total number of successful/failed
+     *     deletions, as well as the array of errors that correspond to the
+     *     failed deletions.
+     */
+    deleteUsers(uids: string[]): Promise<admin.auth.DeleteUsersResult>;
+
     /**
      * Gets the user data for the user corresponding to a given `uid`.
      *
@@ -1494,24 +2907,112 @@ declare namespace admin.auth {
      * @return A promise fulfilled with the user
      *   data corresponding to the provided phone number.
      */
-    getUserByPhoneNumber(phoneNumber: string): Promise<admin.auth.UserRecord>;
+    getUserByPhoneNumber(phoneNumber: string): Promise<admin.auth.UserRecord>;
+
+    /**
+     * Gets the user data corresponding to the specified identifiers.
+     *
+     * There are no ordering guarantees; in particular, the nth entry in the result list is not
+     * guaranteed to correspond to the nth entry in the input parameters list.
+     *
+     * Identifiers are looked up in batches of up to 100 per backend request; larger lists are
+     * split into multiple requests automatically.
+     *
+     * @param identifiers The identifiers used to indicate which user records should be returned.
+     * @return A promise that resolves to the corresponding user records, and rejects
+     *   if any of the identifiers are invalid.
+     */
+    getUsers(identifiers: admin.auth.UserIdentifier[]): Promise<admin.auth.GetUsersResult>;
+
+    /**
+     * Retrieves a list of users (single batch only) with a size of `maxResults`
+     * starting from the offset as specified by `pageToken`. This is used to
+     * retrieve all the users of a specified project in batches.
+     *
+     * See [List all users](/docs/auth/admin/manage-users#list_all_users)
+     * for code samples and detailed documentation.
+     *
+     * @param maxResults The page size, 1000 if undefined. This is also
+     *   the maximum allowed limit.
+     * @param pageToken The next page token. If not specified, returns
+     *   users starting without any offset.
+     * @return A promise that resolves with
+     *   the current batch of downloaded users and the next page token.
+     */
+    listUsers(maxResults?: number, pageToken?: string): Promise<admin.auth.ListUsersResult>;
+
+    /**
+     * Returns an async iterable over all the users of the project. Users are
+     * downloaded lazily in pages, with the next page only requested once all the
+     * users of the current page have been consumed. This can be used with a
+     * `for await...of` loop, which requires Node.js 10 or higher.
+     *
+     * @param options The optional iteration options, including the page size
+     *   (1000 if undefined, which is also the maximum allowed limit).
+     * @return An async iterable over all the user records.
+     */
+    iterateUsers(options?: admin.auth.PageIteratorOptions): AsyncIterable<admin.auth.UserRecord>;
+
+    /**
+     * Finds the users matching a filter. When the filter specifies a `uid`, an
+     * `email` or a `phoneNumber`, the user is looked up directly. Otherwise the
+     * users are downloaded page by page and matched locally, which requires
+     * scanning all the users of the project. The scan can be bounded with the
+     * `maxPages` option and resumed from the returned page token.
+     *
+     * @param filter The filter the users must match.
+     * @param options The optional query options, including the page size, the
+     *   page token to resume from and a progress callback.
+     * @return A promise that resolves with the matching users, the number of
+     *   scanned users and, when the scan stopped early, the page token to resume
+     *   the scan from.
+     */
+    queryUsers(
+      filter: admin.auth.UserQueryFilter,
+      options?: admin.auth.UserQueryOptions
+    ): Promise<admin.auth.QueryUsersResult>;
+
+    /**
+     * Exports all the users to a readable stream, including their password hashes
+     * and salts. Users are downloaded as the stream is consumed. The export can be
+     * parsed back into user import records with
+     * {@link admin.auth.Auth#parseUserExport `parseUserExport()`} to import the
+     * users into another project or tenant. Importing the password hashes requires
+     * the password hash configuration of the exporting project.
+     *
+     * @param options The optional export options.
+     * @return A readable stream of the exported users.
+     */
+    exportUsers(options?: admin.auth.UserExportOptions): Readable;
 
     /**
-     * Retrieves a list of users (single batch only) with a size of `maxResults`
-     * starting from the offset as specified by `pageToken`. This is used to
-     * retrieve all the users of a specified project in batches.
+     * Parses the content of a user export created by
+     * {@link admin.auth.Auth#exportUsers `exportUsers()`} into user import records
+     * that can be passed to
+     * {@link admin.auth.Auth#importUsers `importUsers()`}.
      *
-     * See [List all users](/docs/auth/admin/manage-users#list_all_users)
-     * for code samples and detailed documentation.
+     * @param data The content of the user export.
+     * @param format The format of the export. Defaults to `'JSON'`.
+     * @return The exported users as user import records.
+     */
+    parseUserExport(data: string, format?: admin.auth.UserExportFormat): admin.auth.UserImportRecord[];
+
+    /**
+     * Parses the content of a user export created by
+     * {@link admin.auth.Auth#exportUsers `exportUsers()`} into user import records
+     * grouped by the tenant the users were exported from. Each group can be
+     * imported into its tenant with the `importUsers()` method of
+     * `tenantManager().authForTenant(tenantId)`, and the project level users with
+     * the `importUsers()` method of the project level `Auth` instance.
      *
-     * @param maxResults The page size, 1000 if undefined. This is also
-     *   the maximum allowed limit.
-     * @param pageToken The next page token. If not specified, returns
-     *   users starting without any offset.
-     * @return A promise that resolves with
-     *   the current batch of downloaded users and the next page token.
+     * @param data The content of the user export.
+     * @param format The format of the export. Defaults to `'JSON'`.
+     * @return The exported users grouped by tenant, in the order in which their
+     *   first user appears in the export.
      */
-    listUsers(maxResults?: number, pageToken?: string): Promise<admin.auth.ListUsersResult>;
+    parseUserExportByTenant(
+      data: string, format?: admin.auth.UserExportFormat,
+    ): admin.auth.UserExportTenantGroup[];
 
     /**
      * Updates an existing user.
@@ -1548,7 +3049,7 @@ declare namespace admin.auth {
      *   token's decoded claims if the ID token is valid; otherwise, a rejected
      *   promise.
      */
-    verifyIdToken(idToken: string, checkRevoked?: boolean): Promise<admin.auth.DecodedIdToken>;
+    verifyIdToken(idToken: string, checkRevoked?: boolean): Promise<admin.auth.DecodedIdToken & C>;
 
     /**
      * Sets additional developer claims on an existing user identified by the
@@ -1563,6 +3064,12 @@ declare namespace admin.auth {
      * [Defining user roles and access levels](/docs/auth/admin/custom-claims)
      * for code samples and detailed documentation.
      *
+     * The claims are validated locally before being sent: values which cannot
+     * be serialized to JSON, reserved claims and payloads larger than 1000
+     * characters are rejected with an error identifying the path of the
+     * offending claim, such as `customClaims.roles[2]`. The custom claims
+     * validator is then run, when set.
+     *
      * @param uid The `uid` of the user to edit.
      * @param customUserClaims The developer claims to set. If null is
      *   passed, existing custom claims are deleted. Passing a custom claims payload
@@ -1573,7 +3080,51 @@ declare namespace admin.auth {
      * @return A promise that resolves when the operation completes
      *   successfully.
      */
-    setCustomUserClaims(uid: string, customUserClaims: Object): Promise<void>;
+    setCustomUserClaims(uid: string, customUserClaims: C | null): Promise<void>;
+
+    /**
+     * Updates the developer claims of an existing user by merging the provided
+     * claims into the current ones, or by applying the provided updater function
+     * to them. This allows several services to own different claims of the same
+     * user without overwriting each other's claims.
+     *
+     * As the Auth backend does not support conditional writes, the current claims
+     * are read again right before the updated ones are written, and the update is
+     * retried when they were modified in the meantime. This narrows, but does not
+     * close, the window for concurrent updates. An `auth/claims-update-conflict`
+     * error is thrown when the retries are exhausted.
+     *
+     * @example
+     * ```javascript
+     * // Set the "role" claim and delete the "legacyRole" claim.
+     * admin.auth().updateCustomUserClaims(uid, {role: 'editor', legacyRole: undefined});
+     * ```
+     *
+     * @param uid The `uid` of the user to edit.
+     * @param update The claims to merge, or the updater function.
+     * @param options The optional update options.
+     * @return A promise that resolves with the updated claims.
+     */
+    updateCustomUserClaims(
+      uid: string,
+      update: admin.auth.CustomClaimsUpdate<C>,
+      options?: admin.auth.UpdateCustomClaimsOptions,
+    ): Promise<C>;
+
+    /**
+     * Sets the function used to validate custom claims before they are set on a
+     * user by {@link admin.auth.Auth#setCustomUserClaims `setCustomUserClaims()`}.
+     * The claims are rejected with an `auth/invalid-claims` error when the
+     * validator throws or returns a rejected promise.
+     *
+     * The validator is instance-wide: `admin.auth<C>()` and `authForTenant<C>()`
+     * return the same cached instance for an app (or a tenant) whatever the type
+     * `C`, so the validator applies to the custom claims set by all their callers.
+     *
+     * @param claimsValidator The custom claims validator, or null to remove the
+     *   current one.
+     */
+    setCustomClaimsValidator(claimsValidator: admin.auth.CustomClaimsValidator<C> | null): void;
 
     /**
      * Revokes all refresh tokens for an existing user.
@@ -1620,6 +3171,59 @@ declare namespace admin.auth {
       options?: admin.auth.UserImportOptions,
     ): Promise<admin.auth.UserImportResult>
 
+    /**
+     * Imports an arbitrarily large set of users into Firebase Auth. The users can
+     * be provided as an array or any other iterable, an async iterable or an
+     * object mode readable stream. They are split into batches which are imported
+     * with bounded concurrency, and only read from the source as batches are
+     * imported.
+     *
+     * @param users The user records to import to Firebase Auth.
+     * @param options The user import options, required when the users provided include
+     *   password credentials.
+     * @param bulkOptions The optional batch size and concurrency options.
+     * @return The bulk user import, which emits progress events and exposes the
+     *   aggregated result of the import.
+     */
+    bulkImportUsers(
+      users: Iterable<admin.auth.UserImportRecord> | AsyncIterable<admin.auth.UserImportRecord> | Readable,
+      options?: admin.auth.UserImportOptions,
+      bulkOptions?: admin.auth.BulkUserImportOptions,
+    ): admin.auth.BulkUserImport;
+
+    /**
+     * Creates a helper to disable or update a list of users, or to revoke their
+     * refresh tokens. The operations are rate limited and retried when rejected
+     * because the project quota is exceeded.
+     *
+     * @param options The optional rate limiting and retry options.
+     * @return The bulk user operations.
+     */
+    createBulkUserOperations(options?: admin.auth.BulkUserOperationsOptions): admin.auth.BulkUserOperations;
+
+    /**
+     * Verifies locally that the password hash of a user import record matches a
+     * known plaintext password when hashed with the provided user import options.
+     * This can be used to check the hash options before importing any user, as a
+     * wrong key or round count would otherwise lock out every imported user.
+     *
+     * The `MD5`, `SHA*` and `HMAC_*` password hashes may be provided as raw or
+     * hex-encoded digests. Verifying `BCRYPT` hashes requires the `bcrypt` npm
+     * package, and verifying `SCRYPT` and `STANDARD_SCRYPT` hashes requires
+     * Node.js 10.5.0 or higher.
+     *
+     * @param password The known plaintext password of the user.
+     * @param user The user import record, including the password hash and salt.
+     * @param options The user import options to check.
+     * @return A promise that resolves with whether the password hash matches, or
+     *   is rejected when the user import record or the options are invalid.
+     */
+    verifyPasswordHash(
+      password: string,
+      user: admin.auth.UserImportRecord,
+      options: admin.auth.UserImportOptions,
+    ): Promise<boolean>;
+
     /**
      * Creates a new Firebase session cookie with the specified options. The created
      * JWT string can be set as a server-side session cookie with a custom cookie
@@ -1666,7 +3270,88 @@ declare namespace admin.auth {
     verifySessionCookie(
       sessionCookie: string,
       checkForRevocation?: boolean,
-    ): Promise<admin.auth.DecodedIdToken>;
+    ): Promise<admin.auth.DecodedIdToken & C>;
+
+    /**
+     * Sets the store used to record the session cookies created by
+     * `createSessionCookie()`, which allows the sessions of a user to be listed
+     * and revoked individually, for instance to sign a user out of their other
+     * devices. Only the session cookies created after the store is set are
+     * recorded.
+     *
+     * When a store is set, `verifySessionCookie()` rejects the session cookies
+     * of revoked sessions with an `auth/session-cookie-revoked` error, whether or
+     * not `checkForRevocation` is set.
+     *
+     * @param store The session store, or `null` to stop tracking sessions.
+     */
+    setSessionStore(store: admin.auth.SessionStore | null): void;
+
+    /**
+     * Lists the active sessions of a user recorded in the session store. Expired
+     * and revoked sessions are not included.
+     *
+     * @param uid The uid of the user whose sessions are to be listed.
+     * @return A promise that resolves with the active sessions of the user,
+     *   sorted by issue time.
+     */
+    listSessions(uid: string): Promise<admin.auth.SessionRecord[]>;
+
+    /**
+     * Revokes an individual session of a user. Subsequent verifications of the
+     * session cookies of the session are rejected with an
+     * `auth/session-cookie-revoked` error. The other sessions of the user are
+     * not affected.
+     *
+     * @param uid The uid of the user whose session is to be revoked.
+     * @param sessionId The ID of the session to revoke.
+     * @return A promise that resolves once the session is revoked.
+     */
+    revokeSession(uid: string, sessionId: string): Promise<void>;
+
+    /**
+     * Returns the ID of the session of a session cookie, which can be used to
+     * tell the current session apart from the ones returned by `listSessions()`.
+     * Each session cookie created by `createSessionCookie()` is a session of its
+     * own.
+     *
+     * @param sessionCookie The session cookie.
+     * @return The session ID.
+     */
+    getSessionId(sessionCookie: string): string;
+
+    /**
+     * Creates an authenticator of incoming HTTP requests, which verifies the ID
+     * token of the `Authorization` header or the session cookie of the `Cookie`
+     * header with this Auth instance. The authenticator provides adapters for
+     * Node.js `http` servers and Connect-style middleware.
+     *
+     * @param options The authenticator options.
+     * @return The request authenticator.
+     */
+    createRequestAuthenticator(
+      options?: admin.auth.RequestAuthenticatorOptions,
+    ): admin.auth.RequestAuthenticator<C>;
+
+    /**
+     * Verifies an ID token issued by the OIDC provider identified by `providerId`.
+     * The provider configuration is looked up to determine the expected issuer and
+     * client ID. The token signature is verified using the public keys listed in the
+     * issuer's OpenID Connect discovery document, and its `iss`, `aud` and `exp`
+     * claims are checked. Malformed tokens are rejected before any network call,
+     * and the provider configurations are cached for 5 minutes.
+     *
+     * @param providerId The provider ID of the OIDC provider which issued the token.
+     *   It must start with `oidc.`.
+     * @param idToken The OIDC provider ID token to verify.
+     *
+     * @return A promise fulfilled with the token's decoded claims if the token is
+     *   valid; otherwise, a rejected promise.
+     */
+    verifyProviderIdToken(
+      providerId: string,
+      idToken: string,
+    ): Promise<admin.auth.DecodedProviderIdToken>;
 
     /**
      * Generates the out of band email action link to reset a user's password.
@@ -1830,6 +3515,88 @@ declare namespace admin.auth {
       actionCodeSettings: admin.auth.ActionCodeSettings,
     ): Promise<string>;
 
+    /**
+     * Generates the out of band email action link to change the email of the
+     * owner of the specified email. Once the link is followed, the email of the
+     * user is changed to the new email, which is verified at the same time. The
+     * link should therefore be sent to the new email. The
+     * {@link admin.auth.ActionCodeSettings `ActionCodeSettings`} object provided
+     * as an argument to this method defines whether the link is to be handled by a
+     * mobile app or browser along with additional state information to be passed in
+     * the deep link, etc.
+     *
+     * @example
+     * ```javascript
+     * admin.auth()
+     *     .generateVerifyAndChangeEmailLink('user@example.com', 'new@example.com')
+     *     .then(function(link) {
+     *       // Send the link to new@example.com with a custom email service.
+     *     })
+     *     .catch(function(error) {
+     *       // Some error occurred, you can inspect the code: error.code
+     *     });
+     * ```
+     *
+     * @param email The current email of the account.
+     * @param newEmail The email the account's email is to be changed to.
+     * @param actionCodeSettings The optional action code settings. If specified,
+     *     the state/continue URL is set as the "continueUrl" parameter in the
+     *     link.
+     * @return A promise that resolves with the generated link.
+     */
+    generateVerifyAndChangeEmailLink(
+      email: string,
+      newEmail: string,
+      actionCodeSettings?: admin.auth.ActionCodeSettings,
+    ): Promise<string>;
+
+    /**
+     * Generates the out of band email action link to recover the specified email,
+     * which allows the owner of an account to revert a change of its email back
+     * to the specified email. The link is to be sent to the email being
+     * recovered.
+     *
+     * @param email The email to be recovered.
+     * @param actionCodeSettings The optional action code settings. If specified,
+     *     the state/continue URL is set as the "continueUrl" parameter in the
+     *     link.
+     * @return A promise that resolves with the generated link.
+     */
+    generateRecoverEmailLink(
+      email: string,
+      actionCodeSettings?: admin.auth.ActionCodeSettings,
+    ): Promise<string>;
+
+    /**
+     * Checks an out of band email action code, such as the code of a password
+     * reset link, without applying it.
+     *
+     * @param oobCode The action code to check.
+     * @return A promise that resolves with the information of the action code.
+     */
+    checkActionCode(oobCode: string): Promise<admin.auth.ActionCodeInfo>;
+
+    /**
+     * Applies an out of band email action code, such as the code of an email
+     * verification link.
+     *
+     * @param oobCode The action code to apply.
+     * @return A promise that resolves when the action code is applied.
+     */
+    applyActionCode(oobCode: string): Promise<void>;
+
+    /**
+     * Completes a password reset flow by setting the new password of the user
+     * the password reset code was issued for.
+     *
+     * @param oobCode The password reset code.
+     * @param newPassword The new password of the user. Must be at least 6
+     *   characters long.
+     * @return A promise that resolves with the information of the password
+     *   reset code, including the email of the user, once the password is reset.
+     */
+    confirmPasswordReset(oobCode: string, newPassword: string): Promise<admin.auth.ActionCodeInfo>;
+
     /**
      * Returns the list of existing provider configurations matching the filter
      * provided. At most, 100 provider configs can be listed at a time.
@@ -1846,6 +3613,21 @@ declare namespace admin.auth {
       options: admin.auth.AuthProviderConfigFilter
     ): Promise<admin.auth.ListProviderConfigResults>;
 
+    /**
+     * Returns an async iterable over all the provider configurations of the
+     * specified type. Configurations are downloaded lazily in pages, with the next
+     * page only requested once all the configurations of the current page have
+     * been consumed. This can be used with a `for await...of` loop, which
+     * requires Node.js 10 or higher.
+     *
+     * @param options The iteration options, including the provider type and the
+     *   optional page size (100 if undefined, which is also the maximum allowed limit).
+     * @return An async iterable over the provider configurations.
+     */
+    iterateProviderConfigs(
+      options: admin.auth.AuthProviderConfigIteratorOptions
+    ): AsyncIterable<admin.auth.AuthProviderConfig>;
+
     /**
      * Looks up an Auth provider configuration by the provided ID.
      * Returns a promise that resolves with the provider configuration
@@ -1911,6 +3693,28 @@ declare namespace admin.auth {
     createProviderConfig(
       config: admin.auth.AuthProviderConfig
     ): Promise<admin.auth.AuthProviderConfig>;
+
+    /**
+     * Reconciles the SAML and OIDC provider configurations with the desired
+     * ones. The desired providers which do not exist are created, and the
+     * existing ones are updated with the desired fields which differ from their
+     * current values, while the fields left undefined are not managed. The
+     * existing providers which are not desired are only deleted when pruning.
+     *
+     * The changes are applied one at a time, creations first, and the returned
+     * promise is rejected on the first failure. The error then has a
+     * `partialResult` property holding the plan of the changes applied before
+     * the failure.
+     *
+     * @param desired The complete desired provider configurations.
+     * @param options The optional pruning and dry run options.
+     * @return A promise that resolves with the planned changes, once applied
+     *   unless this is a dry run.
+     */
+    applyProviderConfigs(
+      desired: admin.auth.AuthProviderConfig[],
+      options?: admin.auth.ApplyProviderConfigsOptions,
+    ): Promise<admin.auth.ProviderConfigPlan>;
   }
 
   /**
@@ -1930,7 +3734,7 @@ declare namespace admin.auth {
    * `TenantAwareAuth` instances for a specific `tenantId` can be instantiated by calling
    * `auth.tenantManager().authForTenant(tenantId)`.
    */
-  interface TenantAwareAuth extends BaseAuth {
+  interface TenantAwareAuth<C extends object = object> extends BaseAuth<C> {
 
     /**
      * The tenant identifier corresponding to this `TenantAwareAuth` instance.
@@ -1940,13 +3744,202 @@ declare namespace admin.auth {
     tenantId: string;
   }
 
-  interface Auth extends admin.auth.BaseAuth {
+  interface Auth<C extends object = object> extends admin.auth.BaseAuth<C> {
     app: admin.app.App;
 
     /**
      * @return The tenant manager instance associated with the current project.
      */
     tenantManager(): admin.auth.TenantManager;
+
+    /**
+     * @return The project config manager instance associated with the current project.
+     */
+    projectConfigManager(): admin.auth.ProjectConfigManager;
+  }
+
+  /**
+   * Interface representing the project level Auth configuration.
+   */
+  interface ProjectConfig {
+
+    /**
+     * The domains authorized for OAuth redirects and email action links.
+     */
+    authorizedDomains: string[];
+
+    /**
+     * The email sign in provider configuration.
+     */
+    emailSignInConfig: {
+
+      /**
+       * Whether email provider is enabled.
+       */
+      enabled: boolean;
+
+      /**
+       * Whether password is required for email sign-in. When not required,
+       * email sign-in can be performed with password or via email link sign-in.
+       */
+      passwordRequired?: boolean
+    };
+
+    /**
+     * Whether the phone provider is enabled.
+     */
+    phoneSignInEnabled: boolean;
+
+    /**
+     * Whether the anonymous provider is enabled.
+     */
+    anonymousSignInEnabled: boolean;
+
+    /**
+     * The templates of the emails sent by Firebase Auth. Only the templates
+     * returned by the backend are included.
+     */
+    emailTemplates: admin.auth.EmailTemplatesConfig;
+
+    /**
+     * @return A JSON-serializable representation of this object.
+     */
+    toJSON(): Object;
+  }
+
+  /**
+   * Interface representing the template of an email sent by Firebase Auth.
+   */
+  interface EmailTemplate {
+
+    /**
+     * The local part of the sender email address, before the `@`.
+     */
+    senderLocalPart?: string;
+
+    /**
+     * The display name of the sender.
+     */
+    senderDisplayName?: string;
+
+    /**
+     * The reply-to email address.
+     */
+    replyTo?: string;
+
+    /**
+     * The subject of the email.
+     */
+    subject?: string;
+
+    /**
+     * The body of the email. The `%LINK%` placeholder is replaced with the email
+     * action link.
+     */
+    body?: string;
+
+    /**
+     * The format of the body, either `PLAIN_TEXT` or `HTML`.
+     */
+    bodyFormat?: 'PLAIN_TEXT' | 'HTML';
+
+    /**
+     * Whether the template differs from the default one. This is output only and
+     * ignored when updating the project configuration.
+     */
+    customized?: boolean;
+  }
+
+  /**
+   * Interface representing the templates of the emails sent by Firebase Auth,
+   * keyed by the action the emails are sent for.
+   */
+  interface EmailTemplatesConfig {
+
+    /**
+     * The template of the password reset emails.
+     */
+    resetPassword?: admin.auth.EmailTemplate;
+
+    /**
+     * The template of the email address verification emails.
+     */
+    verifyEmail?: admin.auth.EmailTemplate;
+
+    /**
+     * The template of the emails sent when the email address of a user changes.
+     */
+    changeEmail?: admin.auth.EmailTemplate;
+  }
+
+  /**
+   * Interface representing the properties to update on the project level Auth configuration.
+   */
+  interface UpdateProjectConfigRequest {
+
+    /**
+     * The domains authorized for OAuth redirects and email action links. This replaces
+     * the whole list of currently authorized domains.
+     */
+    authorizedDomains?: string[];
+
+    /**
+     * The email sign in configuration.
+     */
+    emailSignInConfig?: {
+
+      /**
+       * Whether email provider is enabled.
+       */
+      enabled: boolean;
+
+      /**
+       * Whether password is required for email sign-in. When not required,
+       * email sign-in can be performed with password or via email link sign-in.
+       */
+      passwordRequired?: boolean;
+    };
+
+    /**
+     * Whether the phone provider is enabled.
+     */
+    phoneSignInEnabled?: boolean;
+
+    /**
+     * Whether the anonymous provider is enabled.
+     */
+    anonymousSignInEnabled?: boolean;
+
+    /**
+     * The email templates to update. Only the provided fields of the provided
+     * templates are updated.
+     */
+    emailTemplates?: admin.auth.EmailTemplatesConfig;
+  }
+
+  /**
+   * Defines the project config manager used to read and update the project level
+   * Auth configuration, such as the authorized domains, the enabled sign-in providers
+   * and the email templates.
+   */
+  interface ProjectConfigManager {
+
+    /**
+     * Gets the project level Auth configuration.
+     *
+     * @return A promise fulfilled with the project configuration.
+     */
+    getProjectConfig(): Promise<admin.auth.ProjectConfig>;
+
+    /**
+     * Updates the project level Auth configuration. Only the provided properties
+     * are updated.
+     *
+     * @param options The properties to update on the project configuration.
+     *
+     * @return A promise fulfilled with the updated project configuration.
+     */
+    updateProjectConfig(options: admin.auth.UpdateProjectConfigRequest): Promise<admin.auth.ProjectConfig>;
   }
 
   /**
@@ -1966,7 +3959,7 @@ declare namespace admin.auth {
      *
      * @return The `TenantAwareAuth` instance corresponding to this tenant identifier.
      */
-    authForTenant(tenantId: string): admin.auth.TenantAwareAuth;
+    authForTenant<C extends object = object>(tenantId: string): admin.auth.TenantAwareAuth<C>;
 
     /**
      * Gets the tenant configuration for the tenant corresponding to a given `tenantId`.
@@ -1992,6 +3985,18 @@ declare namespace admin.auth {
      */
     listTenants(maxResults?: number, pageToken?: string): Promise<admin.auth.ListTenantsResult>;
 
+    /**
+     * Returns an async iterable over all the tenants of the project. Tenants are
+     * downloaded lazily in pages, with the next page only requested once all the
+     * tenants of the current page have been consumed. This can be used with a
+     * `for await...of` loop, which requires Node.js 10 or higher.
+     *
+     * @param options The optional iteration options, including the page size
+     *   (1000 if undefined, which is also the maximum allowed limit).
+     * @return An async iterable over all the tenants.
+     */
+    iterateTenants(options?: admin.auth.PageIteratorOptions): AsyncIterable<admin.auth.Tenant>;
+
     /**
      * Deletes an existing tenant.
      *
@@ -790,11 +790,11 @@ export class AuthorizedHttpClient extends HttpClient {
   }
 
   public send(request: HttpRequestConfig): Promise<HttpResponse> {
-    return this.app.INTERNAL.getToken().then((accessTokenObj) => {
+    return this.getToken().then((token) => {
       const requestCopy = Object.assign({}, request);
       requestCopy.headers = Object.assign({}, request.headers);
       const authHeader = 'Authorization';
-      requestCopy.headers[authHeader] = `Bearer ${accessTokenObj.accessToken}`;
+      requestCopy.headers[authHeader] = `Bearer ${token}`;
 
       if (!requestCopy.httpAgent && this.app.options.httpAgent) {
         requestCopy.httpAgent = this.app.options.httpAgent;
@@ -802,6 +802,15 @@ export class AuthorizedHttpClient extends HttpClient {
       return super.send(requestCopy);
     });
   }
+
+  /**
+   * @return {Promise<string>} A promise that resolves with the access token used to authorize
+   *     outgoing requests.
+   */
+  protected getToken(): Promise<string> {
+    return this.app.INTERNAL.getToken()
+      .then((accessTokenObj) => accessTokenObj.accessToken);
+  }
 }
 
 /**
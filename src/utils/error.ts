@@ -344,6 +344,10 @@ export class AuthClientErrorCode {
     code: 'claims-too-large',
     message: 'Developer claims maximum payload size exceeded.',
   };
+  public static CLAIMS_UPDATE_CONFLICT = {
+    code: 'claims-update-conflict',
+    message: 'The custom claims were modified concurrently while being updated.',
+  };
   public static CONFIGURATION_EXISTS = {
     code: 'configuration-exists',
     message: 'A configuration already exists with the provided identifier.',
@@ -352,10 +356,19 @@ export class AuthClientErrorCode {
     code: 'configuration-not-found',
     message: 'There is no configuration corresponding to the provided identifier.',
   };
+  public static CUSTOM_TOKEN_EXPIRED = {
+    code: 'custom-token-expired',
+    message: 'The provided Firebase custom token is expired.',
+  };
   public static ID_TOKEN_EXPIRED = {
     code: 'id-token-expired',
     message: 'The provided Firebase ID token is expired.',
   };
+  public static INVALID_ACTION_CODE = {
+    code: 'invalid-action-code',
+    message: 'The provided action code is invalid. This can happen if the code is malformed ' +
+             'or has already been used.',
+  };
   public static INVALID_ARGUMENT = {
     code: 'argument-error',
     message: 'Invalid argument provided.',
@@ -368,10 +381,18 @@ export class AuthClientErrorCode {
     code: 'email-already-exists',
     message: 'The email address is already in use by another account.',
   };
+  public static EXPIRED_ACTION_CODE = {
+    code: 'expired-action-code',
+    message: 'The provided action code has expired.',
+  };
   public static FORBIDDEN_CLAIM = {
     code: 'reserved-claim',
     message: 'The specified developer claim is reserved and cannot be specified.',
   };
+  public static INSUFFICIENT_CLAIMS = {
+    code: 'insufficient-claims',
+    message: 'The decoded token does not have the claims required to access the requested resource.',
+  };
   public static INVALID_ID_TOKEN = {
     code: 'invalid-id-token',
     message: 'The provided ID token is not a valid Firebase ID token.',
@@ -400,6 +421,10 @@ export class AuthClientErrorCode {
     code: 'invalid-credential',
     message: 'Invalid credential object provided.',
   };
+  public static INVALID_CUSTOM_TOKEN = {
+    code: 'invalid-custom-token',
+    message: 'The provided custom token is not a valid Firebase custom token.',
+  };
   public static INVALID_DISABLED_FIELD = {
     code: 'invalid-disabled-field',
     message: 'The disabled field must be a boolean.',
@@ -421,6 +446,14 @@ export class AuthClientErrorCode {
     code: 'invalid-email',
     message: 'The email address is improperly formatted.',
   };
+  public static INVALID_ENROLLED_FACTORS = {
+    code: 'invalid-enrolled-factors',
+    message: 'The enrolled factors must be a valid array of MultiFactorInfo objects.',
+  };
+  public static INVALID_ENROLLMENT_TIME = {
+    code: 'invalid-enrollment-time',
+    message: 'The second factor enrollment time must be a valid UTC date string.',
+  };
   public static INVALID_HASH_ALGORITHM = {
     code: 'invalid-hash-algorithm',
     message: 'The hash algorithm must match one of the strings in the list of ' +
@@ -462,6 +495,10 @@ export class AuthClientErrorCode {
     code: 'invalid-name',
     message: 'The resource name provided is invalid.',
   };
+  public static INVALID_NEW_EMAIL = {
+    code: 'invalid-new-email',
+    message: 'The new email address is improperly formatted.',
+  };
   public static INVALID_OAUTH_CLIENT_ID = {
     code: 'invalid-oauth-client-id',
     message: 'The provided OAuth client ID is invalid.',
@@ -503,6 +540,10 @@ export class AuthClientErrorCode {
     code: 'invalid-provider-id',
     message: 'The providerId must be a valid supported provider identifier string.',
   };
+  public static INVALID_SAML_METADATA = {
+    code: 'invalid-saml-metadata',
+    message: 'The SAML metadata provided is invalid.',
+  };
   public static INVALID_SESSION_COOKIE_DURATION = {
     code: 'invalid-session-cookie-duration',
     message: 'The session cookie duration must be a valid number in milliseconds ' +
@@ -516,6 +557,10 @@ export class AuthClientErrorCode {
     code: 'invalid-tenant-type',
     message: 'Tenant type must be either "full_service" or "lightweight".',
   };
+  public static INVALID_TESTING_PHONE_NUMBER = {
+    code: 'invalid-testing-phone-number',
+    message: 'Invalid testing phone number or invalid test code provided.',
+  };
   public static INVALID_UID = {
     code: 'invalid-uid',
     message: 'The uid must be a non-empty string with at most 128 characters.',
@@ -545,6 +590,10 @@ export class AuthClientErrorCode {
     code: 'missing-continue-uri',
     message: 'A valid continue URL must be provided in the request.',
   };
+  public static MISSING_CREDENTIALS = {
+    code: 'missing-credentials',
+    message: 'The request does not include an ID token or a session cookie.',
+  };
   public static MISSING_DISPLAY_NAME = {
     code: 'missing-display-name',
     message: 'The resource being created or edited is missing a valid display name.',
@@ -574,6 +623,10 @@ export class AuthClientErrorCode {
     code: 'missing-saml-relying-party-config',
     message: 'The SAML configuration provided is missing a relying party configuration.',
   };
+  public static MAXIMUM_TEST_PHONE_NUMBER_EXCEEDED = {
+    code: 'test-phone-number-limit-exceeded',
+    message: 'The maximum number of test phone number / code pairs has been exceeded.',
+  };
   public static MAXIMUM_USER_COUNT_EXCEEDED = {
     code: 'maximum-user-count-exceeded',
     message: 'The maximum allowed number of users to import has been exceeded.',
@@ -596,6 +649,10 @@ export class AuthClientErrorCode {
     code: 'project-not-found',
     message: 'No Firebase project was found for the provided credential.',
   };
+  public static PROVIDER_ALREADY_LINKED = {
+    code: 'provider-already-linked',
+    message: 'The provider user identity is already linked to another user.',
+  };
   public static INSUFFICIENT_PERMISSION = {
     code: 'insufficient-permission',
     message: 'Credential implementation provided to initializeApp() via the "credential" property ' +
@@ -607,6 +664,14 @@ export class AuthClientErrorCode {
     code: 'quota-exceeded',
     message: 'The project quota for the specified operation has been exceeded.',
   };
+  public static SECOND_FACTOR_LIMIT_EXCEEDED = {
+    code: 'second-factor-limit-exceeded',
+    message: 'The maximum number of allowed second factors on a user has been exceeded.',
+  };
+  public static SECOND_FACTOR_UID_ALREADY_EXISTS = {
+    code: 'second-factor-uid-already-exists',
+    message: 'The specified second factor "uid" already exists.',
+  };
   public static SESSION_COOKIE_EXPIRED = {
     code: 'session-cookie-expired',
     message: 'The Firebase session cookie is expired.',
@@ -615,6 +680,10 @@ export class AuthClientErrorCode {
     code: 'session-cookie-revoked',
     message: 'The Firebase session cookie has been revoked.',
   };
+  public static SESSION_NOT_FOUND = {
+    code: 'session-not-found',
+    message: 'There is no active session corresponding to the provided identifier.',
+  };
   public static TENANT_NOT_FOUND = {
     code: 'tenant-not-found',
     message: 'There is no tenant corresponding to the provided identifier.',
@@ -628,10 +697,31 @@ export class AuthClientErrorCode {
     message: 'The domain of the continue URL is not whitelisted. Whitelist the domain in the ' +
              'Firebase console.',
   };
+  public static UNSUPPORTED_FIRST_FACTOR = {
+    code: 'unsupported-first-factor',
+    message: 'A multi-factor user requires a supported first factor.',
+  };
+  public static UNSUPPORTED_SECOND_FACTOR = {
+    code: 'unsupported-second-factor',
+    message: 'The request specified an unsupported type of second factor.',
+  };
   public static UNSUPPORTED_TENANT_OPERATION = {
     code: 'unsupported-tenant-operation',
     message: 'This operation is not supported in a multi-tenant context.',
   };
+  public static UNVERIFIED_EMAIL = {
+    code: 'unverified-email',
+    message: 'A verified email is required for the specified operation. For multi-factor users, ' +
+             'this also requires that the first factor be a verified email.',
+  };
+  public static USER_DISABLED = {
+    code: 'user-disabled',
+    message: 'The user account has been disabled by an administrator.',
+  };
+  public static USER_NOT_DISABLED = {
+    code: 'user-not-disabled',
+    message: 'The user must be disabled in order to bulk delete it (or you must pass force=true).',
+  };
   public static USER_NOT_FOUND = {
     code: 'user-not-found',
     message: 'There is no user record corresponding to the provided identifier.',
@@ -792,10 +882,16 @@ const AUTH_SERVER_TO_CLIENT_CODE: ServerToClientCode = {
   DUPLICATE_LOCAL_ID: 'UID_ALREADY_EXISTS',
   // setAccountInfo email already exists.
   EMAIL_EXISTS: 'EMAIL_ALREADY_EXISTS',
+  // Action code provided to resetPassword or setAccountInfo has expired.
+  EXPIRED_OOB_CODE: 'EXPIRED_ACTION_CODE',
+  // Provider user identity being linked already belongs to another user.
+  FEDERATED_USER_ID_ALREADY_LINKED: 'PROVIDER_ALREADY_LINKED',
   // Reserved claim name.
   FORBIDDEN_CLAIM: 'FORBIDDEN_CLAIM',
   // Invalid claims provided.
   INVALID_CLAIMS: 'INVALID_CLAIMS',
+  // Action code provided to resetPassword or setAccountInfo is invalid or already used.
+  INVALID_OOB_CODE: 'INVALID_ACTION_CODE',
   // Invalid session cookie duration.
   INVALID_DURATION: 'INVALID_SESSION_COOKIE_DURATION',
   // Invalid email provided.
@@ -806,6 +902,8 @@ const AUTH_SERVER_TO_CLIENT_CODE: ServerToClientCode = {
   INVALID_ID_TOKEN: 'INVALID_ID_TOKEN',
   // Invalid tenant/parent resource name.
   INVALID_NAME: 'INVALID_NAME',
+  // Invalid new email provided for an email change.
+  INVALID_NEW_EMAIL: 'INVALID_NEW_EMAIL',
   // OIDC configuration has an invalid OAuth client ID.
   INVALID_OAUTH_CLIENT_ID: 'INVALID_OAUTH_CLIENT_ID',
   // Invalid page token.
@@ -818,6 +916,8 @@ const AUTH_SERVER_TO_CLIENT_CODE: ServerToClientCode = {
   INVALID_PROVIDER_ID: 'INVALID_PROVIDER_ID',
   // Invalid service account.
   INVALID_SERVICE_ACCOUNT: 'INVALID_SERVICE_ACCOUNT',
+  // Invalid testing phone number.
+  INVALID_TESTING_PHONE_NUMBER: 'INVALID_TESTING_PHONE_NUMBER',
   // Invalid tenant type.
   INVALID_TENANT_TYPE: 'INVALID_TENANT_TYPE',
   // Missing Android package name.
@@ -842,6 +942,8 @@ const AUTH_SERVER_TO_CLIENT_CODE: ServerToClientCode = {
   MISSING_SAML_RELYING_PARTY_CONFIG: 'MISSING_SAML_RELYING_PARTY_CONFIG',
   // Empty user list in uploadAccount.
   MISSING_USER_ACCOUNT: 'MISSING_UID',
+  // User being deleted in a batch is not disabled.
+  NOT_DISABLED: 'USER_NOT_DISABLED',
   // Password auth disabled in console.
   OPERATION_NOT_ALLOWED: 'OPERATION_NOT_ALLOWED',
   // Provided credential has insufficient permissions.
@@ -852,6 +954,10 @@ const AUTH_SERVER_TO_CLIENT_CODE: ServerToClientCode = {
   PROJECT_NOT_FOUND: 'PROJECT_NOT_FOUND',
   // In multi-tenancy context: project creation quota exceeded.
   QUOTA_EXCEEDED: 'QUOTA_EXCEEDED',
+  // Second factor enrollment ID already exists.
+  SECOND_FACTOR_EXISTS: 'SECOND_FACTOR_UID_ALREADY_EXISTS',
+  // Maximum number of second factors enrolled on a user exceeded.
+  SECOND_FACTOR_LIMIT_EXCEEDED: 'SECOND_FACTOR_LIMIT_EXCEEDED',
   // Tenant not found.
   TENANT_NOT_FOUND: 'TENANT_NOT_FOUND',
   // Tenant ID mismatch.
@@ -860,8 +966,14 @@ const AUTH_SERVER_TO_CLIENT_CODE: ServerToClientCode = {
   TOKEN_EXPIRED: 'ID_TOKEN_EXPIRED',
   // Continue URL provided in ActionCodeSettings has a domain that is not whitelisted.
   UNAUTHORIZED_DOMAIN: 'UNAUTHORIZED_DOMAIN',
+  // A multi-factor user requires a supported first factor.
+  UNSUPPORTED_FIRST_FACTOR: 'UNSUPPORTED_FIRST_FACTOR',
   // Operation is not supported in a multi-tenant context.
   UNSUPPORTED_TENANT_OPERATION: 'UNSUPPORTED_TENANT_OPERATION',
+  // A verified email is required for the operation.
+  UNVERIFIED_EMAIL: 'UNVERIFIED_EMAIL',
+  // User on which action is to be performed is disabled.
+  USER_DISABLED: 'USER_DISABLED',
   // User on which action is to be performed is not found.
   USER_NOT_FOUND: 'USER_NOT_FOUND',
   // Password provided is too weak.
@@ -117,16 +117,26 @@ export function formatString(str: string, params?: object): string {
  * Note this will ignore the last key with value undefined.
  *
  * @param {[key: string]: any} obj The object to generate the update mask for.
+ * @param {Array<string>=} terminalPaths The optional list of paths that should not be
+ *     traversed any further, such as maps whose keys are user defined.
+ * @param {string=} root The path of the current object relative to the top level object.
  * @return {Array<string>} The computed update mask list.
  */
-export function generateUpdateMask(obj: {[key: string]: any}): string[] {
+export function generateUpdateMask(
+    obj: {[key: string]: any}, terminalPaths: string[] = [], root: string = ''): string[] {
   const updateMask: string[] = [];
   if (!validator.isNonNullObject(obj)) {
     return updateMask;
   }
   for (const key in obj) {
     if (obj.hasOwnProperty(key) && typeof obj[key] !== 'undefined') {
-      const maskList = generateUpdateMask(obj[key]);
+      const nextPath = root ? `${root}.${key}` : key;
+      // Add the key and stop traversing this branch when a terminal path is reached.
+      if (terminalPaths.indexOf(nextPath) !== -1) {
+        updateMask.push(key);
+        continue;
+      }
+      const maskList = generateUpdateMask(obj[key], terminalPaths, nextPath);
       if (maskList.length > 0) {
         maskList.forEach((mask) => {
           updateMask.push(`${key}.${mask}`);
@@ -0,0 +1,228 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {AppErrorCodes, FirebaseAppError} from './error';
+
+/** Options used to configure how a paged list is iterated over. */
+export interface PageIteratorOptions {
+  /** The number of items to request from the backend per page. */
+  pageSize?: number;
+}
+
+/** A single page of results along with the token to fetch the next page if available. */
+export interface Page<T> {
+  items: T[];
+  pageToken?: string;
+}
+
+/**
+ * Function that fetches a page of results. The page token is undefined for the first page.
+ */
+export type PageFetcher<T> = (pageToken?: string) => Promise<Page<T>>;
+
+/**
+ * Throws if the runtime has no Symbol.asyncIterator, such as Node.js 8, which would key the
+ * iterables below under "undefined" instead.
+ */
+function assertAsyncIterationSupported(): void {
+  if (typeof Symbol.asyncIterator !== 'symbol') {
+    throw new FirebaseAppError(
+      AppErrorCodes.INTERNAL_ERROR,
+      'Async iteration requires Symbol.asyncIterator, which is available in Node.js 10 and higher.',
+    );
+  }
+}
+
+/**
+ * An AsyncIterable over all the items of a paged list API. Pages are fetched lazily: the next
+ * page is only requested once all the items of the current page have been consumed, so a slow
+ * consumer never causes more than one page to be buffered in memory.
+ *
+ * Each call to [Symbol.asyncIterator]() starts a new iteration from the first page.
+ */
+export class PageIterable<T> implements AsyncIterable<T> {
+  /**
+   * @param {PageFetcher<T>} fetchPage The function used to fetch each page of results.
+   * @constructor
+   */
+  constructor(private readonly fetchPage: PageFetcher<T>) {
+    assertAsyncIterationSupported();
+  }
+
+  /**
+   * @return {AsyncIterator<T>} A new iterator starting from the first page.
+   */
+  public [Symbol.asyncIterator](): AsyncIterator<T> {
+    return new PageIterator(this.fetchPage);
+  }
+}
+
+/**
+ * The iterator returned by a PageIterable. Calls to next() are serialized so that concurrent
+ * callers never trigger duplicate page fetches or skip items.
+ */
+class PageIterator<T> implements AsyncIterator<T> {
+  private buffer: T[] = [];
+  private pageToken: string;
+  private hasMorePages = true;
+  private done = false;
+  private pending: Promise<any> = Promise.resolve();
+
+  /**
+   * @param {PageFetcher<T>} fetchPage The function used to fetch each page of results.
+   * @constructor
+   */
+  constructor(private readonly fetchPage: PageFetcher<T>) {}
+
+  /**
+   * @return {Promise<IteratorResult<T>>} A promise that resolves with the next item, fetching
+   *     the next page first if the current one has been exhausted.
+   */
+  public next(): Promise<IteratorResult<T>> {
+    const result = this.pending.then(() => this.nextItem());
+    // Keep the chain going regardless of the outcome of this call.
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Stops the iteration. Called when a for-await loop exits early. A page fetch that is still
+   * running is discarded once it completes.
+   *
+   * @return {Promise<IteratorResult<T>>} A promise that resolves with a completed result.
+   */
+  public return(): Promise<IteratorResult<T>> {
+    this.done = true;
+    this.buffer = [];
+    return Promise.resolve({done: true, value: undefined});
+  }
+
+  private nextItem(): Promise<IteratorResult<T>> {
+    if (this.done) {
+      return Promise.resolve({done: true, value: undefined});
+    }
+    if (this.buffer.length > 0) {
+      return Promise.resolve({done: false, value: this.buffer.shift()});
+    }
+    if (!this.hasMorePages) {
+      return Promise.resolve({done: true, value: undefined});
+    }
+    return this.fetchPage(this.pageToken)
+      .then((page) => {
+        if (this.done) {
+          return {done: true, value: undefined};
+        }
+        this.buffer = page.items.slice();
+        this.pageToken = page.pageToken;
+        this.hasMorePages = typeof page.pageToken !== 'undefined';
+        // Skip over empty pages.
+        return this.nextItem();
+      });
+  }
+}
+
+/**
+ * An AsyncIterable over all the items of a sequence of AsyncIterables, iterated one after the
+ * other. The sources are only iterated over once all the items of the previous one have been
+ * consumed, so that paged sources keep fetching their pages lazily.
+ */
+export class FlattenedIterable<T> implements AsyncIterable<T> {
+  /**
+   * @param {AsyncIterable<AsyncIterable<T>>} sources The iterables to iterate over in order.
+   * @constructor
+   */
+  constructor(private readonly sources: AsyncIterable<AsyncIterable<T>>) {
+    assertAsyncIterationSupported();
+  }
+
+  /**
+   * @return {AsyncIterator<T>} A new iterator starting from the first item of the first source.
+   */
+  public [Symbol.asyncIterator](): AsyncIterator<T> {
+    return new FlattenedIterator(this.sources[Symbol.asyncIterator]());
+  }
+}
+
+/**
+ * The iterator returned by a FlattenedIterable. Calls to next() are serialized so that concurrent
+ * callers never move on to several sources at once and skip some of them.
+ */
+class FlattenedIterator<T> implements AsyncIterator<T> {
+  private current: AsyncIterator<T>;
+  private done = false;
+  private pending: Promise<any> = Promise.resolve();
+
+  /**
+   * @param {AsyncIterator<AsyncIterable<T>>} sources The iterator over the sources.
+   * @constructor
+   */
+  constructor(private readonly sources: AsyncIterator<AsyncIterable<T>>) {}
+
+  /**
+   * @return {Promise<IteratorResult<T>>} A promise that resolves with the next item, moving on
+   *     to the next source once the current one has been exhausted.
+   */
+  public next(): Promise<IteratorResult<T>> {
+    const result = this.pending.then(() => this.nextItem());
+    // Keep the chain going regardless of the outcome of this call.
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Stops the iteration, along with the iteration over the current source and over the sources.
+   * Called when a for-await loop exits early.
+   *
+   * @return {Promise<IteratorResult<T>>} A promise that resolves with a completed result.
+   */
+  public return(): Promise<IteratorResult<T>> {
+    this.done = true;
+    const iterators = [this.current, this.sources];
+    this.current = undefined;
+    return Promise.all(iterators.map((iterator: AsyncIterator<any>) => {
+      if (iterator && typeof iterator.return === 'function') {
+        return iterator.return();
+      }
+    })).then(() => ({done: true, value: undefined}));
+  }
+
+  private nextItem(): Promise<IteratorResult<T>> {
+    if (this.done) {
+      return Promise.resolve({done: true, value: undefined});
+    }
+    if (typeof this.current === 'undefined') {
+      return this.sources.next()
+        .then((result) => {
+          if (result.done || this.done) {
+            return {done: true, value: undefined};
+          }
+          this.current = result.value[Symbol.asyncIterator]();
+          return this.nextItem();
+        });
+    }
+    return this.current.next()
+      .then((result) => {
+        if (this.done) {
+          return {done: true, value: undefined};
+        }
+        if (result.done) {
+          this.current = undefined;
+          return this.nextItem();
+        }
+        return result;
+      });
+  }
+}
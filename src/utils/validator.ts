@@ -69,6 +69,19 @@ export function isNumber(value: any): boolean {
 }
 
 
+/**
+ * Validates that a value is an integer within an inclusive range.
+ *
+ * @param {any} value The value to validate.
+ * @param {number} min The minimum allowed value.
+ * @param {number} max The maximum allowed value.
+ * @return {boolean} Whether the value is an integer within the range or not.
+ */
+export function isIntegerInRange(value: any, min: number, max: number): boolean {
+  return isNumber(value) && value % 1 === 0 && value >= min && value <= max;
+}
+
+
 /**
  * Validates that a value is a string.
  *
@@ -185,6 +198,36 @@ export function isPhoneNumber(phoneNumber: any): boolean {
   return re1.test(phoneNumber) && re2.test(phoneNumber);
 }
 
+/**
+ * Validates that a string is a valid ISO date string.
+ *
+ * @param {any} dateString The string to validate.
+ * @return {boolean} Whether the string is a valid ISO date string.
+ */
+export function isISODateString(dateString: any): boolean {
+  try {
+    return isNonEmptyString(dateString) &&
+        (new Date(dateString).toISOString() === dateString);
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Validates that a string is a valid UTC date string.
+ *
+ * @param {any} dateString The string to validate.
+ * @return {boolean} Whether the string is a valid UTC date string.
+ */
+export function isUTCDateString(dateString: any): boolean {
+  try {
+    return isNonEmptyString(dateString) &&
+        (new Date(dateString).toUTCString() === dateString);
+  } catch (e) {
+    return false;
+  }
+}
+
 
 
 /**
@@ -202,6 +202,24 @@ export function generateIdToken(overrides?: object): string {
   return jwt.sign(developerClaims, certificateObject.private_key, options);
 }
 
+/**
+ * Generates a mocked unsigned Firebase ID token as issued by the Firebase Auth emulator.
+ *
+ * @param {object} overrides Overrides for the generated token's attributes.
+ * @return {string} A mocked emulator ID token with any provided overrides included.
+ */
+export function generateEmulatorIdToken(overrides?: object): string {
+  const options = _.assign({
+    audience: projectId,
+    expiresIn: ONE_HOUR_IN_SECONDS,
+    issuer: 'https://securetoken.google.com/' + projectId,
+    subject: uid,
+    algorithm: 'none',
+  }, overrides);
+
+  return jwt.sign(developerClaims, '', options);
+}
+
 /**
  * Generates a mocked Firebase session cookie.
  *
@@ -235,6 +253,43 @@ export function firebaseServiceFactory(
   return result as FirebaseServiceInterface;
 }
 
+/**
+ * Drains the provided AsyncIterable using explicit next() calls.
+ *
+ * @param {AsyncIterable<T>} iterable The iterable to drain.
+ * @return {Promise<T[]>} A promise that resolves with all the items of the iterable.
+ */
+export function collectAsyncIterable<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const iterator = iterable[Symbol.asyncIterator]();
+  const items: T[] = [];
+  const next = (): Promise<T[]> => {
+    return iterator.next()
+      .then((result) => {
+        if (result.done) {
+          return items;
+        }
+        items.push(result.value);
+        return next();
+      });
+  };
+  return next();
+}
+
+/**
+ * Reads the provided stream to completion.
+ *
+ * @param {stream.Readable} readable The stream to read.
+ * @return {Promise<string>} A promise that resolves with the content of the stream.
+ */
+export function readStream(readable: stream.Readable): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    readable.on('data', (chunk) => data += chunk);
+    readable.on('end', () => resolve(data));
+    readable.on('error', reject);
+  });
+}
+
 /** Mock socket emitter class. */
 export class MockSocketEmitter extends events.EventEmitter {
   public setTimeout: (_: number) => void = (timeout: number) => undefined;
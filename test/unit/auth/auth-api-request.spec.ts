@@ -31,12 +31,13 @@ import {HttpClient, HttpRequestConfig} from '../../../src/utils/api-request';
 import * as validator from '../../../src/utils/validator';
 import {
   AuthRequestHandler, FIREBASE_AUTH_GET_ACCOUNT_INFO,
-  FIREBASE_AUTH_DELETE_ACCOUNT, FIREBASE_AUTH_SET_ACCOUNT_INFO,
+  FIREBASE_AUTH_DELETE_ACCOUNT, FIREBASE_AUTH_SET_ACCOUNT_INFO, FIREBASE_AUTH_BATCH_DELETE_ACCOUNTS,
   FIREBASE_AUTH_SIGN_UP_NEW_USER, FIREBASE_AUTH_DOWNLOAD_ACCOUNT,
   RESERVED_CLAIMS, FIREBASE_AUTH_UPLOAD_ACCOUNT, FIREBASE_AUTH_CREATE_SESSION_COOKIE,
   EMAIL_ACTION_REQUEST_TYPES, TenantAwareAuthRequestHandler, AbstractAuthRequestHandler,
 } from '../../../src/auth/auth-api-request';
 import {UserImportBuilder, UserImportRecord} from '../../../src/auth/user-import-builder';
+import {UserInfo} from '../../../src/auth/user-record';
 import {AuthClientErrorCode, FirebaseAuthError} from '../../../src/utils/error';
 import {ActionCodeSettingsBuilder} from '../../../src/auth/action-code-settings-builder';
 import {
@@ -393,6 +394,54 @@ describe('FIREBASE_AUTH_DELETE_ACCOUNT', () => {
   });
 });
 
+describe('FIREBASE_AUTH_BATCH_DELETE_ACCOUNTS', () => {
+  it('should return the correct endpoint', () => {
+    expect(FIREBASE_AUTH_BATCH_DELETE_ACCOUNTS.getEndpoint()).to.equal('/accounts:batchDelete');
+  });
+  it('should return the correct http method', () => {
+    expect(FIREBASE_AUTH_BATCH_DELETE_ACCOUNTS.getHttpMethod()).to.equal('POST');
+  });
+  describe('requestValidator', () => {
+    const requestValidator = FIREBASE_AUTH_BATCH_DELETE_ACCOUNTS.getRequestValidator();
+    it('should succeed with localIds and force passed', () => {
+      const validRequest = {localIds: ['1234'], force: true};
+      expect(() => {
+        return requestValidator(validRequest);
+      }).not.to.throw();
+    });
+    it('should fail when localIds not passed', () => {
+      const invalidRequest = {force: true};
+      expect(() => {
+        return requestValidator(invalidRequest);
+      }).to.throw('Server request is missing user identifiers');
+    });
+    it('should fail when force not passed', () => {
+      const invalidRequest = {localIds: ['1234']};
+      expect(() => {
+        return requestValidator(invalidRequest);
+      }).to.throw('Server request is missing force=true field');
+    });
+  });
+  describe('responseValidator', () => {
+    const responseValidator = FIREBASE_AUTH_BATCH_DELETE_ACCOUNTS.getResponseValidator();
+    it('should succeed with an empty response', () => {
+      expect(() => {
+        return responseValidator({});
+      }).not.to.throw();
+    });
+    it('should succeed with errors containing indices', () => {
+      expect(() => {
+        return responseValidator({errors: [{index: 0, localId: '1234', message: 'NOT_DISABLED'}]});
+      }).not.to.throw();
+    });
+    it('should fail when an error is missing its index', () => {
+      expect(() => {
+        return responseValidator({errors: [{localId: '1234', message: 'NOT_DISABLED'}]});
+      }).to.throw('Server BatchDeleteAccountResponse is missing an errors.index field');
+    });
+  });
+});
+
 describe('FIREBASE_AUTH_SET_ACCOUNT_INFO', () => {
   // Spy on all validators.
   let isUidSpy: sinon.SinonSpy;
@@ -804,6 +853,87 @@ AUTH_REQUEST_HANDLER_TESTS.forEach((handler) => {
       });
     });
 
+    describe('Emulator mode', () => {
+      const emulatorHost = 'localhost:9099';
+      const path = handler.path('v1', '/accounts:delete', 'project_id');
+      const data = {localId: 'uid'};
+
+      beforeEach(() => {
+        process.env.FIREBASE_AUTH_EMULATOR_HOST = emulatorHost;
+      });
+
+      afterEach(() => {
+        delete process.env.FIREBASE_AUTH_EMULATOR_HOST;
+      });
+
+      it('should send requests to the emulator host with the owner access token', () => {
+        const expectedResult = utils.responseFrom({
+          kind: 'identitytoolkit#DeleteAccountResponse',
+        });
+        const stub = sinon.stub(HttpClient.prototype, 'send').resolves(expectedResult);
+        stubs.push(stub);
+
+        const requestHandler = handler.init(mockApp);
+        return requestHandler.deleteAccount('uid')
+          .then((result) => {
+            expect(result).to.deep.equal(expectedResult.data);
+            expect(stub).to.have.been.calledOnce.and.calledWith({
+              method: 'POST',
+              url: `http://${emulatorHost}/identitytoolkit.googleapis.com${path}`,
+              headers: {
+                'X-Client-Version': 'Node/Admin/<XXX_SDK_VERSION_XXX>',
+                'Authorization': 'Bearer owner',
+              },
+              data,
+              timeout,
+            });
+          });
+      });
+
+      it('should send requests to the unscoped endpoints to the emulator host', () => {
+        const expectedResult = utils.responseFrom({
+          email: 'user@example.com',
+          requestType: 'PASSWORD_RESET',
+        });
+        const stub = sinon.stub(HttpClient.prototype, 'send').resolves(expectedResult);
+        stubs.push(stub);
+
+        const requestHandler = handler.init(mockApp);
+        return requestHandler.checkActionCode('OOB_CODE')
+          .then(() => {
+            expect(stub).to.have.been.calledOnce.and.calledWithMatch({
+              url: `http://${emulatorHost}/identitytoolkit.googleapis.com/v1/accounts:resetPassword`,
+            });
+          });
+      });
+
+      if (handler.supportsTenantManagement) {
+        it('should send tenant management requests to the emulator host', () => {
+          const expectedResult = utils.responseFrom({
+            name: 'projects/project_id/tenants/tenant_id',
+          });
+          const stub = sinon.stub(HttpClient.prototype, 'send').resolves(expectedResult);
+          stubs.push(stub);
+
+          const requestHandler = handler.init(mockApp) as AuthRequestHandler;
+          return requestHandler.getTenant('tenant_id')
+            .then(() => {
+              expect(stub).to.have.been.calledOnce.and.calledWith({
+                method: 'GET',
+                url: `http://${emulatorHost}/identitytoolkit.googleapis.com` +
+                  '/v2beta1/projects/project_id/tenants/tenant_id',
+                headers: {
+                  'X-Client-Version': 'Node/Admin/<XXX_SDK_VERSION_XXX>',
+                  'Authorization': 'Bearer owner',
+                },
+                data: {},
+                timeout,
+              });
+            });
+        });
+      }
+    });
+
     describe('createSessionCookie', () => {
       const durationInMs = 24 * 60 * 60 * 1000;
       const path = handler.path('v1', ':createSessionCookie', 'project_id');
@@ -1039,6 +1169,119 @@ AUTH_REQUEST_HANDLER_TESTS.forEach((handler) => {
       });
     });
 
+    describe('getAccountInfoByIdentifiers', () => {
+      const path = handler.path('v1', '/accounts:lookup', 'project_id');
+      const method = 'POST';
+      it('should be fulfilled given mixed identifiers', () => {
+        const expectedResult = utils.responseFrom({
+          users : [
+            {localId: 'uid1'},
+            {localId: 'uid2', email: 'user@example.com'},
+            {localId: 'uid3', phoneNumber: '+15555550001'},
+          ],
+        });
+        const data = {
+          localId: ['uid1', 'uid4'],
+          email: ['user@example.com'],
+          phoneNumber: ['+15555550001'],
+        };
+        const stub = sinon.stub(HttpClient.prototype, 'send').resolves(expectedResult);
+        stubs.push(stub);
+
+        const requestHandler = handler.init(mockApp);
+        return requestHandler.getAccountInfoByIdentifiers([
+          {uid: 'uid1'},
+          {email: 'user@example.com'},
+          {phoneNumber: '+15555550001'},
+          {uid: 'uid4'},
+        ])
+          .then((result) => {
+            expect(result).to.deep.equal(expectedResult.data);
+            expect(stub).to.have.been.calledOnce.and.calledWith(callParams(path, method, data));
+          });
+      });
+      it('should be fulfilled with an empty list of users when none are found', () => {
+        const expectedResult = utils.responseFrom({
+          kind: 'identitytoolkit#GetAccountInfoResponse',
+        });
+        const stub = sinon.stub(HttpClient.prototype, 'send').resolves(expectedResult);
+        stubs.push(stub);
+
+        const requestHandler = handler.init(mockApp);
+        return requestHandler.getAccountInfoByIdentifiers([{uid: 'uid'}])
+          .then((result) => {
+            expect(result).to.deep.equal({
+              kind: 'identitytoolkit#GetAccountInfoResponse',
+              users: [],
+            });
+            expect(stub).to.have.been.calledOnce;
+          });
+      });
+      it('should be fulfilled without a request given no identifiers', () => {
+        const stub = sinon.stub(HttpClient.prototype, 'send');
+        stubs.push(stub);
+
+        const requestHandler = handler.init(mockApp);
+        return requestHandler.getAccountInfoByIdentifiers([])
+          .then((result) => {
+            expect(result).to.deep.equal({users: []});
+            expect(stub).not.to.have.been.called;
+          });
+      });
+      it('should be rejected given more than 100 identifiers', () => {
+        const identifiers = [];
+        for (let i = 0; i < 101; i++) {
+          identifiers.push({uid: `uid${i}`});
+        }
+        const requestHandler = handler.init(mockApp);
+        return requestHandler.getAccountInfoByIdentifiers(identifiers)
+          .should.eventually.be.rejected.and.have.property('code', 'auth/maximum-user-count-exceeded');
+      });
+      const invalidIdentifiers: Array<[any, string]> = [
+        [{uid: ''}, 'auth/invalid-uid'],
+        [{email: 'not-an-email'}, 'auth/invalid-email'],
+        [{phoneNumber: 'invalid'}, 'auth/invalid-phone-number'],
+        [{providerUid: 'uid'}, 'auth/argument-error'],
+        [null, 'auth/argument-error'],
+      ];
+      invalidIdentifiers.forEach(([identifier, code]) => {
+        it('should be rejected given an invalid identifier: ' + JSON.stringify(identifier), () => {
+          const stub = sinon.stub(HttpClient.prototype, 'send');
+          stubs.push(stub);
+
+          const requestHandler = handler.init(mockApp);
+          return requestHandler.getAccountInfoByIdentifiers([{uid: 'uid'}, identifier])
+            .then((resp) => {
+              throw new Error('Unexpected success');
+            }, (error) => {
+              expect(error).to.have.property('code', code);
+              expect(stub).not.to.have.been.called;
+            });
+        });
+      });
+      it('should be rejected when the backend returns an error', () => {
+        const expectedResult = utils.errorFrom({
+          error: {
+            message: 'OPERATION_NOT_ALLOWED',
+          },
+        });
+        const expectedError = FirebaseAuthError.fromServerError('OPERATION_NOT_ALLOWED');
+        const data = {localId: ['uid']};
+
+        const stub = sinon.stub(HttpClient.prototype, 'send').rejects(expectedResult);
+        stubs.push(stub);
+
+        const requestHandler = handler.init(mockApp);
+        return requestHandler.getAccountInfoByIdentifiers([{uid: 'uid'}])
+          .then((resp) => {
+            throw new Error('Unexpected success');
+          }, (error) => {
+            expect(error).to.deep.equal(expectedError);
+            expect(stub).to.have.been.calledOnce.and.calledWith(callParams(path, method, data));
+          });
+      });
+    });
+
     describe('getAccountInfoByPhoneNumber', () => {
       const path = handler.path('v1', '/accounts:lookup', 'project_id');
       const method = 'POST';
@@ -1593,6 +1836,70 @@ AUTH_REQUEST_HANDLER_TESTS.forEach((handler) => {
       });
     });
 
+    describe('deleteAccounts', () => {
+      const path = handler.path('v1', '/accounts:batchDelete', 'project_id');
+      const method = 'POST';
+      it('should be fulfilled given valid uids', () => {
+        const expectedResult = utils.responseFrom({
+          errors: [{index: 1, localId: 'uid2', message: 'NOT_DISABLED'}],
+        });
+        const data = {localIds: ['uid1', 'uid2'], force: true};
+
+        const stub = sinon.stub(HttpClient.prototype, 'send').resolves(expectedResult);
+        stubs.push(stub);
+        const requestHandler = handler.init(mockApp);
+        return requestHandler.deleteAccounts(['uid1', 'uid2'])
+          .then((result) => {
+            expect(result).to.deep.equal(expectedResult.data);
+            expect(stub).to.have.been.calledOnce.and.calledWith(callParams(path, method, data));
+          });
+      });
+      it('should be fulfilled without a request given no uids', () => {
+        const stub = sinon.stub(HttpClient.prototype, 'send');
+        stubs.push(stub);
+        const requestHandler = handler.init(mockApp);
+        return requestHandler.deleteAccounts([])
+          .then((result) => {
+            expect(result).to.deep.equal({});
+            expect(stub).not.to.have.been.called;
+          });
+      });
+      it('should be rejected given an invalid uid', () => {
+        const requestHandler = handler.init(mockApp);
+        return requestHandler.deleteAccounts(['uid1', ''])
+          .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-uid');
+      });
+      it('should be rejected given more than 1000 uids', () => {
+        const uids = [];
+        for (let i = 0; i < 1001; i++) {
+          uids.push(`uid${i}`);
+        }
+        const requestHandler = handler.init(mockApp);
+        return requestHandler.deleteAccounts(uids)
+          .should.eventually.be.rejected.and.have.property('code', 'auth/maximum-user-count-exceeded');
+      });
+      it('should be rejected when the backend returns an error', () => {
+        const expectedResult = utils.errorFrom({
+          error: {
+            message: 'OPERATION_NOT_ALLOWED',
+          },
+        });
+        const expectedError = FirebaseAuthError.fromServerError('OPERATION_NOT_ALLOWED');
+        const data = {localIds: ['uid'], force: true};
+
+        const stub = sinon.stub(HttpClient.prototype, 'send').rejects(expectedResult);
+        stubs.push(stub);
+        const requestHandler = handler.init(mockApp);
+        return requestHandler.deleteAccounts(['uid'])
+          .then((resp) => {
+            throw new Error('Unexpected success');
+          }, (error) => {
+            expect(error).to.deep.equal(expectedError);
+            expect(stub).to.have.been.calledOnce.and.calledWith(callParams(path, method, data));
+          });
+      });
+    });
+
     describe('updateExistingAccount', () => {
       const path = handler.path('v1', '/accounts:update', 'project_id');
       const method = 'POST';
@@ -1694,6 +2001,148 @@ AUTH_REQUEST_HANDLER_TESTS.forEach((handler) => {
           });
       });
 
+      describe('with multiFactor', () => {
+        const now = new Date();
+        const expectedResult = utils.responseFrom({
+          kind: 'identitytoolkit#SetAccountInfoResponse',
+          localId: uid,
+        });
+
+        it('should be fulfilled given valid second factors', () => {
+          const stub = sinon.stub(HttpClient.prototype, 'send').resolves(expectedResult);
+          stubs.push(stub);
+
+          const requestHandler = handler.init(mockApp);
+          return requestHandler.updateExistingAccount(uid, {
+            multiFactor: {
+              enrolledFactors: [
+                {
+                  uid: 'mfaUid1',
+                  phoneNumber: '+16505551234',
+                  displayName: 'Corp phone number',
+                  factorId: 'phone',
+                  enrollmentTime: now.toUTCString(),
+                } as any,
+                {
+                  phoneNumber: '+16505556789',
+                  factorId: 'phone',
+                } as any,
+              ],
+            },
+          })
+            .then((returnedUid: string) => {
+              expect(returnedUid).to.be.equal(uid);
+              expect(stub).to.have.been.calledOnce.and.calledWith(
+                callParams(path, method, {
+                  localId: uid,
+                  mfa: {
+                    enrollments: [
+                      {
+                        mfaEnrollmentId: 'mfaUid1',
+                        phoneInfo: '+16505551234',
+                        displayName: 'Corp phone number',
+                        // Milliseconds are dropped by the UTC string conversion.
+                        enrolledAt: new Date(now.toUTCString()).toISOString(),
+                      },
+                      {
+                        phoneInfo: '+16505556789',
+                      },
+                    ],
+                  },
+                }));
+            });
+        });
+
+        const removeAllFactorsTests: Array<{name: string, enrolledFactors: any}> = [
+          {name: 'null', enrolledFactors: null},
+          {name: 'an empty array', enrolledFactors: []},
+        ];
+        removeAllFactorsTests.forEach((test) => {
+          it(`should remove all second factors given ${test.name}`, () => {
+            const stub = sinon.stub(HttpClient.prototype, 'send').resolves(expectedResult);
+            stubs.push(stub);
+
+            const requestHandler = handler.init(mockApp);
+            return requestHandler.updateExistingAccount(uid, {multiFactor: {enrolledFactors: test.enrolledFactors}})
+              .then(() => {
+                expect(stub).to.have.been.calledOnce.and.calledWith(
+                  callParams(path, method, {localId: uid, mfa: {}}));
+              });
+          });
+        });
+
+        it('should be rejected given a non-array enrolledFactors', () => {
+          const expectedError = new FirebaseAuthError(AuthClientErrorCode.INVALID_ENROLLED_FACTORS);
+          const requestHandler = handler.init(mockApp);
+          return requestHandler.updateExistingAccount(uid, {multiFactor: {enrolledFactors: 'invalid' as any}})
+            .should.eventually.be.rejected.and.deep.equal(expectedError);
+        });
+
+        it('should be rejected given an unsupported second factor', () => {
+          const requestHandler = handler.init(mockApp);
+          return requestHandler.updateExistingAccount(uid, {
+            multiFactor: {
+              enrolledFactors: [{uid: 'mfaUid1', factorId: 'totp'}],
+            },
+          }).should.eventually.be.rejected.and.have.property('code', 'auth/unsupported-second-factor');
+        });
+
+        it('should be rejected given an invalid enrollmentTime', () => {
+          const expectedError = new FirebaseAuthError(
+            AuthClientErrorCode.INVALID_ENROLLMENT_TIME,
+            'The second factor "enrollmentTime" for "mfaUid1" must be a valid UTC date string.');
+          const requestHandler = handler.init(mockApp);
+          return requestHandler.updateExistingAccount(uid, {
+            multiFactor: {
+              enrolledFactors: [{
+                uid: 'mfaUid1',
+                phoneNumber: '+16505551234',
+                factorId: 'phone',
+                enrollmentTime: 'invalid',
+              } as any],
+            },
+          }).should.eventually.be.rejected.and.deep.equal(expectedError);
+        });
+
+        const invalidFactors: Array<{name: string, factor: any, code: string, message: string}> = [
+          {
+            name: 'uid',
+            factor: {uid: '', phoneNumber: '+16505551234', factorId: 'phone'},
+            code: 'INVALID_UID',
+            message: 'The second factor "uid" must be a valid non-empty string.',
+          },
+          {
+            name: 'displayName',
+            factor: {uid: 'mfaUid1', phoneNumber: '+16505551234', displayName: 1, factorId: 'phone'},
+            code: 'INVALID_DISPLAY_NAME',
+            message: 'The second factor "displayName" for "mfaUid1" must be a valid string.',
+          },
+          {
+            name: 'phoneNumber',
+            factor: {uid: 'mfaUid1', phoneNumber: 'invalid', factorId: 'phone'},
+            code: 'INVALID_PHONE_NUMBER',
+            message: 'The second factor "phoneNumber" for "mfaUid1" must be a non-empty ' +
+              'E.164 standard compliant identifier string.',
+          },
+          {
+            name: 'missing phoneNumber',
+            factor: {uid: 'mfaUid1', factorId: 'phone'},
+            code: 'INVALID_ENROLLED_FACTORS',
+            message: 'MFAInfo object provided is invalid.',
+          },
+        ];
+        invalidFactors.forEach((invalidFactor) => {
+          it(`should be rejected given an invalid second factor ${invalidFactor.name}`, () => {
+            const expectedError = new FirebaseAuthError(
+              (AuthClientErrorCode as any)[invalidFactor.code], invalidFactor.message);
+            const requestHandler = handler.init(mockApp);
+            return requestHandler.updateExistingAccount(uid, {
+              multiFactor: {enrolledFactors: [invalidFactor.factor]},
+            }).should.eventually.be.rejected.and.deep.equal(expectedError);
+          });
+        });
+      });
+
       it('should be fulfilled given valid profile parameters to delete', () => {
         // Successful result server response.
         const expectedResult = utils.responseFrom({
@@ -1808,6 +2257,164 @@ AUTH_REQUEST_HANDLER_TESTS.forEach((handler) => {
               callParams(path, method, expectedValidData));
           });
       });
+
+      describe('with providerToLink and providersToUnlink', () => {
+        const expectedResult = utils.responseFrom({
+          kind: 'identitytoolkit#SetAccountInfoResponse',
+          localId: uid,
+        });
+        const providerToLink = {
+          uid: 'google_uid',
+          providerId: 'google.com',
+          email: 'user@gmail.com',
+          displayName: 'John Doe',
+          photoURL: 'https://example.com/photo.png',
+        };
+        const expectedLinkProviderUserInfo = {
+          providerId: 'google.com',
+          rawId: 'google_uid',
+          email: 'user@gmail.com',
+          displayName: 'John Doe',
+          photoUrl: 'https://example.com/photo.png',
+        };
+
+        it('should be fulfilled given a provider to link', () => {
+          const stub = sinon.stub(HttpClient.prototype, 'send').resolves(expectedResult);
+          stubs.push(stub);
+
+          const requestHandler = handler.init(mockApp);
+          return requestHandler.updateExistingAccount(uid, {providerToLink})
+            .then((returnedUid: string) => {
+              expect(returnedUid).to.be.equal(uid);
+              expect(stub).to.have.been.calledOnce.and.calledWith(
+                callParams(path, method, {localId: uid, linkProviderUserInfo: expectedLinkProviderUserInfo}));
+            });
+        });
+
+        it('should be fulfilled given a UserInfo to link', () => {
+          const stub = sinon.stub(HttpClient.prototype, 'send').resolves(expectedResult);
+          stubs.push(stub);
+
+          const userInfo = new UserInfo({
+            rawId: 'google_uid',
+            providerId: 'google.com',
+            phoneNumber: '+11234567890',
+          });
+          const requestHandler = handler.init(mockApp);
+          return requestHandler.updateExistingAccount(uid, {providerToLink: userInfo})
+            .then(() => {
+              expect(stub).to.have.been.calledOnce.and.calledWith(
+                callParams(path, method, {
+                  localId: uid,
+                  linkProviderUserInfo: {providerId: 'google.com', rawId: 'google_uid'},
+                }));
+            });
+        });
+
+        it('should be fulfilled given providers to unlink and a phone number to delete', () => {
+          const stub = sinon.stub(HttpClient.prototype, 'send').resolves(expectedResult);
+          stubs.push(stub);
+
+          const requestHandler = handler.init(mockApp);
+          return requestHandler.updateExistingAccount(uid, {
+            providersToUnlink: ['google.com', 'facebook.com'],
+            phoneNumber: null,
+          })
+            .then(() => {
+              expect(stub).to.have.been.calledOnce.and.calledWith(
+                callParams(path, method, {localId: uid, deleteProvider: ['google.com', 'facebook.com', 'phone']}));
+            });
+        });
+
+        it('should be fulfilled given a provider to link and providers to unlink', () => {
+          const stub = sinon.stub(HttpClient.prototype, 'send').resolves(expectedResult);
+          stubs.push(stub);
+
+          const requestHandler = handler.init(mockApp);
+          return requestHandler.updateExistingAccount(uid, {providerToLink, providersToUnlink: ['facebook.com']})
+            .then(() => {
+              expect(stub).to.have.been.calledOnce.and.calledWith(
+                callParams(path, method, {
+                  localId: uid,
+                  deleteProvider: ['facebook.com'],
+                  linkProviderUserInfo: expectedLinkProviderUserInfo,
+                }));
+            });
+        });
+
+        const invalidProvidersToLink: any[] = [null, 'google.com', 1, []];
+        invalidProvidersToLink.forEach((invalidProviderToLink) => {
+          it('should be rejected given an invalid provider to link: ' + JSON.stringify(invalidProviderToLink), () => {
+            const requestHandler = handler.init(mockApp);
+            return requestHandler.updateExistingAccount(uid, {providerToLink: invalidProviderToLink})
+              .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-provider-data');
+          });
+        });
+
+        it('should be rejected given a provider to link without a provider ID', () => {
+          const requestHandler = handler.init(mockApp);
+          return requestHandler.updateExistingAccount(uid, {providerToLink: {...providerToLink, providerId: ''}})
+            .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-provider-id');
+        });
+
+        it('should be rejected given a provider to link without a uid', () => {
+          const requestHandler = handler.init(mockApp);
+          return requestHandler.updateExistingAccount(uid, {providerToLink: {...providerToLink, uid: undefined}})
+            .should.eventually.be.rejected.and.have.property(
+              'message', 'The provider "uid" for "google.com" must be a valid non-empty string.');
+        });
+
+        it('should be rejected given a provider to link with an invalid email', () => {
+          const requestHandler = handler.init(mockApp);
+          return requestHandler.updateExistingAccount(uid, {providerToLink: {...providerToLink, email: 'invalid'}})
+            .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-email');
+        });
+
+        ['phone', 'password'].forEach((providerId) => {
+          it(`should be rejected given a ${providerId} provider to link`, () => {
+            const requestHandler = handler.init(mockApp);
+            return requestHandler.updateExistingAccount(uid, {providerToLink: {...providerToLink, providerId}})
+              .should.eventually.be.rejected.and.have.property('code', 'auth/argument-error');
+          });
+        });
+
+        it('should be rejected given a provider to both link and unlink', () => {
+          const requestHandler = handler.init(mockApp);
+          return requestHandler.updateExistingAccount(uid, {providerToLink, providersToUnlink: ['google.com']})
+            .should.eventually.be.rejected.and.have.property(
+              'message', 'The "google.com" provider cannot be both linked and unlinked.');
+        });
+
+        const invalidProvidersToUnlink: any[] = [null, 'google.com', [''], [1], {}];
+        invalidProvidersToUnlink.forEach((providersToUnlink) => {
+          it('should be rejected given invalid providers to unlink: ' + JSON.stringify(providersToUnlink), () => {
+            const requestHandler = handler.init(mockApp);
+            return requestHandler.updateExistingAccount(uid, {providersToUnlink})
+              .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-provider-id');
+          });
+        });
+
+        it('should be rejected given a phone number to set while unlinking the phone provider', () => {
+          const requestHandler = handler.init(mockApp);
+          return requestHandler.updateExistingAccount(uid, {phoneNumber: '+11234567890', providersToUnlink: ['phone']})
+            .should.eventually.be.rejected.and.have.property(
+              'message', 'A phone number cannot be set while unlinking the "phone" provider.');
+        });
+
+        it('should be rejected when the provider user identity is linked to another user', () => {
+          const expectedServerError = utils.errorFrom({
+            error: {
+              message: 'FEDERATED_USER_ID_ALREADY_LINKED',
+            },
+          });
+          const stub = sinon.stub(HttpClient.prototype, 'send').rejects(expectedServerError);
+          stubs.push(stub);
+
+          const requestHandler = handler.init(mockApp);
+          return requestHandler.updateExistingAccount(uid, {providerToLink})
+            .should.eventually.be.rejected.and.have.property('code', 'auth/provider-already-linked');
+        });
+      });
     });
 
     describe('setCustomUserClaims', () => {
@@ -2089,18 +2696,90 @@ AUTH_REQUEST_HANDLER_TESTS.forEach((handler) => {
             });
         });
 
-        it('should be rejected given invalid parameters such as email', () => {
-          // Expected error when an invalid email is provided.
-          const expectedError = new FirebaseAuthError(AuthClientErrorCode.INVALID_EMAIL);
+        ['providerToLink', 'providersToUnlink'].forEach((key) => {
+          it(`should be rejected given ${key}`, () => {
+            const requestHandler = handler.init(mockApp);
+            return requestHandler.createNewAccount({...validData, [key]: {}})
+              .should.eventually.be.rejected.and.have.property(
+                'message', `"${key}" is not supported when creating users via "createUser()"`);
+          });
+        });
+
+        it('should be rejected given invalid parameters such as email', () => {
+          // Expected error when an invalid email is provided.
+          const expectedError = new FirebaseAuthError(AuthClientErrorCode.INVALID_EMAIL);
+          const requestHandler = handler.init(mockApp);
+          // Create new account with invalid email.
+          return requestHandler.createNewAccount(invalidData)
+            .then((returnedUid: string) => {
+              throw new Error('Unexpected success');
+            }, (error) => {
+              // Expected invalid email error should be thrown.
+              expect(error).to.deep.equal(expectedError);
+            });
+        });
+
+        it('should be fulfilled given valid second factors', () => {
+          const expectedResult = utils.responseFrom({
+            kind: 'identitytoolkit#SignupNewUserResponse',
+            localId: uid,
+          });
+          const stub = sinon.stub(HttpClient.prototype, 'send').resolves(expectedResult);
+          stubs.push(stub);
+
+          const requestHandler = handler.init(mockApp);
+          return requestHandler.createNewAccount({
+            uid,
+            multiFactor: {
+              enrolledFactors: [
+                {
+                  phoneNumber: '+16505551234',
+                  displayName: 'Corp phone number',
+                  factorId: 'phone',
+                } as any,
+              ],
+            },
+          })
+            .then((returnedUid: string) => {
+              expect(returnedUid).to.be.equal(uid);
+              expect(stub).to.have.been.calledOnce.and.calledWith(
+                callParams(path, method, {
+                  localId: uid,
+                  mfaInfo: [
+                    {
+                      phoneInfo: '+16505551234',
+                      displayName: 'Corp phone number',
+                    },
+                  ],
+                }));
+            });
+        });
+
+        const unsupportedFields = ['uid', 'enrollmentTime'];
+        unsupportedFields.forEach((field) => {
+          it(`should be rejected given a second factor with ${field}`, () => {
+            const expectedError = new FirebaseAuthError(
+              AuthClientErrorCode.INVALID_ARGUMENT,
+              `"${field}" is not supported when adding second factors via "createUser()"`);
+            const secondFactor: any = {
+              phoneNumber: '+16505551234',
+              factorId: 'phone',
+            };
+            secondFactor[field] = field === 'uid' ? 'mfaUid1' : new Date().toUTCString();
+            const requestHandler = handler.init(mockApp);
+            return requestHandler.createNewAccount({uid, multiFactor: {enrolledFactors: [secondFactor]}})
+              .should.eventually.be.rejected.and.deep.equal(expectedError);
+          });
+        });
+
+        it('should be rejected given an invalid second factor phoneNumber', () => {
           const requestHandler = handler.init(mockApp);
-          // Create new account with invalid email.
-          return requestHandler.createNewAccount(invalidData)
-            .then((returnedUid: string) => {
-              throw new Error('Unexpected success');
-            }, (error) => {
-              // Expected invalid email error should be thrown.
-              expect(error).to.deep.equal(expectedError);
-            });
+          return requestHandler.createNewAccount({
+            uid,
+            multiFactor: {
+              enrolledFactors: [{phoneNumber: 'invalid', factorId: 'phone'} as any],
+            },
+          }).should.eventually.be.rejected.and.have.property('code', 'auth/invalid-phone-number');
         });
 
         it('should be rejected given tenantId in CreateRequest', () => {
@@ -2358,16 +3037,20 @@ AUTH_REQUEST_HANDLER_TESTS.forEach((handler) => {
 
       EMAIL_ACTION_REQUEST_TYPES.forEach((requestType) => {
         it('should be fulfilled given a valid requestType:' + requestType + ' and ActionCodeSettings', () => {
+          const newEmail = requestType === 'VERIFY_AND_CHANGE_EMAIL' ? 'new@example.com' : undefined;
           const requestData = deepExtend({
             requestType,
             email,
             returnOobLink: true,
           }, expectedActionCodeSettingsRequest);
+          if (newEmail) {
+            requestData.newEmail = newEmail;
+          }
           const stub = sinon.stub(HttpClient.prototype, 'send').resolves(expectedResult);
           stubs.push(stub);
 
           const requestHandler = handler.init(mockApp);
-          return requestHandler.getEmailActionLink(requestType, email, actionCodeSettings)
+          return requestHandler.getEmailActionLink(requestType, email, actionCodeSettings, newEmail)
             .then((oobLink: string) => {
               expect(oobLink).to.be.equal(expectedLink);
               expect(stub).to.have.been.calledOnce.and.calledWith(callParams(path, method, requestData));
@@ -2380,16 +3063,20 @@ AUTH_REQUEST_HANDLER_TESTS.forEach((handler) => {
           return;
         }
         it('should be fulfilled given requestType:' + requestType + ' and no ActionCodeSettings', () => {
-          const requestData = {
+          const newEmail = requestType === 'VERIFY_AND_CHANGE_EMAIL' ? 'new@example.com' : undefined;
+          const requestData: any = {
             requestType,
             email,
             returnOobLink: true,
           };
+          if (newEmail) {
+            requestData.newEmail = newEmail;
+          }
           const stub = sinon.stub(HttpClient.prototype, 'send').resolves(expectedResult);
           stubs.push(stub);
 
           const requestHandler = handler.init(mockApp);
-          return requestHandler.getEmailActionLink(requestType, email)
+          return requestHandler.getEmailActionLink(requestType, email, undefined, newEmail)
             .then((oobLink: string) => {
               expect(oobLink).to.be.equal(expectedLink);
               expect(stub).to.have.been.calledOnce.and.calledWith(callParams(path, method, requestData));
@@ -2428,6 +3115,29 @@ AUTH_REQUEST_HANDLER_TESTS.forEach((handler) => {
           });
       });
 
+      const invalidNewEmails = [undefined, 'invalid'];
+      invalidNewEmails.forEach((newEmail) => {
+        it('should be rejected given requestType:VERIFY_AND_CHANGE_EMAIL and an invalid newEmail: ' +
+            JSON.stringify(newEmail), () => {
+          const expectedError = new FirebaseAuthError(AuthClientErrorCode.INVALID_NEW_EMAIL);
+
+          const requestHandler = handler.init(mockApp);
+          return requestHandler.getEmailActionLink('VERIFY_AND_CHANGE_EMAIL', email, actionCodeSettings, newEmail)
+            .should.eventually.be.rejected.and.deep.equal(expectedError);
+        });
+      });
+
+      it('should be rejected given a newEmail for another request type', () => {
+        const expectedError = new FirebaseAuthError(
+          AuthClientErrorCode.INVALID_ARGUMENT,
+          '"newEmail" can only be provided for the "VERIFY_AND_CHANGE_EMAIL" request type.',
+        );
+
+        const requestHandler = handler.init(mockApp);
+        return requestHandler.getEmailActionLink('VERIFY_EMAIL', email, actionCodeSettings, 'new@example.com')
+          .should.eventually.be.rejected.and.deep.equal(expectedError);
+      });
+
       it('should be rejected given an invalid request type', () => {
         const invalidRequestType = 'invalid';
         const expectedError = new FirebaseAuthError(
@@ -2513,6 +3223,160 @@ AUTH_REQUEST_HANDLER_TESTS.forEach((handler) => {
       });
     });
 
+    describe('checkActionCode', () => {
+      // The resetPassword endpoint is not scoped to a project; the tenant is sent in the body.
+      const path = '/v1/accounts:resetPassword';
+      const tenantId = handler.supportsTenantManagement ? undefined : TENANT_ID;
+      const method = 'POST';
+      const oobCode = 'OOB_CODE';
+      const requestData = tenantId ? {oobCode, tenantId} : {oobCode};
+      const expectedResult = utils.responseFrom({
+        email: 'user@example.com',
+        requestType: 'PASSWORD_RESET',
+      });
+
+      it('should be fulfilled given a valid action code', () => {
+        const stub = sinon.stub(HttpClient.prototype, 'send').resolves(expectedResult);
+        stubs.push(stub);
+
+        const requestHandler = handler.init(mockApp);
+        return requestHandler.checkActionCode(oobCode)
+          .then((response) => {
+            expect(response).to.deep.equal(expectedResult.data);
+            expect(stub).to.have.been.calledOnce.and.calledWith(callParams(path, method, requestData));
+          });
+      });
+
+      const invalidCodes: any[] = [null, undefined, '', 1, true, {}, []];
+      invalidCodes.forEach((invalidCode) => {
+        it('should be rejected given an invalid action code: ' + JSON.stringify(invalidCode), () => {
+          const expectedError = new FirebaseAuthError(
+            AuthClientErrorCode.INVALID_ACTION_CODE,
+            'The action code must be a non-empty string.',
+          );
+
+          const requestHandler = handler.init(mockApp);
+          return requestHandler.checkActionCode(invalidCode)
+            .should.eventually.be.rejected.and.deep.equal(expectedError);
+        });
+      });
+
+      it('should be rejected when the response does not contain a request type', () => {
+        const expectedError = new FirebaseAuthError(
+          AuthClientErrorCode.INTERNAL_ERROR,
+          'INTERNAL ASSERT FAILED: Unable to check the action code');
+        const stub = sinon.stub(HttpClient.prototype, 'send')
+          .resolves(utils.responseFrom({email: 'user@example.com'}));
+        stubs.push(stub);
+
+        const requestHandler = handler.init(mockApp);
+        return requestHandler.checkActionCode(oobCode)
+          .should.eventually.be.rejected.and.deep.equal(expectedError);
+      });
+
+      it('should be rejected when the backend returns an error', () => {
+        const expectedError = FirebaseAuthError.fromServerError('EXPIRED_OOB_CODE');
+        const expectedServerError = utils.errorFrom({
+          error: {
+            message: 'EXPIRED_OOB_CODE',
+          },
+        });
+        const stub = sinon.stub(HttpClient.prototype, 'send').rejects(expectedServerError);
+        stubs.push(stub);
+
+        const requestHandler = handler.init(mockApp);
+        return requestHandler.checkActionCode(oobCode)
+          .then(() => {
+            throw new Error('Unexpected success');
+          }, (error) => {
+            expect(error).to.deep.equal(expectedError);
+            expect(error).to.have.property('code', 'auth/expired-action-code');
+            expect(stub).to.have.been.calledOnce.and.calledWith(callParams(path, method, requestData));
+          });
+      });
+    });
+
+    describe('applyActionCode', () => {
+      const path = handler.path('v1', '/accounts:update', 'project_id');
+      const method = 'POST';
+      const oobCode = 'OOB_CODE';
+
+      it('should be fulfilled given a valid action code', () => {
+        const expectedResult = utils.responseFrom({email: 'user@example.com', emailVerified: true});
+        const stub = sinon.stub(HttpClient.prototype, 'send').resolves(expectedResult);
+        stubs.push(stub);
+
+        const requestHandler = handler.init(mockApp);
+        return requestHandler.applyActionCode(oobCode)
+          .then((response) => {
+            expect(response).to.deep.equal(expectedResult.data);
+            expect(stub).to.have.been.calledOnce.and.calledWith(callParams(path, method, {oobCode}));
+          });
+      });
+
+      it('should be rejected given an invalid action code', () => {
+        const requestHandler = handler.init(mockApp);
+        return requestHandler.applyActionCode('')
+          .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-action-code');
+      });
+
+      it('should be rejected when the backend returns an error', () => {
+        const expectedServerError = utils.errorFrom({
+          error: {
+            message: 'INVALID_OOB_CODE',
+          },
+        });
+        const stub = sinon.stub(HttpClient.prototype, 'send').rejects(expectedServerError);
+        stubs.push(stub);
+
+        const requestHandler = handler.init(mockApp);
+        return requestHandler.applyActionCode(oobCode)
+          .should.eventually.be.rejected.and.deep.equal(FirebaseAuthError.fromServerError('INVALID_OOB_CODE'));
+      });
+    });
+
+    describe('confirmPasswordReset', () => {
+      const path = '/v1/accounts:resetPassword';
+      const tenantId = handler.supportsTenantManagement ? undefined : TENANT_ID;
+      const method = 'POST';
+      const oobCode = 'OOB_CODE';
+      const newPassword = 'newPassword';
+      const requestData = tenantId ? {oobCode, newPassword, tenantId} : {oobCode, newPassword};
+
+      it('should be fulfilled given a valid action code and password', () => {
+        const expectedResult = utils.responseFrom({
+          email: 'user@example.com',
+          requestType: 'PASSWORD_RESET',
+        });
+        const stub = sinon.stub(HttpClient.prototype, 'send').resolves(expectedResult);
+        stubs.push(stub);
+
+        const requestHandler = handler.init(mockApp);
+        return requestHandler.confirmPasswordReset(oobCode, newPassword)
+          .then((response) => {
+            expect(response).to.deep.equal(expectedResult.data);
+            expect(stub).to.have.been.calledOnce.and.calledWith(
+              callParams(path, method, requestData));
+          });
+      });
+
+      const invalidPasswords: any[] = [null, undefined, '', 'short', 1, true, {}];
+      invalidPasswords.forEach((invalidPassword) => {
+        it('should be rejected given an invalid password: ' + JSON.stringify(invalidPassword), () => {
+          const requestHandler = handler.init(mockApp);
+          return requestHandler.confirmPasswordReset(oobCode, invalidPassword)
+            .should.eventually.be.rejected.and.deep.equal(
+              new FirebaseAuthError(AuthClientErrorCode.INVALID_PASSWORD));
+        });
+      });
+
+      it('should be rejected given an invalid action code', () => {
+        const requestHandler = handler.init(mockApp);
+        return requestHandler.confirmPasswordReset(null, newPassword)
+          .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-action-code');
+      });
+    });
+
     describe('getOAuthIdpConfig()', () => {
       const providerId = 'oidc.provider';
       const path = handler.path('v2beta1', `/oauthIdpConfigs/${providerId}`, 'project_id');
@@ -3943,6 +4807,53 @@ AUTH_REQUEST_HANDLER_TESTS.forEach((handler) => {
             });
         });
 
+        it('should be fulfilled given multi-factor, anonymous and test phone number parameters', () => {
+          const expectedPath = path + '?updateMask=enableAnonymousUser,mfaConfig.state,' +
+            'mfaConfig.enabledProviders,testPhoneNumbers';
+          const stub = sinon.stub(HttpClient.prototype, 'send').resolves(expectedResult);
+          const partialRequest = {
+            enableAnonymousUser: true,
+            mfaConfig: {
+              state: 'ENABLED',
+              enabledProviders: ['PHONE_SMS'],
+            },
+            testPhoneNumbers: {
+              '+16505551234': '123456',
+            },
+          };
+          const partialTenantOptions: TenantOptions = {
+            anonymousSignInEnabled: true,
+            multiFactorConfig: {
+              state: 'ENABLED',
+              factorIds: ['phone'],
+            },
+            testPhoneNumbers: {
+              '+16505551234': '123456',
+            },
+          };
+          stubs.push(stub);
+
+          const requestHandler = handler.init(mockApp) as AuthRequestHandler;
+          return requestHandler.updateTenant(tenantId, partialTenantOptions)
+            .then(() => {
+              expect(stub).to.have.been.calledOnce.and.calledWith(
+                  callParams(expectedPath, patchMethod, partialRequest));
+            });
+        });
+
+        it('should clear the test phone numbers given null', () => {
+          const expectedPath = path + '?updateMask=testPhoneNumbers';
+          const stub = sinon.stub(HttpClient.prototype, 'send').resolves(expectedResult);
+          stubs.push(stub);
+
+          const requestHandler = handler.init(mockApp) as AuthRequestHandler;
+          return requestHandler.updateTenant(tenantId, {testPhoneNumbers: null})
+            .then(() => {
+              expect(stub).to.have.been.calledOnce.and.calledWith(
+                  callParams(expectedPath, patchMethod, {testPhoneNumbers: {}}));
+            });
+        });
+
         it('should be fulfilled given a single parameter to change', () => {
           const expectedPath = path + '?updateMask=displayName';
           const stub = sinon.stub(HttpClient.prototype, 'send').resolves(expectedResult);
@@ -4063,6 +4974,159 @@ AUTH_REQUEST_HANDLER_TESTS.forEach((handler) => {
             });
         });
       });
+
+      describe('getProjectConfig', () => {
+        const path = '/v2beta1/projects/project_id/config';
+        const method = 'GET';
+        const expectedResult = utils.responseFrom({
+          name: 'projects/project_id/config',
+          authorizedDomains: ['localhost'],
+        });
+
+        it('should be fulfilled on success', () => {
+          const stub = sinon.stub(HttpClient.prototype, 'send').resolves(expectedResult);
+          stubs.push(stub);
+
+          const requestHandler = handler.init(mockApp) as AuthRequestHandler;
+          return requestHandler.getProjectConfig()
+            .then((result) => {
+              expect(result).to.deep.equal(expectedResult.data);
+              expect(stub).to.have.been.calledOnce.and.calledWith(callParams(path, method, {}));
+            });
+        });
+
+        it('should be rejected when the backend returns a response missing name', () => {
+          const expectedError = new FirebaseAuthError(
+            AuthClientErrorCode.INTERNAL_ERROR,
+            'INTERNAL ASSERT FAILED: Unable to get project config',
+          );
+          const stub = sinon.stub(HttpClient.prototype, 'send').resolves(utils.responseFrom({}));
+          stubs.push(stub);
+
+          const requestHandler = handler.init(mockApp) as AuthRequestHandler;
+          return requestHandler.getProjectConfig()
+            .should.eventually.be.rejected.and.deep.equal(expectedError);
+        });
+
+        it('should be rejected given a backend error', () => {
+          const expectedError = new FirebaseAuthError(AuthClientErrorCode.INTERNAL_ERROR);
+          const expectedServerError = utils.errorFrom({
+            error: {
+              message: 'INTERNAL_ERROR',
+            },
+          });
+          const stub = sinon.stub(HttpClient.prototype, 'send').rejects(expectedServerError);
+          stubs.push(stub);
+
+          const requestHandler = handler.init(mockApp) as AuthRequestHandler;
+          return requestHandler.getProjectConfig()
+            .then((resp) => {
+              throw new Error('Unexpected success');
+            }, (error) => {
+              expect(error).to.have.property('code', expectedError.code);
+              expect(stub).to.have.been.calledOnce.and.calledWith(callParams(path, method, {}));
+            });
+        });
+      });
+
+      describe('updateProjectConfig', () => {
+        const path = '/v2beta1/projects/project_id/config';
+        const patchMethod = 'PATCH';
+        const options = {
+          authorizedDomains: ['localhost', 'project_id.firebaseapp.com'],
+          emailSignInConfig: {
+            enabled: true,
+            passwordRequired: true,
+          },
+          phoneSignInEnabled: false,
+          anonymousSignInEnabled: true,
+        };
+        const expectedRequest = {
+          authorizedDomains: ['localhost', 'project_id.firebaseapp.com'],
+          signIn: {
+            email: {enabled: true, passwordRequired: true},
+            phoneNumber: {enabled: false},
+            anonymous: {enabled: true},
+          },
+        };
+        const expectedResult = utils.responseFrom(deepExtend({
+          name: 'projects/project_id/config',
+        }, expectedRequest));
+
+        it('should be fulfilled given full parameters', () => {
+          const expectedPath = path + '?updateMask=authorizedDomains,signIn.email.enabled,' +
+            'signIn.email.passwordRequired,signIn.phoneNumber.enabled,signIn.anonymous.enabled';
+          const stub = sinon.stub(HttpClient.prototype, 'send').resolves(expectedResult);
+          stubs.push(stub);
+
+          const requestHandler = handler.init(mockApp) as AuthRequestHandler;
+          return requestHandler.updateProjectConfig(options)
+            .then((actualResult) => {
+              expect(actualResult).to.deep.equal(expectedResult.data);
+              expect(stub).to.have.been.calledOnce.and.calledWith(
+                  callParams(expectedPath, patchMethod, expectedRequest));
+            });
+        });
+
+        it('should be fulfilled given a single parameter to change', () => {
+          const expectedPath = path + '?updateMask=signIn.anonymous.enabled';
+          const stub = sinon.stub(HttpClient.prototype, 'send').resolves(expectedResult);
+          stubs.push(stub);
+
+          const requestHandler = handler.init(mockApp) as AuthRequestHandler;
+          return requestHandler.updateProjectConfig({anonymousSignInEnabled: false})
+            .then(() => {
+              expect(stub).to.have.been.calledOnce.and.calledWith(
+                  callParams(expectedPath, patchMethod, {signIn: {anonymous: {enabled: false}}}));
+            });
+        });
+
+        it('should be fulfilled given email template fields to change', () => {
+          const expectedPath = path + '?updateMask=notification.sendEmail.resetPasswordTemplate.subject,' +
+            'notification.sendEmail.resetPasswordTemplate.bodyFormat';
+          const stub = sinon.stub(HttpClient.prototype, 'send').resolves(expectedResult);
+          stubs.push(stub);
+
+          const requestHandler = handler.init(mockApp) as AuthRequestHandler;
+          return requestHandler.updateProjectConfig({
+            emailTemplates: {resetPassword: {subject: 'Reset your password', bodyFormat: 'PLAIN_TEXT'}},
+          })
+            .then(() => {
+              expect(stub).to.have.been.calledOnce.and.calledWith(
+                  callParams(expectedPath, patchMethod, {
+                    notification: {
+                      sendEmail: {
+                        resetPasswordTemplate: {subject: 'Reset your password', bodyFormat: 'PLAIN_TEXT'},
+                      },
+                    },
+                  }));
+            });
+        });
+
+        it('should be rejected given invalid parameters', () => {
+          const expectedError = new FirebaseAuthError(
+            AuthClientErrorCode.INVALID_ARGUMENT,
+            '"EmailSignInConfig" must be a non-null object.',
+          );
+
+          const requestHandler = handler.init(mockApp) as AuthRequestHandler;
+          return requestHandler.updateProjectConfig({emailSignInConfig: 'invalid'} as any)
+            .should.eventually.be.rejected.and.deep.equal(expectedError);
+        });
+
+        it('should be rejected when the backend returns a response missing name', () => {
+          const expectedError = new FirebaseAuthError(
+            AuthClientErrorCode.INTERNAL_ERROR,
+            'INTERNAL ASSERT FAILED: Unable to update project config',
+          );
+          const stub = sinon.stub(HttpClient.prototype, 'send').resolves(utils.responseFrom({}));
+          stubs.push(stub);
+
+          const requestHandler = handler.init(mockApp) as AuthRequestHandler;
+          return requestHandler.updateProjectConfig(options)
+            .should.eventually.be.rejected.and.deep.equal(expectedError);
+        });
+      });
     }
 
     describe('non-2xx responses', () => {
@@ -25,7 +25,8 @@ import {
   SAMLConfigServerResponse, OIDCConfigServerRequest,
   OIDCConfigServerResponse, SAMLUpdateAuthProviderRequest,
   OIDCUpdateAuthProviderRequest, SAMLAuthProviderConfig, OIDCAuthProviderConfig,
-  EmailSignInConfig,
+  EmailSignInConfig, MultiFactorAuthConfig, validateTestPhoneNumbers,
+  MAXIMUM_TEST_PHONE_NUMBERS,
 } from '../../../src/auth/auth-config';
 
 
@@ -152,6 +153,165 @@ describe('EmailSignInConfig', () => {
   });
 });
 
+describe('MultiFactorAuthConfig', () => {
+  describe('constructor', () => {
+    const validConfig = new MultiFactorAuthConfig({
+      state: 'ENABLED',
+      enabledProviders: ['PHONE_SMS'],
+    });
+
+    it('should throw on missing state', () => {
+      expect(() => new MultiFactorAuthConfig({
+        enabledProviders: ['PHONE_SMS'],
+      })).to.throw('INTERNAL ASSERT FAILED: Invalid multi-factor configuration response');
+    });
+
+    it('should set readonly property "state"', () => {
+      expect(validConfig.state).to.equal('ENABLED');
+    });
+
+    it('should set readonly property "factorIds"', () => {
+      expect(validConfig.factorIds).to.deep.equal(['phone']);
+    });
+
+    it('should ignore unsupported factor types', () => {
+      const config = new MultiFactorAuthConfig({
+        state: 'ENABLED',
+        enabledProviders: ['PHONE_SMS', 'UNSUPPORTED'] as any,
+      });
+      expect(config.factorIds).to.deep.equal(['phone']);
+    });
+
+    it('should set an empty "factorIds" when no enabled providers are returned', () => {
+      expect(new MultiFactorAuthConfig({state: 'DISABLED'}).factorIds).to.deep.equal([]);
+    });
+  });
+
+  describe('toJSON()', () => {
+    it('should return expected JSON representation', () => {
+      const config = new MultiFactorAuthConfig({
+        state: 'ENABLED',
+        enabledProviders: ['PHONE_SMS'],
+      });
+      expect(config.toJSON()).to.deep.equal({
+        state: 'ENABLED',
+        factorIds: ['phone'],
+      });
+    });
+  });
+
+  describe('buildServerRequest()', () => {
+    it('should return expected server request on valid input', () => {
+      expect(MultiFactorAuthConfig.buildServerRequest({
+        state: 'ENABLED',
+        factorIds: ['phone'],
+      })).to.deep.equal({
+        state: 'ENABLED',
+        enabledProviders: ['PHONE_SMS'],
+      });
+    });
+
+    it('should return an empty enabledProviders list when factorIds is empty', () => {
+      expect(MultiFactorAuthConfig.buildServerRequest({
+        state: 'DISABLED',
+        factorIds: [],
+      })).to.deep.equal({
+        state: 'DISABLED',
+        enabledProviders: [],
+      });
+    });
+
+    it('should not set enabledProviders when factorIds is not provided', () => {
+      expect(MultiFactorAuthConfig.buildServerRequest({
+        state: 'DISABLED',
+      })).to.deep.equal({
+        state: 'DISABLED',
+      });
+    });
+
+    const invalidOptions = [null, NaN, 0, 1, true, false, '', 'a', [], [1, 'a'], _.noop];
+    invalidOptions.forEach((options) => {
+      it('should throw on invalid MultiFactorConfig:' + JSON.stringify(options), () => {
+        expect(() => {
+          MultiFactorAuthConfig.buildServerRequest(options as any);
+        }).to.throw('"MultiFactorConfig" must be a non-null object.');
+      });
+    });
+
+    it('should throw on MultiFactorConfig with unsupported attribute', () => {
+      expect(() => {
+        MultiFactorAuthConfig.buildServerRequest({
+          unsupported: true,
+          state: 'ENABLED',
+        } as any);
+      }).to.throw('"unsupported" is not a valid MultiFactorConfig parameter.');
+    });
+
+    const invalidStates = [null, NaN, 0, 1, true, false, '', 'enabled', [], {}, _.noop];
+    invalidStates.forEach((state) => {
+      it('should throw on invalid MultiFactorConfig.state:' + JSON.stringify(state), () => {
+        expect(() => {
+          MultiFactorAuthConfig.buildServerRequest({state} as any);
+        }).to.throw('"MultiFactorConfig.state" must be either "ENABLED" or "DISABLED".');
+      });
+    });
+
+    const invalidFactorIds = [null, NaN, 0, 1, true, false, '', 'phone', {}, _.noop];
+    invalidFactorIds.forEach((factorIds) => {
+      it('should throw on non-array MultiFactorConfig.factorIds:' + JSON.stringify(factorIds), () => {
+        expect(() => {
+          MultiFactorAuthConfig.buildServerRequest({state: 'ENABLED', factorIds} as any);
+        }).to.throw('"MultiFactorConfig.factorIds" must be an array of valid "AuthFactorTypes".');
+      });
+    });
+
+    it('should throw on unsupported factor ID', () => {
+      expect(() => {
+        MultiFactorAuthConfig.buildServerRequest({state: 'ENABLED', factorIds: ['totp']} as any);
+      }).to.throw('"totp" is not a valid "AuthFactorType".');
+    });
+  });
+});
+
+describe('validateTestPhoneNumbers()', () => {
+  it('should not throw on valid test phone numbers', () => {
+    expect(() => validateTestPhoneNumbers({
+      '+16505551234': '019287',
+      '+16505550676': '985235',
+    })).not.to.throw();
+  });
+
+  const nonObjects = [null, NaN, 0, 1, true, false, '', 'a', [], [1, 'a'], _.noop];
+  nonObjects.forEach((testPhoneNumbers) => {
+    it('should throw on non-object test phone numbers:' + JSON.stringify(testPhoneNumbers), () => {
+      expect(() => validateTestPhoneNumbers(testPhoneNumbers as any))
+        .to.throw('"testPhoneNumbers" must be a map of phone number / code pairs.');
+    });
+  });
+
+  it('should throw when the maximum number of test phone numbers is exceeded', () => {
+    const testPhoneNumbers: {[phoneNumber: string]: string} = {};
+    for (let i = 0; i < MAXIMUM_TEST_PHONE_NUMBERS + 1; i++) {
+      testPhoneNumbers[`+1650555${1000 + i}`] = '123456';
+    }
+    expect(() => validateTestPhoneNumbers(testPhoneNumbers))
+      .to.throw().with.property('code', 'auth/test-phone-number-limit-exceeded');
+  });
+
+  it('should throw on invalid phone number', () => {
+    expect(() => validateTestPhoneNumbers({invalid: '123456'}))
+      .to.throw('"invalid" is not a valid E.164 standard compliant phone number.');
+  });
+
+  const invalidCodes = [null, NaN, 0, 123456, true, '', '12345', '1234567', 'abcdef', {}, _.noop];
+  invalidCodes.forEach((code) => {
+    it('should throw on invalid test code:' + JSON.stringify(code), () => {
+      expect(() => validateTestPhoneNumbers({'+16505551234': code as any}))
+        .to.throw(`"${code}" is not a valid 6 digit code string.`);
+    });
+  });
+});
+
 describe('SAMLConfig', () => {
   const serverRequest: SAMLConfigServerRequest = {
     idpConfig: {
@@ -184,6 +344,9 @@ describe('SAMLConfig', () => {
     spConfig: {
       spEntityId: 'RP_ENTITY_ID',
       callbackUri: 'https://projectId.firebaseapp.com/__/auth/handler',
+      spCertificates: [
+        {x509Certificate: 'SPCERT1', expiresAt: '2030-01-01T00:00:00Z'},
+      ],
     },
     displayName: 'samlProviderName',
     enabled: true,
@@ -234,6 +397,16 @@ describe('SAMLConfig', () => {
       expect(config.x509Certificates).to.deep.equal(['CERT1', 'CERT2']);
     });
 
+    it('should set readonly property spCertificates', () => {
+      expect(config.spCertificates).to.deep.equal(['SPCERT1']);
+    });
+
+    it('should default spCertificates to an empty array', () => {
+      const response = deepCopy(serverResponse);
+      delete response.spConfig.spCertificates;
+      expect(new SAMLConfig(response).spCertificates).to.deep.equal([]);
+    });
+
     it('should set readonly property displayName', () => {
       expect(config.displayName).to.equal('samlProviderName');
     });
@@ -308,6 +481,7 @@ describe('SAMLConfig', () => {
         rpEntityId: 'RP_ENTITY_ID',
         callbackURL: 'https://projectId.firebaseapp.com/__/auth/handler',
         enableRequestSigning: true,
+        spCertificates: ['SPCERT1'],
       });
     });
   });
@@ -340,6 +514,19 @@ describe('SAMLConfig', () => {
       expect(SAMLConfig.buildServerRequest(updateRequest, true)).to.deep.equal(updateServerRequest);
     });
 
+    it('should include the IdP config when only request signing is updated', () => {
+      expect(SAMLConfig.buildServerRequest({enableRequestSigning: false}, true)).to.deep.equal({
+        idpConfig: {
+          idpEntityId: undefined,
+          ssoUrl: undefined,
+          idpCertificates: undefined,
+          signRequest: false,
+        },
+        displayName: undefined,
+        enabled: undefined,
+      });
+    });
+
     it('should throw on invalid input', () => {
       const invalidClientRequest = deepCopy(clientRequest);
       invalidClientRequest.providerId = 'oidc.provider';
@@ -503,6 +690,72 @@ describe('SAMLConfig', () => {
       });
     });
   });
+
+  describe('fromIdpMetadataXml()', () => {
+    const metadata = '<md:EntityDescriptor xmlns:md="urn:oasis:names:tc:SAML:2.0:metadata" entityID="IDP_ENTITY_ID">' +
+      '<md:IDPSSODescriptor><md:KeyDescriptor><ds:KeyInfo xmlns:ds="http://www.w3.org/2000/09/xmldsig#">' +
+      '<ds:X509Data><ds:X509Certificate>Q0VSVDE=</ds:X509Certificate></ds:X509Data></ds:KeyInfo>' +
+      '</md:KeyDescriptor><md:SingleSignOnService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST" ' +
+      'Location="https://example.com/login"/></md:IDPSSODescriptor></md:EntityDescriptor>';
+
+    it('should build the request from the IdP metadata', () => {
+      expect(SAMLConfig.fromIdpMetadataXml(metadata, 'saml.provider')).to.deep.equal({
+        providerId: 'saml.provider',
+        idpEntityId: 'IDP_ENTITY_ID',
+        ssoURL: 'https://example.com/login',
+        x509Certificates: ['-----BEGIN CERTIFICATE-----\nQ0VSVDE=\n-----END CERTIFICATE-----\n'],
+      });
+    });
+
+    const invalidProviderIds = [null, NaN, 0, 1, true, false, '', 'oidc.provider', [], {}, _.noop];
+    invalidProviderIds.forEach((providerId) => {
+      it('should throw on invalid providerId:' + JSON.stringify(providerId), () => {
+        expect(() => SAMLConfig.fromIdpMetadataXml(metadata, providerId as any))
+          .to.throw('"SAMLAuthProviderConfig.providerId" must be a valid non-empty string prefixed with "saml.".');
+      });
+    });
+
+    it('should throw given an invalid single sign-on URL', () => {
+      const invalidMetadata = metadata.replace('https://example.com/login', 'login');
+      expect(() => SAMLConfig.fromIdpMetadataXml(invalidMetadata, 'saml.provider'))
+        .to.throw('"SAMLAuthProviderConfig.ssoURL" must be a valid URL string.');
+    });
+
+    it('should throw given invalid metadata', () => {
+      expect(() => SAMLConfig.fromIdpMetadataXml('<a/>', 'saml.provider'))
+        .to.throw().with.property('code', 'auth/invalid-saml-metadata');
+    });
+  });
+
+  describe('toSpMetadataXml()', () => {
+    it('should build the SP metadata of the configuration', () => {
+      const xml = SAMLConfig.toSpMetadataXml(config);
+      expect(xml).to.contain('entityID="RP_ENTITY_ID"');
+      expect(xml).to.contain('AuthnRequestsSigned="true"');
+      expect(xml).to.contain('Location="https://projectId.firebaseapp.com/__/auth/handler"');
+      expect(xml).to.contain('<ds:X509Certificate>SPCERT1</ds:X509Certificate>');
+    });
+
+    it('should throw given a configuration signing its requests without SP certificates', () => {
+      expect(() => SAMLConfig.toSpMetadataXml(_.omit(config.toJSON(), 'spCertificates') as SAMLAuthProviderConfig))
+        .to.throw().with.property('code', 'auth/invalid-config');
+    });
+
+    it('should throw given a non-object', () => {
+      expect(() => SAMLConfig.toSpMetadataXml(null))
+        .to.throw('"SAMLAuthProviderConfig" must be a valid non-null object.');
+    });
+
+    it('should throw given a configuration without RP entity ID', () => {
+      expect(() => SAMLConfig.toSpMetadataXml(_.omit(config.toJSON(), 'rpEntityId') as SAMLAuthProviderConfig))
+        .to.throw('"SAMLAuthProviderConfig.rpEntityId" must be a valid non-empty string.');
+    });
+
+    it('should throw given a configuration without callback URL', () => {
+      expect(() => SAMLConfig.toSpMetadataXml(_.omit(config.toJSON(), 'callbackURL') as SAMLAuthProviderConfig))
+        .to.throw('"SAMLAuthProviderConfig.callbackURL" must be a valid URL string.');
+    });
+  });
 });
 
 describe('OIDCConfig', () => {
@@ -17,10 +17,12 @@
 'use strict';
 
 import * as _ from 'lodash';
+import * as crypto from 'crypto';
 import * as chai from 'chai';
 import * as sinon from 'sinon';
 import * as sinonChai from 'sinon-chai';
 import * as chaiAsPromised from 'chai-as-promised';
+import * as jwt from 'jsonwebtoken';
 
 import * as utils from '../utils';
 import * as mocks from '../../resources/mocks';
@@ -36,12 +38,16 @@ import {AuthClientErrorCode, FirebaseAuthError} from '../../../src/utils/error';
 
 import * as validator from '../../../src/utils/validator';
 import { FirebaseTokenVerifier } from '../../../src/auth/token-verifier';
+import { ProviderIdTokenVerifier } from '../../../src/auth/provider-token-verifier';
 import {
   AuthProviderConfigFilter, OIDCConfig, SAMLConfig,
   OIDCConfigServerResponse, SAMLConfigServerResponse,
 } from '../../../src/auth/auth-config';
 import {deepCopy} from '../../../src/utils/deep-copy';
 import { TenantManager } from '../../../src/auth/tenant-manager';
+import { Tenant } from '../../../src/auth/tenant';
+import { ProjectConfigManager } from '../../../src/auth/project-config-manager';
+import {InMemorySessionStore} from '../../../src/auth/session-registry';
 
 chai.should();
 chai.use(sinonChai);
@@ -325,6 +331,20 @@ AUTH_CONFIGS.forEach((testConfig) => {
           expect(tenantManager1).to.equal(tenantManager2);
         });
       });
+
+      describe('projectConfigManager()', () => {
+        it('should return a ProjectConfigManager with the expected attributes', () => {
+          const projectConfigManager1 = (auth as Auth).projectConfigManager();
+          const projectConfigManager2 = new ProjectConfigManager(mockApp);
+          expect(projectConfigManager1).to.deep.equal(projectConfigManager2);
+        });
+
+        it('should return the same cached instance', () => {
+          const projectConfigManager1 = (auth as Auth).projectConfigManager();
+          const projectConfigManager2 = (auth as Auth).projectConfigManager();
+          expect(projectConfigManager1).to.equal(projectConfigManager2);
+        });
+      });
     }
 
     describe('createCustomToken()', () => {
@@ -367,6 +387,16 @@ AUTH_CONFIGS.forEach((testConfig) => {
             });
         });
 
+        it('should forward the options to the token generator\'s createCustomToken() method', () => {
+          const options = {expiresIn: 60 * 1000, keyId: 'KEY_ID'};
+          return auth.createCustomToken(mocks.uid, undefined, options)
+            .then(() => {
+              expect(spy)
+                .to.have.been.calledOnce
+                .and.calledWith(mocks.uid, undefined, options);
+            });
+        });
+
         it('should be fulfilled given an app which returns null access tokens', () => {
           // createCustomToken() does not rely on an access token and therefore works in this scenario.
           return nullAccessTokenAuth.createCustomToken(mocks.uid, mocks.developerClaims)
@@ -387,6 +417,38 @@ AUTH_CONFIGS.forEach((testConfig) => {
       }
     });
 
+    describe('verifyCustomToken()', () => {
+      let stub: sinon.SinonStub;
+      afterEach(() => {
+        if (stub) {
+          stub.restore();
+          stub = undefined;
+        }
+      });
+
+      it('should forward on the call to the token generator\'s verifyCustomToken() method', () => {
+        const decodedToken = {uid: mocks.uid};
+        stub = sinon.stub(FirebaseTokenGenerator.prototype, 'verifyCustomToken')
+          .resolves(decodedToken);
+        return auth.verifyCustomToken('CUSTOM_TOKEN')
+          .then((result) => {
+            expect(result).to.deep.equal(decodedToken);
+            expect(stub).to.have.been.calledOnce.and.calledWith('CUSTOM_TOKEN');
+          });
+      });
+
+      if (testConfig.Auth !== TenantAwareAuth) {
+        it('should be fulfilled with the claims of a custom token created by the same service account', () => {
+          return auth.createCustomToken(mocks.uid, mocks.developerClaims)
+            .then((token) => auth.verifyCustomToken(token))
+            .then((decodedToken) => {
+              expect(decodedToken.uid).to.equal(mocks.uid);
+              expect(decodedToken.claims).to.deep.equal(mocks.developerClaims);
+            });
+        });
+      }
+    });
+
     it('verifyIdToken() should throw when project ID is not specified', () => {
       const mockCredentialAuth = testConfig.init(mocks.mockCredentialApp());
       const expected = 'Must initialize app with a cert credential or set your Firebase project ID ' +
@@ -396,6 +458,23 @@ AUTH_CONFIGS.forEach((testConfig) => {
       }).to.throw(expected);
     });
 
+    it('should look up the token public keys in the publicKeyCache app option', () => {
+      const cache = {
+        get: sinon.stub().resolves({[mocks.certificateObject.private_key_id]: mocks.keyPairs[0].public}),
+        set: sinon.stub().resolves(),
+      };
+      const cachedKeysAuth = testConfig.init(
+        mocks.appWithOptions(_.assign({}, mocks.appOptions, {publicKeyCache: cache})));
+      // The token may still be rejected for not belonging to the tenant.
+      return cachedKeysAuth.verifyIdToken(mocks.generateIdToken())
+        .catch(() => undefined)
+        .then(() => {
+          expect(cache.get).to.have.been.calledOnce.and.calledWith(
+            'https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com');
+          expect(cache.set).to.not.have.been.called;
+        });
+    });
+
     it('verifySessionCookie() should throw when project ID is not specified', () => {
       const mockCredentialAuth = testConfig.init(mocks.mockCredentialApp());
       const expected = 'Must initialize app with a cert credential or set your Firebase project ID ' +
@@ -430,6 +509,7 @@ AUTH_CONFIGS.forEach((testConfig) => {
       afterEach(() => {
         _.forEach(stubs, (s) => s.restore());
         clock.restore();
+        delete process.env.FIREBASE_AUTH_EMULATOR_HOST;
       });
 
       it('should forward on the call to the token generator\'s verifyIdToken() method', () => {
@@ -440,10 +520,19 @@ AUTH_CONFIGS.forEach((testConfig) => {
           // Confirm getUser never called.
           expect(getUserStub).not.to.have.been.called;
           expect(result).to.deep.equal(decodedIdToken);
-          expect(stub).to.have.been.calledOnce.and.calledWith(mockIdToken);
+          expect(stub).to.have.been.calledOnce.and.calledWith(mockIdToken, false);
         });
       });
 
+      it('should verify the ID token as an emulator token when FIREBASE_AUTH_EMULATOR_HOST is set', () => {
+        process.env.FIREBASE_AUTH_EMULATOR_HOST = 'localhost:9099';
+        return auth.verifyIdToken(mockIdToken)
+          .then((result) => {
+            expect(result).to.deep.equal(decodedIdToken);
+            expect(stub).to.have.been.calledOnce.and.calledWith(mockIdToken, true);
+          });
+      });
+
       it('should reject when underlying idTokenVerifier.verifyJWT() rejects with expected error', () =>  {
         const expectedError = new FirebaseAuthError(
           AuthClientErrorCode.INVALID_ARGUMENT, 'Decoding Firebase ID token failed');
@@ -671,6 +760,7 @@ AUTH_CONFIGS.forEach((testConfig) => {
       afterEach(() => {
         _.forEach(stubs, (s) => s.restore());
         clock.restore();
+        delete process.env.FIREBASE_AUTH_EMULATOR_HOST;
       });
 
       it('should forward on the call to the token verifier\'s verifySessionCookie() method', () => {
@@ -681,10 +771,19 @@ AUTH_CONFIGS.forEach((testConfig) => {
           // Confirm getUser never called.
           expect(getUserStub).not.to.have.been.called;
           expect(result).to.deep.equal(decodedSessionCookie);
-          expect(stub).to.have.been.calledOnce.and.calledWith(mockSessionCookie);
+          expect(stub).to.have.been.calledOnce.and.calledWith(mockSessionCookie, false);
         });
       });
 
+      it('should verify the session cookie as an emulator token when FIREBASE_AUTH_EMULATOR_HOST is set', () => {
+        process.env.FIREBASE_AUTH_EMULATOR_HOST = 'localhost:9099';
+        return auth.verifySessionCookie(mockSessionCookie)
+          .then((result) => {
+            expect(result).to.deep.equal(decodedSessionCookie);
+            expect(stub).to.have.been.calledOnce.and.calledWith(mockSessionCookie, true);
+          });
+      });
+
       it('should reject when underlying sessionCookieVerifier.verifyJWT() rejects with expected error', () =>  {
         const expectedError = new FirebaseAuthError(
           AuthClientErrorCode.INVALID_ARGUMENT, 'Decoding Firebase session cookie failed');
@@ -1125,6 +1224,113 @@ AUTH_CONFIGS.forEach((testConfig) => {
       });
     });
 
+    describe('getUsers()', () => {
+      // Stubs used to simulate underlying api calls.
+      let stubs: sinon.SinonStub[] = [];
+      afterEach(() => {
+        _.forEach(stubs, (stub) => stub.restore());
+        stubs = [];
+      });
+
+      it('should be rejected given a non-array parameter', () => {
+        return (auth as any).getUsers('invalid')
+          .should.eventually.be.rejected.and.have.property('code', 'auth/argument-error');
+      });
+
+      it('should be rejected given an invalid identifier', () => {
+        return auth.getUsers([{uid: 'valid'}, {email: 'invalid'}])
+          .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-email');
+      });
+
+      it('should be rejected given an app which returns null access tokens', () => {
+        return nullAccessTokenAuth.getUsers([{uid: 'uid'}])
+          .should.eventually.be.rejected.and.have.property('code', 'app/invalid-credential');
+      });
+
+      it('should resolve with an empty result given no identifiers', () => {
+        const stub = sinon.stub(testConfig.RequestHandler.prototype, 'getAccountInfoByIdentifiers');
+        stubs.push(stub);
+        return auth.getUsers([])
+          .then((result) => {
+            expect(result).to.deep.equal({users: [], notFound: []});
+            expect(stub).not.to.have.been.called;
+          });
+      });
+
+      it('should resolve with the found users and the identifiers not found', () => {
+        const stub = sinon.stub(testConfig.RequestHandler.prototype, 'getAccountInfoByIdentifiers')
+          .resolves({
+            users: [
+              {localId: 'uid1'},
+              {localId: 'uid2', email: 'user@example.com'},
+              {localId: 'uid3', phoneNumber: '+15555550001'},
+            ],
+          });
+        stubs.push(stub);
+        const identifiers = [
+          {uid: 'uid1'},
+          {email: 'USER@example.com'},
+          {phoneNumber: '+15555550001'},
+          {uid: 'uid4'},
+          {email: 'missing@example.com'},
+          {phoneNumber: '+15555550002'},
+        ];
+        return auth.getUsers(identifiers)
+          .then((result) => {
+            expect(stub).to.have.been.calledOnce.and.calledWith(identifiers);
+            expect(result.users).to.deep.equal([
+              new UserRecord({localId: 'uid1'}),
+              new UserRecord({localId: 'uid2', email: 'user@example.com'}),
+              new UserRecord({localId: 'uid3', phoneNumber: '+15555550001'}),
+            ]);
+            expect(result.notFound).to.deep.equal([
+              {uid: 'uid4'},
+              {email: 'missing@example.com'},
+              {phoneNumber: '+15555550002'},
+            ]);
+          });
+      });
+
+      it('should look up more than 100 identifiers in batches of 100', () => {
+        const identifiers: Array<{uid: string}> = [];
+        for (let i = 0; i < 250; i++) {
+          identifiers.push({uid: `uid${i}`});
+        }
+        const stub = sinon.stub(testConfig.RequestHandler.prototype, 'getAccountInfoByIdentifiers')
+          .callsFake((batch: Array<{uid: string}>) => {
+            // Only users with even indices exist.
+            const users = batch
+              .filter((id) => parseInt(id.uid.substring(3), 10) % 2 === 0)
+              .map((id) => ({localId: id.uid}));
+            return Promise.resolve({users});
+          });
+        stubs.push(stub);
+        return auth.getUsers(identifiers)
+          .then((result) => {
+            expect(stub).to.have.been.calledThrice;
+            expect(stub.getCall(0).args[0]).to.deep.equal(identifiers.slice(0, 100));
+            expect(stub.getCall(1).args[0]).to.deep.equal(identifiers.slice(100, 200));
+            expect(stub.getCall(2).args[0]).to.deep.equal(identifiers.slice(200));
+            expect(result.users.length).to.equal(125);
+            expect(result.notFound.length).to.equal(125);
+            expect(result.notFound[0]).to.deep.equal({uid: 'uid1'});
+          });
+      });
+
+      it('should throw an error when the backend returns an error', () => {
+        const expectedError = new FirebaseAuthError(AuthClientErrorCode.INTERNAL_ERROR);
+        const stub = sinon.stub(testConfig.RequestHandler.prototype, 'getAccountInfoByIdentifiers')
+          .rejects(expectedError);
+        stubs.push(stub);
+        return auth.getUsers([{uid: 'uid'}])
+          .then(() => {
+            throw new Error('Unexpected success');
+          }, (error) => {
+            expect(error).to.equal(expectedError);
+          });
+      });
+    });
+
     describe('deleteUser()', () => {
       const uid = 'abcdefghijklmnopqrstuvwxyz';
       const expectedDeleteAccountResult = {kind: 'identitytoolkit#DeleteAccountResponse'};
@@ -1202,6 +1408,123 @@ AUTH_CONFIGS.forEach((testConfig) => {
       });
     });
 
+    describe('deleteUsers()', () => {
+      // Stubs used to simulate underlying api calls.
+      let stubs: sinon.SinonStub[] = [];
+      afterEach(() => {
+        _.forEach(stubs, (stub) => stub.restore());
+        stubs = [];
+      });
+
+      it('should be rejected given a non-array parameter', () => {
+        return (auth as any).deleteUsers('uid')
+          .should.eventually.be.rejected.and.have.property('code', 'auth/argument-error');
+      });
+
+      it('should be rejected given an invalid uid', () => {
+        return auth.deleteUsers(['uid', ''])
+          .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-uid');
+      });
+
+      it('should not delete any batch given an invalid uid in a later batch', () => {
+        const uids: string[] = [];
+        for (let i = 0; i < 1500; i++) {
+          uids.push(`uid${i}`);
+        }
+        uids[1200] = '';
+        const stub = sinon.stub(testConfig.RequestHandler.prototype, 'deleteAccounts').resolves({});
+        stubs.push(stub);
+        return auth.deleteUsers(uids)
+          .then(() => {
+            throw new Error('Unexpected success');
+          }, (error) => {
+            expect(error).to.have.property('code', 'auth/invalid-uid');
+            expect(stub).not.to.have.been.called;
+          });
+      });
+
+      it('should be rejected given an app which returns null access tokens', () => {
+        return nullAccessTokenAuth.deleteUsers(['uid'])
+          .should.eventually.be.rejected.and.have.property('code', 'app/invalid-credential');
+      });
+
+      it('should resolve with an empty result given no uids', () => {
+        const stub = sinon.stub(testConfig.RequestHandler.prototype, 'deleteAccounts');
+        stubs.push(stub);
+        return auth.deleteUsers([])
+          .then((result) => {
+            expect(result).to.deep.equal({failureCount: 0, successCount: 0, errors: []});
+            expect(stub).not.to.have.been.called;
+          });
+      });
+
+      it('should resolve with the success count when all users are deleted', () => {
+        const stub = sinon.stub(testConfig.RequestHandler.prototype, 'deleteAccounts')
+          .resolves({});
+        stubs.push(stub);
+        return auth.deleteUsers(['uid1', 'uid2', 'uid3'])
+          .then((result) => {
+            expect(stub).to.have.been.calledOnce.and.calledWith(['uid1', 'uid2', 'uid3']);
+            expect(result).to.deep.equal({failureCount: 0, successCount: 3, errors: []});
+          });
+      });
+
+      it('should resolve with per-index errors for failed deletions', () => {
+        const stub = sinon.stub(testConfig.RequestHandler.prototype, 'deleteAccounts')
+          .resolves({
+            errors: [
+              {index: 1, localId: 'uid2', message: 'NOT_DISABLED : Disable the account before batch deletion.'},
+            ],
+          });
+        stubs.push(stub);
+        return auth.deleteUsers(['uid1', 'uid2', 'uid3'])
+          .then((result) => {
+            expect(result.successCount).to.equal(2);
+            expect(result.failureCount).to.equal(1);
+            expect(result.errors.length).to.equal(1);
+            expect(result.errors[0].index).to.equal(1);
+            expect(result.errors[0].error).to.have.property('code', 'auth/user-not-disabled');
+            expect(result.errors[0].error.message).to.equal('Disable the account before batch deletion.');
+          });
+      });
+
+      it('should delete more than 1000 users in batches and map error indices', () => {
+        const uids: string[] = [];
+        for (let i = 0; i < 2500; i++) {
+          uids.push(`uid${i}`);
+        }
+        const stub = sinon.stub(testConfig.RequestHandler.prototype, 'deleteAccounts')
+          .callsFake((batch: string[]) => {
+            // Fail the second entry of each batch.
+            return Promise.resolve({errors: [{index: 1, localId: batch[1], message: 'INTERNAL_ERROR'}]});
+          });
+        stubs.push(stub);
+        return auth.deleteUsers(uids)
+          .then((result) => {
+            expect(stub).to.have.been.calledThrice;
+            expect(stub.getCall(0).args[0]).to.deep.equal(uids.slice(0, 1000));
+            expect(stub.getCall(1).args[0]).to.deep.equal(uids.slice(1000, 2000));
+            expect(stub.getCall(2).args[0]).to.deep.equal(uids.slice(2000));
+            expect(result.successCount).to.equal(2497);
+            expect(result.failureCount).to.equal(3);
+            expect(result.errors.map((e) => e.index)).to.deep.equal([1, 1001, 2001]);
+          });
+      });
+
+      it('should throw an error when the backend returns an error', () => {
+        const expectedError = new FirebaseAuthError(AuthClientErrorCode.INTERNAL_ERROR);
+        const stub = sinon.stub(testConfig.RequestHandler.prototype, 'deleteAccounts')
+          .rejects(expectedError);
+        stubs.push(stub);
+        return auth.deleteUsers(['uid'])
+          .then(() => {
+            throw new Error('Unexpected success');
+          }, (error) => {
+            expect(error).to.equal(expectedError);
+          });
+      });
+    });
+
     describe('createUser()', () => {
       const uid = 'abcdefghijklmnopqrstuvwxyz';
       const tenantId = testConfig.supportsTenantManagement ? undefined : TENANT_ID;
@@ -1572,6 +1895,183 @@ AUTH_CONFIGS.forEach((testConfig) => {
             expect(error).to.equal(expectedError);
           });
       });
+
+      it('should be rejected locally given a reserved claim', () => {
+        const setCustomUserClaimsStub = sinon
+          .stub(testConfig.RequestHandler.prototype, 'setCustomUserClaims')
+          .resolves(uid);
+        stubs.push(setCustomUserClaimsStub);
+        return auth.setCustomUserClaims(uid, {admin: true, sub: 'subject'})
+          .should.eventually.be.rejected.and.have.property(
+            'message', '"customClaims.sub" is a reserved claim and cannot be specified.')
+          .then(() => {
+            expect(setCustomUserClaimsStub).to.not.have.been.called;
+          });
+      });
+
+      it('should be rejected locally given claims which cannot be serialized', () => {
+        return auth.setCustomUserClaims(uid, {roles: [NaN]})
+          .should.eventually.be.rejected.and.have.property(
+            'message', '"customClaims.roles[0]" must be a finite number.');
+      });
+
+      describe('with a custom claims validator', () => {
+        afterEach(() => {
+          auth.setCustomClaimsValidator(null);
+        });
+
+        it('should run the validator before setting the claims', () => {
+          const claimsValidator = sinon.spy();
+          const setCustomUserClaimsStub = sinon
+            .stub(testConfig.RequestHandler.prototype, 'setCustomUserClaims')
+            .resolves(uid);
+          stubs.push(setCustomUserClaimsStub);
+          auth.setCustomClaimsValidator(claimsValidator);
+          return auth.setCustomUserClaims(uid, customClaims)
+            .then(() => {
+              expect(claimsValidator).to.have.been.calledOnce.and.calledWith(customClaims);
+              expect(claimsValidator).to.have.been.calledBefore(setCustomUserClaimsStub);
+              expect(setCustomUserClaimsStub).to.have.been.calledOnce.and.calledWith(uid, customClaims);
+            });
+        });
+
+        it('should not set the claims rejected by the validator', () => {
+          const setCustomUserClaimsStub = sinon
+            .stub(testConfig.RequestHandler.prototype, 'setCustomUserClaims')
+            .resolves(uid);
+          stubs.push(setCustomUserClaimsStub);
+          auth.setCustomClaimsValidator(() => Promise.reject(new Error('"customClaims.groupId" is unknown.')));
+          return auth.setCustomUserClaims(uid, customClaims)
+            .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-claims')
+            .then(() => {
+              expect(setCustomUserClaimsStub).to.not.have.been.called;
+            });
+        });
+
+        it('should not run the validator when deleting the claims', () => {
+          const claimsValidator = sinon.spy();
+          stubs.push(sinon.stub(testConfig.RequestHandler.prototype, 'setCustomUserClaims').resolves(uid));
+          auth.setCustomClaimsValidator(claimsValidator);
+          return auth.setCustomUserClaims(uid, null)
+            .then(() => {
+              expect(claimsValidator).to.not.have.been.called;
+            });
+        });
+
+        const invalidValidators: any[] = [undefined, 0, true, 'validator', {}];
+        invalidValidators.forEach((claimsValidator) => {
+          it('should throw given an invalid validator: ' + JSON.stringify(claimsValidator), () => {
+            expect(() => auth.setCustomClaimsValidator(claimsValidator))
+              .to.throw('The custom claims validator must be a function or null.');
+          });
+        });
+      });
+    });
+
+    describe('updateCustomUserClaims()', () => {
+      const uid = 'abcdefghijklmnopqrstuvwxyz';
+      const getAccountInfoResponse = (customClaims?: object) => ({
+        users: [{
+          localId: uid,
+          customAttributes: customClaims ? JSON.stringify(customClaims) : undefined,
+        }],
+      });
+      let stubs: sinon.SinonStub[] = [];
+      afterEach(() => {
+        _.forEach(stubs, (stub) => stub.restore());
+        stubs = [];
+      });
+
+      it('should merge the claims into the current claims', () => {
+        stubs.push(sinon.stub(testConfig.RequestHandler.prototype, 'getAccountInfoByUid')
+          .resolves(getAccountInfoResponse({admin: true, legacy: 1})));
+        const setCustomUserClaimsStub = sinon
+          .stub(testConfig.RequestHandler.prototype, 'setCustomUserClaims')
+          .resolves(uid);
+        stubs.push(setCustomUserClaimsStub);
+        return auth.updateCustomUserClaims(uid, {groupId: '123', legacy: undefined})
+          .then((claims) => {
+            expect(claims).to.deep.equal({admin: true, groupId: '123'});
+            expect(setCustomUserClaimsStub).to.have.been.calledOnce
+              .and.calledWith(uid, {admin: true, groupId: '123'});
+          });
+      });
+
+      it('should apply an updater function to the claims of a user without claims', () => {
+        stubs.push(sinon.stub(testConfig.RequestHandler.prototype, 'getAccountInfoByUid')
+          .resolves(getAccountInfoResponse()));
+        const setCustomUserClaimsStub = sinon
+          .stub(testConfig.RequestHandler.prototype, 'setCustomUserClaims')
+          .resolves(uid);
+        stubs.push(setCustomUserClaimsStub);
+        const updater = sinon.spy((claims: any) => ({...claims, level: 1}));
+        return auth.updateCustomUserClaims(uid, updater)
+          .then((claims) => {
+            expect(updater).to.have.been.calledOnce.and.calledWith({});
+            expect(claims).to.deep.equal({level: 1});
+            expect(setCustomUserClaimsStub).to.have.been.calledOnce.and.calledWith(uid, {level: 1});
+          });
+      });
+
+      it('should not write the claims when they are unchanged', () => {
+        const getAccountInfoStub = sinon.stub(testConfig.RequestHandler.prototype, 'getAccountInfoByUid')
+          .resolves(getAccountInfoResponse({admin: true}));
+        stubs.push(getAccountInfoStub);
+        const setCustomUserClaimsStub = sinon.stub(testConfig.RequestHandler.prototype, 'setCustomUserClaims');
+        stubs.push(setCustomUserClaimsStub);
+        return auth.updateCustomUserClaims(uid, {admin: true})
+          .then((claims) => {
+            expect(claims).to.deep.equal({admin: true});
+            expect(getAccountInfoStub).to.have.been.calledOnce;
+            expect(setCustomUserClaimsStub).to.not.have.been.called;
+          });
+      });
+
+      it('should retry the update when the claims are modified concurrently', () => {
+        const getAccountInfoStub = sinon.stub(testConfig.RequestHandler.prototype, 'getAccountInfoByUid');
+        getAccountInfoStub.onCall(0).resolves(getAccountInfoResponse({admin: true}));
+        // Another service sets the "groupId" claim before the claims are written.
+        getAccountInfoStub.resolves(getAccountInfoResponse({admin: true, groupId: '123'}));
+        stubs.push(getAccountInfoStub);
+        const setCustomUserClaimsStub = sinon
+          .stub(testConfig.RequestHandler.prototype, 'setCustomUserClaims')
+          .resolves(uid);
+        stubs.push(setCustomUserClaimsStub);
+        return auth.updateCustomUserClaims(uid, {level: 1})
+          .then((claims) => {
+            expect(claims).to.deep.equal({admin: true, groupId: '123', level: 1});
+            expect(getAccountInfoStub).to.have.callCount(4);
+            expect(setCustomUserClaimsStub).to.have.been.calledOnce
+              .and.calledWith(uid, {admin: true, groupId: '123', level: 1});
+          });
+      });
+
+      it('should be rejected when the retries are exhausted', () => {
+        let version = 0;
+        stubs.push(sinon.stub(testConfig.RequestHandler.prototype, 'getAccountInfoByUid')
+          .callsFake(() => Promise.resolve(getAccountInfoResponse({version: version++}))));
+        const setCustomUserClaimsStub = sinon.stub(testConfig.RequestHandler.prototype, 'setCustomUserClaims');
+        stubs.push(setCustomUserClaimsStub);
+        return auth.updateCustomUserClaims(uid, {level: 1}, {maxRetries: 1})
+          .should.eventually.be.rejected.and.have.property('code', 'auth/claims-update-conflict')
+          .then(() => {
+            expect(version).to.equal(4);
+            expect(setCustomUserClaimsStub).to.not.have.been.called;
+          });
+      });
+
+      it('should be rejected given invalid options', () => {
+        return auth.updateCustomUserClaims(uid, {level: 1}, {maxRetries: -1})
+          .should.eventually.be.rejected.and.have.property('code', 'auth/argument-error');
+      });
+
+      it('should be rejected when the user cannot be looked up', () => {
+        const expectedError = new FirebaseAuthError(AuthClientErrorCode.USER_NOT_FOUND);
+        stubs.push(sinon.stub(testConfig.RequestHandler.prototype, 'getAccountInfoByUid')
+          .rejects(expectedError));
+        return auth.updateCustomUserClaims(uid, {level: 1})
+          .should.eventually.be.rejected.and.equal(expectedError);
+      });
     });
 
     describe('listUsers()', () => {
@@ -1719,21 +2219,309 @@ AUTH_CONFIGS.forEach((testConfig) => {
       });
     });
 
-    describe('revokeRefreshTokens()', () => {
-      const uid = 'abcdefghijklmnopqrstuvwxyz';
-      const expectedError = new FirebaseAuthError(AuthClientErrorCode.USER_NOT_FOUND);
-      // Stubs used to simulate underlying api calls.
+    describe('iterateUsers()', () => {
+      const firstPageResponse: any = {
+        users: [
+          {localId: 'UID1'},
+          {localId: 'UID2'},
+        ],
+        nextPageToken: 'NEXT_PAGE_TOKEN',
+      };
+      const lastPageResponse: any = {
+        users: [
+          {localId: 'UID3'},
+        ],
+      };
+      const expectedUsers = [
+        new UserRecord({localId: 'UID1'}),
+        new UserRecord({localId: 'UID2'}),
+        new UserRecord({localId: 'UID3'}),
+      ];
       let stubs: sinon.SinonStub[] = [];
-      beforeEach(() => {
-        sinon.spy(validator, 'isUid');
-      });
+
       afterEach(() => {
-        (validator.isUid as any).restore();
         _.forEach(stubs, (stub) => stub.restore());
         stubs = [];
       });
 
-      it('should be rejected given no uid', () => {
+      it('should iterate over all the pages of users', () => {
+        const downloadAccountStub = sinon.stub(testConfig.RequestHandler.prototype, 'downloadAccount');
+        downloadAccountStub.onFirstCall().resolves(firstPageResponse);
+        downloadAccountStub.onSecondCall().resolves(lastPageResponse);
+        stubs.push(downloadAccountStub);
+        return mocks.collectAsyncIterable(auth.iterateUsers({pageSize: 2}))
+          .then((users) => {
+            expect(users).to.deep.equal(expectedUsers);
+            expect(downloadAccountStub).to.have.been.calledTwice;
+            expect(downloadAccountStub.firstCall).to.have.been.calledWith(2, undefined);
+            expect(downloadAccountStub.secondCall).to.have.been.calledWith(2, 'NEXT_PAGE_TOKEN');
+          });
+      });
+
+      it('should use the default page size when no options are provided', () => {
+        const downloadAccountStub = sinon.stub(testConfig.RequestHandler.prototype, 'downloadAccount')
+          .resolves(lastPageResponse);
+        stubs.push(downloadAccountStub);
+        return mocks.collectAsyncIterable(auth.iterateUsers())
+          .then((users) => {
+            expect(users).to.deep.equal([expectedUsers[2]]);
+            expect(downloadAccountStub).to.have.been.calledOnce.and.calledWith(undefined, undefined);
+          });
+      });
+
+      it('should not fetch the next page before the current page is consumed', () => {
+        const downloadAccountStub = sinon.stub(testConfig.RequestHandler.prototype, 'downloadAccount')
+          .resolves(firstPageResponse);
+        stubs.push(downloadAccountStub);
+        const iterator = auth.iterateUsers()[Symbol.asyncIterator]();
+        return iterator.next()
+          .then((result) => {
+            expect(result.value).to.deep.equal(expectedUsers[0]);
+            return iterator.next();
+          })
+          .then(() => {
+            expect(downloadAccountStub).to.have.been.calledOnce;
+          });
+      });
+
+      it('should be rejected when the underlying list operation fails', () => {
+        const expectedError = new FirebaseAuthError(AuthClientErrorCode.INTERNAL_ERROR);
+        const downloadAccountStub = sinon.stub(testConfig.RequestHandler.prototype, 'downloadAccount')
+          .rejects(expectedError);
+        stubs.push(downloadAccountStub);
+        return mocks.collectAsyncIterable(auth.iterateUsers())
+          .should.eventually.be.rejected.and.equal(expectedError);
+      });
+    });
+
+    describe('queryUsers()', () => {
+      const firstPageResponse: any = {
+        users: [
+          {localId: 'UID1', email: 'user1@example.com', disabled: true},
+          {localId: 'UID2', email: 'user2@other.com', disabled: true},
+        ],
+        nextPageToken: 'NEXT_PAGE_TOKEN',
+      };
+      const lastPageResponse: any = {
+        users: [
+          {localId: 'UID3', email: 'user3@EXAMPLE.com', disabled: true},
+          {localId: 'UID4', email: 'user4@example.com'},
+        ],
+      };
+      let stubs: sinon.SinonStub[] = [];
+
+      afterEach(() => {
+        _.forEach(stubs, (stub) => stub.restore());
+        stubs = [];
+      });
+
+      it('should be rejected given an invalid filter', () => {
+        return auth.queryUsers({disabled: 'true'} as any)
+          .should.eventually.be.rejected.and.have.property(
+            'message', '"UserQueryFilter.disabled" must be a boolean.');
+      });
+
+      it('should be rejected given invalid options', () => {
+        return auth.queryUsers({disabled: true}, {maxPages: 0})
+          .should.eventually.be.rejected.and.have.property(
+            'message', '"UserQueryOptions.maxPages" must be a positive integer.');
+      });
+
+      it('should scan all the pages of users and resolve with the matching users', () => {
+        const downloadAccountStub = sinon.stub(testConfig.RequestHandler.prototype, 'downloadAccount');
+        downloadAccountStub.onFirstCall().resolves(firstPageResponse);
+        downloadAccountStub.onSecondCall().resolves(lastPageResponse);
+        stubs.push(downloadAccountStub);
+        const progress: any[] = [];
+        return auth.queryUsers({emailDomain: 'example.com', disabled: true}, {
+          pageSize: 2,
+          onProgress: (p) => progress.push(p),
+        })
+          .then((result) => {
+            expect(result).to.deep.equal({
+              users: [
+                new UserRecord(firstPageResponse.users[0]),
+                new UserRecord(lastPageResponse.users[0]),
+              ],
+              scannedCount: 4,
+            });
+            expect(progress).to.deep.equal([
+              {scannedCount: 2, matchedCount: 1, pageToken: 'NEXT_PAGE_TOKEN'},
+              {scannedCount: 4, matchedCount: 2, pageToken: undefined},
+            ]);
+            expect(downloadAccountStub).to.have.been.calledTwice;
+            expect(downloadAccountStub.firstCall).to.have.been.calledWith(2, undefined);
+            expect(downloadAccountStub.secondCall).to.have.been.calledWith(2, 'NEXT_PAGE_TOKEN');
+          });
+      });
+
+      it('should stop after the maximum number of pages and resolve with the page token reached', () => {
+        const downloadAccountStub = sinon.stub(testConfig.RequestHandler.prototype, 'downloadAccount')
+          .resolves(firstPageResponse);
+        stubs.push(downloadAccountStub);
+        return auth.queryUsers({disabled: true}, {maxPages: 1})
+          .then((result) => {
+            expect(result.users.map((user) => user.uid)).to.deep.equal(['UID1', 'UID2']);
+            expect(result.scannedCount).to.equal(2);
+            expect(result.pageToken).to.equal('NEXT_PAGE_TOKEN');
+            expect(downloadAccountStub).to.have.been.calledOnce.and.calledWith(undefined, undefined);
+          });
+      });
+
+      it('should resume the scan from the provided page token', () => {
+        const downloadAccountStub = sinon.stub(testConfig.RequestHandler.prototype, 'downloadAccount')
+          .resolves(lastPageResponse);
+        stubs.push(downloadAccountStub);
+        return auth.queryUsers({disabled: true}, {pageToken: 'NEXT_PAGE_TOKEN'})
+          .then((result) => {
+            expect(result.users.map((user) => user.uid)).to.deep.equal(['UID3']);
+            expect(result).to.not.have.property('pageToken');
+            expect(downloadAccountStub).to.have.been.calledOnce.and.calledWith(undefined, 'NEXT_PAGE_TOKEN');
+          });
+      });
+
+      it('should look the user up instead of scanning given an email', () => {
+        const lookupStub = sinon.stub(testConfig.RequestHandler.prototype, 'getAccountInfoByIdentifiers')
+          .resolves({users: [lastPageResponse.users[1]]});
+        const downloadAccountStub = sinon.stub(testConfig.RequestHandler.prototype, 'downloadAccount');
+        stubs.push(lookupStub, downloadAccountStub);
+        const progress: any[] = [];
+        return auth.queryUsers({email: 'USER4@example.com'}, {onProgress: (p) => progress.push(p)})
+          .then((result) => {
+            expect(result).to.deep.equal({users: [new UserRecord(lastPageResponse.users[1])], scannedCount: 1});
+            expect(progress).to.deep.equal([{scannedCount: 1, matchedCount: 1}]);
+            expect(lookupStub).to.have.been.calledOnce.and.calledWith([{email: 'USER4@example.com'}]);
+            expect(downloadAccountStub).to.not.have.been.called;
+          });
+      });
+
+      it('should apply the rest of the filter to the looked up user', () => {
+        const lookupStub = sinon.stub(testConfig.RequestHandler.prototype, 'getAccountInfoByIdentifiers')
+          .resolves({users: [lastPageResponse.users[1]]});
+        stubs.push(lookupStub);
+        return auth.queryUsers({uid: 'UID4', disabled: true})
+          .then((result) => {
+            expect(result).to.deep.equal({users: [], scannedCount: 1});
+            expect(lookupStub).to.have.been.calledOnce.and.calledWith([{uid: 'UID4'}]);
+          });
+      });
+
+      it('should be rejected when the underlying list operation fails', () => {
+        const expectedError = new FirebaseAuthError(AuthClientErrorCode.INTERNAL_ERROR);
+        const downloadAccountStub = sinon.stub(testConfig.RequestHandler.prototype, 'downloadAccount')
+          .rejects(expectedError);
+        stubs.push(downloadAccountStub);
+        return auth.queryUsers({disabled: true})
+          .should.eventually.be.rejected.and.equal(expectedError);
+      });
+    });
+
+    describe('exportUsers()', () => {
+      const firstPageResponse: any = {
+        users: [{localId: 'UID1'}, {localId: 'UID2'}],
+        nextPageToken: 'NEXT_PAGE_TOKEN',
+      };
+      const lastPageResponse: any = {
+        users: [{localId: 'UID3', passwordHash: 'aGFzaA==', salt: 'c2FsdA=='}],
+      };
+      let stubs: sinon.SinonStub[] = [];
+
+      afterEach(() => {
+        _.forEach(stubs, (stub) => stub.restore());
+        stubs = [];
+      });
+
+      it('should throw given invalid options', () => {
+        expect(() => auth.exportUsers({format: 'XML'} as any))
+          .to.throw('"UserExportOptions.format" must be either "JSON" or "CSV".');
+      });
+
+      it('should export all the pages of users as JSON lines by default', () => {
+        const downloadAccountStub = sinon.stub(testConfig.RequestHandler.prototype, 'downloadAccount');
+        downloadAccountStub.onFirstCall().resolves(firstPageResponse);
+        downloadAccountStub.onSecondCall().resolves(lastPageResponse);
+        stubs.push(downloadAccountStub);
+        return mocks.readStream(auth.exportUsers({pageSize: 2}))
+          .then((data) => {
+            expect(data.split('\n')).to.have.length(4);
+            const records = auth.parseUserExport(data);
+            expect(records.map((record) => record.uid)).to.deep.equal(['UID1', 'UID2', 'UID3']);
+            expect(records[2].passwordHash).to.deep.equal(Buffer.from('hash'));
+            expect(records[2].passwordSalt).to.deep.equal(Buffer.from('salt'));
+            expect(downloadAccountStub.firstCall).to.have.been.calledWith(2, undefined);
+            expect(downloadAccountStub.secondCall).to.have.been.calledWith(2, 'NEXT_PAGE_TOKEN');
+          });
+      });
+
+      it('should export the users as CSV', () => {
+        stubs.push(sinon.stub(testConfig.RequestHandler.prototype, 'downloadAccount')
+          .resolves(lastPageResponse));
+        return mocks.readStream(auth.exportUsers({format: 'CSV'}))
+          .then((data) => {
+            expect(data.split('\n')[0]).to.match(/^uid,email,/);
+            expect(auth.parseUserExport(data, 'CSV').map((record) => record.uid)).to.deep.equal(['UID3']);
+          });
+      });
+
+      it('should emit an error when the underlying list operation fails', () => {
+        const expectedError = new FirebaseAuthError(AuthClientErrorCode.INTERNAL_ERROR);
+        stubs.push(sinon.stub(testConfig.RequestHandler.prototype, 'downloadAccount')
+          .rejects(expectedError));
+        return mocks.readStream(auth.exportUsers())
+          .should.eventually.be.rejected.and.equal(expectedError);
+      });
+
+      if (testConfig.Auth === Auth) {
+        it('should export the users of all tenants after the project users when includeTenants is set', () => {
+          stubs.push(sinon.stub(AuthRequestHandler.prototype, 'downloadAccount')
+            .resolves(lastPageResponse));
+          const listTenantsStub = sinon.stub(TenantManager.prototype, 'listTenants');
+          listTenantsStub.onFirstCall().resolves({
+            tenants: [new Tenant({name: 'projects/project_id/tenants/TENANT-1'})],
+            pageToken: 'NEXT_PAGE_TOKEN',
+          });
+          listTenantsStub.onSecondCall().resolves({
+            tenants: [new Tenant({name: 'projects/project_id/tenants/TENANT-2'})],
+          });
+          stubs.push(listTenantsStub);
+          const tenantDownloadStub = sinon.stub(TenantAwareAuthRequestHandler.prototype, 'downloadAccount');
+          tenantDownloadStub.onFirstCall().resolves({users: [{localId: 'UID4', tenantId: 'TENANT-1'}]});
+          tenantDownloadStub.onSecondCall().resolves({users: [{localId: 'UID5', tenantId: 'TENANT-2'}]});
+          stubs.push(tenantDownloadStub);
+          return mocks.readStream(auth.exportUsers({includeTenants: true}))
+            .then((data) => {
+              const records = auth.parseUserExport(data);
+              expect(records.map((record) => record.uid)).to.deep.equal(['UID3', 'UID4', 'UID5']);
+              const groups = auth.parseUserExportByTenant(data);
+              expect(groups.map((group) => group.tenantId)).to.deep.equal([undefined, 'TENANT-1', 'TENANT-2']);
+              expect(groups.map((group) => group.users.map((record) => record.uid)))
+                .to.deep.equal([['UID3'], ['UID4'], ['UID5']]);
+              expect(listTenantsStub.secondCall).to.have.been.calledWith(undefined, 'NEXT_PAGE_TOKEN');
+            });
+        });
+      } else {
+        it('should throw when includeTenants is set', () => {
+          expect(() => auth.exportUsers({includeTenants: true}))
+            .to.throw('"UserExportOptions.includeTenants" is only supported by the project level Auth instance.');
+        });
+      }
+    });
+
+    describe('revokeRefreshTokens()', () => {
+      const uid = 'abcdefghijklmnopqrstuvwxyz';
+      const expectedError = new FirebaseAuthError(AuthClientErrorCode.USER_NOT_FOUND);
+      // Stubs used to simulate underlying api calls.
+      let stubs: sinon.SinonStub[] = [];
+      beforeEach(() => {
+        sinon.spy(validator, 'isUid');
+      });
+      afterEach(() => {
+        (validator.isUid as any).restore();
+        _.forEach(stubs, (stub) => stub.restore());
+        stubs = [];
+      });
+
+      it('should be rejected given no uid', () => {
         return (auth as any).revokeRefreshTokens(undefined)
           .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-uid');
       });
@@ -1920,6 +2708,124 @@ AUTH_CONFIGS.forEach((testConfig) => {
       }
     });
 
+    describe('bulkImportUsers()', () => {
+      const options = {
+        hash: {
+          algorithm: 'BCRYPT' as any,
+        },
+      };
+      let stubs: sinon.SinonStub[] = [];
+      afterEach(() => {
+        _.forEach(stubs, (stub) => stub.restore());
+        stubs = [];
+      });
+
+      it('should import the users in batches with the provided options', () => {
+        const users = _.range(5).map((index) => ({uid: 'user' + index}));
+        const uploadAccountStub = sinon.stub(testConfig.RequestHandler.prototype, 'uploadAccount');
+        uploadAccountStub.onFirstCall().resolves({successCount: 2, failureCount: 0, errors: []});
+        uploadAccountStub.onSecondCall().resolves({
+          successCount: 1,
+          failureCount: 1,
+          errors: [{index: 1, error: new FirebaseAuthError(AuthClientErrorCode.INVALID_USER_IMPORT)}],
+        });
+        uploadAccountStub.onThirdCall().resolves({successCount: 1, failureCount: 0, errors: []});
+        stubs.push(uploadAccountStub);
+        const bulkImport = auth.bulkImportUsers(users, options, {batchSize: 2});
+        const progressSpy = sinon.spy();
+        bulkImport.on('progress', progressSpy);
+        return bulkImport.result
+          .then((result) => {
+            expect(uploadAccountStub).to.have.been.calledThrice;
+            expect(uploadAccountStub.firstCall).to.have.been.calledWith(users.slice(0, 2), options);
+            expect(uploadAccountStub.thirdCall).to.have.been.calledWith(users.slice(4), options);
+            expect(result.successCount).to.equal(4);
+            expect(result.failureCount).to.equal(1);
+            expect(result.errors.map((indexedError) => indexedError.index)).to.deep.equal([3]);
+            expect(progressSpy).to.have.been.calledThrice;
+            expect(progressSpy.lastCall).to.have.been.calledWith(
+              {processedCount: 5, successCount: 4, failureCount: 1});
+          });
+      });
+
+      it('should be rejected when the underlying uploadAccount request fails', () => {
+        const expectedError = new FirebaseAuthError(AuthClientErrorCode.INTERNAL_ERROR);
+        stubs.push(sinon.stub(testConfig.RequestHandler.prototype, 'uploadAccount')
+          .rejects(expectedError));
+        return auth.bulkImportUsers([{uid: 'user'}]).result
+          .should.eventually.be.rejected.and.equal(expectedError);
+      });
+    });
+
+    describe('createBulkUserOperations()', () => {
+      let stubs: sinon.SinonStub[] = [];
+      afterEach(() => {
+        _.forEach(stubs, (stub) => stub.restore());
+        stubs = [];
+      });
+
+      it('should throw given invalid options', () => {
+        expect(() => auth.createBulkUserOperations({maxConcurrency: 0}))
+          .to.throw('"BulkUserOperationsOptions.maxConcurrency" must be an integer between 1 and 100.');
+      });
+
+      it('should update the users without looking them up', () => {
+        const updateStub = sinon.stub(testConfig.RequestHandler.prototype, 'updateExistingAccount')
+          .callsFake((uid: string) => uid === 'missing' ?
+            Promise.reject(new FirebaseAuthError(AuthClientErrorCode.USER_NOT_FOUND)) : Promise.resolve(uid));
+        const getAccountInfoStub = sinon.stub(testConfig.RequestHandler.prototype, 'getAccountInfoByUid');
+        stubs.push(updateStub, getAccountInfoStub);
+        return auth.createBulkUserOperations({maxOperationsPerSecond: 1000}).disableUsers(['uid1', 'missing'])
+          .then((result) => {
+            expect(result.successCount).to.equal(1);
+            expect(result.errors.map((indexedError) => indexedError.index)).to.deep.equal([1]);
+            expect(result.errors[0].error).to.have.property('code', 'auth/user-not-found');
+            expect(updateStub).to.have.been.calledTwice.and.calledWith('uid1', {disabled: true});
+            expect(getAccountInfoStub).to.not.have.been.called;
+          });
+      });
+
+      it('should revoke the refresh tokens of the users', () => {
+        const revokeStub = sinon.stub(testConfig.RequestHandler.prototype, 'revokeRefreshTokens')
+          .resolves('uid');
+        stubs.push(revokeStub);
+        return auth.createBulkUserOperations({maxOperationsPerSecond: 1000}).revokeRefreshTokens(['uid1', 'uid2'])
+          .then((result) => {
+            expect(result).to.deep.equal({successCount: 2, failureCount: 0, errors: []});
+            expect(revokeStub).to.have.been.calledTwice.and.calledWith('uid1').and.calledWith('uid2');
+          });
+      });
+    });
+
+    describe('verifyPasswordHash()', () => {
+      const options = {
+        hash: {
+          algorithm: 'HMAC_SHA256' as any,
+          key: Buffer.from('secret'),
+        },
+      };
+      const user = {
+        uid: 'user',
+        passwordHash: crypto.createHmac('sha256', 'secret').update('passwordNaCl').digest(),
+        passwordSalt: Buffer.from('NaCl'),
+      };
+
+      it('should resolve with true when the password hash matches', () => {
+        return auth.verifyPasswordHash('password', user, options)
+          .should.eventually.be.true;
+      });
+
+      it('should resolve with false when the password hash does not match', () => {
+        return auth.verifyPasswordHash('wrong password', user, options)
+          .should.eventually.be.false;
+      });
+
+      it('should be rejected given invalid hash options', () => {
+        return auth.verifyPasswordHash('password', user, {hash: {algorithm: 'HMAC_SHA256'}})
+          .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-hash-key');
+      });
+    });
+
     describe('createSessionCookie()', () => {
       const tenantId = testConfig.supportsTenantManagement ? undefined : TENANT_ID;
       const idToken = 'ID_TOKEN';
@@ -2082,10 +2988,145 @@ AUTH_CONFIGS.forEach((testConfig) => {
       }
     });
 
+    describe('session management', () => {
+      const tenantId = testConfig.supportsTenantManagement ? undefined : TENANT_ID;
+      const uid = 'uid1';
+      const authTime = new Date(1500000000000);
+      const decodedSessionCookie = getDecodedSessionCookie(uid, authTime, tenantId);
+      const sessionCookie = jwt.sign({
+        sub: uid,
+        auth_time: decodedSessionCookie.auth_time,
+        iat: decodedSessionCookie.iat,
+        exp: decodedSessionCookie.exp,
+      }, 'secret');
+      const sessionId = crypto.createHash('sha256').update(sessionCookie).digest('hex');
+      let clock: sinon.SinonFakeTimers;
+      let stubs: sinon.SinonStub[] = [];
+      beforeEach(() => {
+        clock = sinon.useFakeTimers(authTime.getTime());
+        stubs.push(sinon.stub(testConfig.Auth.prototype, 'verifyIdToken')
+          .resolves(getDecodedIdToken(uid, authTime, tenantId)));
+        stubs.push(sinon.stub(testConfig.RequestHandler.prototype, 'createSessionCookie')
+          .resolves(sessionCookie));
+        stubs.push(sinon.stub(FirebaseTokenVerifier.prototype, 'verifyJWT')
+          .resolves(decodedSessionCookie));
+      });
+      afterEach(() => {
+        _.forEach(stubs, (stub) => stub.restore());
+        stubs = [];
+        clock.restore();
+      });
+
+      it('should throw given an invalid session store', () => {
+        expect(() => auth.setSessionStore({} as any))
+          .to.throw('The session store must be an object implementing the "get", "list", "set", "delete" methods.');
+      });
+
+      it('should reject listing sessions when no session store is set', () => {
+        return auth.listSessions(uid)
+          .should.eventually.be.rejected.and.have.property('code', 'auth/operation-not-allowed');
+      });
+
+      it('should reject revoking a session when no session store is set', () => {
+        return auth.revokeSession(uid, sessionId)
+          .should.eventually.be.rejected.and.have.property('code', 'auth/operation-not-allowed');
+      });
+
+      it('should record the created session cookies in the session store', () => {
+        const store = new InMemorySessionStore();
+        auth.setSessionStore(store);
+        return auth.createSessionCookie('ID_TOKEN', {expiresIn: 60 * 60 * 1000})
+          .then((result) => {
+            expect(result).to.equal(sessionCookie);
+            return auth.listSessions(uid);
+          })
+          .then((sessions) => {
+            const expectedSession: any = {
+              uid,
+              sessionId,
+              authTime: decodedSessionCookie.auth_time,
+              issuedAt: decodedSessionCookie.iat,
+              expiresAt: decodedSessionCookie.exp,
+              revoked: false,
+            };
+            if (tenantId) {
+              expectedSession.tenantId = tenantId;
+            }
+            expect(sessions).to.deep.equal([expectedSession]);
+          });
+      });
+
+      it('should reject the session cookies of revoked sessions', () => {
+        auth.setSessionStore(new InMemorySessionStore());
+        return auth.createSessionCookie('ID_TOKEN', {expiresIn: 60 * 60 * 1000})
+          .then(() => auth.verifySessionCookie(sessionCookie))
+          .then(() => {
+            expect(auth.getSessionId(sessionCookie)).to.equal(sessionId);
+            return auth.revokeSession(uid, sessionId);
+          })
+          .then(() => auth.listSessions(uid))
+          .then((sessions) => {
+            expect(sessions).to.deep.equal([]);
+            return auth.verifySessionCookie(sessionCookie);
+          })
+          .should.eventually.be.rejected.and.have.property('code', 'auth/session-cookie-revoked');
+      });
+
+      const invalidSessionCookies: any[] = [null, undefined, '', 1, {}];
+      invalidSessionCookies.forEach((invalidSessionCookie) => {
+        it('should throw when getting the session ID of an invalid session cookie: ' +
+          JSON.stringify(invalidSessionCookie), () => {
+          expect(() => auth.getSessionId(invalidSessionCookie))
+            .to.throw('The session cookie must be a non-empty string.');
+        });
+      });
+
+      it('should stop tracking sessions when the session store is removed', () => {
+        const store = new InMemorySessionStore();
+        const setSpy = sinon.spy(store, 'set');
+        auth.setSessionStore(store);
+        auth.setSessionStore(null);
+        return auth.createSessionCookie('ID_TOKEN', {expiresIn: 60 * 60 * 1000})
+          .then(() => {
+            expect(setSpy).to.not.have.been.called;
+            return auth.listSessions(uid);
+          })
+          .should.eventually.be.rejected.and.have.property('code', 'auth/operation-not-allowed');
+      });
+    });
+
+    describe('createRequestAuthenticator()', () => {
+      const tenantId = testConfig.supportsTenantManagement ? undefined : TENANT_ID;
+      const decodedIdToken = getDecodedIdToken('uid1', new Date(1500000000000), tenantId);
+      let stubs: sinon.SinonStub[] = [];
+      afterEach(() => {
+        _.forEach(stubs, (stub) => stub.restore());
+        stubs = [];
+      });
+
+      it('should throw given invalid options', () => {
+        expect(() => auth.createRequestAuthenticator({checkRevoked: 'yes' as any}))
+          .to.throw('"RequestAuthenticatorOptions.checkRevoked" must be a boolean.');
+      });
+
+      it('should verify the request credentials with the Auth instance', () => {
+        const verifyIdTokenStub = sinon.stub(testConfig.Auth.prototype, 'verifyIdToken')
+          .resolves(decodedIdToken);
+        stubs.push(verifyIdTokenStub);
+        return auth.createRequestAuthenticator({checkRevoked: true})
+          .authenticate({headers: {authorization: 'Bearer ID_TOKEN'}})
+          .then((result) => {
+            expect(result).to.deep.equal({decodedToken: decodedIdToken, source: 'idToken'});
+            expect(verifyIdTokenStub).to.have.been.calledOnce.and.calledWith('ID_TOKEN', true);
+          });
+      });
+    });
+
     const emailActionFlows: EmailActionTest[] = [
       {api: 'generatePasswordResetLink', requestType: 'PASSWORD_RESET', requiresSettings: false},
       {api: 'generateEmailVerificationLink', requestType: 'VERIFY_EMAIL', requiresSettings: false},
       {api: 'generateSignInWithEmailLink', requestType: 'EMAIL_SIGNIN', requiresSettings: true},
+      {api: 'generateRecoverEmailLink', requestType: 'RECOVER_EMAIL', requiresSettings: false},
     ];
     emailActionFlows.forEach((emailActionFlow) => {
       describe(`${emailActionFlow.api}()`, () => {
@@ -2200,6 +3241,361 @@ AUTH_CONFIGS.forEach((testConfig) => {
       });
     });
 
+    describe('generateVerifyAndChangeEmailLink()', () => {
+      const email = 'user@example.com';
+      const newEmail = 'new@example.com';
+      const actionCodeSettings = {
+        url: 'https://www.example.com/path/file?a=1&b=2',
+        handleCodeInApp: false,
+      };
+      const expectedLink = 'https://projectId.firebaseapp.com/__/auth/action?mode=verifyAndChangeEmail&oobCode=CODE';
+      let stubs: sinon.SinonStub[] = [];
+      afterEach(() => {
+        _.forEach(stubs, (stub) => stub.restore());
+        stubs = [];
+      });
+
+      it('should be rejected given an invalid email', () => {
+        return auth.generateVerifyAndChangeEmailLink('invalid', newEmail)
+          .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-email');
+      });
+
+      it('should be rejected given an invalid new email', () => {
+        return auth.generateVerifyAndChangeEmailLink(email, 'invalid')
+          .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-new-email');
+      });
+
+      it('should be rejected given an invalid ActionCodeSettings object', () => {
+        return auth.generateVerifyAndChangeEmailLink(email, newEmail, 'invalid' as any)
+          .should.eventually.be.rejected.and.have.property('code', 'auth/argument-error');
+      });
+
+      it('should resolve with the generated link on success', () => {
+        const getEmailActionLinkStub = sinon.stub(testConfig.RequestHandler.prototype, 'getEmailActionLink')
+          .resolves(expectedLink);
+        stubs.push(getEmailActionLinkStub);
+        return auth.generateVerifyAndChangeEmailLink(email, newEmail, actionCodeSettings)
+          .then((actualLink) => {
+            expect(getEmailActionLinkStub).to.have.been.calledOnce.and.calledWith(
+              'VERIFY_AND_CHANGE_EMAIL', email, actionCodeSettings, newEmail);
+            expect(actualLink).to.equal(expectedLink);
+          });
+      });
+
+      it('should throw an error when getEmailActionLink returns an error', () => {
+        const expectedError = new FirebaseAuthError(AuthClientErrorCode.USER_NOT_FOUND);
+        stubs.push(sinon.stub(testConfig.RequestHandler.prototype, 'getEmailActionLink')
+          .rejects(expectedError));
+        return auth.generateVerifyAndChangeEmailLink(email, newEmail)
+          .should.eventually.be.rejected.and.equal(expectedError);
+      });
+    });
+
+    describe('checkActionCode()', () => {
+      const oobCode = 'OOB_CODE';
+      let stubs: sinon.SinonStub[] = [];
+      afterEach(() => {
+        _.forEach(stubs, (stub) => stub.restore());
+        stubs = [];
+      });
+
+      it('should be rejected given an invalid action code', () => {
+        return auth.checkActionCode('')
+          .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-action-code');
+      });
+
+      it('should resolve with the action code information on success', () => {
+        const checkActionCodeStub = sinon.stub(testConfig.RequestHandler.prototype, 'checkActionCode')
+          .resolves({
+            kind: 'identitytoolkit#ResetPasswordResponse',
+            email: 'user@example.com',
+            newEmail: 'new@example.com',
+            requestType: 'VERIFY_AND_CHANGE_EMAIL',
+          });
+        stubs.push(checkActionCodeStub);
+        return auth.checkActionCode(oobCode)
+          .then((actionCodeInfo) => {
+            expect(checkActionCodeStub).to.have.been.calledOnce.and.calledWith(oobCode);
+            expect(actionCodeInfo).to.deep.equal({
+              operation: 'VERIFY_AND_CHANGE_EMAIL',
+              email: 'user@example.com',
+              newEmail: 'new@example.com',
+            });
+          });
+      });
+
+      it('should throw an error when checkActionCode returns an error', () => {
+        const expectedError = new FirebaseAuthError(AuthClientErrorCode.EXPIRED_ACTION_CODE);
+        stubs.push(sinon.stub(testConfig.RequestHandler.prototype, 'checkActionCode')
+          .rejects(expectedError));
+        return auth.checkActionCode(oobCode)
+          .should.eventually.be.rejected.and.equal(expectedError);
+      });
+    });
+
+    describe('applyActionCode()', () => {
+      const oobCode = 'OOB_CODE';
+      let stubs: sinon.SinonStub[] = [];
+      afterEach(() => {
+        _.forEach(stubs, (stub) => stub.restore());
+        stubs = [];
+      });
+
+      it('should be rejected given an invalid action code', () => {
+        return auth.applyActionCode(null)
+          .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-action-code');
+      });
+
+      it('should resolve without a value on success', () => {
+        const applyActionCodeStub = sinon.stub(testConfig.RequestHandler.prototype, 'applyActionCode')
+          .resolves({email: 'user@example.com', emailVerified: true});
+        stubs.push(applyActionCodeStub);
+        return auth.applyActionCode(oobCode)
+          .then((result) => {
+            expect(applyActionCodeStub).to.have.been.calledOnce.and.calledWith(oobCode);
+            expect(result).to.be.undefined;
+          });
+      });
+
+      it('should throw an error when applyActionCode returns an error', () => {
+        const expectedError = new FirebaseAuthError(AuthClientErrorCode.INVALID_ACTION_CODE);
+        stubs.push(sinon.stub(testConfig.RequestHandler.prototype, 'applyActionCode')
+          .rejects(expectedError));
+        return auth.applyActionCode(oobCode)
+          .should.eventually.be.rejected.and.equal(expectedError);
+      });
+    });
+
+    describe('confirmPasswordReset()', () => {
+      const oobCode = 'OOB_CODE';
+      const newPassword = 'newPassword';
+      let stubs: sinon.SinonStub[] = [];
+      afterEach(() => {
+        _.forEach(stubs, (stub) => stub.restore());
+        stubs = [];
+      });
+
+      it('should be rejected given an invalid password', () => {
+        return auth.confirmPasswordReset(oobCode, 'short')
+          .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-password');
+      });
+
+      it('should resolve with the operation, email and tenant on success', () => {
+        const confirmPasswordResetStub = sinon.stub(testConfig.RequestHandler.prototype, 'confirmPasswordReset')
+          .resolves({email: 'user@example.com', requestType: 'PASSWORD_RESET', tenantId: 'TENANT_ID'});
+        stubs.push(confirmPasswordResetStub);
+        return auth.confirmPasswordReset(oobCode, newPassword)
+          .then((actionCodeInfo) => {
+            expect(confirmPasswordResetStub).to.have.been.calledOnce.and.calledWith(oobCode, newPassword);
+            expect(actionCodeInfo).to.deep.equal({
+              operation: 'PASSWORD_RESET',
+              email: 'user@example.com',
+              tenantId: 'TENANT_ID',
+            });
+          });
+      });
+
+      it('should throw an error when confirmPasswordReset returns an error', () => {
+        const expectedError = new FirebaseAuthError(AuthClientErrorCode.EXPIRED_ACTION_CODE);
+        stubs.push(sinon.stub(testConfig.RequestHandler.prototype, 'confirmPasswordReset')
+          .rejects(expectedError));
+        return auth.confirmPasswordReset(oobCode, newPassword)
+          .should.eventually.be.rejected.and.equal(expectedError);
+      });
+    });
+
+    describe('verifyProviderIdToken()', () => {
+      const providerId = 'oidc.provider';
+      const idToken = mocks.generateIdToken();
+      const serverResponse = {
+        name: `projects/project_id/oauthIdpConfigs/${providerId}`,
+        displayName: 'OIDC_DISPLAY_NAME',
+        enabled: true,
+        clientId: 'CLIENT_ID',
+        issuer: 'https://oidc.com/issuer',
+      };
+      const decodedToken = {
+        iss: 'https://oidc.com/issuer',
+        aud: 'CLIENT_ID',
+        sub: 'PROVIDER_UID',
+        iat: 1,
+        exp: 2,
+      };
+      let stubs: sinon.SinonStub[] = [];
+
+      afterEach(() => {
+        _.forEach(stubs, (stub) => stub.restore());
+        stubs = [];
+      });
+
+      const invalidProviderIds = [
+          undefined, null, NaN, 0, 1, true, false, '', [], {}, _.noop, 'saml.provider', 'google.com'];
+      invalidProviderIds.forEach((invalidProviderId) => {
+        it(`should be rejected given an invalid provider ID "${JSON.stringify(invalidProviderId)}"`, () => {
+          return auth.verifyProviderIdToken(invalidProviderId as any, idToken)
+            .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-provider-id');
+        });
+      });
+
+      const invalidIdTokens = [
+        undefined, null, 0, '', 'ID_TOKEN', mocks.generateIdToken({algorithm: 'HS256'}),
+        mocks.generateIdToken({header: {}}),
+      ];
+      invalidIdTokens.forEach((invalidIdToken) => {
+        it(`should be rejected without network call given an invalid ID token "${invalidIdToken}"`, () => {
+          const getConfigStub = sinon.stub(testConfig.RequestHandler.prototype, 'getOAuthIdpConfig')
+            .resolves(serverResponse);
+          stubs.push(getConfigStub);
+          return auth.verifyProviderIdToken(providerId, invalidIdToken as any)
+            .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-id-token')
+            .then(() => {
+              expect(getConfigStub).to.not.have.been.called;
+            });
+        });
+      });
+
+      it('should be rejected when the provider config lookup fails', () => {
+        const expectedError = new FirebaseAuthError(AuthClientErrorCode.CONFIGURATION_NOT_FOUND);
+        stubs.push(sinon.stub(testConfig.RequestHandler.prototype, 'getOAuthIdpConfig')
+          .rejects(expectedError));
+        return auth.verifyProviderIdToken(providerId, idToken)
+          .should.eventually.be.rejected.and.equal(expectedError);
+      });
+
+      it('should be rejected when the provider is disabled', () => {
+        stubs.push(sinon.stub(testConfig.RequestHandler.prototype, 'getOAuthIdpConfig')
+          .resolves(_.assign({}, serverResponse, {enabled: false})));
+        return auth.verifyProviderIdToken(providerId, idToken)
+          .should.eventually.be.rejected.and.have.property('code', 'auth/operation-not-allowed');
+      });
+
+      it('should resolve with the decoded claims verified against the provider config', () => {
+        stubs.push(sinon.stub(testConfig.RequestHandler.prototype, 'getOAuthIdpConfig')
+          .resolves(serverResponse));
+        const verifyStub = sinon.stub(ProviderIdTokenVerifier.prototype, 'verifyJWT')
+          .resolves(decodedToken);
+        stubs.push(verifyStub);
+        return auth.verifyProviderIdToken(providerId, idToken)
+          .then((result) => {
+            expect(result).to.deep.equal(decodedToken);
+            expect(verifyStub).to.have.been.calledOnce.and.calledWith(idToken);
+            const verifier = verifyStub.thisValues[0];
+            expect(verifier).to.have.property('issuer', serverResponse.issuer);
+            expect(verifier).to.have.property('clientId', serverResponse.clientId);
+          });
+      });
+
+      it('should cache the provider config and reuse the verifier', () => {
+        const getConfigStub = sinon.stub(testConfig.RequestHandler.prototype, 'getOAuthIdpConfig')
+          .resolves(serverResponse);
+        stubs.push(getConfigStub);
+        const verifyStub = sinon.stub(ProviderIdTokenVerifier.prototype, 'verifyJWT')
+          .resolves(decodedToken);
+        stubs.push(verifyStub);
+        return auth.verifyProviderIdToken(providerId, idToken)
+          .then(() => auth.verifyProviderIdToken(providerId, idToken))
+          .then(() => {
+            expect(getConfigStub).to.have.been.calledOnce;
+            expect(verifyStub).to.have.been.calledTwice;
+            expect(verifyStub.thisValues[1]).to.equal(verifyStub.thisValues[0]);
+          });
+      });
+
+      describe('when the cached provider config expires', () => {
+        let clock: sinon.SinonFakeTimers;
+
+        beforeEach(() => {
+          clock = sinon.useFakeTimers(Date.now());
+        });
+
+        afterEach(() => {
+          clock.restore();
+        });
+
+        it('should reuse the verifier while the provider config is unchanged', () => {
+          const getConfigStub = sinon.stub(testConfig.RequestHandler.prototype, 'getOAuthIdpConfig')
+            .resolves(serverResponse);
+          stubs.push(getConfigStub);
+          const verifyStub = sinon.stub(ProviderIdTokenVerifier.prototype, 'verifyJWT')
+            .resolves(decodedToken);
+          stubs.push(verifyStub);
+          return auth.verifyProviderIdToken(providerId, idToken)
+            .then(() => {
+              clock.tick(5 * 60 * 1000);
+              return auth.verifyProviderIdToken(providerId, idToken);
+            })
+            .then(() => {
+              expect(getConfigStub).to.have.been.calledTwice;
+              expect(verifyStub.thisValues[1]).to.equal(verifyStub.thisValues[0]);
+            });
+        });
+
+        it('should use a new verifier when the provider config changed', () => {
+          const getConfigStub = sinon.stub(testConfig.RequestHandler.prototype, 'getOAuthIdpConfig');
+          getConfigStub.onFirstCall().resolves(serverResponse);
+          getConfigStub.onSecondCall().resolves(_.assign({}, serverResponse, {clientId: 'OTHER_CLIENT_ID'}));
+          stubs.push(getConfigStub);
+          const verifyStub = sinon.stub(ProviderIdTokenVerifier.prototype, 'verifyJWT')
+            .resolves(decodedToken);
+          stubs.push(verifyStub);
+          return auth.verifyProviderIdToken(providerId, idToken)
+            .then(() => {
+              clock.tick(5 * 60 * 1000);
+              return auth.verifyProviderIdToken(providerId, idToken);
+            })
+            .then(() => {
+              expect(verifyStub.thisValues[1]).to.not.equal(verifyStub.thisValues[0]);
+              expect(verifyStub.thisValues[1]).to.have.property('clientId', 'OTHER_CLIENT_ID');
+            });
+        });
+      });
+
+      it('should evict the least recently fetched provider config when the cache is full', () => {
+        const getConfigStub = sinon.stub(testConfig.RequestHandler.prototype, 'getOAuthIdpConfig')
+          .resolves(serverResponse);
+        stubs.push(getConfigStub);
+        stubs.push(sinon.stub(ProviderIdTokenVerifier.prototype, 'verifyJWT').resolves(decodedToken));
+        let promise = Promise.resolve();
+        _.range(101).forEach((i) => {
+          promise = promise.then(() => auth.verifyProviderIdToken(`oidc.provider${i}`, idToken)).then(_.noop);
+        });
+        return promise
+          .then(() => auth.verifyProviderIdToken('oidc.provider100', idToken))
+          .then(() => {
+            expect(getConfigStub).to.have.callCount(101);
+            return auth.verifyProviderIdToken('oidc.provider0', idToken);
+          })
+          .then(() => {
+            expect(getConfigStub).to.have.callCount(102);
+          });
+      });
+
+      it('should fetch the provider config again after it is updated', () => {
+        const getConfigStub = sinon.stub(testConfig.RequestHandler.prototype, 'getOAuthIdpConfig')
+          .resolves(serverResponse);
+        stubs.push(getConfigStub);
+        stubs.push(sinon.stub(testConfig.RequestHandler.prototype, 'updateOAuthIdpConfig')
+          .resolves(serverResponse));
+        stubs.push(sinon.stub(ProviderIdTokenVerifier.prototype, 'verifyJWT').resolves(decodedToken));
+        return auth.verifyProviderIdToken(providerId, idToken)
+          .then(() => auth.updateProviderConfig(providerId, {enabled: true}))
+          .then(() => auth.verifyProviderIdToken(providerId, idToken))
+          .then(() => {
+            expect(getConfigStub).to.have.been.calledTwice;
+          });
+      });
+
+      it('should be rejected when the token verification fails', () => {
+        const expectedError = new FirebaseAuthError(AuthClientErrorCode.INVALID_ID_TOKEN);
+        stubs.push(sinon.stub(testConfig.RequestHandler.prototype, 'getOAuthIdpConfig')
+          .resolves(serverResponse));
+        stubs.push(sinon.stub(ProviderIdTokenVerifier.prototype, 'verifyJWT')
+          .rejects(expectedError));
+        return auth.verifyProviderIdToken(providerId, idToken)
+          .should.eventually.be.rejected.and.equal(expectedError);
+      });
+    });
+
     describe('getProviderConfig()', () => {
       let stubs: sinon.SinonStub[] = [];
 
@@ -2573,6 +3969,69 @@ AUTH_CONFIGS.forEach((testConfig) => {
       });
     });
 
+    describe('iterateProviderConfigs()', () => {
+      const firstPageResponse: any = {
+        oauthIdpConfigs: [
+          getOIDCConfigServerResponse('oidc.provider1'),
+        ],
+        nextPageToken: 'NEXT_PAGE_TOKEN',
+      };
+      const lastPageResponse: any = {
+        oauthIdpConfigs: [
+          getOIDCConfigServerResponse('oidc.provider2'),
+        ],
+      };
+      let stubs: sinon.SinonStub[] = [];
+
+      afterEach(() => {
+        _.forEach(stubs, (stub) => stub.restore());
+        stubs = [];
+      });
+
+      it('should be rejected given no options', () => {
+        return mocks.collectAsyncIterable((auth as any).iterateProviderConfigs())
+          .should.eventually.be.rejected.and.have.property('code', 'auth/argument-error');
+      });
+
+      it('should be rejected given an invalid type', () => {
+        return mocks.collectAsyncIterable(auth.iterateProviderConfigs({type: 'unsupported'} as any))
+          .should.eventually.be.rejected.and.have.property('code', 'auth/argument-error');
+      });
+
+      it('should iterate over all the pages of OIDC configs', () => {
+        const listConfigsStub = sinon.stub(testConfig.RequestHandler.prototype, 'listOAuthIdpConfigs');
+        listConfigsStub.onFirstCall().resolves(firstPageResponse);
+        listConfigsStub.onSecondCall().resolves(lastPageResponse);
+        stubs.push(listConfigsStub);
+        return mocks.collectAsyncIterable(auth.iterateProviderConfigs({type: 'oidc', pageSize: 1}))
+          .then((configs) => {
+            expect(configs).to.deep.equal([
+              new OIDCConfig(firstPageResponse.oauthIdpConfigs[0]),
+              new OIDCConfig(lastPageResponse.oauthIdpConfigs[0]),
+            ]);
+            expect(listConfigsStub).to.have.been.calledTwice;
+            expect(listConfigsStub.firstCall).to.have.been.calledWith(1, undefined);
+            expect(listConfigsStub.secondCall).to.have.been.calledWith(1, 'NEXT_PAGE_TOKEN');
+          });
+      });
+
+      it('should iterate over SAML configs with the default page size', () => {
+        const listConfigsResponse: any = {
+          inboundSamlConfigs: [
+            getSAMLConfigServerResponse('saml.provider1'),
+          ],
+        };
+        const listConfigsStub = sinon.stub(testConfig.RequestHandler.prototype, 'listInboundSamlConfigs')
+          .resolves(listConfigsResponse);
+        stubs.push(listConfigsStub);
+        return mocks.collectAsyncIterable(auth.iterateProviderConfigs({type: 'saml'}))
+          .then((configs) => {
+            expect(configs).to.deep.equal([new SAMLConfig(listConfigsResponse.inboundSamlConfigs[0])]);
+            expect(listConfigsStub).to.have.been.calledOnce.and.calledWith(undefined, undefined);
+          });
+      });
+    });
+
     describe('deleteProviderConfig()', () => {
       let stubs: sinon.SinonStub[] = [];
 
@@ -3031,6 +4490,162 @@ AUTH_CONFIGS.forEach((testConfig) => {
       });
     });
 
+    describe('applyProviderConfigs()', () => {
+      const samlResponse = {
+        name: 'projects/project_id/inboundSamlConfigs/saml.provider',
+        idpConfig: {
+          idpEntityId: 'IDP_ENTITY_ID',
+          ssoUrl: 'https://example.com/login',
+          signRequest: true,
+          idpCertificates: [{x509Certificate: 'CERT1'}],
+        },
+        spConfig: {
+          spEntityId: 'RP_ENTITY_ID',
+          callbackUri: 'https://projectId.firebaseapp.com/__/auth/handler',
+        },
+        displayName: 'SAML_DISPLAY_NAME',
+        enabled: true,
+      };
+      const oidcResponse = {
+        name: 'projects/project_id/oauthIdpConfigs/oidc.obsolete',
+        displayName: 'OIDC_DISPLAY_NAME',
+        enabled: true,
+        clientId: 'CLIENT_ID',
+        issuer: 'https://oidc.com/issuer',
+      };
+      const desiredSamlConfig = {
+        providerId: 'saml.provider',
+        displayName: 'SAML_DISPLAY_NAME',
+        enabled: true,
+        idpEntityId: 'IDP_ENTITY_ID',
+        ssoURL: 'https://example.com/login',
+        x509Certificates: ['CERT1', 'CERT2'],
+        rpEntityId: 'RP_ENTITY_ID',
+        callbackURL: 'https://projectId.firebaseapp.com/__/auth/handler',
+      };
+      const desiredOidcConfig = {
+        providerId: 'oidc.provider',
+        enabled: true,
+        clientId: 'CLIENT_ID',
+        issuer: 'https://oidc.com/issuer',
+      };
+      let stubs: sinon.SinonStub[] = [];
+
+      beforeEach(() => {
+        const listSamlStub = sinon.stub(testConfig.RequestHandler.prototype, 'listInboundSamlConfigs');
+        listSamlStub.onFirstCall().resolves({inboundSamlConfigs: [], nextPageToken: 'NEXT_PAGE_TOKEN'});
+        listSamlStub.onSecondCall().resolves({inboundSamlConfigs: [samlResponse]});
+        stubs.push(listSamlStub);
+        stubs.push(sinon.stub(testConfig.RequestHandler.prototype, 'listOAuthIdpConfigs')
+          .resolves({oauthIdpConfigs: [oidcResponse]}));
+      });
+
+      afterEach(() => {
+        _.forEach(stubs, (stub) => stub.restore());
+        stubs = [];
+      });
+
+      it('should be rejected given invalid desired configurations', () => {
+        return auth.applyProviderConfigs([desiredOidcConfig, desiredOidcConfig])
+          .should.eventually.be.rejected.and.have.property('code', 'auth/argument-error');
+      });
+
+      it('should be rejected given invalid options', () => {
+        return auth.applyProviderConfigs([], {dryRun: 'true'} as any)
+          .should.eventually.be.rejected.and.have.property('code', 'auth/argument-error');
+      });
+
+      it('should plan the changes without applying them on a dry run', () => {
+        const createStub = sinon.stub(testConfig.RequestHandler.prototype, 'createOAuthIdpConfig');
+        const updateStub = sinon.stub(testConfig.RequestHandler.prototype, 'updateInboundSamlConfig');
+        const deleteStub = sinon.stub(testConfig.RequestHandler.prototype, 'deleteOAuthIdpConfig');
+        stubs.push(createStub, updateStub, deleteStub);
+        return auth.applyProviderConfigs([desiredSamlConfig, desiredOidcConfig], {prune: true, dryRun: true})
+          .then((plan) => {
+            expect(plan).to.deep.equal({
+              changes: [
+                {action: 'create', providerId: 'oidc.provider', request: desiredOidcConfig},
+                {action: 'update', providerId: 'saml.provider', request: {x509Certificates: ['CERT1', 'CERT2']}},
+                {action: 'delete', providerId: 'oidc.obsolete'},
+              ],
+              unchangedProviderIds: [],
+            });
+            expect(createStub).to.not.have.been.called;
+            expect(updateStub).to.not.have.been.called;
+            expect(deleteStub).to.not.have.been.called;
+          });
+      });
+
+      it('should apply the planned changes', () => {
+        const createStub = sinon.stub(testConfig.RequestHandler.prototype, 'createOAuthIdpConfig')
+          .resolves(_.assign({}, oidcResponse, {name: 'projects/project_id/oauthIdpConfigs/oidc.provider'}));
+        const updateStub = sinon.stub(testConfig.RequestHandler.prototype, 'updateInboundSamlConfig')
+          .resolves(samlResponse);
+        const deleteStub = sinon.stub(testConfig.RequestHandler.prototype, 'deleteOAuthIdpConfig')
+          .resolves();
+        stubs.push(createStub, updateStub, deleteStub);
+        return auth.applyProviderConfigs([desiredSamlConfig, desiredOidcConfig], {prune: true})
+          .then((plan) => {
+            expect(plan.changes).to.have.length(3);
+            expect(createStub).to.have.been.calledOnce.and.calledWith(desiredOidcConfig);
+            expect(updateStub).to.have.been.calledOnce
+              .and.calledWith('saml.provider', {x509Certificates: ['CERT1', 'CERT2']});
+            expect(deleteStub).to.have.been.calledOnce.and.calledWith('oidc.obsolete');
+            expect(createStub).to.have.been.calledBefore(updateStub);
+            expect(updateStub).to.have.been.calledBefore(deleteStub);
+          });
+      });
+
+      it('should not delete the undesired providers without pruning', () => {
+        const deleteStub = sinon.stub(testConfig.RequestHandler.prototype, 'deleteOAuthIdpConfig');
+        stubs.push(deleteStub);
+        return auth.applyProviderConfigs([_.assign({}, desiredSamlConfig, {x509Certificates: ['CERT1']})])
+          .then((plan) => {
+            expect(plan).to.deep.equal({changes: [], unchangedProviderIds: ['saml.provider']});
+            expect(deleteStub).to.not.have.been.called;
+          });
+      });
+
+      it('should be rejected on the first failed change', () => {
+        const expectedError = new FirebaseAuthError(AuthClientErrorCode.CONFIGURATION_EXISTS);
+        const createStub = sinon.stub(testConfig.RequestHandler.prototype, 'createOAuthIdpConfig')
+          .rejects(expectedError);
+        const updateStub = sinon.stub(testConfig.RequestHandler.prototype, 'updateInboundSamlConfig');
+        stubs.push(createStub, updateStub);
+        return auth.applyProviderConfigs([desiredSamlConfig, desiredOidcConfig])
+          .should.eventually.be.rejected.and.equal(expectedError)
+          .then(() => {
+            expect(updateStub).to.not.have.been.called;
+            expect(expectedError).to.have.property('partialResult').that.deep.equals({
+              changes: [],
+              unchangedProviderIds: [],
+            });
+          });
+      });
+
+      it('should attach the changes applied before the failed change to the error', () => {
+        const expectedError = new FirebaseAuthError(AuthClientErrorCode.CONFIGURATION_NOT_FOUND);
+        const createStub = sinon.stub(testConfig.RequestHandler.prototype, 'createOAuthIdpConfig')
+          .resolves(_.assign({}, oidcResponse, {name: 'projects/project_id/oauthIdpConfigs/oidc.provider'}));
+        const updateStub = sinon.stub(testConfig.RequestHandler.prototype, 'updateInboundSamlConfig')
+          .resolves(samlResponse);
+        const deleteStub = sinon.stub(testConfig.RequestHandler.prototype, 'deleteOAuthIdpConfig')
+          .rejects(expectedError);
+        stubs.push(createStub, updateStub, deleteStub);
+        return auth.applyProviderConfigs([desiredSamlConfig, desiredOidcConfig], {prune: true})
+          .should.eventually.be.rejected.and.equal(expectedError)
+          .then(() => {
+            expect(expectedError).to.have.property('partialResult').that.deep.equals({
+              changes: [
+                {action: 'create', providerId: 'oidc.provider', request: desiredOidcConfig},
+                {action: 'update', providerId: 'saml.provider', request: {x509Certificates: ['CERT1', 'CERT2']}},
+              ],
+              unchangedProviderIds: [],
+            });
+          });
+      });
+    });
+
     if (testConfig.Auth === Auth) {
       describe('INTERNAL.delete()', () => {
         it('should delete Auth instance', () => {
@@ -0,0 +1,279 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+'use strict';
+
+import * as _ from 'lodash';
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+import * as sinonChai from 'sinon-chai';
+import * as chaiAsPromised from 'chai-as-promised';
+import {PassThrough} from 'stream';
+
+import {BulkUserImport, UserImportProgress} from '../../../src/auth/bulk-user-import';
+import {UserImportRecord, UserImportResult} from '../../../src/auth/user-import-builder';
+import {AuthClientErrorCode, FirebaseAuthError} from '../../../src/utils/error';
+import {PageIterable} from '../../../src/utils/page-iterator';
+
+chai.should();
+chai.use(sinonChai);
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+/**
+ * Returns a batch importer which fails the users whose uid starts with "invalid".
+ *
+ * @return {sinon.SinonSpy} The batch importer.
+ */
+function createBatchImporter(): sinon.SinonSpy {
+  return sinon.spy((users: UserImportRecord[]) => {
+    const result: UserImportResult = {successCount: 0, failureCount: 0, errors: []};
+    users.forEach((user, index) => {
+      if (user.uid.indexOf('invalid') === 0) {
+        result.failureCount++;
+        result.errors.push({index, error: new FirebaseAuthError(AuthClientErrorCode.INVALID_USER_IMPORT)});
+      } else {
+        result.successCount++;
+      }
+    });
+    return Promise.resolve(result);
+  });
+}
+
+/**
+ * @param {number} count The number of users to generate.
+ * @return {UserImportRecord[]} The users, with every third user being invalid.
+ */
+function generateUsers(count: number): UserImportRecord[] {
+  return _.range(count).map((index) => ({uid: (index % 3 === 2 ? 'invalid' : 'user') + index}));
+}
+
+describe('BulkUserImport', () => {
+  const nonObjects: any[] = [null, NaN, 0, 1, true, false, '', 'a', [], _.noop];
+  nonObjects.forEach((options) => {
+    it('should throw given invalid options: ' + JSON.stringify(options), () => {
+      expect(() => new BulkUserImport([], createBatchImporter(), options))
+        .to.throw('"BulkUserImportOptions" must be a valid non-null object.');
+    });
+  });
+
+  const invalidBatchSizes: any[] = [null, NaN, 0, -1, 1.5, 1001, '10', {}];
+  invalidBatchSizes.forEach((batchSize) => {
+    it('should throw given an invalid batchSize: ' + JSON.stringify(batchSize), () => {
+      expect(() => new BulkUserImport([], createBatchImporter(), {batchSize}))
+        .to.throw('"BulkUserImportOptions.batchSize" must be an integer between 1 and 1000.');
+    });
+  });
+
+  const invalidConcurrencies: any[] = [null, NaN, 0, -1, 1.5, 11, '2', {}];
+  invalidConcurrencies.forEach((maxConcurrency) => {
+    it('should throw given an invalid maxConcurrency: ' + JSON.stringify(maxConcurrency), () => {
+      expect(() => new BulkUserImport([], createBatchImporter(), {maxConcurrency}))
+        .to.throw('"BulkUserImportOptions.maxConcurrency" must be an integer between 1 and 10.');
+    });
+  });
+
+  const invalidSources: any[] = [null, undefined, 0, true, 'users', {}, _.noop];
+  invalidSources.forEach((users) => {
+    it('should throw given an invalid source: ' + JSON.stringify(users), () => {
+      expect(() => new BulkUserImport(users, createBatchImporter()))
+        .to.throw('The users to import must be an iterable, an async iterable or an object mode Readable stream.');
+    });
+  });
+
+  it('should resolve with an empty result given no users', () => {
+    const importBatch = createBatchImporter();
+    return new BulkUserImport([], importBatch).result
+      .then((result) => {
+        expect(result).to.deep.equal({successCount: 0, failureCount: 0, errors: []});
+        expect(importBatch).to.not.have.been.called;
+      });
+  });
+
+  it('should import an array in batches of at most 1000 users by default', () => {
+    const importBatch = createBatchImporter();
+    return new BulkUserImport(generateUsers(2500), importBatch).result
+      .then((result) => {
+        expect(importBatch.args.map((args) => args[0].length)).to.deep.equal([1000, 1000, 500]);
+        expect(result.successCount).to.equal(1667);
+        expect(result.failureCount).to.equal(833);
+        expect(result.errors).to.have.length(833);
+        expect(result.errors[0].index).to.equal(2);
+        expect(result.errors[832].index).to.equal(2498);
+      });
+  });
+
+  it('should map the error indices to the position of the users in the source', () => {
+    return new BulkUserImport(generateUsers(7), createBatchImporter(), {batchSize: 2}).result
+      .then((result) => {
+        expect(result.errors.map((indexedError) => indexedError.index)).to.deep.equal([2, 5]);
+        expect(result.errors[0].error).to.have.property('code', 'auth/invalid-user-import');
+      });
+  });
+
+  it('should emit a progress event after each batch', () => {
+    const bulkImport = new BulkUserImport(generateUsers(5), createBatchImporter(), {batchSize: 2});
+    const events: UserImportProgress[] = [];
+    bulkImport.on('progress', (progress) => events.push(progress));
+    return bulkImport.result
+      .then(() => {
+        expect(events).to.deep.equal([
+          {processedCount: 2, successCount: 2, failureCount: 0},
+          {processedCount: 4, successCount: 3, failureCount: 1},
+          {processedCount: 5, successCount: 4, failureCount: 1},
+        ]);
+      });
+  });
+
+  it('should import a generator lazily', () => {
+    let generated = 0;
+    const users: Iterable<UserImportRecord> = {
+      [Symbol.iterator]: () => ({
+        next: () => {
+          generated++;
+          return generated > 4 ? {done: true, value: undefined} : {done: false, value: {uid: 'user' + generated}};
+        },
+      }),
+    };
+    const generatedCounts: number[] = [];
+    const importBatch = sinon.spy((batch: UserImportRecord[]) => {
+      generatedCounts.push(generated);
+      return Promise.resolve({successCount: batch.length, failureCount: 0, errors: []});
+    });
+    return new BulkUserImport(users, importBatch, {batchSize: 2}).result
+      .then((result) => {
+        expect(result.successCount).to.equal(4);
+        expect(generatedCounts).to.deep.equal([2, 4]);
+      });
+  });
+
+  it('should import an async iterable', () => {
+    const users = generateUsers(3);
+    const iterable = new PageIterable<UserImportRecord>((pageToken?: string) => {
+      return Promise.resolve(pageToken ? {items: users.slice(2)} : {items: users.slice(0, 2), pageToken: 'next'});
+    });
+    return new BulkUserImport(iterable, createBatchImporter(), {batchSize: 2}).result
+      .should.eventually.have.property('successCount', 2);
+  });
+
+  it('should import an object mode stream', () => {
+    const stream = new PassThrough({objectMode: true});
+    const importBatch = createBatchImporter();
+    const bulkImport = new BulkUserImport(stream, importBatch, {batchSize: 2});
+    generateUsers(5).forEach((user) => stream.write(user));
+    stream.end();
+    return bulkImport.result
+      .then((result) => {
+        expect(result).to.have.property('successCount', 4);
+        expect(result).to.have.property('failureCount', 1);
+        expect(importBatch).to.have.been.calledThrice;
+      });
+  });
+
+  it('should be rejected when the stream emits an error', () => {
+    const stream = new PassThrough({objectMode: true});
+    const expectedError = new Error('stream failed');
+    const bulkImport = new BulkUserImport(stream, createBatchImporter());
+    stream.write({uid: 'user'});
+    stream.emit('error', expectedError);
+    return bulkImport.result
+      .should.eventually.be.rejected.and.equal(expectedError);
+  });
+
+  it('should not exceed the maximum concurrency', () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const importBatch = sinon.spy((batch: UserImportRecord[]) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      return new Promise<UserImportResult>((resolve) => {
+        setTimeout(() => {
+          inFlight--;
+          resolve({successCount: batch.length, failureCount: 0, errors: []});
+        }, 1);
+      });
+    });
+    return new BulkUserImport(generateUsers(10), importBatch, {batchSize: 1, maxConcurrency: 3}).result
+      .then((result) => {
+        expect(result.successCount).to.equal(10);
+        expect(importBatch.callCount).to.equal(10);
+        expect(maxInFlight).to.equal(3);
+      });
+  });
+
+  it('should sort the errors by index when batches complete out of order', () => {
+    const importBatch = (batch: UserImportRecord[]) => {
+      const result: UserImportResult = {
+        successCount: 0,
+        failureCount: 1,
+        errors: [{index: 0, error: new FirebaseAuthError(AuthClientErrorCode.INVALID_USER_IMPORT)}],
+      };
+      // Complete the first batch last.
+      const delay = batch[0].uid === 'user0' ? 5 : 0;
+      return new Promise<UserImportResult>((resolve) => setTimeout(() => resolve(result), delay));
+    };
+    return new BulkUserImport(generateUsers(3), importBatch, {batchSize: 1, maxConcurrency: 3}).result
+      .then((result) => {
+        expect(result.errors.map((indexedError) => indexedError.index)).to.deep.equal([0, 1, 2]);
+      });
+  });
+
+  it('should stop dispatching batches and be rejected when a batch fails', () => {
+    const expectedError = new FirebaseAuthError(AuthClientErrorCode.INVALID_HASH_ALGORITHM);
+    const importBatch = sinon.stub();
+    importBatch.onFirstCall().resolves({successCount: 1, failureCount: 0, errors: []});
+    importBatch.onSecondCall().rejects(expectedError);
+    return new BulkUserImport(generateUsers(5), importBatch, {batchSize: 1}).result
+      .should.eventually.be.rejected.and.equal(expectedError)
+      .then(() => {
+        expect(importBatch).to.have.been.calledTwice;
+      });
+  });
+
+  it('should attach the result of the batches in flight to the rejection error', () => {
+    const expectedError = new FirebaseAuthError(AuthClientErrorCode.INVALID_HASH_ALGORITHM);
+    const invalidUserError = new FirebaseAuthError(AuthClientErrorCode.INVALID_USER_IMPORT);
+    const importBatch = (batch: UserImportRecord[]) => {
+      if (batch[0].uid === 'user1') {
+        return Promise.reject(expectedError);
+      }
+      // The other batches complete after the failure.
+      const result: UserImportResult = batch[0].uid === 'invalid2' ?
+        {successCount: 0, failureCount: 1, errors: [{index: 0, error: invalidUserError}]} :
+        {successCount: 1, failureCount: 0, errors: []};
+      return new Promise<UserImportResult>((resolve) => setTimeout(() => resolve(result), 5));
+    };
+    return new BulkUserImport(generateUsers(5), importBatch, {batchSize: 1, maxConcurrency: 3}).result
+      .then(() => {
+        throw new Error('Unexpected success');
+      }, (error) => {
+        expect(error).to.equal(expectedError);
+        expect(error.partialResult).to.deep.equal({
+          successCount: 1,
+          failureCount: 1,
+          errors: [{index: 2, error: invalidUserError}],
+        });
+      });
+  });
+
+  it('should be rejected when a batch throws synchronously', () => {
+    const expectedError = new FirebaseAuthError(AuthClientErrorCode.MISMATCHING_TENANT_ID);
+    const importBatch = sinon.stub().throws(expectedError);
+    return new BulkUserImport(generateUsers(2), importBatch).result
+      .should.eventually.be.rejected.and.equal(expectedError);
+  });
+});
@@ -0,0 +1,311 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+'use strict';
+
+import * as _ from 'lodash';
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+import * as sinonChai from 'sinon-chai';
+import * as chaiAsPromised from 'chai-as-promised';
+
+import {BulkUserOperations, RateLimiter} from '../../../src/auth/bulk-user-operations';
+import {AuthClientErrorCode, FirebaseAuthError} from '../../../src/utils/error';
+
+chai.should();
+chai.use(sinonChai);
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+/** Options which do not delay the operations of the tests. */
+const FAST_OPTIONS = {maxOperationsPerSecond: 1000, retryDelayMillis: 0};
+
+/**
+ * @return {Promise<void>} A promise that resolves once the pending promise callbacks have run.
+ */
+function flushPromises(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+describe('BulkUserOperations', () => {
+  const nonObjects: any[] = [null, NaN, 0, 1, true, false, '', 'a', [], _.noop];
+  nonObjects.forEach((options) => {
+    it('should throw given invalid options: ' + JSON.stringify(options), () => {
+      expect(() => new BulkUserOperations(sinon.spy(), sinon.spy(), options))
+        .to.throw('"BulkUserOperationsOptions" must be a valid non-null object.');
+    });
+  });
+
+  const invalidRates: any[] = [null, NaN, 0, -1, 1001, '10'];
+  invalidRates.forEach((maxOperationsPerSecond) => {
+    it('should throw given an invalid maxOperationsPerSecond: ' + JSON.stringify(maxOperationsPerSecond), () => {
+      expect(() => new BulkUserOperations(sinon.spy(), sinon.spy(), {maxOperationsPerSecond}))
+        .to.throw('"BulkUserOperationsOptions.maxOperationsPerSecond" must be a positive number that does not ' +
+          'exceed 1000.');
+    });
+  });
+
+  const invalidConcurrencies: any[] = [null, NaN, 0, 1.5, 101, '10'];
+  invalidConcurrencies.forEach((maxConcurrency) => {
+    it('should throw given an invalid maxConcurrency: ' + JSON.stringify(maxConcurrency), () => {
+      expect(() => new BulkUserOperations(sinon.spy(), sinon.spy(), {maxConcurrency}))
+        .to.throw('"BulkUserOperationsOptions.maxConcurrency" must be an integer between 1 and 100.');
+    });
+  });
+
+  const invalidRetries: any[] = [null, NaN, -1, 1.5, 11, '3'];
+  invalidRetries.forEach((maxRetries) => {
+    it('should throw given an invalid maxRetries: ' + JSON.stringify(maxRetries), () => {
+      expect(() => new BulkUserOperations(sinon.spy(), sinon.spy(), {maxRetries}))
+        .to.throw('"BulkUserOperationsOptions.maxRetries" must be an integer between 0 and 10.');
+    });
+  });
+
+  const invalidDelays: any[] = [null, NaN, -1, '1000'];
+  invalidDelays.forEach((retryDelayMillis) => {
+    it('should throw given an invalid retryDelayMillis: ' + JSON.stringify(retryDelayMillis), () => {
+      expect(() => new BulkUserOperations(sinon.spy(), sinon.spy(), {retryDelayMillis}))
+        .to.throw('"BulkUserOperationsOptions.retryDelayMillis" must be a non-negative number.');
+    });
+  });
+
+  it('should be rejected given a non-array list of uids', () => {
+    const operations = new BulkUserOperations(sinon.spy(), sinon.spy(), FAST_OPTIONS);
+    return operations.disableUsers('uid' as any)
+      .should.eventually.be.rejected.and.have.property('code', 'auth/argument-error');
+  });
+
+  it('should be rejected given non-object properties', () => {
+    const operations = new BulkUserOperations(sinon.spy(), sinon.spy(), FAST_OPTIONS);
+    return operations.updateUsers(['uid'], null)
+      .should.eventually.be.rejected.and.have.property('code', 'auth/argument-error');
+  });
+
+  it('should resolve with an empty result given no uids', () => {
+    const updater = sinon.spy();
+    const operations = new BulkUserOperations(updater, sinon.spy(), FAST_OPTIONS);
+    return operations.disableUsers([])
+      .then((result) => {
+        expect(result).to.deep.equal({successCount: 0, failureCount: 0, errors: []});
+        expect(updater).to.not.have.been.called;
+      });
+  });
+
+  const updates: Array<[string, object]> = [
+    ['disableUsers', {disabled: true}],
+    ['enableUsers', {disabled: false}],
+    ['verifyEmails', {emailVerified: true}],
+  ];
+  updates.forEach(([method, properties]) => {
+    it(`${method}() should update each user with ${JSON.stringify(properties)}`, () => {
+      const updater = sinon.spy(() => Promise.resolve());
+      const operations: any = new BulkUserOperations(updater, sinon.spy(), FAST_OPTIONS);
+      return operations[method](['uid1', 'uid2'])
+        .then((result: any) => {
+          expect(result).to.deep.equal({successCount: 2, failureCount: 0, errors: []});
+          expect(updater).to.have.been.calledTwice
+            .and.calledWith('uid1', properties)
+            .and.calledWith('uid2', properties);
+        });
+    });
+  });
+
+  it('revokeRefreshTokens() should revoke the refresh tokens of each user', () => {
+    const revoker = sinon.spy(() => Promise.resolve());
+    const operations = new BulkUserOperations(sinon.spy(), revoker, FAST_OPTIONS);
+    return operations.revokeRefreshTokens(['uid1', 'uid2', 'uid3'])
+      .then((result) => {
+        expect(result).to.deep.equal({successCount: 3, failureCount: 0, errors: []});
+        expect(revoker).to.have.been.calledThrice;
+      });
+  });
+
+  it('should aggregate the failures sorted by index', () => {
+    const notFound = new FirebaseAuthError(AuthClientErrorCode.USER_NOT_FOUND);
+    // The later failures are reported first.
+    const updater = sinon.spy((uid: string) => {
+      if (uid.indexOf('missing') === 0) {
+        const delayMillis = uid === 'missing0' ? 20 : 0;
+        return new Promise((resolve, reject) => setTimeout(() => reject(notFound), delayMillis));
+      }
+      return Promise.resolve();
+    });
+    const operations = new BulkUserOperations(updater, sinon.spy(), FAST_OPTIONS);
+    return operations.disableUsers(['missing0', 'uid1', 'missing2', 'uid3'])
+      .then((result) => {
+        expect(result).to.deep.equal({
+          successCount: 2,
+          failureCount: 2,
+          errors: [{index: 0, error: notFound}, {index: 2, error: notFound}],
+        });
+      });
+  });
+
+  it('should not run more operations than the maximum concurrency at once', () => {
+    let running = 0;
+    let maxRunning = 0;
+    const updater = sinon.spy(() => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      return new Promise((resolve) => setTimeout(resolve, 20)).then(() => {
+        running--;
+      });
+    });
+    const operations = new BulkUserOperations(updater, sinon.spy(), _.assign({maxConcurrency: 3}, FAST_OPTIONS));
+    return operations.disableUsers(_.range(10).map((index) => 'uid' + index))
+      .then((result) => {
+        expect(result.successCount).to.equal(10);
+        expect(updater).to.have.callCount(10);
+        expect(maxRunning).to.equal(3);
+      });
+  });
+
+  it('should retry the operations rejected with a quota error', () => {
+    const quotaExceeded = new FirebaseAuthError(AuthClientErrorCode.QUOTA_EXCEEDED);
+    const updater = sinon.stub();
+    updater.onCall(0).rejects(quotaExceeded);
+    updater.onCall(1).rejects(quotaExceeded);
+    updater.onCall(2).resolves();
+    const operations = new BulkUserOperations(updater, sinon.spy(), FAST_OPTIONS);
+    return operations.disableUsers(['uid'])
+      .then((result) => {
+        expect(result).to.deep.equal({successCount: 1, failureCount: 0, errors: []});
+        expect(updater).to.have.been.calledThrice;
+      });
+  });
+
+  it('should report the quota error once the retries are exhausted', () => {
+    const quotaExceeded = new FirebaseAuthError(AuthClientErrorCode.QUOTA_EXCEEDED);
+    const updater = sinon.stub().rejects(quotaExceeded);
+    const operations = new BulkUserOperations(updater, sinon.spy(), _.assign({maxRetries: 2}, FAST_OPTIONS));
+    return operations.disableUsers(['uid'])
+      .then((result) => {
+        expect(result).to.deep.equal({successCount: 0, failureCount: 1, errors: [{index: 0, error: quotaExceeded}]});
+        expect(updater).to.have.been.calledThrice;
+      });
+  });
+
+  it('should not retry the operations rejected with other errors', () => {
+    const notFound = new FirebaseAuthError(AuthClientErrorCode.USER_NOT_FOUND);
+    const updater = sinon.stub().rejects(notFound);
+    const operations = new BulkUserOperations(updater, sinon.spy(), FAST_OPTIONS);
+    return operations.disableUsers(['uid'])
+      .then((result) => {
+        expect(result.errors).to.deep.equal([{index: 0, error: notFound}]);
+        expect(updater).to.have.been.calledOnce;
+      });
+  });
+
+  describe('with fake timers', () => {
+    let clock: sinon.SinonFakeTimers;
+
+    beforeEach(() => {
+      clock = sinon.useFakeTimers({toFake: ['setTimeout', 'Date']});
+    });
+
+    afterEach(() => {
+      clock.restore();
+    });
+
+    it('should back off exponentially before retrying', () => {
+      const quotaExceeded = new FirebaseAuthError(AuthClientErrorCode.QUOTA_EXCEEDED);
+      const updater = sinon.stub();
+      updater.onCall(0).rejects(quotaExceeded);
+      updater.onCall(1).rejects(quotaExceeded);
+      updater.onCall(2).resolves();
+      const operations = new BulkUserOperations(
+        updater, sinon.spy(), {maxOperationsPerSecond: 1000, retryDelayMillis: 100});
+      const result = operations.disableUsers(['uid']);
+      return flushPromises()
+        .then(() => {
+          expect(updater).to.have.been.calledOnce;
+          clock.tick(99);
+          return flushPromises();
+        })
+        .then(() => {
+          expect(updater).to.have.been.calledOnce;
+          clock.tick(1);
+          return flushPromises();
+        })
+        .then(() => {
+          expect(updater).to.have.been.calledTwice;
+          clock.tick(199);
+          return flushPromises();
+        })
+        .then(() => {
+          expect(updater).to.have.been.calledTwice;
+          clock.tick(1);
+          return result;
+        })
+        .then((bulkResult) => {
+          expect(bulkResult.successCount).to.equal(1);
+          expect(updater).to.have.been.calledThrice;
+        });
+    });
+  });
+});
+
+describe('RateLimiter', () => {
+  let clock: sinon.SinonFakeTimers;
+
+  beforeEach(() => {
+    clock = sinon.useFakeTimers({now: 1000, toFake: ['setTimeout', 'Date']});
+  });
+
+  afterEach(() => {
+    clock.restore();
+  });
+
+  it('should space out the acquired slots', () => {
+    const rateLimiter = new RateLimiter(10);
+    const acquired: number[] = [];
+    _.range(3).forEach((index) => {
+      rateLimiter.acquire().then(() => acquired.push(index));
+    });
+    return flushPromises()
+      .then(() => {
+        expect(acquired).to.deep.equal([0]);
+        clock.tick(100);
+        return flushPromises();
+      })
+      .then(() => {
+        expect(acquired).to.deep.equal([0, 1]);
+        clock.tick(99);
+        return flushPromises();
+      })
+      .then(() => {
+        expect(acquired).to.deep.equal([0, 1]);
+        clock.tick(1);
+        return flushPromises();
+      })
+      .then(() => {
+        expect(acquired).to.deep.equal([0, 1, 2]);
+      });
+  });
+
+  it('should not delay a slot acquired after the previous slots have elapsed', () => {
+    const rateLimiter = new RateLimiter(10);
+    const acquired: number[] = [];
+    rateLimiter.acquire().then(() => acquired.push(0));
+    clock.tick(500);
+    rateLimiter.acquire().then(() => acquired.push(1));
+    return flushPromises()
+      .then(() => {
+        expect(acquired).to.deep.equal([0, 1]);
+      });
+  });
+});
@@ -0,0 +1,229 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+'use strict';
+
+import * as _ from 'lodash';
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+import * as sinonChai from 'sinon-chai';
+import * as chaiAsPromised from 'chai-as-promised';
+
+import {
+  applyCustomClaimsUpdate, runCustomClaimsValidator, validateCustomClaims, validateUpdateCustomClaimsOptions,
+} from '../../../src/auth/custom-claims';
+import {AuthClientErrorCode, FirebaseAuthError} from '../../../src/utils/error';
+
+chai.should();
+chai.use(sinonChai);
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+describe('validateCustomClaims()', () => {
+  it('should not throw given valid claims', () => {
+    expect(() => validateCustomClaims({})).to.not.throw();
+    expect(() => validateCustomClaims({
+      admin: true,
+      level: 5,
+      groupId: null,
+      roles: ['editor', {scope: 'project'}],
+      since: new Date(0),
+    })).to.not.throw();
+  });
+
+  const invalidValues: Array<{claims: any, path: string, reason: string}> = [
+    {claims: {admin: undefined}, path: 'customClaims.admin', reason: 'must be a JSON value but is of type undefined'},
+    {claims: {check: _.noop}, path: 'customClaims.check', reason: 'must be a JSON value but is of type function'},
+    {claims: {level: NaN}, path: 'customClaims.level', reason: 'must be a finite number'},
+    {claims: {roles: ['a', Infinity]}, path: 'customClaims.roles[1]', reason: 'must be a finite number'},
+    {
+      claims: {org: {'team-id': {lead: undefined}}},
+      path: 'customClaims.org[\'team-id\'].lead',
+      reason: 'must be a JSON value but is of type undefined',
+    },
+  ];
+  invalidValues.forEach((invalidValue) => {
+    it(`should throw given an invalid value at ${invalidValue.path}`, () => {
+      expect(() => validateCustomClaims(invalidValue.claims))
+        .to.throw(FirebaseAuthError, `"${invalidValue.path}" ${invalidValue.reason}.`)
+        .with.property('code', 'auth/invalid-claims');
+    });
+  });
+
+  it('should throw given circular claims', () => {
+    const claims: any = {org: {}};
+    claims.org.parent = claims;
+    expect(() => validateCustomClaims(claims))
+      .to.throw('"customClaims.org.parent" contains a circular reference.');
+  });
+
+  it('should not throw given a value referenced twice without a cycle', () => {
+    const role = {name: 'editor'};
+    expect(() => validateCustomClaims({primary: role, roles: [role]})).to.not.throw();
+  });
+
+  it('should throw given a reserved claim', () => {
+    expect(() => validateCustomClaims({admin: true, aud: 'audience'}))
+      .to.throw('"customClaims.aud" is a reserved claim and cannot be specified.')
+      .with.property('code', 'auth/reserved-claim');
+  });
+
+  it('should not throw given a reserved claim name nested in a claim', () => {
+    expect(() => validateCustomClaims({profile: {sub: 'subject'}})).to.not.throw();
+  });
+
+  it('should throw given claims exceeding the maximum payload size', () => {
+    const claims = {admin: true, permissions: _.range(200).map((index) => 'p' + index)};
+    const payloadSize = JSON.stringify(claims).length;
+    const permissionsSize = JSON.stringify({permissions: claims.permissions}).length - 2;
+    expect(() => validateCustomClaims(claims))
+      .to.throw(
+        `Developer claims payload should not exceed 1000 characters, but has ${payloadSize} characters. ` +
+        `The largest claim is "customClaims.permissions" with ${permissionsSize} characters.`)
+      .with.property('code', 'auth/claims-too-large');
+  });
+
+  it('should not throw given claims of exactly the maximum payload size', () => {
+    // {"a":"..."} has 8 characters besides the value.
+    expect(() => validateCustomClaims({a: _.repeat('x', 992)})).to.not.throw();
+    expect(() => validateCustomClaims({a: _.repeat('x', 993)})).to.throw(FirebaseAuthError);
+  });
+});
+
+describe('runCustomClaimsValidator()', () => {
+  const claims = {admin: true};
+
+  it('should resolve when the validator returns', () => {
+    const claimsValidator = sinon.spy();
+    return runCustomClaimsValidator(claimsValidator, claims)
+      .then(() => {
+        expect(claimsValidator).to.have.been.calledOnce.and.calledWith(claims);
+      });
+  });
+
+  it('should resolve when the validator resolves', () => {
+    return runCustomClaimsValidator(() => Promise.resolve(), claims)
+      .should.eventually.be.fulfilled;
+  });
+
+  it('should be rejected with an invalid claims error when the validator throws', () => {
+    return runCustomClaimsValidator(() => {
+      throw new Error('"customClaims.role" must be one of "admin" or "editor".');
+    }, claims)
+      .should.eventually.be.rejected
+      .then((error) => {
+        expect(error).to.have.property('code', 'auth/invalid-claims');
+        expect(error).to.have.property('message',
+          'The custom claims were rejected by the custom claims validator: ' +
+          '"customClaims.role" must be one of "admin" or "editor".');
+      });
+  });
+
+  it('should be rejected with an invalid claims error when the validator rejects', () => {
+    return runCustomClaimsValidator(() => Promise.reject(new Error('invalid role')), claims)
+      .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-claims');
+  });
+
+  it('should be rejected with the Firebase Auth errors thrown by the validator', () => {
+    const expectedError = new FirebaseAuthError(AuthClientErrorCode.FORBIDDEN_CLAIM);
+    return runCustomClaimsValidator(() => {
+      throw expectedError;
+    }, claims)
+      .should.eventually.be.rejected.and.equal(expectedError);
+  });
+});
+
+describe('validateUpdateCustomClaimsOptions()', () => {
+  const nonObjects: any[] = [null, NaN, 0, 1, true, false, '', 'a', [], _.noop];
+  nonObjects.forEach((options) => {
+    it('should throw given invalid options: ' + JSON.stringify(options), () => {
+      expect(() => validateUpdateCustomClaimsOptions(options))
+        .to.throw('"UpdateCustomClaimsOptions" must be a valid non-null object.');
+    });
+  });
+
+  const invalidRetries: any[] = [null, NaN, -1, 1.5, 11, '2', {}];
+  invalidRetries.forEach((maxRetries) => {
+    it('should throw given an invalid maxRetries: ' + JSON.stringify(maxRetries), () => {
+      expect(() => validateUpdateCustomClaimsOptions({maxRetries}))
+        .to.throw('"UpdateCustomClaimsOptions.maxRetries" must be an integer between 0 and 10.');
+    });
+  });
+
+  it('should not throw given valid options', () => {
+    expect(() => validateUpdateCustomClaimsOptions({})).to.not.throw();
+    expect(() => validateUpdateCustomClaimsOptions({maxRetries: 0})).to.not.throw();
+  });
+});
+
+describe('applyCustomClaimsUpdate()', () => {
+  const claims: any = {admin: true, groupId: '123', roles: ['editor']};
+
+  it('should merge the claims into the current claims', () => {
+    return applyCustomClaimsUpdate(claims, {groupId: '456', level: 2})
+      .should.eventually.deep.equal({admin: true, groupId: '456', roles: ['editor'], level: 2});
+  });
+
+  it('should delete the claims with undefined values', () => {
+    return applyCustomClaimsUpdate(claims, {admin: undefined, unknown: undefined})
+      .should.eventually.deep.equal({groupId: '123', roles: ['editor']});
+  });
+
+  it('should apply an updater function to a copy of the current claims', () => {
+    return applyCustomClaimsUpdate(claims, (current: any) => {
+      current.roles.push('viewer');
+      return current;
+    })
+      .then((updatedClaims) => {
+        expect(updatedClaims).to.deep.equal({admin: true, groupId: '123', roles: ['editor', 'viewer']});
+        expect(claims.roles).to.deep.equal(['editor']);
+      });
+  });
+
+  it('should apply an async updater function', () => {
+    return applyCustomClaimsUpdate(claims, () => Promise.resolve({level: 1}))
+      .should.eventually.deep.equal({level: 1});
+  });
+
+  it('should return empty claims when the updater function returns null', () => {
+    return applyCustomClaimsUpdate(claims, () => null)
+      .should.eventually.deep.equal({});
+  });
+
+  it('should be rejected when the updater function returns an invalid value', () => {
+    return applyCustomClaimsUpdate(claims, () => 'claims' as any)
+      .should.eventually.be.rejected.and.have.property(
+        'message', 'The custom claims updater must return an object or null.');
+  });
+
+  it('should be rejected when the updater function throws', () => {
+    const expectedError = new Error('updater failed');
+    return applyCustomClaimsUpdate(claims, () => {
+      throw expectedError;
+    })
+      .should.eventually.be.rejected.and.equal(expectedError);
+  });
+
+  const invalidUpdates: any[] = [null, undefined, 0, true, 'claims', []];
+  invalidUpdates.forEach((update) => {
+    it('should be rejected given an invalid update: ' + JSON.stringify(update), () => {
+      return applyCustomClaimsUpdate(claims, update)
+        .should.eventually.be.rejected.and.have.property(
+          'message', 'The custom claims update must be an object or a function.');
+    });
+  });
+});
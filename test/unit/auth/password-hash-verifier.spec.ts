@@ -0,0 +1,245 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+'use strict';
+
+import * as _ from 'lodash';
+import * as chai from 'chai';
+import * as crypto from 'crypto';
+import * as sinon from 'sinon';
+import * as sinonChai from 'sinon-chai';
+import * as chaiAsPromised from 'chai-as-promised';
+
+import {PasswordHashVerifier} from '../../../src/auth/password-hash-verifier';
+import {UserImportOptions, UserImportRecord} from '../../../src/auth/user-import-builder';
+
+chai.should();
+chai.use(sinonChai);
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+interface PasswordHashTest {
+  name: string;
+  options: UserImportOptions;
+  computePasswordHash: () => Buffer;
+}
+
+describe('PasswordHashVerifier', () => {
+  const verifier = new PasswordHashVerifier();
+  const rawPassword = 'password';
+  const rawSalt = 'NaCl';
+  // scrypt is only available as of Node.js 10.5.0.
+  const itWithScrypt = typeof (crypto as any).scrypt === 'function' ? it : it.skip;
+
+  const nonStrings: any[] = [null, undefined, 0, true, [], {}, _.noop];
+  nonStrings.forEach((password) => {
+    it('should be rejected given an invalid password: ' + JSON.stringify(password), () => {
+      return verifier.verify(password, {uid: 'user', passwordHash: Buffer.from('hash')}, {hash: {algorithm: 'MD5'}})
+        .should.eventually.be.rejected.and.have.property('message', 'The password to verify must be a string.');
+    });
+  });
+
+  const invalidUsers: any[] = [null, undefined, 'user', {uid: 'user'}];
+  invalidUsers.forEach((user) => {
+    it('should be rejected given a user without a password hash: ' + JSON.stringify(user), () => {
+      return verifier.verify(rawPassword, user, {hash: {algorithm: 'MD5'}})
+        .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-password-hash');
+    });
+  });
+
+  it('should be rejected given an invalid user import record', () => {
+    const user: any = {uid: 'user', passwordHash: Buffer.from('hash'), passwordSalt: 'salt'};
+    return verifier.verify(rawPassword, user, {hash: {algorithm: 'MD5'}})
+      .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-password-salt');
+  });
+
+  it('should be rejected given missing hash options', () => {
+    return verifier.verify(rawPassword, {uid: 'user', passwordHash: Buffer.from('hash')}, undefined)
+      .should.eventually.be.rejected.and.have.property(
+        'message', '"UserImportOptions" are required when importing users with passwords.');
+  });
+
+  it('should be rejected given invalid hash options', () => {
+    const options: any = {hash: {algorithm: 'SCRYPT', key: Buffer.from('key'), rounds: 9, memoryCost: 14}};
+    return verifier.verify(rawPassword, {uid: 'user', passwordHash: Buffer.from('hash')}, options)
+      .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-hash-rounds');
+  });
+
+  const fixtures: PasswordHashTest[] = [
+    {
+      name: 'MD5',
+      options: {hash: {algorithm: 'MD5', rounds: 0}},
+      computePasswordHash: () => crypto.createHash('md5').update(rawSalt + rawPassword).digest(),
+    },
+    {
+      name: 'MD5 with a hex-encoded hash',
+      options: {hash: {algorithm: 'MD5', rounds: 0}},
+      computePasswordHash: () => {
+        return Buffer.from(crypto.createHash('md5').update(rawSalt + rawPassword).digest('hex'));
+      },
+    },
+    {
+      name: 'SHA1',
+      options: {hash: {algorithm: 'SHA1', rounds: 1}},
+      computePasswordHash: () => crypto.createHash('sha1').update(rawSalt + rawPassword).digest(),
+    },
+    {
+      name: 'SHA256 with multiple rounds',
+      options: {hash: {algorithm: 'SHA256', rounds: 3}},
+      computePasswordHash: () => {
+        let digest = crypto.createHash('sha256').update(rawSalt + rawPassword).digest();
+        digest = crypto.createHash('sha256').update(digest).digest();
+        return crypto.createHash('sha256').update(digest).digest();
+      },
+    },
+    {
+      name: 'SHA512',
+      options: {hash: {algorithm: 'SHA512', rounds: 1}},
+      computePasswordHash: () => crypto.createHash('sha512').update(rawSalt + rawPassword).digest(),
+    },
+    {
+      name: 'HMAC_SHA256',
+      options: {hash: {algorithm: 'HMAC_SHA256', key: Buffer.from('secret')}},
+      computePasswordHash: () => crypto.createHmac('sha256', 'secret').update(rawPassword + rawSalt).digest(),
+    },
+    {
+      name: 'HMAC_MD5 with a hex-encoded hash',
+      options: {hash: {algorithm: 'HMAC_MD5', key: Buffer.from('secret')}},
+      computePasswordHash: () => {
+        return Buffer.from(crypto.createHmac('md5', 'secret').update(rawPassword + rawSalt).digest('hex'));
+      },
+    },
+    {
+      name: 'PBKDF_SHA1',
+      options: {hash: {algorithm: 'PBKDF_SHA1', rounds: 1000}},
+      computePasswordHash: () => crypto.pbkdf2Sync(rawPassword, rawSalt, 1000, 20, 'sha1'),
+    },
+    {
+      name: 'PBKDF2_SHA256',
+      options: {hash: {algorithm: 'PBKDF2_SHA256', rounds: 1000}},
+      computePasswordHash: () => crypto.pbkdf2Sync(rawPassword, rawSalt, 1000, 64, 'sha256'),
+    },
+  ];
+
+  fixtures.forEach((fixture) => {
+    const user: UserImportRecord = {
+      uid: 'user',
+      passwordHash: fixture.computePasswordHash(),
+      passwordSalt: Buffer.from(rawSalt),
+    };
+
+    it(`should resolve with true given a matching ${fixture.name} hash`, () => {
+      return verifier.verify(rawPassword, user, fixture.options)
+        .should.eventually.be.true;
+    });
+
+    it(`should resolve with false given a different password for a ${fixture.name} hash`, () => {
+      return verifier.verify('wrong password', user, fixture.options)
+        .should.eventually.be.false;
+    });
+  });
+
+  describe('SCRYPT', () => {
+    // Obtained from https://github.com/firebase/scrypt.
+    const options: UserImportOptions = {
+      hash: {
+        algorithm: 'SCRYPT',
+        key: Buffer.from(
+          'jxspr8Ki0RYycVU8zykbdLGjFQ3McFUH0uiiTvC8pVMXAn210wjLNmdZJzxUECKbm0QsEmYUSDzZvpjeJ9WmXA==',
+          'base64'),
+        saltSeparator: Buffer.from('Bw==', 'base64'),
+        rounds: 8,
+        memoryCost: 14,
+      },
+    };
+    const user: UserImportRecord = {
+      uid: 'user',
+      passwordHash: Buffer.from(
+        'V358E8LdWJXAO7muq0CufVpEOXaj8aFiC7T/rcaGieN04q/ZPJ08WhJEHGjj9lz/2TT+/86N5VjVoc5DdBhBiw==',
+        'base64'),
+      passwordSalt: Buffer.from(rawSalt),
+    };
+
+    itWithScrypt('should resolve with true given a matching hash', () => {
+      return verifier.verify(rawPassword, user, options)
+        .should.eventually.be.true;
+    });
+
+    itWithScrypt('should resolve with false given a different signer key', () => {
+      const wrongKeyOptions = {hash: {...options.hash, key: Buffer.from('wrong key')}};
+      return verifier.verify(rawPassword, user, wrongKeyOptions)
+        .should.eventually.be.false;
+    });
+  });
+
+  describe('STANDARD_SCRYPT', () => {
+    const options: UserImportOptions = {
+      hash: {
+        algorithm: 'STANDARD_SCRYPT',
+        memoryCost: 1024,
+        parallelization: 2,
+        blockSize: 8,
+        derivedKeyLength: 32,
+      },
+    };
+
+    itWithScrypt('should resolve with true given a matching hash', () => {
+      const user: UserImportRecord = {
+        uid: 'user',
+        passwordHash: (crypto as any).scryptSync(rawPassword, rawSalt, 32, {N: 1024, r: 8, p: 2}),
+        passwordSalt: Buffer.from(rawSalt),
+      };
+      return verifier.verify(rawPassword, user, options)
+        .should.eventually.be.true;
+    });
+
+    itWithScrypt('should resolve with false given a different cost', () => {
+      const user: UserImportRecord = {
+        uid: 'user',
+        passwordHash: (crypto as any).scryptSync(rawPassword, rawSalt, 32, {N: 2048, r: 8, p: 2}),
+        passwordSalt: Buffer.from(rawSalt),
+      };
+      return verifier.verify(rawPassword, user, options)
+        .should.eventually.be.false;
+    });
+  });
+
+  describe('BCRYPT', () => {
+    const user: UserImportRecord = {uid: 'user', passwordHash: Buffer.from('$2b$10$hash')};
+    let loadBcryptStub: sinon.SinonStub;
+    afterEach(() => {
+      loadBcryptStub.restore();
+    });
+
+    it('should compare the password with the hash using the bcrypt package', () => {
+      const compare = sinon.stub().resolves(true);
+      loadBcryptStub = sinon.stub(PasswordHashVerifier.prototype, 'loadBcrypt' as any).returns({compare});
+      return verifier.verify(rawPassword, user, {hash: {algorithm: 'BCRYPT'}})
+        .then((result) => {
+          expect(result).to.be.true;
+          expect(compare).to.have.been.calledOnce.and.calledWith(rawPassword, '$2b$10$hash');
+        });
+    });
+
+    it('should be rejected when the bcrypt package cannot be loaded', () => {
+      const expectedError = new Error('Failed to import the bcrypt library');
+      loadBcryptStub = sinon.stub(PasswordHashVerifier.prototype, 'loadBcrypt' as any).throws(expectedError);
+      return verifier.verify(rawPassword, user, {hash: {algorithm: 'BCRYPT'}})
+        .should.eventually.be.rejected.and.equal(expectedError);
+    });
+  });
+});
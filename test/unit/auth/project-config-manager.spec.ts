@@ -0,0 +1,137 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+'use strict';
+
+import * as _ from 'lodash';
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+import * as sinonChai from 'sinon-chai';
+import * as chaiAsPromised from 'chai-as-promised';
+
+import * as mocks from '../../resources/mocks';
+import {FirebaseApp} from '../../../src/firebase-app';
+import {AuthRequestHandler} from '../../../src/auth/auth-api-request';
+import {
+  ProjectConfig, ProjectConfigServerResponse, UpdateProjectConfigRequest,
+} from '../../../src/auth/project-config';
+import {ProjectConfigManager} from '../../../src/auth/project-config-manager';
+import {AuthClientErrorCode, FirebaseAuthError} from '../../../src/utils/error';
+
+chai.should();
+chai.use(sinonChai);
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+describe('ProjectConfigManager', () => {
+  let mockApp: FirebaseApp;
+  let projectConfigManager: ProjectConfigManager;
+  let nullAccessTokenProjectConfigManager: ProjectConfigManager;
+  const GET_CONFIG_RESPONSE: ProjectConfigServerResponse = {
+    name: 'projects/project-id/config',
+    authorizedDomains: ['localhost', 'project-id.firebaseapp.com'],
+    signIn: {
+      email: {enabled: true, passwordRequired: true},
+      phoneNumber: {enabled: true},
+    },
+  };
+  // Stubs used to simulate underlying API calls.
+  let stubs: sinon.SinonStub[] = [];
+
+  before(() => {
+    mockApp = mocks.app();
+    projectConfigManager = new ProjectConfigManager(mockApp);
+    nullAccessTokenProjectConfigManager = new ProjectConfigManager(
+        mocks.appReturningNullAccessToken());
+  });
+
+  afterEach(() => {
+    _.forEach(stubs, (stub) => stub.restore());
+    stubs = [];
+  });
+
+  after(() => {
+    return mockApp.delete();
+  });
+
+  describe('getProjectConfig()', () => {
+    const expectedError = new FirebaseAuthError(AuthClientErrorCode.INTERNAL_ERROR);
+
+    it('should be rejected given an app which returns null access tokens', () => {
+      return nullAccessTokenProjectConfigManager.getProjectConfig()
+        .should.eventually.be.rejected.and.have.property('code', 'app/invalid-credential');
+    });
+
+    it('should resolve with a ProjectConfig on success', () => {
+      const stub = sinon.stub(AuthRequestHandler.prototype, 'getProjectConfig')
+        .returns(Promise.resolve(GET_CONFIG_RESPONSE));
+      stubs.push(stub);
+      return projectConfigManager.getProjectConfig()
+        .then((result) => {
+          expect(stub).to.have.been.calledOnce;
+          expect(result).to.deep.equal(new ProjectConfig(GET_CONFIG_RESPONSE));
+        });
+    });
+
+    it('should throw an error when the backend returns an error', () => {
+      const stub = sinon.stub(AuthRequestHandler.prototype, 'getProjectConfig')
+        .returns(Promise.reject(expectedError));
+      stubs.push(stub);
+      return projectConfigManager.getProjectConfig()
+        .should.eventually.be.rejected.and.equal(expectedError);
+    });
+  });
+
+  describe('updateProjectConfig()', () => {
+    const options: UpdateProjectConfigRequest = {
+      authorizedDomains: ['localhost'],
+      anonymousSignInEnabled: true,
+    };
+    const expectedError = new FirebaseAuthError(
+      AuthClientErrorCode.INTERNAL_ERROR,
+      'Unable to update the project config provided.');
+
+    it('should be rejected given invalid options', () => {
+      return projectConfigManager.updateProjectConfig({phoneSignInEnabled: 'yes'} as any)
+        .should.eventually.be.rejected.and.have.property('code', 'auth/argument-error');
+    });
+
+    it('should be rejected given an app which returns null access tokens', () => {
+      return nullAccessTokenProjectConfigManager.updateProjectConfig(options)
+        .should.eventually.be.rejected.and.have.property('code', 'app/invalid-credential');
+    });
+
+    it('should resolve with a ProjectConfig on success', () => {
+      const stub = sinon.stub(AuthRequestHandler.prototype, 'updateProjectConfig')
+        .returns(Promise.resolve(GET_CONFIG_RESPONSE));
+      stubs.push(stub);
+      return projectConfigManager.updateProjectConfig(options)
+        .then((result) => {
+          expect(stub).to.have.been.calledOnce.and.calledWith(options);
+          expect(result).to.deep.equal(new ProjectConfig(GET_CONFIG_RESPONSE));
+        });
+    });
+
+    it('should throw an error when the backend returns an error', () => {
+      const stub = sinon.stub(AuthRequestHandler.prototype, 'updateProjectConfig')
+        .returns(Promise.reject(expectedError));
+      stubs.push(stub);
+      return projectConfigManager.updateProjectConfig(options)
+        .should.eventually.be.rejected.and.equal(expectedError);
+    });
+  });
+});
@@ -0,0 +1,296 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+'use strict';
+
+import * as _ from 'lodash';
+import * as chai from 'chai';
+import * as sinonChai from 'sinon-chai';
+import * as chaiAsPromised from 'chai-as-promised';
+
+import {deepCopy} from '../../../src/utils/deep-copy';
+import {EmailSignInConfig} from '../../../src/auth/auth-config';
+import {
+  ProjectConfig, ProjectConfigServerResponse, UpdateProjectConfigRequest,
+} from '../../../src/auth/project-config';
+
+
+chai.should();
+chai.use(sinonChai);
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+describe('ProjectConfig', () => {
+  const serverResponse: ProjectConfigServerResponse = {
+    name: 'projects/project1/config',
+    authorizedDomains: ['localhost', 'project1.firebaseapp.com'],
+    signIn: {
+      email: {
+        enabled: true,
+        passwordRequired: false,
+      },
+      phoneNumber: {
+        enabled: true,
+      },
+      anonymous: {
+        enabled: true,
+      },
+    },
+    notification: {
+      sendEmail: {
+        resetPasswordTemplate: {
+          senderLocalPart: 'noreply',
+          senderDisplayName: 'Project 1',
+          replyTo: 'support@project1.com',
+          subject: 'Reset your password',
+          body: '<p>Follow <a href="%LINK%">this link</a> to reset your password.</p>',
+          bodyFormat: 'HTML',
+          customized: true,
+        },
+        verifyEmailTemplate: {
+          senderLocalPart: 'noreply',
+          subject: 'Verify your email',
+          body: 'Follow this link to verify your email: %LINK%',
+          bodyFormat: 'PLAIN_TEXT',
+          customized: false,
+        },
+      },
+    },
+  };
+
+  const clientRequest: UpdateProjectConfigRequest = {
+    authorizedDomains: ['localhost', 'project1.firebaseapp.com'],
+    emailSignInConfig: {
+      enabled: true,
+      passwordRequired: false,
+    },
+    phoneSignInEnabled: true,
+    anonymousSignInEnabled: true,
+    emailTemplates: {
+      resetPassword: {
+        senderLocalPart: 'noreply',
+        senderDisplayName: 'Project 1',
+        replyTo: 'support@project1.com',
+        subject: 'Reset your password',
+        body: '<p>Follow <a href="%LINK%">this link</a> to reset your password.</p>',
+        bodyFormat: 'HTML',
+      },
+      verifyEmail: {
+        senderLocalPart: 'noreply',
+        subject: 'Verify your email',
+        body: 'Follow this link to verify your email: %LINK%',
+        bodyFormat: 'PLAIN_TEXT',
+      },
+    },
+  };
+
+  describe('buildServerRequest()', () => {
+    it('should return the expected server request', () => {
+      const expectedRequest = deepCopy(serverResponse);
+      delete expectedRequest.name;
+      delete expectedRequest.notification.sendEmail.resetPasswordTemplate.customized;
+      delete expectedRequest.notification.sendEmail.verifyEmailTemplate.customized;
+      expect(ProjectConfig.buildServerRequest(clientRequest)).to.deep.equal(expectedRequest);
+    });
+
+    it('should only include the provided properties', () => {
+      expect(ProjectConfig.buildServerRequest({
+        emailSignInConfig: {enabled: false},
+        anonymousSignInEnabled: false,
+      })).to.deep.equal({
+        signIn: {
+          email: {enabled: false},
+          anonymous: {enabled: false},
+        },
+      });
+    });
+
+    it('should ignore the output only customized field of email templates', () => {
+      expect(ProjectConfig.buildServerRequest({
+        emailTemplates: {changeEmail: {subject: 'Your email was changed', customized: true}},
+      })).to.deep.equal({
+        notification: {
+          sendEmail: {
+            changeEmailTemplate: {subject: 'Your email was changed'},
+          },
+        },
+      });
+    });
+
+    it('should return an empty request when no properties are provided', () => {
+      expect(ProjectConfig.buildServerRequest({})).to.deep.equal({});
+    });
+
+    it('should throw on invalid EmailSignInConfig attribute', () => {
+      expect(() => {
+        ProjectConfig.buildServerRequest({emailSignInConfig: {enabled: 'yes'}} as any);
+      }).to.throw('"EmailSignInConfig.enabled" must be a boolean.');
+    });
+
+    const invalidDomains: any[] = [null, 'localhost', {}, [''], ['localhost', 1]];
+    invalidDomains.forEach((authorizedDomains) => {
+      it('should throw on invalid authorizedDomains:' + JSON.stringify(authorizedDomains), () => {
+        expect(() => {
+          ProjectConfig.buildServerRequest({authorizedDomains} as any);
+        }).to.throw('"UpdateProjectConfigRequest.authorizedDomains" must be an array of non-empty strings.');
+      });
+    });
+
+    const nonBooleans: any[] = [null, NaN, 0, 1, '', 'a', [], {}, _.noop];
+    nonBooleans.forEach((value) => {
+      it('should throw on invalid phoneSignInEnabled:' + JSON.stringify(value), () => {
+        expect(() => {
+          ProjectConfig.buildServerRequest({phoneSignInEnabled: value} as any);
+        }).to.throw('"UpdateProjectConfigRequest.phoneSignInEnabled" must be a boolean.');
+      });
+
+      it('should throw on invalid anonymousSignInEnabled:' + JSON.stringify(value), () => {
+        expect(() => {
+          ProjectConfig.buildServerRequest({anonymousSignInEnabled: value} as any);
+        }).to.throw('"UpdateProjectConfigRequest.anonymousSignInEnabled" must be a boolean.');
+      });
+    });
+
+    const invalidEmailTemplates: any[] = [null, 'a', [], {subject: 1}];
+    invalidEmailTemplates.forEach((resetPassword) => {
+      it('should throw on invalid email template:' + JSON.stringify(resetPassword), () => {
+        expect(() => {
+          ProjectConfig.buildServerRequest({emailTemplates: {resetPassword}});
+        }).to.throw('"UpdateProjectConfigRequest.emailTemplates.resetPassword');
+      });
+    });
+
+    it('should throw on invalid emailTemplates', () => {
+      expect(() => {
+        ProjectConfig.buildServerRequest({emailTemplates: []} as any);
+      }).to.throw('"UpdateProjectConfigRequest.emailTemplates" must be a valid non-null object.');
+    });
+
+    it('should throw on unsupported email template', () => {
+      expect(() => {
+        ProjectConfig.buildServerRequest({emailTemplates: {revertSecondFactor: {}}} as any);
+      }).to.throw('"revertSecondFactor" is not a valid EmailTemplatesConfig parameter.');
+    });
+
+    it('should throw on unsupported email template attribute', () => {
+      expect(() => {
+        ProjectConfig.buildServerRequest({emailTemplates: {verifyEmail: {locale: 'fr'}}} as any);
+      }).to.throw('"locale" is not a valid EmailTemplate parameter.');
+    });
+
+    it('should throw on invalid email template replyTo', () => {
+      expect(() => {
+        ProjectConfig.buildServerRequest({emailTemplates: {verifyEmail: {replyTo: 'support'}}});
+      }).to.throw('"UpdateProjectConfigRequest.emailTemplates.verifyEmail.replyTo" must be a valid email address.');
+    });
+
+    it('should throw on invalid email template bodyFormat', () => {
+      expect(() => {
+        ProjectConfig.buildServerRequest({emailTemplates: {verifyEmail: {bodyFormat: 'MARKDOWN'}}} as any);
+      }).to.throw('"UpdateProjectConfigRequest.emailTemplates.verifyEmail.bodyFormat" must be either ' +
+        '"PLAIN_TEXT" or "HTML".');
+    });
+
+    const nonObjects: any[] = [null, NaN, 0, 1, true, false, '', 'a', [], _.noop];
+    nonObjects.forEach((request) => {
+      it('should throw on invalid UpdateProjectConfigRequest:' + JSON.stringify(request), () => {
+        expect(() => {
+          ProjectConfig.buildServerRequest(request as any);
+        }).to.throw('"UpdateProjectConfigRequest" must be a valid non-null object.');
+      });
+    });
+
+    it('should throw on unsupported attribute', () => {
+      expect(() => {
+        ProjectConfig.buildServerRequest({displayName: 'PROJECT'} as any);
+      }).to.throw('"displayName" is not a valid UpdateProjectConfigRequest parameter.');
+    });
+  });
+
+  describe('constructor', () => {
+    const projectConfig = new ProjectConfig(serverResponse);
+
+    it('should set readonly property authorizedDomains', () => {
+      expect(projectConfig.authorizedDomains).to.deep.equal(serverResponse.authorizedDomains);
+    });
+
+    it('should set readonly property emailSignInConfig', () => {
+      expect(projectConfig.emailSignInConfig).to.deep.equal(new EmailSignInConfig({
+        allowPasswordSignup: true,
+        enableEmailLinkSignin: true,
+      }));
+    });
+
+    it('should set readonly property phoneSignInEnabled', () => {
+      expect(projectConfig.phoneSignInEnabled).to.be.true;
+    });
+
+    it('should set readonly property anonymousSignInEnabled', () => {
+      expect(projectConfig.anonymousSignInEnabled).to.be.true;
+    });
+
+    it('should set readonly property emailTemplates', () => {
+      expect(projectConfig.emailTemplates).to.deep.equal({
+        resetPassword: serverResponse.notification.sendEmail.resetPasswordTemplate,
+        verifyEmail: serverResponse.notification.sendEmail.verifyEmailTemplate,
+      });
+    });
+
+    it('should default missing properties to disabled', () => {
+      const config = new ProjectConfig({name: 'projects/project1/config'});
+      expect(config.emailTemplates).to.deep.equal({});
+      expect(config.authorizedDomains).to.deep.equal([]);
+      expect(config.emailSignInConfig.enabled).to.be.false;
+      expect(config.phoneSignInEnabled).to.be.false;
+      expect(config.anonymousSignInEnabled).to.be.false;
+    });
+
+    it('should enable email link sign-in when passwordRequired is missing', () => {
+      const config = new ProjectConfig({
+        name: 'projects/project1/config',
+        signIn: {email: {enabled: true}},
+      });
+      expect(config.emailSignInConfig).to.deep.equal(new EmailSignInConfig({
+        allowPasswordSignup: true,
+        enableEmailLinkSignin: true,
+      }));
+    });
+
+    it('should throw when no config name is provided', () => {
+      expect(() => new ProjectConfig({}))
+        .to.throw('INTERNAL ASSERT FAILED: Invalid project config response');
+    });
+  });
+
+  describe('toJSON()', () => {
+    it('should return the expected object representation of a project config', () => {
+      expect(new ProjectConfig(serverResponse).toJSON()).to.deep.equal({
+        authorizedDomains: ['localhost', 'project1.firebaseapp.com'],
+        emailSignInConfig: {
+          enabled: true,
+          passwordRequired: false,
+        },
+        phoneSignInEnabled: true,
+        anonymousSignInEnabled: true,
+        emailTemplates: {
+          resetPassword: serverResponse.notification.sendEmail.resetPasswordTemplate,
+          verifyEmail: serverResponse.notification.sendEmail.verifyEmailTemplate,
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+'use strict';
+
+import * as _ from 'lodash';
+import * as chai from 'chai';
+
+import {
+  planProviderConfigChanges, validateApplyProviderConfigsOptions, validateDesiredProviderConfigs,
+} from '../../../src/auth/provider-config-plan';
+import {OIDCAuthProviderConfig, SAMLAuthProviderConfig, SAMLConfig} from '../../../src/auth/auth-config';
+
+const expect = chai.expect;
+
+const SAML_CONFIG: SAMLAuthProviderConfig = {
+  providerId: 'saml.provider',
+  displayName: 'SAML_DISPLAY_NAME',
+  enabled: true,
+  idpEntityId: 'IDP_ENTITY_ID',
+  ssoURL: 'https://example.com/login',
+  x509Certificates: ['CERT1'],
+  rpEntityId: 'RP_ENTITY_ID',
+  callbackURL: 'https://projectId.firebaseapp.com/__/auth/handler',
+  enableRequestSigning: false,
+};
+
+const OIDC_CONFIG: OIDCAuthProviderConfig = {
+  providerId: 'oidc.provider',
+  displayName: 'OIDC_DISPLAY_NAME',
+  enabled: true,
+  clientId: 'CLIENT_ID',
+  issuer: 'https://oidc.com/issuer',
+};
+
+describe('validateApplyProviderConfigsOptions()', () => {
+  const nonObjects: any[] = [null, undefined, 'options', 1, []];
+  nonObjects.forEach((options) => {
+    it('should throw given invalid options: ' + JSON.stringify(options), () => {
+      expect(() => validateApplyProviderConfigsOptions(options))
+        .to.throw('"ApplyProviderConfigsOptions" must be a valid non-null object.');
+    });
+  });
+
+  ['prune', 'dryRun'].forEach((key) => {
+    it(`should throw given an invalid ${key}`, () => {
+      expect(() => validateApplyProviderConfigsOptions({[key]: 'true'}))
+        .to.throw(`"ApplyProviderConfigsOptions.${key}" must be a boolean.`);
+    });
+  });
+
+  it('should not throw given valid options', () => {
+    expect(() => validateApplyProviderConfigsOptions({prune: true, dryRun: false})).not.to.throw();
+  });
+});
+
+describe('validateDesiredProviderConfigs()', () => {
+  it('should throw given a non-array', () => {
+    expect(() => validateDesiredProviderConfigs(SAML_CONFIG))
+      .to.throw('The desired provider configurations must be an array.');
+  });
+
+  it('should throw given a non-object configuration', () => {
+    expect(() => validateDesiredProviderConfigs([null]))
+      .to.throw('"AuthProviderConfig" must be a valid non-null object.');
+  });
+
+  it('should throw given an unsupported provider ID', () => {
+    expect(() => validateDesiredProviderConfigs([_.assign({}, OIDC_CONFIG, {providerId: 'google.com'})]))
+      .to.throw().with.property('code', 'auth/invalid-provider-id');
+  });
+
+  it('should throw given an incomplete SAML configuration', () => {
+    expect(() => validateDesiredProviderConfigs([_.omit(SAML_CONFIG, 'ssoURL')]))
+      .to.throw('"SAMLAuthProviderConfig.ssoURL" must be a valid URL string.');
+  });
+
+  it('should throw given an incomplete OIDC configuration', () => {
+    expect(() => validateDesiredProviderConfigs([_.omit(OIDC_CONFIG, 'issuer')]))
+      .to.throw('"OIDCAuthProviderConfig.issuer" must be a valid URL string.');
+  });
+
+  it('should throw given a duplicate provider ID', () => {
+    expect(() => validateDesiredProviderConfigs([OIDC_CONFIG, OIDC_CONFIG]))
+      .to.throw('The provider ID "oidc.provider" is desired more than once.');
+  });
+
+  it('should not throw given valid configurations', () => {
+    expect(() => validateDesiredProviderConfigs([SAML_CONFIG, OIDC_CONFIG])).not.to.throw();
+  });
+});
+
+describe('planProviderConfigChanges()', () => {
+  it('should create the desired providers which do not exist', () => {
+    expect(planProviderConfigChanges([SAML_CONFIG, OIDC_CONFIG], [], false)).to.deep.equal({
+      changes: [
+        {action: 'create', providerId: 'saml.provider', request: SAML_CONFIG},
+        {action: 'create', providerId: 'oidc.provider', request: OIDC_CONFIG},
+      ],
+      unchangedProviderIds: [],
+    });
+  });
+
+  it('should update only the changed fields', () => {
+    const desired = _.assign({}, SAML_CONFIG, {
+      enabled: false,
+      x509Certificates: ['CERT1', 'CERT2'],
+      enableRequestSigning: true,
+    });
+    expect(planProviderConfigChanges([desired], [SAML_CONFIG], false)).to.deep.equal({
+      changes: [{
+        action: 'update',
+        providerId: 'saml.provider',
+        request: {enabled: false, x509Certificates: ['CERT1', 'CERT2'], enableRequestSigning: true},
+      }],
+      unchangedProviderIds: [],
+    });
+  });
+
+  it('should not manage the fields left undefined', () => {
+    const desired = _.assign({}, OIDC_CONFIG, {displayName: undefined});
+    expect(planProviderConfigChanges([desired], [OIDC_CONFIG], false)).to.deep.equal({
+      changes: [],
+      unchangedProviderIds: ['oidc.provider'],
+    });
+  });
+
+  it('should compare the desired configurations with existing SAMLConfig instances', () => {
+    const current = new SAMLConfig({
+      name: 'projects/project_id/inboundSamlConfigs/saml.provider',
+      idpConfig: {
+        idpEntityId: 'IDP_ENTITY_ID',
+        ssoUrl: 'https://example.com/login',
+        idpCertificates: [{x509Certificate: 'CERT1'}],
+      },
+      spConfig: {
+        spEntityId: 'RP_ENTITY_ID',
+        callbackUri: 'https://projectId.firebaseapp.com/__/auth/handler',
+      },
+      displayName: 'SAML_DISPLAY_NAME',
+      enabled: true,
+    });
+    expect(planProviderConfigChanges([SAML_CONFIG], [current], false).unchangedProviderIds)
+      .to.deep.equal(['saml.provider']);
+  });
+
+  it('should only delete the providers which are not desired when pruning', () => {
+    const obsolete = _.assign({}, OIDC_CONFIG, {providerId: 'oidc.obsolete'});
+    expect(planProviderConfigChanges([OIDC_CONFIG], [obsolete, OIDC_CONFIG], false).changes)
+      .to.be.empty;
+    expect(planProviderConfigChanges([OIDC_CONFIG], [obsolete, OIDC_CONFIG], true).changes)
+      .to.deep.equal([{action: 'delete', providerId: 'oidc.obsolete'}]);
+  });
+
+  it('should order the creations before the updates and the deletions', () => {
+    const obsolete = _.assign({}, OIDC_CONFIG, {providerId: 'oidc.obsolete'});
+    const updated = _.assign({}, SAML_CONFIG, {displayName: 'NEW_DISPLAY_NAME'});
+    const plan = planProviderConfigChanges([updated, OIDC_CONFIG], [obsolete, SAML_CONFIG], true);
+    expect(plan.changes.map((change) => change.action)).to.deep.equal(['create', 'update', 'delete']);
+  });
+});
@@ -0,0 +1,348 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+'use strict';
+
+// Use untyped import syntax for Node built-ins
+import https = require('https');
+
+import * as _ from 'lodash';
+import * as chai from 'chai';
+import * as nock from 'nock';
+import * as sinon from 'sinon';
+import * as sinonChai from 'sinon-chai';
+import * as chaiAsPromised from 'chai-as-promised';
+
+import * as mocks from '../../resources/mocks';
+import {
+  JwksKeyFetcher, OIDCDiscoveryKeyFetcher, ProviderIdTokenVerifier,
+} from '../../../src/auth/provider-token-verifier';
+
+chai.should();
+chai.use(sinonChai);
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+const ISSUER = 'https://oidc.com/issuer';
+const CLIENT_ID = 'CLIENT_ID';
+const JWKS_URI = 'https://oidc.com/jwks';
+
+/**
+ * Converts a PEM encoded RSA public key to a JSON Web Key.
+ *
+ * @param {string} publicKey The PEM encoded public key.
+ * @param {string} kid The key ID.
+ * @return {object} The JSON Web Key.
+ */
+function toJwk(publicKey: string, kid: string): object {
+  const forge = require('node-forge');
+  const key = forge.pki.publicKeyFromPem(publicKey);
+  const toBase64Url = (value: any) => {
+    let hex = value.toString(16);
+    hex = hex.length % 2 ? '0' + hex : hex;
+    return Buffer.from(hex, 'hex').toString('base64')
+      .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  };
+  return {kty: 'RSA', use: 'sig', alg: 'RS256', kid, n: toBase64Url(key.n), e: toBase64Url(key.e)};
+}
+
+/**
+ * Returns a mocked out success response for the OIDC discovery document of the issuer.
+ *
+ * @param {object=} overrides Overrides for the discovery document properties.
+ * @return {Object} A nock response object.
+ */
+function mockDiscoveryDocument(overrides?: object): nock.Scope {
+  return nock('https://oidc.com')
+    .get('/issuer/.well-known/openid-configuration')
+    .reply(200, _.assign({issuer: ISSUER, jwks_uri: JWKS_URI}, overrides));
+}
+
+/**
+ * Returns a mocked out success response for the JWKS of the issuer.
+ *
+ * @return {Object} A nock response object.
+ */
+function mockJwks(): nock.Scope {
+  return nock('https://oidc.com')
+    .get('/jwks')
+    .reply(200, {
+      keys: [
+        toJwk(mocks.keyPairs[0].public, mocks.certificateObject.private_key_id),
+        {kty: 'EC', kid: 'ec-key', crv: 'P-256', x: 'x', y: 'y'},
+      ],
+    }, {
+      'cache-control': 'public, max-age=1, must-revalidate, no-transform',
+    });
+}
+
+/**
+ * Generates an ID token as issued by the mocked OIDC provider.
+ *
+ * @param {object=} overrides Overrides for the generated token's attributes.
+ * @return {string} The ID token.
+ */
+function generateProviderIdToken(overrides?: object): string {
+  return mocks.generateIdToken(_.assign({audience: CLIENT_ID, issuer: ISSUER}, overrides));
+}
+
+describe('JwksKeyFetcher', () => {
+  let mockedRequests: nock.Scope[] = [];
+
+  afterEach(() => {
+    _.forEach(mockedRequests, (mockedRequest) => mockedRequest.done());
+    mockedRequests = [];
+  });
+
+  it('should convert the RSA signing keys to PEM encoded public keys', () => {
+    mockedRequests.push(mockJwks());
+    return new JwksKeyFetcher(JWKS_URI).fetchPublicKeys()
+      .then((publicKeys) => {
+        const forge = require('node-forge');
+        expect(Object.keys(publicKeys)).to.deep.equal([mocks.certificateObject.private_key_id]);
+        const key = forge.pki.publicKeyFromPem(publicKeys[mocks.certificateObject.private_key_id]);
+        const expectedKey = forge.pki.publicKeyFromPem(mocks.keyPairs[0].public);
+        expect(key.n.equals(expectedKey.n)).to.be.true;
+        expect(key.e.equals(expectedKey.e)).to.be.true;
+      });
+  });
+
+  it('should cache the public keys for the "max-age" duration of the response', () => {
+    mockedRequests.push(mockJwks());
+    const cache = {
+      get: sinon.stub().resolves(null),
+      set: sinon.stub().resolves(),
+    };
+    return new JwksKeyFetcher(JWKS_URI, cache).fetchPublicKeys()
+      .then((publicKeys) => {
+        expect(cache.set).to.have.been.calledOnce.and.calledWith(JWKS_URI, publicKeys, 1000);
+      });
+  });
+
+  it('should cache the public keys for 5 minutes when the response has no "max-age"', () => {
+    mockedRequests.push(nock('https://oidc.com')
+      .get('/jwks')
+      .reply(200, {keys: [toJwk(mocks.keyPairs[0].public, mocks.certificateObject.private_key_id)]}));
+    const cache = {
+      get: sinon.stub().resolves(null),
+      set: sinon.stub().resolves(),
+    };
+    return new JwksKeyFetcher(JWKS_URI, cache).fetchPublicKeys()
+      .then((publicKeys) => {
+        expect(cache.set).to.have.been.calledOnce.and.calledWith(JWKS_URI, publicKeys, 5 * 60 * 1000);
+      });
+  });
+
+  it('should be rejected when the response does not contain a keys array', () => {
+    mockedRequests.push(nock('https://oidc.com').get('/jwks').reply(200, {}));
+    return new JwksKeyFetcher(JWKS_URI).fetchPublicKeys()
+      .should.eventually.be.rejectedWith('The OIDC provider JSON Web Key Set does not contain a "keys" array.');
+  });
+
+  it('should be rejected with the error response when the request fails', () => {
+    mockedRequests.push(nock('https://oidc.com')
+      .get('/jwks')
+      .reply(500, 'server error', {'content-type': 'text/plain'}));
+    return new JwksKeyFetcher(JWKS_URI).fetchPublicKeys()
+      .should.eventually.be.rejectedWith('Error fetching public keys for the OIDC provider: server error');
+  });
+});
+
+describe('OIDCDiscoveryKeyFetcher', () => {
+  let httpsSpy: sinon.SinonSpy;
+  let mockedRequests: nock.Scope[] = [];
+
+  beforeEach(() => {
+    httpsSpy = sinon.spy(https, 'request');
+  });
+
+  afterEach(() => {
+    _.forEach(mockedRequests, (mockedRequest) => mockedRequest.done());
+    mockedRequests = [];
+    httpsSpy.restore();
+  });
+
+  const invalidIssuers: any[] = [null, NaN, 0, 1, true, false, '', 'a', [], {}, _.noop];
+  invalidIssuers.forEach((invalidIssuer) => {
+    it('should throw given an invalid issuer: ' + JSON.stringify(invalidIssuer), () => {
+      expect(() => new OIDCDiscoveryKeyFetcher(invalidIssuer))
+        .to.throw('The provided OIDC issuer is an invalid URL.');
+    });
+  });
+
+  it('should fetch the public keys from the discovered JWKS URL', () => {
+    mockedRequests.push(mockDiscoveryDocument());
+    mockedRequests.push(mockJwks());
+    return new OIDCDiscoveryKeyFetcher(ISSUER).fetchPublicKeys()
+      .then((publicKeys) => {
+        expect(publicKeys).to.have.all.keys(mocks.certificateObject.private_key_id);
+      });
+  });
+
+  it('should only fetch the discovery document once', () => {
+    mockedRequests.push(mockDiscoveryDocument());
+    mockedRequests.push(mockJwks());
+    const keyFetcher = new OIDCDiscoveryKeyFetcher(ISSUER);
+    return keyFetcher.fetchPublicKeys()
+      .then(() => keyFetcher.fetchPublicKeys())
+      .then(() => {
+        expect(https.request).to.have.been.calledTwice;
+      });
+  });
+
+  it('should be rejected when the discovery document issuer does not match', () => {
+    mockedRequests.push(mockDiscoveryDocument({issuer: 'https://other.com'}));
+    return new OIDCDiscoveryKeyFetcher(ISSUER).fetchPublicKeys()
+      .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-config');
+  });
+
+  it('should be rejected when the discovery document has no valid jwks_uri', () => {
+    mockedRequests.push(mockDiscoveryDocument({jwks_uri: 'invalid'}));
+    return new OIDCDiscoveryKeyFetcher(ISSUER).fetchPublicKeys()
+      .should.eventually.be.rejectedWith('The OIDC discovery document does not contain a valid "jwks_uri".');
+  });
+
+  it('should fetch the discovery document again after a failure', () => {
+    mockedRequests.push(nock('https://oidc.com')
+      .get('/issuer/.well-known/openid-configuration')
+      .reply(500, 'server error', {'content-type': 'text/plain'}));
+    mockedRequests.push(mockDiscoveryDocument());
+    mockedRequests.push(mockJwks());
+    const keyFetcher = new OIDCDiscoveryKeyFetcher(ISSUER);
+    return keyFetcher.fetchPublicKeys()
+      .should.eventually.be.rejectedWith(
+        `Error fetching the OIDC discovery document of "${ISSUER}": server error`)
+      .then(() => keyFetcher.fetchPublicKeys())
+      .should.eventually.have.all.keys(mocks.certificateObject.private_key_id);
+  });
+});
+
+describe('ProviderIdTokenVerifier', () => {
+  let clock: sinon.SinonFakeTimers;
+  let tokenVerifier: ProviderIdTokenVerifier;
+  let mockedRequests: nock.Scope[] = [];
+
+  beforeEach(() => {
+    tokenVerifier = new ProviderIdTokenVerifier(ISSUER, CLIENT_ID);
+  });
+
+  afterEach(() => {
+    _.forEach(mockedRequests, (mockedRequest) => mockedRequest.done());
+    mockedRequests = [];
+    if (clock) {
+      clock.restore();
+      clock = undefined;
+    }
+  });
+
+  const invalidClientIds: any[] = [null, NaN, 0, 1, true, false, '', [], {}, _.noop];
+  invalidClientIds.forEach((invalidClientId) => {
+    it('should throw given an invalid client ID: ' + JSON.stringify(invalidClientId), () => {
+      expect(() => new ProviderIdTokenVerifier(ISSUER, invalidClientId))
+        .to.throw('The provided OIDC client ID must be a non-empty string.');
+    });
+  });
+
+  const invalidTokens: any[] = [null, NaN, 0, 1, true, false, '', [], {}, _.noop];
+  invalidTokens.forEach((invalidToken) => {
+    it('should be rejected given an invalid ID token: ' + JSON.stringify(invalidToken), () => {
+      return tokenVerifier.verifyJWT(invalidToken)
+        .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-id-token');
+    });
+  });
+
+  it('should be rejected given a malformed ID token', () => {
+    return tokenVerifier.verifyJWT('malformed')
+      .should.eventually.be.rejectedWith('Decoding OIDC provider ID token failed.');
+  });
+
+  it('should be rejected given an ID token with an incorrect algorithm', () => {
+    const idToken = generateProviderIdToken({algorithm: 'HS256'});
+    return tokenVerifier.verifyJWT(idToken)
+      .should.eventually.be.rejectedWith('OIDC provider ID token has incorrect algorithm.');
+  });
+
+  it('should be rejected given an ID token with no "kid"', () => {
+    const idToken = generateProviderIdToken({header: {}});
+    return tokenVerifier.verifyJWT(idToken)
+      .should.eventually.be.rejectedWith('OIDC provider ID token has no "kid" claim.');
+  });
+
+  it('should be rejected given an ID token with an unknown "kid"', () => {
+    mockedRequests.push(mockDiscoveryDocument());
+    mockedRequests.push(mockJwks());
+    const idToken = generateProviderIdToken({header: {kid: 'unknown'}});
+    return tokenVerifier.verifyJWT(idToken)
+      .should.eventually.be.rejectedWith(
+        'OIDC provider ID token has "kid" claim which does not correspond to a known public key.');
+  });
+
+  it('should be rejected given an ID token with an incorrect issuer', () => {
+    mockedRequests.push(mockDiscoveryDocument());
+    mockedRequests.push(mockJwks());
+    const idToken = generateProviderIdToken({issuer: 'https://other.com'});
+    return tokenVerifier.verifyJWT(idToken)
+      .should.eventually.be.rejectedWith('OIDC provider ID token is invalid: jwt issuer invalid.');
+  });
+
+  it('should be rejected given an ID token with an incorrect audience', () => {
+    mockedRequests.push(mockDiscoveryDocument());
+    mockedRequests.push(mockJwks());
+    const idToken = generateProviderIdToken({audience: 'OTHER_CLIENT_ID'});
+    return tokenVerifier.verifyJWT(idToken)
+      .should.eventually.be.rejectedWith('OIDC provider ID token is invalid: jwt audience invalid.');
+  });
+
+  it('should be rejected given an ID token with an invalid signature', () => {
+    mockedRequests.push(mockDiscoveryDocument());
+    mockedRequests.push(mockJwks());
+    const idToken = generateProviderIdToken();
+    return tokenVerifier.verifyJWT(idToken.slice(0, -2) + 'AA')
+      .should.eventually.be.rejectedWith('OIDC provider ID token is invalid: invalid signature.');
+  });
+
+  it('should be rejected given an expired ID token', () => {
+    mockedRequests.push(mockDiscoveryDocument());
+    mockedRequests.push(mockJwks());
+    clock = sinon.useFakeTimers(1000);
+    const idToken = generateProviderIdToken();
+    clock.tick((60 * 60 * 1000) + 1);
+    return tokenVerifier.verifyJWT(idToken)
+      .should.eventually.be.rejected.and.have.property('code', 'auth/id-token-expired');
+  });
+
+  it('should be fulfilled with the decoded claims given a valid ID token', () => {
+    mockedRequests.push(mockDiscoveryDocument());
+    mockedRequests.push(mockJwks());
+    const idToken = generateProviderIdToken();
+    return tokenVerifier.verifyJWT(idToken)
+      .then((decodedToken) => {
+        expect(decodedToken.iss).to.equal(ISSUER);
+        expect(decodedToken.aud).to.equal(CLIENT_ID);
+        expect(decodedToken.sub).to.equal(mocks.uid);
+        expect(decodedToken.one).to.equal(mocks.developerClaims.one);
+      });
+  });
+
+  it('should be fulfilled given an ID token with multiple audiences', () => {
+    mockedRequests.push(mockDiscoveryDocument());
+    mockedRequests.push(mockJwks());
+    const idToken = generateProviderIdToken({audience: ['OTHER_CLIENT_ID', CLIENT_ID]});
+    return tokenVerifier.verifyJWT(idToken)
+      .should.eventually.have.property('aud').that.deep.equal(['OTHER_CLIENT_ID', CLIENT_ID]);
+  });
+});
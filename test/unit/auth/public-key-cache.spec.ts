@@ -0,0 +1,70 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+'use strict';
+
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+import * as sinonChai from 'sinon-chai';
+import * as chaiAsPromised from 'chai-as-promised';
+
+import {InMemoryPublicKeyCache} from '../../../src/auth/public-key-cache';
+
+chai.should();
+chai.use(sinonChai);
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+describe('InMemoryPublicKeyCache', () => {
+  const publicKeys = {kid1: 'PUBLIC_KEY_1'};
+  let clock: sinon.SinonFakeTimers;
+
+  beforeEach(() => {
+    clock = sinon.useFakeTimers(1000);
+  });
+
+  afterEach(() => {
+    clock.restore();
+  });
+
+  it('should resolve with null when no keys are cached', () => {
+    return new InMemoryPublicKeyCache().get('https://example.com/keys')
+      .should.eventually.be.null;
+  });
+
+  it('should resolve with the cached keys until they expire', () => {
+    const cache = new InMemoryPublicKeyCache();
+    return cache.set('https://example.com/keys', publicKeys, 1000)
+      .then(() => {
+        clock.tick(999);
+        return cache.get('https://example.com/keys');
+      })
+      .then((result) => {
+        expect(result).to.deep.equal(publicKeys);
+        clock.tick(1);
+        return cache.get('https://example.com/keys');
+      })
+      .should.eventually.be.null;
+  });
+
+  it('should cache the keys separately for each cache key', () => {
+    const cache = new InMemoryPublicKeyCache();
+    return cache.set('https://example.com/keys', publicKeys, 1000)
+      .then(() => cache.get('https://example.com/other-keys'))
+      .should.eventually.be.null;
+  });
+});
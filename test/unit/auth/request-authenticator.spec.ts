@@ -0,0 +1,414 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+'use strict';
+
+import * as _ from 'lodash';
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+import * as sinonChai from 'sinon-chai';
+import * as chaiAsPromised from 'chai-as-promised';
+
+import {DecodedIdToken} from '../../../src/auth/auth';
+import {RequestAuthenticator} from '../../../src/auth/request-authenticator';
+import {AuthClientErrorCode, FirebaseAuthError} from '../../../src/utils/error';
+
+chai.should();
+chai.use(sinonChai);
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+/**
+ * @param {object=} claims The additional claims of the decoded token.
+ * @return {DecodedIdToken} A decoded ID token.
+ */
+function getDecodedIdToken(claims?: object): DecodedIdToken {
+  const decodedIdToken: DecodedIdToken = {
+    iss: 'https://securetoken.google.com/project_id',
+    aud: 'project_id',
+    sub: 'uid1',
+    auth_time: 1500000000,
+    iat: 1500000000,
+    exp: 1500003600,
+    firebase: {identities: {}, sign_in_provider: 'password'},
+  };
+  return _.assign(decodedIdToken, claims);
+}
+
+/** A server response recording the response sent to the client. */
+class MockResponse {
+  public statusCode: number;
+  public headers: {[name: string]: string};
+  public body: any;
+  public headersSent = false;
+  public ended = new Promise<void>((resolve) => this.resolveEnded = resolve);
+  private resolveEnded: () => void;
+
+  public writeHead(statusCode: number, headers: {[name: string]: string}): void {
+    this.statusCode = statusCode;
+    this.headers = headers;
+    this.headersSent = true;
+  }
+
+  public end(body?: string): void {
+    this.body = typeof body === 'undefined' ? undefined : JSON.parse(body);
+    this.resolveEnded();
+  }
+}
+
+describe('RequestAuthenticator', () => {
+  const decodedIdToken = getDecodedIdToken();
+  let auth: any;
+  beforeEach(() => {
+    auth = {
+      verifyIdToken: sinon.stub().resolves(decodedIdToken),
+      verifySessionCookie: sinon.stub().resolves(decodedIdToken),
+    };
+  });
+
+  const nonObjects: any[] = [null, NaN, 0, 1, true, false, '', 'a', _.noop];
+  nonObjects.forEach((options) => {
+    it('should throw given invalid options: ' + JSON.stringify(options), () => {
+      expect(() => new RequestAuthenticator(auth, options))
+        .to.throw('"RequestAuthenticatorOptions" must be a valid non-null object.');
+    });
+  });
+
+  it('should throw given an invalid checkRevoked option', () => {
+    expect(() => new RequestAuthenticator(auth, {checkRevoked: 'true' as any}))
+      .to.throw('"RequestAuthenticatorOptions.checkRevoked" must be a boolean.');
+  });
+
+  it('should throw given an invalid passErrorsToNext option', () => {
+    expect(() => new RequestAuthenticator(auth, {passErrorsToNext: 1 as any}))
+      .to.throw('"RequestAuthenticatorOptions.passErrorsToNext" must be a boolean.');
+  });
+
+  const invalidRequiredClaims: any[] = [null, 'admin', ['admin']];
+  invalidRequiredClaims.forEach((requiredClaims) => {
+    it('should throw given invalid requiredClaims: ' + JSON.stringify(requiredClaims), () => {
+      expect(() => new RequestAuthenticator(auth, {requiredClaims}))
+        .to.throw('"RequestAuthenticatorOptions.requiredClaims" must be a non-null object.');
+    });
+  });
+
+  ['tenantId', 'sessionCookieName', 'requestProperty'].forEach((key) => {
+    it(`should throw given an invalid ${key} option`, () => {
+      expect(() => new RequestAuthenticator(auth, {[key]: ''}))
+        .to.throw(`"RequestAuthenticatorOptions.${key}" must be a non-empty string.`);
+    });
+  });
+
+  describe('authenticate()', () => {
+    it('should verify the ID token of the Authorization header', () => {
+      return new RequestAuthenticator(auth).authenticate({headers: {authorization: 'Bearer ID_TOKEN'}})
+        .then((result) => {
+          expect(result).to.deep.equal({decodedToken: decodedIdToken, source: 'idToken'});
+          expect(auth.verifyIdToken).to.have.been.calledOnce.and.calledWith('ID_TOKEN', false);
+        });
+    });
+
+    it('should accept the Bearer scheme in any case', () => {
+      return new RequestAuthenticator(auth).authenticate({headers: {authorization: 'bearer  ID_TOKEN '}})
+        .then(() => {
+          expect(auth.verifyIdToken).to.have.been.calledOnce.and.calledWith('ID_TOKEN');
+        });
+    });
+
+    it('should verify the session cookie of the cookie header', () => {
+      const request = {headers: {cookie: 'theme=dark; __session=SESSION%3DCOOKIE; lang=en'}};
+      return new RequestAuthenticator(auth).authenticate(request)
+        .then((result) => {
+          expect(result).to.deep.equal({decodedToken: decodedIdToken, source: 'sessionCookie'});
+          expect(auth.verifySessionCookie).to.have.been.calledOnce.and.calledWith('SESSION=COOKIE', false);
+        });
+    });
+
+    it('should verify the session cookie with the configured name', () => {
+      const request = {headers: {cookie: '__session=OTHER; session="SESSION_COOKIE"'}};
+      return new RequestAuthenticator(auth, {sessionCookieName: 'session'}).authenticate(request)
+        .then(() => {
+          expect(auth.verifySessionCookie).to.have.been.calledOnce.and.calledWith('SESSION_COOKIE');
+        });
+    });
+
+    it('should prefer the ID token to the session cookie', () => {
+      const request = {headers: {authorization: 'Bearer ID_TOKEN', cookie: '__session=SESSION_COOKIE'}};
+      return new RequestAuthenticator(auth).authenticate(request)
+        .then((result) => {
+          expect(result.source).to.equal('idToken');
+          expect(auth.verifySessionCookie).to.not.have.been.called;
+        });
+    });
+
+    it('should check the revocation of the tokens when checkRevoked is set', () => {
+      const authenticator = new RequestAuthenticator(auth, {checkRevoked: true});
+      return authenticator.authenticate({headers: {authorization: 'Bearer ID_TOKEN'}})
+        .then(() => authenticator.authenticate({headers: {cookie: '__session=SESSION_COOKIE'}}))
+        .then(() => {
+          expect(auth.verifyIdToken).to.have.been.calledWith('ID_TOKEN', true);
+          expect(auth.verifySessionCookie).to.have.been.calledWith('SESSION_COOKIE', true);
+        });
+    });
+
+    const requestsWithoutCredentials: any[] = [
+      null,
+      {headers: {}},
+      {headers: {authorization: 'Basic dXNlcjpwYXNz'}},
+      {headers: {authorization: 'Bearer'}},
+      {headers: {cookie: 'session=SESSION_COOKIE; __session='}},
+    ];
+    requestsWithoutCredentials.forEach((request) => {
+      it('should be rejected given a request without credentials: ' + JSON.stringify(request), () => {
+        return new RequestAuthenticator(auth).authenticate(request)
+          .should.eventually.be.rejected.and.have.property('code', 'auth/missing-credentials');
+      });
+    });
+
+    it('should be rejected when the token verification fails', () => {
+      const expectedError = new FirebaseAuthError(AuthClientErrorCode.ID_TOKEN_EXPIRED);
+      auth.verifyIdToken = sinon.stub().rejects(expectedError);
+      return new RequestAuthenticator(auth).authenticate({headers: {authorization: 'Bearer ID_TOKEN'}})
+        .should.eventually.be.rejected.and.equal(expectedError);
+    });
+
+    it('should be rejected given a token of another tenant', () => {
+      auth.verifyIdToken = sinon.stub().resolves(getDecodedIdToken({
+        firebase: {identities: {}, sign_in_provider: 'password', tenant: 'OTHER_TENANT_ID'},
+      }));
+      return new RequestAuthenticator(auth, {tenantId: 'TENANT_ID'})
+        .authenticate({headers: {authorization: 'Bearer ID_TOKEN'}})
+        .should.eventually.be.rejected.and.have.property(
+          'message', 'The user does not belong to the tenant "TENANT_ID".');
+    });
+
+    it('should resolve given a token of the required tenant', () => {
+      auth.verifyIdToken = sinon.stub().resolves(getDecodedIdToken({
+        firebase: {identities: {}, sign_in_provider: 'password', tenant: 'TENANT_ID'},
+      }));
+      return new RequestAuthenticator(auth, {tenantId: 'TENANT_ID'})
+        .authenticate({headers: {authorization: 'Bearer ID_TOKEN'}})
+        .should.eventually.have.property('source', 'idToken');
+    });
+
+    it('should resolve given a token with the required claims', () => {
+      auth.verifyIdToken = sinon.stub().resolves(getDecodedIdToken({admin: true, role: 'editor'}));
+      return new RequestAuthenticator(auth, {requiredClaims: {admin: true, role: 'editor'}})
+        .authenticate({headers: {authorization: 'Bearer ID_TOKEN'}})
+        .should.eventually.have.property('source', 'idToken');
+    });
+
+    it('should be rejected given a token without a required claim value', () => {
+      auth.verifyIdToken = sinon.stub().resolves(getDecodedIdToken({admin: true, role: 'viewer'}));
+      return new RequestAuthenticator(auth, {requiredClaims: {admin: true, role: 'editor'}})
+        .authenticate({headers: {authorization: 'Bearer ID_TOKEN'}})
+        .then(() => {
+          throw new Error('Unexpected success');
+        }, (error) => {
+          expect(error).to.have.property('code', 'auth/insufficient-claims');
+          expect(error).to.have.property('message', 'The decoded token does not have the required "role" claim value.');
+        });
+    });
+  });
+
+  describe('getHttpStatus()', () => {
+    const statuses: Array<{error: any, status: number}> = [
+      {error: new FirebaseAuthError(AuthClientErrorCode.MISSING_CREDENTIALS), status: 401},
+      {error: new FirebaseAuthError(AuthClientErrorCode.INVALID_ARGUMENT), status: 401},
+      {error: new FirebaseAuthError(AuthClientErrorCode.ID_TOKEN_EXPIRED), status: 401},
+      {error: new FirebaseAuthError(AuthClientErrorCode.SESSION_COOKIE_REVOKED), status: 401},
+      {error: new FirebaseAuthError(AuthClientErrorCode.USER_NOT_FOUND), status: 401},
+      {error: new FirebaseAuthError(AuthClientErrorCode.INSUFFICIENT_CLAIMS), status: 403},
+      {error: new FirebaseAuthError(AuthClientErrorCode.MISMATCHING_TENANT_ID), status: 403},
+      {error: new FirebaseAuthError(AuthClientErrorCode.USER_DISABLED), status: 403},
+      {error: new FirebaseAuthError(AuthClientErrorCode.INTERNAL_ERROR), status: 500},
+      {error: new Error('network error'), status: 500},
+    ];
+    statuses.forEach((expected) => {
+      it(`should return ${expected.status} given ${expected.error.code || expected.error.message}`, () => {
+        expect(RequestAuthenticator.getHttpStatus(expected.error)).to.equal(expected.status);
+      });
+    });
+  });
+
+  describe('middleware()', () => {
+    it('should attach the decoded token to the request and call next()', (done) => {
+      const request: any = {headers: {authorization: 'Bearer ID_TOKEN'}};
+      new RequestAuthenticator(auth).middleware()(request, new MockResponse() as any, (error?: any) => {
+        expect(error).to.be.undefined;
+        expect(request.decodedToken).to.equal(decodedIdToken);
+        done();
+      });
+    });
+
+    it('should attach the decoded token to the configured request property', (done) => {
+      const request: any = {headers: {cookie: '__session=SESSION_COOKIE'}};
+      new RequestAuthenticator(auth, {requestProperty: 'user'}).middleware()(request, new MockResponse() as any, () => {
+        expect(request.user).to.equal(decodedIdToken);
+        done();
+      });
+    });
+
+    it('should respond with 401 given a request without credentials', () => {
+      const response = new MockResponse();
+      const next = sinon.spy();
+      new RequestAuthenticator(auth).middleware()({headers: {}} as any, response as any, next);
+      return response.ended
+        .then(() => {
+          expect(next).to.not.have.been.called;
+          expect(response.statusCode).to.equal(401);
+          expect(response.headers).to.deep.equal({
+            'Content-Type': 'application/json; charset=utf-8',
+            'WWW-Authenticate': 'Bearer',
+          });
+          expect(response.body).to.deep.equal({
+            error: {
+              code: 'auth/missing-credentials',
+              message: 'The request does not include an ID token or a session cookie.',
+            },
+          });
+        });
+    });
+
+    it('should respond with 403 given a token without the required claims', () => {
+      const response = new MockResponse();
+      const request: any = {headers: {authorization: 'Bearer ID_TOKEN'}};
+      new RequestAuthenticator(auth, {requiredClaims: {admin: true}}).middleware()(request, response as any, _.noop);
+      return response.ended
+        .then(() => {
+          expect(response.statusCode).to.equal(403);
+          expect(response.headers).to.not.have.property('WWW-Authenticate');
+          expect(response.body.error.code).to.equal('auth/insufficient-claims');
+          expect(request).to.not.have.property('decodedToken');
+        });
+    });
+
+    it('should respond with 500 without disclosing internal errors', () => {
+      auth.verifyIdToken = sinon.stub().rejects(new Error('secret details'));
+      const response = new MockResponse();
+      new RequestAuthenticator(auth).middleware()(
+        {headers: {authorization: 'Bearer ID_TOKEN'}} as any, response as any, _.noop);
+      return response.ended
+        .then(() => {
+          expect(response.statusCode).to.equal(500);
+          expect(response.body).to.deep.equal({
+            error: {code: 'auth/internal-error', message: 'Failed to authenticate the request.'},
+          });
+        });
+    });
+
+    it('should pass the error to next() when passErrorsToNext is set', (done) => {
+      const response = new MockResponse();
+      const writeHead = sinon.spy(response, 'writeHead');
+      new RequestAuthenticator(auth, {passErrorsToNext: true}).middleware()(
+        {headers: {}} as any, response as any, (error?: any) => {
+          expect(error).to.have.property('code', 'auth/missing-credentials');
+          expect(RequestAuthenticator.getHttpStatus(error)).to.equal(401);
+          expect(writeHead).to.not.have.been.called;
+          done();
+        });
+    });
+
+    it('should respond with 500 when next() throws', () => {
+      const response = new MockResponse();
+      new RequestAuthenticator(auth).middleware()(
+        {headers: {authorization: 'Bearer ID_TOKEN'}} as any, response as any, () => {
+          throw new Error('next failed');
+        });
+      return response.ended
+        .then(() => {
+          expect(response.statusCode).to.equal(500);
+          expect(response.body.error.code).to.equal('auth/internal-error');
+        });
+    });
+  });
+
+  describe('requestListener()', () => {
+    it('should throw given an invalid listener', () => {
+      expect(() => new RequestAuthenticator(auth).requestListener('listener' as any))
+        .to.throw('The request listener must be a function.');
+    });
+
+    it('should call the listener with authenticated requests', (done) => {
+      const request: any = {headers: {authorization: 'Bearer ID_TOKEN'}};
+      const response = new MockResponse();
+      new RequestAuthenticator(auth).requestListener((req, res) => {
+        expect(req).to.equal(request);
+        expect(res).to.equal(response);
+        expect(request.decodedToken).to.equal(decodedIdToken);
+        done();
+      })(request, response as any);
+    });
+
+    it('should respond with an error without calling the listener given an invalid token', () => {
+      auth.verifyIdToken = sinon.stub().rejects(new FirebaseAuthError(AuthClientErrorCode.ID_TOKEN_REVOKED));
+      const listener = sinon.spy();
+      const response = new MockResponse();
+      new RequestAuthenticator(auth).requestListener(listener)(
+        {headers: {authorization: 'Bearer ID_TOKEN'}} as any, response as any);
+      return response.ended
+        .then(() => {
+          expect(listener).to.not.have.been.called;
+          expect(response.statusCode).to.equal(401);
+          expect(response.body.error.code).to.equal('auth/id-token-revoked');
+        });
+    });
+
+    it('should respond with 500 when the listener throws', () => {
+      const response = new MockResponse();
+      new RequestAuthenticator(auth).requestListener(() => {
+        throw new Error('listener failed');
+      })({headers: {authorization: 'Bearer ID_TOKEN'}} as any, response as any);
+      return response.ended
+        .then(() => {
+          expect(response.statusCode).to.equal(500);
+          expect(response.body).to.deep.equal({
+            error: {code: 'auth/internal-error', message: 'Failed to authenticate the request.'},
+          });
+        });
+    });
+
+    it('should end the response when the listener throws after starting it', () => {
+      const response = new MockResponse();
+      new RequestAuthenticator(auth).requestListener((req, res) => {
+        res.writeHead(200, {});
+        throw new Error('listener failed');
+      })({headers: {authorization: 'Bearer ID_TOKEN'}} as any, response as any);
+      return response.ended
+        .then(() => {
+          expect(response.statusCode).to.equal(200);
+          expect(response.body).to.be.undefined;
+        });
+    });
+
+    it('should end the response when sending the error response throws', () => {
+      auth.verifyIdToken = sinon.stub().rejects(new FirebaseAuthError(AuthClientErrorCode.ID_TOKEN_REVOKED));
+      const response = new MockResponse();
+      const writeHead = sinon.stub(response, 'writeHead').callsFake(() => {
+        response.headersSent = true;
+        throw new Error('write failed');
+      });
+      new RequestAuthenticator(auth).requestListener(_.noop)(
+        {headers: {authorization: 'Bearer ID_TOKEN'}} as any, response as any);
+      return response.ended
+        .then(() => {
+          expect(writeHead).to.have.been.calledOnce;
+          expect(response.body).to.be.undefined;
+        });
+    });
+  });
+});
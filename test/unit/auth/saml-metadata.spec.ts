@@ -0,0 +1,230 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+'use strict';
+
+import * as chai from 'chai';
+
+import * as mocks from '../../resources/mocks';
+import {buildSpMetadataXml, parseIdpMetadataXml} from '../../../src/auth/saml-metadata';
+
+const expect = chai.expect;
+
+/**
+ * @param {string} pem A PEM encoded certificate.
+ * @return {string} The base64 encoded certificate, as included in metadata documents.
+ */
+function toBase64(pem: string): string {
+  return pem.replace(/-----[A-Z ]+-----/g, '').replace(/\s+/g, '');
+}
+
+const CERT1 = mocks.x509CertPairs[0].public;
+const CERT2 = mocks.x509CertPairs[1].public;
+
+const IDP_METADATA = `<?xml version="1.0" encoding="UTF-8"?>
+<!-- Metadata of the identity provider. -->
+<md:EntityDescriptor xmlns:md="urn:oasis:names:tc:SAML:2.0:metadata"
+    entityID="https://idp.example.com/metadata?tenant=a&amp;b">
+  <md:IDPSSODescriptor protocolSupportEnumeration="urn:oasis:names:tc:SAML:2.0:protocol">
+    <md:KeyDescriptor use="signing">
+      <ds:KeyInfo xmlns:ds="http://www.w3.org/2000/09/xmldsig#">
+        <ds:X509Data>
+          <ds:X509Certificate>
+            ${toBase64(CERT1)}
+          </ds:X509Certificate>
+        </ds:X509Data>
+      </ds:KeyInfo>
+    </md:KeyDescriptor>
+    <md:KeyDescriptor use="encryption">
+      <KeyInfo xmlns="http://www.w3.org/2000/09/xmldsig#">
+        <X509Data><X509Certificate>${toBase64(CERT2)}</X509Certificate></X509Data>
+      </KeyInfo>
+    </md:KeyDescriptor>
+    <md:SingleSignOnService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST"
+        Location="https://idp.example.com/sso/post"/>
+    <md:SingleSignOnService Binding='urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect'
+        Location='https://idp.example.com/sso/redirect'/>
+  </md:IDPSSODescriptor>
+</md:EntityDescriptor>
+`;
+
+describe('parseIdpMetadataXml()', () => {
+  it('should parse the identity provider settings', () => {
+    expect(parseIdpMetadataXml(IDP_METADATA)).to.deep.equal({
+      idpEntityId: 'https://idp.example.com/metadata?tenant=a&b',
+      ssoURL: 'https://idp.example.com/sso/redirect',
+      x509Certificates: [CERT1],
+    });
+  });
+
+  it('should parse the identity provider of an entities descriptor with a default namespace', () => {
+    const xml = `<EntitiesDescriptor xmlns="urn:oasis:names:tc:SAML:2.0:metadata">
+      <EntityDescriptor entityID="https://sp.example.com">
+        <SPSSODescriptor protocolSupportEnumeration="urn:oasis:names:tc:SAML:2.0:protocol"/>
+      </EntityDescriptor>
+      <EntityDescriptor entityID="https://idp.example.com">
+        <IDPSSODescriptor protocolSupportEnumeration="urn:oasis:names:tc:SAML:2.0:protocol">
+          <KeyDescriptor>
+            <ds:KeyInfo xmlns:ds="http://www.w3.org/2000/09/xmldsig#"><ds:X509Data>
+              <ds:X509Certificate><![CDATA[${toBase64(CERT1)}]]></ds:X509Certificate>
+            </ds:X509Data></ds:KeyInfo>
+          </KeyDescriptor>
+          <KeyDescriptor use="signing">
+            <ds:KeyInfo xmlns:ds="http://www.w3.org/2000/09/xmldsig#"><ds:X509Data>
+              <ds:X509Certificate>${toBase64(CERT2)}</ds:X509Certificate>
+            </ds:X509Data></ds:KeyInfo>
+          </KeyDescriptor>
+          <SingleSignOnService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST"
+              Location="https://idp.example.com/sso/post"/>
+        </IDPSSODescriptor>
+      </EntityDescriptor>
+    </EntitiesDescriptor>`;
+    expect(parseIdpMetadataXml(xml)).to.deep.equal({
+      idpEntityId: 'https://idp.example.com',
+      ssoURL: 'https://idp.example.com/sso/post',
+      x509Certificates: [CERT1, CERT2],
+    });
+  });
+
+  const invalidXml: any[] = [null, undefined, '', 1, {}];
+  invalidXml.forEach((xml) => {
+    it('should throw given a non-string: ' + JSON.stringify(xml), () => {
+      expect(() => parseIdpMetadataXml(xml))
+        .to.throw('The IdP metadata must be a non-empty XML string.');
+    });
+  });
+
+  const malformedDocuments = [
+    ['an unclosed element', '<md:EntityDescriptor xmlns:md="urn:oasis:names:tc:SAML:2.0:metadata">',
+      'The XML document is incomplete.'],
+    ['a mismatched closing tag', '<a></b>', 'The XML document has an unexpected closing tag "b".'],
+    ['text outside of the root element', 'metadata', 'The XML document has text outside of its root element.'],
+    ['several root elements', '<a/><b/>', 'The XML document has more than one root element.'],
+    ['a malformed start tag', '<a b=c/>', 'The XML document has a malformed start tag.'],
+    ['an undeclared prefix', '<md:EntityDescriptor/>', 'The XML document uses the undeclared namespace prefix "md".'],
+    ['an undefined entity', '<a>&nbsp;</a>', 'The XML document uses the undefined entity "&nbsp;".'],
+    ['a DOCTYPE declaration', '<!DOCTYPE a [<!ENTITY b "c">]><a>&b;</a>',
+      'XML documents with a DOCTYPE declaration are not supported.'],
+  ];
+  malformedDocuments.forEach(([description, xml, message]) => {
+    it(`should throw given ${description}`, () => {
+      expect(() => parseIdpMetadataXml(xml)).to.throw(message)
+        .with.property('code', 'auth/invalid-saml-metadata');
+    });
+  });
+
+  it('should throw given metadata without identity provider', () => {
+    const xml = '<EntityDescriptor xmlns="urn:oasis:names:tc:SAML:2.0:metadata" entityID="https://sp.example.com"/>';
+    expect(() => parseIdpMetadataXml(xml)).to.throw('The metadata does not describe any identity provider.');
+  });
+
+  it('should throw given metadata in another namespace', () => {
+    expect(() => parseIdpMetadataXml(IDP_METADATA.replace(':metadata"', ':other"')))
+      .to.throw('The metadata does not describe any identity provider.');
+  });
+
+  it('should throw given metadata with several identity providers', () => {
+    const entity = IDP_METADATA.substring(IDP_METADATA.indexOf('<md:EntityDescriptor'));
+    const xml = `<md:EntitiesDescriptor xmlns:md="urn:oasis:names:tc:SAML:2.0:metadata">${entity}${entity}` +
+      '</md:EntitiesDescriptor>';
+    expect(() => parseIdpMetadataXml(xml)).to.throw('The metadata describes more than one identity provider.');
+  });
+
+  it('should throw given an identity provider without entity ID', () => {
+    expect(() => parseIdpMetadataXml(IDP_METADATA.replace('entityID=', 'ID=')))
+      .to.throw('The entity descriptor of the identity provider has no "entityID" attribute.');
+  });
+
+  it('should throw given an identity provider without supported single sign-on service', () => {
+    expect(() => parseIdpMetadataXml(IDP_METADATA.replace(/bindings:HTTP-/g, 'bindings:')))
+      .to.throw('The identity provider has no HTTP-Redirect or HTTP-POST single sign-on service.');
+  });
+
+  it('should throw given an identity provider without signing certificate', () => {
+    expect(() => parseIdpMetadataXml(IDP_METADATA.replace('use="signing"', 'use="encryption"')))
+      .to.throw('The identity provider has no signing certificate.');
+  });
+
+  it('should throw given an invalid certificate', () => {
+    expect(() => parseIdpMetadataXml(IDP_METADATA.replace(toBase64(CERT1), 'invalid certificate!')))
+      .to.throw('The identity provider has an invalid X.509 certificate.');
+  });
+});
+
+describe('buildSpMetadataXml()', () => {
+  it('should build the relying party metadata', () => {
+    expect(buildSpMetadataXml({
+      rpEntityId: 'RP_ENTITY_ID',
+      callbackURL: 'https://projectId.firebaseapp.com/__/auth/handler?a=1&b="2"',
+      enableRequestSigning: true,
+      signingCertificates: [CERT1, toBase64(CERT2)],
+    })).to.equal(
+      '<?xml version="1.0" encoding="UTF-8"?>\n' +
+      '<md:EntityDescriptor xmlns:md="urn:oasis:names:tc:SAML:2.0:metadata" entityID="RP_ENTITY_ID">\n' +
+      '  <md:SPSSODescriptor AuthnRequestsSigned="true" ' +
+      'protocolSupportEnumeration="urn:oasis:names:tc:SAML:2.0:protocol">\n' +
+      '    <md:KeyDescriptor use="signing">\n' +
+      '      <ds:KeyInfo xmlns:ds="http://www.w3.org/2000/09/xmldsig#">\n' +
+      '        <ds:X509Data>\n' +
+      `          <ds:X509Certificate>${toBase64(CERT1)}</ds:X509Certificate>\n` +
+      '        </ds:X509Data>\n' +
+      '      </ds:KeyInfo>\n' +
+      '    </md:KeyDescriptor>\n' +
+      '    <md:KeyDescriptor use="signing">\n' +
+      '      <ds:KeyInfo xmlns:ds="http://www.w3.org/2000/09/xmldsig#">\n' +
+      '        <ds:X509Data>\n' +
+      `          <ds:X509Certificate>${toBase64(CERT2)}</ds:X509Certificate>\n` +
+      '        </ds:X509Data>\n' +
+      '      </ds:KeyInfo>\n' +
+      '    </md:KeyDescriptor>\n' +
+      '    <md:AssertionConsumerService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST" ' +
+      'Location="https://projectId.firebaseapp.com/__/auth/handler?a=1&amp;b=&quot;2&quot;" ' +
+      'index="0" isDefault="true"/>\n' +
+      '  </md:SPSSODescriptor>\n' +
+      '</md:EntityDescriptor>\n');
+  });
+
+  it('should not require signed authentication requests by default', () => {
+    expect(buildSpMetadataXml({rpEntityId: 'RP_ENTITY_ID', callbackURL: 'https://example.com'}))
+      .to.contain('AuthnRequestsSigned="false"');
+  });
+
+  it('should not describe the signing certificates of unsigned authentication requests', () => {
+    expect(buildSpMetadataXml({
+      rpEntityId: 'RP_ENTITY_ID',
+      callbackURL: 'https://example.com',
+      signingCertificates: [CERT1],
+    })).not.to.contain('KeyDescriptor');
+  });
+
+  it('should throw given signed authentication requests without signing certificate', () => {
+    expect(() => buildSpMetadataXml({
+      rpEntityId: 'RP_ENTITY_ID',
+      callbackURL: 'https://example.com',
+      enableRequestSigning: true,
+    })).to.throw('The SP metadata of a relying party which signs its authentication requests requires ' +
+      'the signing certificates.');
+  });
+
+  it('should throw given an invalid signing certificate', () => {
+    expect(() => buildSpMetadataXml({
+      rpEntityId: 'RP_ENTITY_ID',
+      callbackURL: 'https://example.com',
+      enableRequestSigning: true,
+      signingCertificates: ['invalid certificate!'],
+    })).to.throw('The relying party has an invalid X.509 signing certificate.');
+  });
+});
@@ -0,0 +1,313 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+'use strict';
+
+import * as _ from 'lodash';
+import * as chai from 'chai';
+import * as crypto from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import * as sinon from 'sinon';
+import * as sinonChai from 'sinon-chai';
+import * as chaiAsPromised from 'chai-as-promised';
+
+import {DecodedIdToken} from '../../../src/auth/auth';
+import {InMemorySessionStore, SessionRecord, SessionRegistry} from '../../../src/auth/session-registry';
+
+chai.should();
+chai.use(sinonChai);
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+const NOW = 1500000000;
+
+/**
+ * @param {object} claims The claims of the session cookie.
+ * @return {string} A session cookie with the given claims, signed with a test key.
+ */
+function generateSessionCookie(claims: object): string {
+  return jwt.sign(_.assign({sub: 'uid1', auth_time: NOW - 60, iat: NOW, exp: NOW + 3600}, claims), 'secret');
+}
+
+/**
+ * @param {object} claims The claims of the decoded session cookie.
+ * @return {DecodedIdToken} A decoded session cookie with the given claims.
+ */
+function getDecodedSessionCookie(claims: object): DecodedIdToken {
+  const decodedClaims: DecodedIdToken = {
+    iss: 'https://session.firebase.google.com/project_id',
+    aud: 'project_id',
+    sub: 'uid1',
+    auth_time: NOW - 60,
+    iat: NOW,
+    exp: NOW + 3600,
+    firebase: {identities: {}, sign_in_provider: 'password'},
+  };
+  return _.assign(decodedClaims, claims);
+}
+
+describe('InMemorySessionStore', () => {
+  const session: SessionRecord = {
+    uid: 'uid1', sessionId: 'session1', authTime: NOW, issuedAt: NOW, expiresAt: NOW + 3600, revoked: false,
+  };
+
+  it('should get, list and delete the stored sessions', () => {
+    const store = new InMemorySessionStore();
+    return store.set(session)
+      .then(() => store.set({...session, sessionId: 'session2'}))
+      .then(() => store.get('uid1', 'session1'))
+      .then((storedSession) => {
+        expect(storedSession).to.deep.equal(session);
+        return store.list('uid1');
+      })
+      .then((sessions) => {
+        expect(sessions.map((s) => s.sessionId)).to.deep.equal(['session1', 'session2']);
+        return store.delete('uid1', 'session1');
+      })
+      .then(() => store.get('uid1', 'session1'))
+      .then((storedSession) => {
+        expect(storedSession).to.be.null;
+      });
+  });
+
+  it('should resolve with no sessions given an unknown user', () => {
+    const store = new InMemorySessionStore();
+    return Promise.all([store.get('unknown', 'session1'), store.list('unknown'), store.delete('unknown', 'session1')])
+      .then(([storedSession, sessions]) => {
+        expect(storedSession).to.be.null;
+        expect(sessions).to.deep.equal([]);
+      });
+  });
+
+  it('should store copies of the sessions', () => {
+    const store = new InMemorySessionStore();
+    const mutableSession = {...session};
+    return store.set(mutableSession)
+      .then(() => {
+        mutableSession.revoked = true;
+        return store.get('uid1', 'session1');
+      })
+      .then((storedSession) => {
+        expect(storedSession.revoked).to.be.false;
+        storedSession.revoked = true;
+        return store.get('uid1', 'session1');
+      })
+      .should.eventually.have.property('revoked', false);
+  });
+});
+
+describe('SessionRegistry', () => {
+  let clock: sinon.SinonFakeTimers;
+  beforeEach(() => {
+    clock = sinon.useFakeTimers(NOW * 1000);
+  });
+  afterEach(() => {
+    clock.restore();
+  });
+
+  describe('getSessionId()', () => {
+    it('should return the SHA-256 hash of the session cookie', () => {
+      const sessionCookie = generateSessionCookie({});
+      expect(SessionRegistry.getSessionId(sessionCookie))
+        .to.equal(crypto.createHash('sha256').update(sessionCookie).digest('hex'));
+    });
+
+    it('should tell apart the session cookies created in the same second from the same sign-in', () => {
+      expect(SessionRegistry.getSessionId(generateSessionCookie({exp: NOW + 3600})))
+        .to.not.equal(SessionRegistry.getSessionId(generateSessionCookie({exp: NOW + 7200})));
+    });
+  });
+
+  const invalidStores: any[] = [null, undefined, 'store', {}, {get: _.noop, list: _.noop, set: _.noop}];
+  invalidStores.forEach((store) => {
+    it('should throw given an invalid store: ' + JSON.stringify(store), () => {
+      expect(() => new SessionRegistry(store))
+        .to.throw('The session store must be an object implementing the "get", "list", "set", "delete" methods.');
+    });
+  });
+
+  describe('recordSession()', () => {
+    it('should record the session of a session cookie', () => {
+      const store = new InMemorySessionStore();
+      const sessionCookie = generateSessionCookie({});
+      return new SessionRegistry(store).recordSession(sessionCookie)
+        .then((session) => {
+          expect(session).to.deep.equal({
+            uid: 'uid1',
+            sessionId: SessionRegistry.getSessionId(sessionCookie),
+            authTime: NOW - 60,
+            issuedAt: NOW,
+            expiresAt: NOW + 3600,
+            revoked: false,
+          });
+          return store.get('uid1', session.sessionId).should.eventually.deep.equal(session);
+        });
+    });
+
+    it('should record the tenant ID of the registry', () => {
+      return new SessionRegistry(new InMemorySessionStore(), 'TENANT_ID')
+        .recordSession(generateSessionCookie({}))
+        .then((session) => {
+          expect(session).to.have.property('tenantId', 'TENANT_ID');
+        });
+    });
+
+    it('should be rejected given a malformed session cookie', () => {
+      return new SessionRegistry(new InMemorySessionStore()).recordSession('invalid')
+        .should.eventually.be.rejected.and.have.property('code', 'auth/internal-error');
+    });
+
+    it('should be rejected when the store rejects', () => {
+      const store = new InMemorySessionStore();
+      const expectedError = new Error('store failed');
+      sinon.stub(store, 'set').rejects(expectedError);
+      return new SessionRegistry(store).recordSession(generateSessionCookie({}))
+        .should.eventually.be.rejected.and.equal(expectedError);
+    });
+  });
+
+  describe('listSessions()', () => {
+    it('should be rejected given an invalid uid', () => {
+      return new SessionRegistry(new InMemorySessionStore()).listSessions('')
+        .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-uid');
+    });
+
+    it('should resolve with the active sessions sorted by issue time and delete the expired ones', () => {
+      const store = new InMemorySessionStore();
+      const registry = new SessionRegistry(store);
+      const sessionCookies = [
+        generateSessionCookie({iat: NOW - 10}),
+        generateSessionCookie({iat: NOW - 20}),
+        generateSessionCookie({}),
+        generateSessionCookie({iat: NOW - 7200, exp: NOW}),
+      ];
+      const [later, earlier, revoked, expired] = sessionCookies.map(SessionRegistry.getSessionId);
+      return Promise.all(sessionCookies.map((sessionCookie) => registry.recordSession(sessionCookie)))
+        .then(() => registry.revokeSession('uid1', revoked))
+        .then(() => registry.listSessions('uid1'))
+        .then((sessions) => {
+          expect(sessions.map((session) => session.sessionId)).to.deep.equal([earlier, later]);
+          return store.list('uid1');
+        })
+        .then((sessions) => {
+          expect(sessions.map((session) => session.sessionId)).to.have.members([earlier, later, revoked])
+            .and.not.include(expired);
+        });
+    });
+
+    it('should only resolve with the sessions of the tenant of the registry', () => {
+      const store = new InMemorySessionStore();
+      const tenantSessionCookie = generateSessionCookie({iat: NOW - 10});
+      return Promise.all([
+        new SessionRegistry(store).recordSession(generateSessionCookie({})),
+        new SessionRegistry(store, 'TENANT_ID').recordSession(tenantSessionCookie),
+      ])
+        .then(() => new SessionRegistry(store, 'TENANT_ID').listSessions('uid1'))
+        .then((sessions) => {
+          expect(sessions.map((session) => session.sessionId))
+            .to.deep.equal([SessionRegistry.getSessionId(tenantSessionCookie)]);
+        });
+    });
+  });
+
+  describe('revokeSession()', () => {
+    const sessionCookie = generateSessionCookie({});
+    const sessionId = SessionRegistry.getSessionId(sessionCookie);
+
+    it('should be rejected given an invalid uid', () => {
+      return new SessionRegistry(new InMemorySessionStore()).revokeSession(null, sessionId)
+        .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-uid');
+    });
+
+    const invalidSessionIds: any[] = [null, undefined, '', 1, {}];
+    invalidSessionIds.forEach((invalidSessionId) => {
+      it('should be rejected given an invalid session ID: ' + JSON.stringify(invalidSessionId), () => {
+        return new SessionRegistry(new InMemorySessionStore()).revokeSession('uid1', invalidSessionId)
+          .should.eventually.be.rejected.and.have.property('message', 'The session ID must be a non-empty string.');
+      });
+    });
+
+    it('should be rejected given an unknown session', () => {
+      return new SessionRegistry(new InMemorySessionStore()).revokeSession('uid1', 'unknown')
+        .should.eventually.be.rejected.and.have.property('code', 'auth/session-not-found');
+    });
+
+    it('should be rejected given a session of another tenant', () => {
+      const store = new InMemorySessionStore();
+      return new SessionRegistry(store, 'OTHER_TENANT_ID').recordSession(sessionCookie)
+        .then(() => new SessionRegistry(store, 'TENANT_ID').revokeSession('uid1', sessionId))
+        .should.eventually.be.rejected.and.have.property('code', 'auth/session-not-found');
+    });
+
+    it('should mark the session as revoked', () => {
+      const store = new InMemorySessionStore();
+      const registry = new SessionRegistry(store);
+      return registry.recordSession(sessionCookie)
+        .then(() => registry.revokeSession('uid1', sessionId))
+        .then(() => store.get('uid1', sessionId))
+        .should.eventually.have.property('revoked', true);
+    });
+
+    it('should not write revoked sessions again', () => {
+      const store = new InMemorySessionStore();
+      const registry = new SessionRegistry(store);
+      return registry.recordSession(sessionCookie)
+        .then(() => registry.revokeSession('uid1', sessionId))
+        .then(() => {
+          const setSpy = sinon.spy(store, 'set');
+          return registry.revokeSession('uid1', sessionId)
+            .then(() => {
+              expect(setSpy).to.not.have.been.called;
+            });
+        });
+    });
+  });
+
+  describe('checkSessionNotRevoked()', () => {
+    const sessionCookie = generateSessionCookie({});
+
+    it('should resolve given an active session', () => {
+      const registry = new SessionRegistry(new InMemorySessionStore());
+      return registry.recordSession(sessionCookie)
+        .then(() => registry.checkSessionNotRevoked(sessionCookie, getDecodedSessionCookie({})))
+        .should.eventually.be.fulfilled;
+    });
+
+    it('should resolve given a session which was not recorded', () => {
+      return new SessionRegistry(new InMemorySessionStore())
+        .checkSessionNotRevoked(sessionCookie, getDecodedSessionCookie({}))
+        .should.eventually.be.fulfilled;
+    });
+
+    it('should be rejected given a revoked session', () => {
+      const registry = new SessionRegistry(new InMemorySessionStore());
+      return registry.recordSession(sessionCookie)
+        .then(() => registry.revokeSession('uid1', SessionRegistry.getSessionId(sessionCookie)))
+        .then(() => registry.checkSessionNotRevoked(sessionCookie, getDecodedSessionCookie({})))
+        .should.eventually.be.rejected.and.have.property('code', 'auth/session-cookie-revoked');
+    });
+
+    it('should resolve given another session cookie created in the same second from the same sign-in', () => {
+      const registry = new SessionRegistry(new InMemorySessionStore());
+      const otherSessionCookie = generateSessionCookie({exp: NOW + 7200});
+      return Promise.all([registry.recordSession(sessionCookie), registry.recordSession(otherSessionCookie)])
+        .then(() => registry.revokeSession('uid1', SessionRegistry.getSessionId(sessionCookie)))
+        .then(() => registry.checkSessionNotRevoked(otherSessionCookie, getDecodedSessionCookie({exp: NOW + 7200})))
+        .should.eventually.be.fulfilled;
+    });
+  });
+});
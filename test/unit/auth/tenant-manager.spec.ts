@@ -302,6 +302,64 @@ describe('TenantManager', () => {
     });
   });
 
+  describe('iterateTenants()', () => {
+    const firstPageResponse: any = {
+      tenants: [
+        {name: 'projects/project-id/tenants/tenant-id1'},
+      ],
+      nextPageToken: 'NEXT_PAGE_TOKEN',
+    };
+    const lastPageResponse: any = {
+      tenants: [
+        {name: 'projects/project-id/tenants/tenant-id2'},
+      ],
+    };
+    // Stubs used to simulate underlying API calls.
+    let stubs: sinon.SinonStub[] = [];
+
+    afterEach(() => {
+      _.forEach(stubs, (stub) => stub.restore());
+      stubs = [];
+    });
+
+    it('should iterate over all the pages of tenants', () => {
+      const listTenantsStub = sinon.stub(AuthRequestHandler.prototype, 'listTenants');
+      listTenantsStub.onFirstCall().resolves(firstPageResponse);
+      listTenantsStub.onSecondCall().resolves(lastPageResponse);
+      stubs.push(listTenantsStub);
+      return mocks.collectAsyncIterable(tenantManager.iterateTenants({pageSize: 1}))
+        .then((tenants) => {
+          expect(tenants).to.deep.equal([
+            new Tenant({name: 'projects/project-id/tenants/tenant-id1'}),
+            new Tenant({name: 'projects/project-id/tenants/tenant-id2'}),
+          ]);
+          expect(listTenantsStub).to.have.been.calledTwice;
+          expect(listTenantsStub.firstCall).to.have.been.calledWith(1, undefined);
+          expect(listTenantsStub.secondCall).to.have.been.calledWith(1, 'NEXT_PAGE_TOKEN');
+        });
+    });
+
+    it('should use the default page size when no options are provided', () => {
+      const listTenantsStub = sinon.stub(AuthRequestHandler.prototype, 'listTenants')
+        .resolves(lastPageResponse);
+      stubs.push(listTenantsStub);
+      return mocks.collectAsyncIterable(tenantManager.iterateTenants())
+        .then((tenants) => {
+          expect(tenants).to.have.length(1);
+          expect(listTenantsStub).to.have.been.calledOnce.and.calledWith(undefined, undefined);
+        });
+    });
+
+    it('should be rejected when listTenants returns an error', () => {
+      const expectedError = new FirebaseAuthError(AuthClientErrorCode.INTERNAL_ERROR);
+      const listTenantsStub = sinon.stub(AuthRequestHandler.prototype, 'listTenants')
+        .rejects(expectedError);
+      stubs.push(listTenantsStub);
+      return mocks.collectAsyncIterable(tenantManager.iterateTenants())
+        .should.eventually.be.rejected.and.equal(expectedError);
+    });
+  });
+
   describe('deleteTenant()', () => {
     const tenantId = 'tenant-id';
     const expectedError = new FirebaseAuthError(AuthClientErrorCode.TENANT_NOT_FOUND);
@@ -20,7 +20,7 @@ import * as sinonChai from 'sinon-chai';
 import * as chaiAsPromised from 'chai-as-promised';
 
 import {deepCopy} from '../../../src/utils/deep-copy';
-import {EmailSignInConfig} from '../../../src/auth/auth-config';
+import {EmailSignInConfig, MultiFactorAuthConfig} from '../../../src/auth/auth-config';
 import {
   Tenant, TenantOptions, TenantServerResponse,
 } from '../../../src/auth/tenant';
@@ -33,19 +33,37 @@ chai.use(chaiAsPromised);
 const expect = chai.expect;
 
 describe('Tenant', () => {
-  const serverRequest = {
+  const serverRequest: TenantServerResponse = {
     name: 'projects/project1/tenants/TENANT-ID',
     displayName: 'TENANT-DISPLAY-NAME',
     allowPasswordSignup: true,
     enableEmailLinkSignin: true,
+    enableAnonymousUser: true,
+    mfaConfig: {
+      state: 'ENABLED',
+      enabledProviders: ['PHONE_SMS'],
+    },
+    testPhoneNumbers: {
+      '+16505551234': '019287',
+      '+16505550676': '985235',
+    },
   };
 
-  const clientRequest = {
+  const clientRequest: TenantOptions = {
     displayName: 'TENANT-DISPLAY-NAME',
     emailSignInConfig: {
       enabled: true,
       passwordRequired: false,
     },
+    anonymousSignInEnabled: true,
+    multiFactorConfig: {
+      state: 'ENABLED',
+      factorIds: ['phone'],
+    },
+    testPhoneNumbers: {
+      '+16505551234': '019287',
+      '+16505550676': '985235',
+    },
   };
 
   const tenantOptions: TenantOptions = {
@@ -90,6 +108,40 @@ describe('Tenant', () => {
         }).not.to.throw;
       });
 
+      it('should throw on invalid MultiFactorConfig attribute', () => {
+        const tenantOptionsClientRequest = deepCopy(clientRequest) as any;
+        tenantOptionsClientRequest.multiFactorConfig.state = 'invalid';
+        expect(() => {
+          Tenant.buildServerRequest(tenantOptionsClientRequest, !createRequest);
+        }).to.throw('"MultiFactorConfig.state" must be either "ENABLED" or "DISABLED".');
+      });
+
+      const invalidAnonymousSignInEnabled = [null, NaN, 0, 1, '', 'a', [], [1, 'a'], {}, { a: 1 }, _.noop];
+      invalidAnonymousSignInEnabled.forEach((anonymousSignInEnabled) => {
+        it('should throw on invalid anonymousSignInEnabled:' + JSON.stringify(anonymousSignInEnabled), () => {
+          const tenantOptionsClientRequest = deepCopy(clientRequest) as any;
+          tenantOptionsClientRequest.anonymousSignInEnabled = anonymousSignInEnabled;
+          expect(() => {
+            Tenant.buildServerRequest(tenantOptionsClientRequest, !createRequest);
+          }).to.throw('"UpdateTenantRequest.anonymousSignInEnabled" must be a boolean.');
+        });
+      });
+
+      it('should throw on invalid test phone number', () => {
+        const tenantOptionsClientRequest = deepCopy(clientRequest) as any;
+        tenantOptionsClientRequest.testPhoneNumbers = {invalid: '123456'};
+        expect(() => {
+          Tenant.buildServerRequest(tenantOptionsClientRequest, !createRequest);
+        }).to.throw('"invalid" is not a valid E.164 standard compliant phone number.');
+      });
+
+      it('should return an empty testPhoneNumbers map when null is provided', () => {
+        const tenantOptionsClientRequest = deepCopy(clientRequest) as any;
+        tenantOptionsClientRequest.testPhoneNumbers = null;
+        expect(Tenant.buildServerRequest(tenantOptionsClientRequest, !createRequest).testPhoneNumbers)
+          .to.deep.equal({});
+      });
+
       const nonObjects = [null, NaN, 0, 1, true, false, '', 'a', [], [1, 'a'], _.noop];
       nonObjects.forEach((request) => {
         it('should throw on invalid UpdateTenantRequest:' + JSON.stringify(request), () => {
@@ -137,6 +189,14 @@ describe('Tenant', () => {
           .to.throw('"EmailSignInConfig" must be a non-null object.');
       });
 
+      it('should throw on null testPhoneNumbers', () => {
+        const tenantOptionsClientRequest = deepCopy(clientRequest) as any;
+        tenantOptionsClientRequest.testPhoneNumbers = null;
+        expect(() => {
+          Tenant.buildServerRequest(tenantOptionsClientRequest, createRequest);
+        }).to.throw('"CreateTenantRequest.testPhoneNumbers" must be a non-null object.');
+      });
+
       const nonObjects = [null, NaN, 0, 1, true, false, '', 'a', [], [1, 'a'], _.noop];
       nonObjects.forEach((request) => {
         it('should throw on invalid CreateTenantRequest:' + JSON.stringify(request), () => {
@@ -206,6 +266,22 @@ describe('Tenant', () => {
       expect(tenant.emailSignInConfig).to.deep.equal(expectedEmailSignInConfig);
     });
 
+    it('should set readonly property anonymousSignInEnabled', () => {
+      expect(tenant.anonymousSignInEnabled).to.be.true;
+    });
+
+    it('should set readonly property multiFactorConfig', () => {
+      const expectedMultiFactorConfig = new MultiFactorAuthConfig({
+        state: 'ENABLED',
+        enabledProviders: ['PHONE_SMS'],
+      });
+      expect(tenant.multiFactorConfig).to.deep.equal(expectedMultiFactorConfig);
+    });
+
+    it('should set readonly property testPhoneNumbers', () => {
+      expect(tenant.testPhoneNumbers).to.deep.equal(serverRequest.testPhoneNumbers);
+    });
+
     it('should throw when no tenant ID is provided', () => {
       const invalidOptions = deepCopy(serverRequest);
       // Use resource name that does not include a tenant ID.
@@ -226,6 +302,9 @@ describe('Tenant', () => {
         expect(tenantWithoutAllowPasswordSignup.tenantId).to.equal('TENANT-ID');
         expect(tenantWithoutAllowPasswordSignup.emailSignInConfig.enabled).to.be.false;
         expect(tenantWithoutAllowPasswordSignup.emailSignInConfig.passwordRequired).to.be.true;
+        expect(tenantWithoutAllowPasswordSignup.anonymousSignInEnabled).to.be.false;
+        expect(tenantWithoutAllowPasswordSignup.multiFactorConfig).to.be.undefined;
+        expect(tenantWithoutAllowPasswordSignup.testPhoneNumbers).to.be.undefined;
       }).not.to.throw();
     });
   });
@@ -240,6 +319,32 @@ describe('Tenant', () => {
           enabled: true,
           passwordRequired: false,
         },
+        anonymousSignInEnabled: true,
+        multiFactorConfig: {
+          state: 'ENABLED',
+          factorIds: ['phone'],
+        },
+        testPhoneNumbers: {
+          '+16505551234': '019287',
+          '+16505550676': '985235',
+        },
+      });
+    });
+
+    it('should omit the multi-factor config and test phone numbers when not available', () => {
+      const serverResponse: TenantServerResponse = {
+        name: 'projects/project1/tenants/TENANT-ID',
+        displayName: 'TENANT-DISPLAY-NAME',
+        allowPasswordSignup: true,
+      };
+      expect(new Tenant(serverResponse).toJSON()).to.deep.equal({
+        tenantId: 'TENANT-ID',
+        displayName: 'TENANT-DISPLAY-NAME',
+        emailSignInConfig: {
+          enabled: true,
+          passwordRequired: true,
+        },
+        anonymousSignInEnabled: false,
       });
     });
   });
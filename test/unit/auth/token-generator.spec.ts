@@ -24,7 +24,13 @@ import * as sinonChai from 'sinon-chai';
 import * as chaiAsPromised from 'chai-as-promised';
 
 import * as mocks from '../../resources/mocks';
-import {FirebaseTokenGenerator, ServiceAccountSigner, IAMSigner} from '../../../src/auth/token-generator';
+import {
+  FirebaseTokenGenerator, ServiceAccountSigner, IAMSigner, LocalFirebaseTokenSigner,
+  LocalTokenSigner, createLocalIdTokenSigner, createLocalSessionCookieSigner,
+} from '../../../src/auth/token-generator';
+import {
+  ID_TOKEN_INFO, createLocalIdTokenVerifier, createLocalSessionCookieVerifier,
+} from '../../../src/auth/token-verifier';
 
 import {Certificate} from '../../../src/auth/credential';
 import { AuthorizedHttpClient, HttpClient } from '../../../src/utils/api-request';
@@ -101,6 +107,17 @@ describe('CryptoSigner', () => {
       const signer = new ServiceAccountSigner(cert);
       return signer.getAccountId().should.eventually.equal(cert.clientEmail);
     });
+
+    it('should return the public key corresponding to the private_key in the certificate', () => {
+      const signer = new ServiceAccountSigner(new Certificate(mocks.certificateObject));
+      const payload = Buffer.from('test');
+      return signer.sign(payload).then((signature) => {
+        const crypto = require('crypto');
+        const verifier = crypto.createVerify('RSA-SHA256');
+        verifier.update(payload);
+        expect(verifier.verify(signer.getPublicKey(), signature)).to.be.true;
+      });
+    });
   });
 
   describe('IAMSigner', () => {
@@ -465,5 +482,374 @@ describe('FirebaseTokenGenerator', () => {
           expect(originalClaims).to.deep.equal(clonedClaims);
         });
     });
+
+    describe('with options', () => {
+      const invalidOptions: any[] = [null, NaN, true, 'a', 1, _.noop];
+      invalidOptions.forEach((options) => {
+        it('should throw given invalid options: ' + JSON.stringify(options), () => {
+          expect(() => {
+            tokenGenerator.createCustomToken(mocks.uid, undefined, options);
+          }).to.throw('Third argument to createCustomToken() must be an object containing the token options');
+        });
+      });
+
+      const invalidExpiresIn: any[] = [null, 'a', 0, 999, ONE_HOUR_IN_SECONDS * 1000 + 1, NaN];
+      invalidExpiresIn.forEach((expiresIn) => {
+        it('should throw given an invalid expiresIn: ' + JSON.stringify(expiresIn), () => {
+          expect(() => {
+            tokenGenerator.createCustomToken(mocks.uid, undefined, {expiresIn});
+          }).to.throw('"CustomTokenOptions.expiresIn" must be a number of milliseconds between 1 second and 1 hour');
+        });
+      });
+
+      const invalidKeyIds: any[] = [null, '', 1, {}];
+      invalidKeyIds.forEach((keyId) => {
+        it('should throw given an invalid keyId: ' + JSON.stringify(keyId), () => {
+          expect(() => {
+            tokenGenerator.createCustomToken(mocks.uid, undefined, {keyId});
+          }).to.throw('"CustomTokenOptions.keyId" must be a non-empty string');
+        });
+      });
+
+      const invalidHeaders: any[] = [null, 'a', 1, []];
+      invalidHeaders.forEach((headers) => {
+        it('should throw given invalid headers: ' + JSON.stringify(headers), () => {
+          expect(() => {
+            tokenGenerator.createCustomToken(mocks.uid, undefined, {headers});
+          }).to.throw('"CustomTokenOptions.headers" must be a non-null object');
+        });
+      });
+
+      ['alg', 'typ', 'kid'].forEach((header) => {
+        it('should throw given a reserved header: ' + header, () => {
+          expect(() => {
+            tokenGenerator.createCustomToken(mocks.uid, undefined, {headers: {[header]: 'value'}});
+          }).to.throw(`Header "${header}" is reserved and cannot be specified`);
+        });
+      });
+
+      it('should be fulfilled with a JWT with the key ID and the additional headers', () => {
+        return tokenGenerator.createCustomToken(mocks.uid, undefined, {keyId: 'KEY_ID', headers: {cty: 'custom'}})
+          .then((token) => {
+            const decoded: any = jwt.decode(token, {
+              complete: true,
+            });
+            expect(decoded.header).to.deep.equal({
+              alg: ALGORITHM,
+              typ: 'JWT',
+              kid: 'KEY_ID',
+              cty: 'custom',
+            });
+          });
+      });
+
+      it('should be fulfilled with a JWT which expires after expiresIn', () => {
+        clock = sinon.useFakeTimers(1000);
+
+        return tokenGenerator.createCustomToken(mocks.uid, mocks.developerClaims, {expiresIn: 5 * 60 * 1000})
+          .then((token) => {
+            const decoded = jwt.decode(token);
+
+            expect(decoded).to.deep.equal({
+              uid: mocks.uid,
+              iat: 1,
+              exp: 5 * 60 + 1,
+              aud: FIREBASE_AUDIENCE,
+              iss: mocks.certificateObject.client_email,
+              sub: mocks.certificateObject.client_email,
+              claims: {
+                one: 'uno',
+                two: 'dos',
+              },
+            });
+          });
+      });
+    });
+  });
+
+  describe('verifyCustomToken()', () => {
+    const invalidTokens: any[] = [null, undefined, '', 1, {}];
+    invalidTokens.forEach((token) => {
+      it('should be rejected given an invalid token: ' + JSON.stringify(token), () => {
+        return tokenGenerator.verifyCustomToken(token)
+          .should.eventually.be.rejected.and.have.property(
+            'message', 'First argument to verifyCustomToken() must be a non-empty string custom token.');
+      });
+    });
+
+    it('should be rejected when the signer is not a service account signer', () => {
+      const signer = new IAMSigner(new AuthorizedHttpClient(mocks.app()), 'test-service-account');
+      return new FirebaseTokenGenerator(signer).verifyCustomToken('token')
+        .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-credential');
+    });
+
+    it('should be fulfilled with the decoded claims of a custom token', () => {
+      clock = sinon.useFakeTimers(1000);
+
+      return tokenGenerator.createCustomToken(mocks.uid, mocks.developerClaims)
+        .then((token) => tokenGenerator.verifyCustomToken(token))
+        .should.eventually.deep.equal({
+          uid: mocks.uid,
+          iat: 1,
+          exp: ONE_HOUR_IN_SECONDS + 1,
+          aud: FIREBASE_AUDIENCE,
+          iss: mocks.certificateObject.client_email,
+          sub: mocks.certificateObject.client_email,
+          claims: {
+            one: 'uno',
+            two: 'dos',
+          },
+        });
+    });
+
+    it('should be rejected given an expired custom token', () => {
+      clock = sinon.useFakeTimers(1000);
+
+      return tokenGenerator.createCustomToken(mocks.uid, undefined, {expiresIn: 60 * 1000})
+        .then((token) => {
+          clock.tick(60 * 1000);
+          return tokenGenerator.verifyCustomToken(token);
+        })
+        .should.eventually.be.rejected.and.have.property('code', 'auth/custom-token-expired');
+    });
+
+    it('should be rejected given a custom token signed with another key', () => {
+      const token = jwt.sign({uid: mocks.uid}, mocks.keyPairs[1].private, {
+        algorithm: ALGORITHM,
+        audience: FIREBASE_AUDIENCE,
+        issuer: mocks.certificateObject.client_email,
+        subject: mocks.certificateObject.client_email,
+      });
+      return tokenGenerator.verifyCustomToken(token)
+        .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-custom-token');
+    });
+
+    it('should be rejected given a token with another audience', () => {
+      return createLocalIdTokenSigner(mocks.projectId, new ServiceAccountSigner(
+        new Certificate(mocks.certificateObject)), 'KEY_ID').createToken(mocks.uid)
+        .then((token) => tokenGenerator.verifyCustomToken(token))
+        .should.eventually.be.rejected.and.have.property('code', 'auth/invalid-custom-token');
+    });
+
+    it('should be rejected given a custom token without a uid', () => {
+      const token = jwt.sign({}, mocks.keyPairs[0].private, {
+        algorithm: ALGORITHM,
+        audience: FIREBASE_AUDIENCE,
+        issuer: mocks.certificateObject.client_email,
+        subject: mocks.certificateObject.client_email,
+      });
+      return tokenGenerator.verifyCustomToken(token)
+        .should.eventually.be.rejected.and.have.property('message', 'Firebase custom token has no "uid" claim.');
+    });
+  });
+});
+
+describe('LocalFirebaseTokenSigner', () => {
+  const keyId = mocks.certificateObject.private_key_id;
+  const publicKeys: {[key: string]: string} = {[keyId]: mocks.keyPairs[0].public};
+  let signer: ServiceAccountSigner;
+
+  let clock: sinon.SinonFakeTimers;
+  beforeEach(() => {
+    signer = new ServiceAccountSigner(new Certificate(mocks.certificateObject));
+  });
+
+  afterEach(() => {
+    if (clock) {
+      clock.restore();
+      clock = undefined;
+    }
+  });
+
+  describe('Constructor', () => {
+    const invalidSigners: any[] = [null, NaN, 0, 1, true, false, '', 'a', _.noop];
+    invalidSigners.forEach((invalidSigner) => {
+      it('should throw given invalid signer: ' + JSON.stringify(invalidSigner), () => {
+        expect(() => {
+          return createLocalIdTokenSigner(mocks.projectId, invalidSigner, keyId);
+        }).to.throw('Must provide a CryptoSigner to use LocalFirebaseTokenSigner');
+      });
+    });
+
+    const invalidKeyIds: any[] = [null, NaN, 0, 1, true, false, '', [], {}, _.noop];
+    invalidKeyIds.forEach((invalidKeyId) => {
+      it('should throw given invalid key ID: ' + JSON.stringify(invalidKeyId), () => {
+        expect(() => {
+          return createLocalIdTokenSigner(mocks.projectId, signer, invalidKeyId);
+        }).to.throw('The provided key ID must be a non-empty string.');
+      });
+    });
+
+    it('should throw given an invalid issuer', () => {
+      expect(() => {
+        return new LocalFirebaseTokenSigner(signer, keyId, 'not-a-url', mocks.projectId, ID_TOKEN_INFO);
+      }).to.throw('The provided JWT issuer is an invalid URL.');
+    });
+
+    it('should throw given an invalid project ID', () => {
+      expect(() => {
+        return createLocalSessionCookieSigner('', signer, keyId);
+      }).to.throw('The provided project ID must be a non-empty string.');
+    });
+  });
+
+  describe('createToken()', () => {
+    const invalidUids: any[] = [null, NaN, 0, 1, true, false, '', [], {}, _.noop, 'a'.repeat(129)];
+    invalidUids.forEach((invalidUid) => {
+      it('should be rejected given invalid uid: ' + JSON.stringify(invalidUid), () => {
+        return createLocalIdTokenSigner(mocks.projectId, signer, keyId).createToken(invalidUid)
+          .should.eventually.be.rejectedWith(
+            'The uid of a Firebase ID token must be a non-empty string with at most 128 characters.')
+          .and.have.property('code', 'auth/argument-error');
+      });
+    });
+
+    const invalidExpiresIn: any[] = [null, NaN, 0, -1, true, 'a', [], {}, _.noop];
+    invalidExpiresIn.forEach((expiresIn) => {
+      it('should be rejected given invalid expiresIn: ' + JSON.stringify(expiresIn), () => {
+        return createLocalSessionCookieSigner(mocks.projectId, signer, keyId).createToken(mocks.uid, {expiresIn})
+          .should.eventually.be.rejectedWith(
+            'The Firebase session cookie "expiresIn" must be a positive number of milliseconds.');
+      });
+    });
+
+    it('should be rejected given invalid claims', () => {
+      return createLocalIdTokenSigner(mocks.projectId, signer, keyId).createToken(mocks.uid, {claims: 'a'} as any)
+        .should.eventually.be.rejectedWith('The Firebase ID token "claims" must be a non-null object.');
+    });
+
+    ['aud', 'exp', 'iss', 'firebase', 'sub', 'user_id'].forEach((claim) => {
+      it('should be rejected given reserved claim: ' + claim, () => {
+        return createLocalIdTokenSigner(mocks.projectId, signer, keyId)
+          .createToken(mocks.uid, {claims: {[claim]: 'value'}})
+          .should.eventually.be.rejectedWith(
+            `Claim "${claim}" is reserved and cannot be specified on a Firebase ID token.`);
+      });
+    });
+
+    it('should be fulfilled with an ID token that the local ID token verifier accepts', () => {
+      clock = sinon.useFakeTimers(1000);
+      const tokenSigner = createLocalIdTokenSigner(mocks.projectId, signer, keyId);
+      return tokenSigner.createToken(mocks.uid, {claims: {admin: true}, authTime: 0})
+        .then((token) => {
+          const decoded: any = jwt.decode(token, {complete: true});
+          expect(decoded.header).to.deep.equal({alg: ALGORITHM, typ: 'JWT', kid: keyId});
+          return createLocalIdTokenVerifier(mocks.projectId, publicKeys).verifyJWT(token);
+        })
+        .should.eventually.deep.equal({
+          admin: true,
+          iss: 'https://securetoken.google.com/' + mocks.projectId,
+          aud: mocks.projectId,
+          auth_time: 0,
+          user_id: mocks.uid,
+          sub: mocks.uid,
+          iat: 1,
+          exp: ONE_HOUR_IN_SECONDS + 1,
+          firebase: {
+            identities: {},
+            sign_in_provider: 'custom',
+          },
+          uid: mocks.uid,
+        });
+    });
+
+    it('should be fulfilled with a session cookie that expires after expiresIn', () => {
+      clock = sinon.useFakeTimers(1000);
+      const tokenSigner = createLocalSessionCookieSigner(mocks.projectId, signer, keyId);
+      const tokenVerifier = createLocalSessionCookieVerifier(mocks.projectId, publicKeys);
+      let sessionCookie: string;
+      return tokenSigner.createToken(mocks.uid, {expiresIn: 5 * 60 * 1000, signInProvider: 'password'})
+        .then((result) => {
+          sessionCookie = result;
+          return tokenVerifier.verifyJWT(sessionCookie);
+        })
+        .then((claims: any) => {
+          expect(claims.iss).to.equal('https://session.firebase.google.com/' + mocks.projectId);
+          expect(claims.firebase.sign_in_provider).to.equal('password');
+          expect(claims.exp - claims.iat).to.equal(5 * 60);
+          clock.tick(5 * 60 * 1000);
+          return tokenVerifier.verifyJWT(sessionCookie);
+        })
+        .should.eventually.be.rejected.and.have.property('code', 'auth/session-cookie-expired');
+    });
+
+    it('should not be verified by the ID token verifier when minted as a session cookie', () => {
+      return createLocalSessionCookieSigner(mocks.projectId, signer, keyId).createToken(mocks.uid)
+        .then((sessionCookie) => {
+          return createLocalIdTokenVerifier(mocks.projectId, publicKeys).verifyJWT(sessionCookie);
+        })
+        .should.eventually.be.rejectedWith('Firebase ID token has incorrect "iss" (issuer) claim.');
+    });
+  });
+});
+
+describe('LocalTokenSigner', () => {
+  const keyId = 'LOCAL_KEY_ID';
+  const options = {projectId: mocks.projectId, keyId, privateKey: mocks.keyPairs[0].private};
+
+  describe('Constructor', () => {
+    const invalidOptions: any[] = [null, NaN, 0, 1, true, false, '', 'a', [], _.noop];
+    invalidOptions.forEach((invalidOption) => {
+      it('should throw given invalid options: ' + JSON.stringify(invalidOption), () => {
+        expect(() => new LocalTokenSigner(invalidOption as any))
+          .to.throw('The local token signer options must be a non-null object.');
+      });
+    });
+
+    const invalidPrivateKeys: any[] = [null, NaN, 0, 1, true, false, '', [], {}, _.noop];
+    invalidPrivateKeys.forEach((invalidPrivateKey) => {
+      it('should throw given an invalid private key: ' + JSON.stringify(invalidPrivateKey), () => {
+        expect(() => new LocalTokenSigner({...options, privateKey: invalidPrivateKey as any}))
+          .to.throw('The provided private key must be a non-empty string.');
+      });
+    });
+
+    it('should throw given a private key that is not PEM encoded', () => {
+      expect(() => new LocalTokenSigner({...options, privateKey: 'not-a-key'}))
+        .to.throw('The provided private key is not a valid PEM encoded RSA private key');
+    });
+
+    it('should throw given an invalid key ID', () => {
+      expect(() => new LocalTokenSigner({...options, keyId: ''}))
+        .to.throw('The provided key ID must be a non-empty string.');
+    });
+
+    it('should throw given an invalid project ID', () => {
+      expect(() => new LocalTokenSigner({...options, projectId: ''}))
+        .to.throw('The provided project ID must be a non-empty string.');
+    });
+  });
+
+  describe('getPublicKeys()', () => {
+    it('should return the public key of the signer keyed by its key ID', () => {
+      const publicKeys = new LocalTokenSigner(options).getPublicKeys();
+      expect(Object.keys(publicKeys)).to.deep.equal([keyId]);
+      const token = jwt.sign({}, mocks.keyPairs[0].private, {algorithm: ALGORITHM});
+      expect(() => jwt.verify(token, publicKeys[keyId], {algorithms: [ALGORITHM]})).not.to.throw();
+    });
+  });
+
+  describe('createIdToken()', () => {
+    it('should be fulfilled with an ID token signed with the private key', () => {
+      const tokenSigner = new LocalTokenSigner(options);
+      return tokenSigner.createIdToken(mocks.uid, {claims: {admin: true}})
+        .then((token) => createLocalIdTokenVerifier(mocks.projectId, tokenSigner.getPublicKeys()).verifyJWT(token))
+        .then((claims: any) => {
+          expect(claims.uid).to.equal(mocks.uid);
+          expect(claims.admin).to.be.true;
+        });
+    });
+  });
+
+  describe('createSessionCookie()', () => {
+    it('should be fulfilled with a session cookie signed with the private key', () => {
+      const tokenSigner = new LocalTokenSigner(options);
+      return tokenSigner.createSessionCookie(mocks.uid)
+        .then((sessionCookie) => {
+          return createLocalSessionCookieVerifier(mocks.projectId, tokenSigner.getPublicKeys())
+            .verifyJWT(sessionCookie);
+        })
+        .should.eventually.have.property('uid', mocks.uid);
+    });
   });
 });
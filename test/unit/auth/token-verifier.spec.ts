@@ -605,5 +605,196 @@ describe('FirebaseTokenVerifier', () => {
       return tokenVerifier.verifyJWT(mockIdToken)
         .should.eventually.be.rejectedWith('Error fetching public keys for Google certs: message (description)');
     });
+
+    it('should be fulfilled with decoded claims given an unsigned emulator token in emulator mode', () => {
+      clock = sinon.useFakeTimers(1000);
+
+      const mockIdToken = mocks.generateEmulatorIdToken();
+
+      return tokenVerifier.verifyJWT(mockIdToken, true)
+        .should.eventually.be.fulfilled.and.deep.equal({
+          one: 'uno',
+          two: 'dos',
+          iat: 1,
+          exp: ONE_HOUR_IN_SECONDS + 1,
+          aud: mocks.projectId,
+          iss: 'https://securetoken.google.com/' + mocks.projectId,
+          sub: mocks.uid,
+          uid: mocks.uid,
+        });
+    });
+
+    it('should not fetch the Google cert public keys in emulator mode', () => {
+      const mockIdToken = mocks.generateEmulatorIdToken();
+
+      return tokenVerifier.verifyJWT(mockIdToken, true)
+        .then(() => {
+          expect(httpsSpy).not.to.have.been.called;
+        });
+    });
+
+    it('should be rejected given an emulator token with an incorrect audience in emulator mode', () => {
+      const mockIdToken = mocks.generateEmulatorIdToken({
+        audience: 'incorrectAudience',
+      });
+
+      return tokenVerifier.verifyJWT(mockIdToken, true)
+        .should.eventually.be.rejectedWith('Firebase ID token has incorrect "aud" (audience) claim');
+    });
+
+    it('should be rejected given a signed token in emulator mode', () => {
+      const mockIdToken = mocks.generateIdToken();
+
+      return tokenVerifier.verifyJWT(mockIdToken, true)
+        .should.eventually.be.rejectedWith('Firebase ID token has invalid signature');
+    });
+
+    it('should be rejected given an unsigned emulator token outside of emulator mode', () => {
+      const mockIdToken = mocks.generateEmulatorIdToken();
+
+      return tokenVerifier.verifyJWT(mockIdToken)
+        .should.eventually.be.rejectedWith('Firebase ID token has no "kid" claim');
+    });
+  });
+});
+
+describe('StaticKeyFetcher', () => {
+  const publicKeys: {[key: string]: string} = {[mocks.certificateObject.private_key_id]: mocks.keyPairs[0].public};
+  let httpsSpy: sinon.SinonSpy;
+  beforeEach(() => {
+    httpsSpy = sinon.spy(https, 'request');
+  });
+
+  afterEach(() => {
+    httpsSpy.restore();
+  });
+
+  const invalidKeySets: any[] = [null, NaN, 0, 1, true, false, '', 'a', [], {}, _.noop];
+  invalidKeySets.forEach((invalidKeySet) => {
+    it('should throw given invalid public keys: ' + JSON.stringify(invalidKeySet), () => {
+      expect(() => new verifier.StaticKeyFetcher(invalidKeySet))
+        .to.throw('The provided public keys must be a non-empty object of key IDs to public keys.');
+    });
+  });
+
+  it('should throw given an invalid public key', () => {
+    expect(() => new verifier.StaticKeyFetcher({kid: ''}))
+      .to.throw('The public key for key ID "kid" must be a non-empty string.');
+  });
+
+  it('should resolve with a copy of the provided public keys', () => {
+    const keys = _.clone(publicKeys);
+    const keyFetcher = new verifier.StaticKeyFetcher(keys);
+    keys.other = 'OTHER';
+    return keyFetcher.fetchPublicKeys()
+      .should.eventually.deep.equal(publicKeys);
+  });
+
+  it('should be used by FirebaseTokenVerifier instead of fetching the Google certs', () => {
+    const tokenVerifier = new verifier.FirebaseTokenVerifier(
+      new verifier.StaticKeyFetcher(publicKeys),
+      'RS256',
+      'https://securetoken.google.com/',
+      'project_id',
+      verifier.ID_TOKEN_INFO,
+    );
+    return tokenVerifier.verifyJWT(mocks.generateIdToken())
+      .then((claims: any) => {
+        expect(claims.uid).to.equal(mocks.uid);
+        expect(https.request).not.to.have.been.called;
+      });
+  });
+
+  it('should reject tokens signed with a key that is not in the injected key set', () => {
+    const tokenVerifier = verifier.createLocalIdTokenVerifier(
+      'project_id', {'other-key-id': mocks.keyPairs[1].public});
+    return tokenVerifier.verifyJWT(mocks.generateIdToken())
+      .should.eventually.be.rejectedWith(
+        'Firebase ID token has "kid" claim which does not correspond to a known public key.');
+  });
+});
+
+describe('UrlKeyFetcher', () => {
+  const certUrl = 'https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com';
+  const expectedKeys = {[mocks.certificateObject.private_key_id]: mocks.keyPairs[0].public};
+  let httpsSpy: sinon.SinonSpy;
+  let mockedRequests: nock.Scope[] = [];
+  beforeEach(() => {
+    httpsSpy = sinon.spy(https, 'request');
+  });
+
+  afterEach(() => {
+    _.forEach(mockedRequests, (mockedRequest) => mockedRequest.done());
+    mockedRequests = [];
+    httpsSpy.restore();
+  });
+
+  const invalidCaches: any[] = [null, NaN, 0, 1, true, false, '', 'a', [], {}, {get: _.noop}, _.noop];
+  invalidCaches.forEach((invalidCache) => {
+    it('should throw given an invalid public key cache: ' + JSON.stringify(invalidCache), () => {
+      expect(() => new verifier.UrlKeyFetcher(certUrl, invalidCache))
+        .to.throw('The "publicKeyCache" app option must be an object with get() and set() methods.');
+    });
+  });
+
+  it('should share a single fetch between concurrent calls', () => {
+    mockedRequests.push(mockFetchPublicKeys());
+    const keyFetcher = new verifier.UrlKeyFetcher(certUrl);
+    return Promise.all([keyFetcher.fetchPublicKeys(), keyFetcher.fetchPublicKeys()])
+      .then((results) => {
+        expect(results[0]).to.deep.equal(expectedKeys);
+        expect(results[1]).to.equal(results[0]);
+        expect(https.request).to.have.been.calledOnce;
+      });
+  });
+
+  it('should fetch again once a failed fetch has settled', () => {
+    mockedRequests.push(mockFailedFetchPublicKeys());
+    mockedRequests.push(mockFetchPublicKeys());
+    const keyFetcher = new verifier.UrlKeyFetcher(certUrl);
+    return keyFetcher.fetchPublicKeys()
+      .should.eventually.be.rejectedWith('message')
+      .then(() => keyFetcher.fetchPublicKeys())
+      .should.eventually.deep.equal(expectedKeys);
+  });
+
+  it('should not fetch the public keys when found in the provided cache', () => {
+    const cache = {
+      get: sinon.stub().resolves(expectedKeys),
+      set: sinon.stub().resolves(),
+    };
+    const keyFetcher = new verifier.UrlKeyFetcher(certUrl, cache);
+    return keyFetcher.fetchPublicKeys()
+      .then((publicKeys) => {
+        expect(publicKeys).to.deep.equal(expectedKeys);
+        expect(cache.get).to.have.been.calledOnce.and.calledWith(certUrl);
+        expect(cache.set).to.not.have.been.called;
+        expect(https.request).to.not.have.been.called;
+      });
+  });
+
+  it('should store the fetched public keys in the provided cache for the "max-age" duration', () => {
+    mockedRequests.push(mockFetchPublicKeys());
+    const cache = {
+      get: sinon.stub().resolves(null),
+      set: sinon.stub().resolves(),
+    };
+    const keyFetcher = new verifier.UrlKeyFetcher(certUrl, cache);
+    return keyFetcher.fetchPublicKeys()
+      .then((publicKeys) => {
+        expect(publicKeys).to.deep.equal(expectedKeys);
+        expect(cache.set).to.have.been.calledOnce.and.calledWith(certUrl, expectedKeys, 1000);
+      });
+  });
+
+  it('should fetch the public keys when the provided cache fails', () => {
+    mockedRequests.push(mockFetchPublicKeys());
+    const cache = {
+      get: sinon.stub().rejects(new Error('get failed')),
+      set: sinon.stub().throws(new Error('set failed')),
+    };
+    const keyFetcher = new verifier.UrlKeyFetcher(certUrl, cache);
+    return keyFetcher.fetchPublicKeys()
+      .should.eventually.deep.equal(expectedKeys);
   });
 });
@@ -0,0 +1,393 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+'use strict';
+
+import * as _ from 'lodash';
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+import * as sinonChai from 'sinon-chai';
+import * as chaiAsPromised from 'chai-as-promised';
+
+import * as utils from '../utils';
+import * as mocks from '../../resources/mocks';
+import {FirebaseApp} from '../../../src/firebase-app';
+import {HttpClient} from '../../../src/utils/api-request';
+import {TenantAwareAuthRequestHandler} from '../../../src/auth/auth-api-request';
+import {UserRecord} from '../../../src/auth/user-record';
+import {UserImportBuilder, UserImportRecord} from '../../../src/auth/user-import-builder';
+import {
+  UserExportStream, parseUserExport, parseUserExportByTenant, serializeUser, toUserImportRecord,
+  validateUserExportOptions,
+} from '../../../src/auth/user-export';
+import {PageIterable} from '../../../src/utils/page-iterator';
+
+chai.should();
+chai.use(sinonChai);
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+describe('UserExport', () => {
+  const userResponse: any = {
+    localId: 'abcdefghijklmnopqrstuvwxyz',
+    email: 'user@gmail.com',
+    emailVerified: true,
+    displayName: 'John Doe, "Jr"',
+    phoneNumber: '+11234567890',
+    providerUserInfo: [
+      {
+        providerId: 'google.com',
+        displayName: 'John Doe',
+        photoUrl: 'https://lh3.googleusercontent.com/1234567890/photo.jpg',
+        federatedId: '1234567890',
+        email: 'user@gmail.com',
+        rawId: '1234567890',
+      },
+      {
+        providerId: 'password',
+        email: 'user@gmail.com',
+        federatedId: 'user@gmail.com',
+        rawId: 'user@gmail.com',
+      },
+      {
+        providerId: 'phone',
+        phoneNumber: '+11234567890',
+        rawId: '+11234567890',
+      },
+    ],
+    photoUrl: 'https://lh3.googleusercontent.com/1234567890/photo.jpg',
+    validSince: '1476136676',
+    lastLoginAt: '1476235905000',
+    createdAt: '1476136676000',
+    passwordHash: 'aGFzaA==',
+    salt: 'c2FsdA==',
+    customAttributes: JSON.stringify({admin: true}),
+    tenantId: 'TENANT-ID',
+    mfaInfo: [
+      {
+        mfaEnrollmentId: 'enrolledSecondFactor1',
+        phoneInfo: '+16505557348',
+        displayName: 'Spouse\'s phone number',
+        enrolledAt: new Date(1476235905000).toISOString(),
+      },
+    ],
+  };
+  const user = new UserRecord(userResponse);
+  const expectedRecord: UserImportRecord = {
+    uid: 'abcdefghijklmnopqrstuvwxyz',
+    email: 'user@gmail.com',
+    emailVerified: true,
+    displayName: 'John Doe, "Jr"',
+    phoneNumber: '+11234567890',
+    photoURL: 'https://lh3.googleusercontent.com/1234567890/photo.jpg',
+    disabled: false,
+    metadata: {
+      creationTime: new Date(1476136676000).toUTCString(),
+      lastSignInTime: new Date(1476235905000).toUTCString(),
+    },
+    providerData: [
+      {
+        uid: '1234567890',
+        displayName: 'John Doe',
+        email: 'user@gmail.com',
+        photoURL: 'https://lh3.googleusercontent.com/1234567890/photo.jpg',
+        providerId: 'google.com',
+      },
+    ],
+    customClaims: {admin: true},
+    passwordHash: Buffer.from('hash'),
+    passwordSalt: Buffer.from('salt'),
+    multiFactor: {
+      enrolledFactors: [
+        {
+          uid: 'enrolledSecondFactor1',
+          displayName: 'Spouse\'s phone number',
+          factorId: 'phone',
+          enrollmentTime: new Date(1476235905000).toUTCString(),
+          phoneNumber: '+16505557348',
+        } as any,
+      ],
+    },
+  };
+
+  describe('validateUserExportOptions()', () => {
+    const nonObjects: any[] = [null, NaN, 0, 1, true, false, '', 'a', [], _.noop];
+    nonObjects.forEach((options) => {
+      it('should throw given invalid options: ' + JSON.stringify(options), () => {
+        expect(() => validateUserExportOptions(options))
+          .to.throw('"UserExportOptions" must be a valid non-null object.');
+      });
+    });
+
+    const invalidFormats: any[] = [null, 0, true, '', 'json', 'XML', {}];
+    invalidFormats.forEach((format) => {
+      it('should throw given an invalid format: ' + JSON.stringify(format), () => {
+        expect(() => validateUserExportOptions({format}))
+          .to.throw('"UserExportOptions.format" must be either "JSON" or "CSV".');
+      });
+    });
+
+    const nonBooleans: any[] = [null, 0, 1, '', 'a', [], {}];
+    nonBooleans.forEach((includeTenants) => {
+      it('should throw given an invalid includeTenants: ' + JSON.stringify(includeTenants), () => {
+        expect(() => validateUserExportOptions({includeTenants}))
+          .to.throw('"UserExportOptions.includeTenants" must be a boolean.');
+      });
+    });
+
+    it('should not throw given valid options', () => {
+      expect(() => validateUserExportOptions({})).to.not.throw();
+      expect(() => validateUserExportOptions({format: 'CSV', pageSize: 10, includeTenants: true}))
+        .to.not.throw();
+    });
+  });
+
+  describe('toUserImportRecord()', () => {
+    it('should convert a user record to a user import record', () => {
+      expect(toUserImportRecord(user)).to.deep.equal(expectedRecord);
+    });
+
+    it('should omit the properties which are not set', () => {
+      expect(toUserImportRecord(new UserRecord({localId: 'UID'}))).to.deep.equal({
+        uid: 'UID',
+        emailVerified: false,
+        disabled: false,
+      });
+    });
+
+    it('should produce a record accepted by UserImportBuilder', () => {
+      const builder = new UserImportBuilder(
+        [toUserImportRecord(user)], {hash: {algorithm: 'BCRYPT'}});
+      expect(builder.buildResponse([]).failureCount).to.equal(0);
+      expect(builder.buildRequest().users[0]).to.have.property('localId', user.uid);
+    });
+  });
+
+  describe('serializeUser()', () => {
+    it('should serialize a user as a JSON line', () => {
+      const line = serializeUser(user, 'JSON');
+      expect(line.slice(-1)).to.equal('\n');
+      const json = JSON.parse(line);
+      expect(json.passwordHash).to.equal('aGFzaA==');
+      expect(json.passwordSalt).to.equal('c2FsdA==');
+      expect(json.providerData).to.deep.equal(expectedRecord.providerData);
+      expect(json.tenantId).to.equal('TENANT-ID');
+    });
+
+    it('should serialize a user as a quoted CSV row', () => {
+      const row = serializeUser(user, 'CSV');
+      expect(row).to.contain('abcdefghijklmnopqrstuvwxyz,user@gmail.com,true,"John Doe, ""Jr""",');
+      expect(row).to.contain(',aGFzaA==,c2FsdA==,"{""admin"":true}",');
+      expect(row).to.contain(',TENANT-ID\n');
+      expect(row.slice(-1)).to.equal('\n');
+    });
+  });
+
+  describe('parseUserExport()', () => {
+    ['JSON', 'CSV'].forEach((format: any) => {
+      it(`should round trip a ${format} export to user import records`, () => {
+        const stream = new UserExportStream([toIterable([[user, new UserRecord({localId: 'UID'})]])], format);
+        return mocks.readStream(stream)
+          .then((data) => {
+            expect(parseUserExport(data, format)).to.deep.equal([
+              expectedRecord,
+              {uid: 'UID', emailVerified: false, disabled: false},
+            ]);
+          });
+      });
+    });
+
+    describe('when importing into another tenant', () => {
+      let mockApp: FirebaseApp;
+      let stubs: sinon.SinonStub[] = [];
+
+      beforeEach(() => {
+        mockApp = mocks.app();
+        stubs.push(utils.stubGetAccessToken(undefined, mockApp));
+      });
+
+      afterEach(() => {
+        stubs.forEach((stub) => stub.restore());
+        stubs = [];
+        return mockApp.delete();
+      });
+
+      it('should produce records without the exported tenant ID', () => {
+        const stub = sinon.stub(HttpClient.prototype, 'send').resolves(utils.responseFrom({}));
+        stubs.push(stub);
+        const records = parseUserExport(serializeUser(user, 'JSON'));
+        expect(records[0]).to.not.have.property('tenantId');
+        const requestHandler = new TenantAwareAuthRequestHandler(mockApp, 'OTHER-TENANT-ID');
+        return requestHandler.uploadAccount(records, {hash: {algorithm: 'BCRYPT'}})
+          .then((result) => {
+            expect(result.failureCount).to.equal(0);
+            expect(stub).to.have.been.calledOnce.and.calledWith(sinon.match({
+              url: sinon.match('/tenants/OTHER-TENANT-ID/accounts:batchCreate'),
+            }));
+          });
+      });
+    });
+
+    it('should default to the JSON format', () => {
+      expect(parseUserExport(serializeUser(user, 'JSON'))).to.deep.equal([expectedRecord]);
+    });
+
+    it('should return an empty list given an empty export', () => {
+      expect(parseUserExport('', 'JSON')).to.deep.equal([]);
+      expect(parseUserExport('', 'CSV')).to.deep.equal([]);
+    });
+
+    const nonStrings: any[] = [null, undefined, 0, true, [], {}];
+    nonStrings.forEach((data) => {
+      it('should throw given non-string data: ' + JSON.stringify(data), () => {
+        expect(() => parseUserExport(data)).to.throw('The user export data must be a string.');
+      });
+    });
+
+    it('should throw given an invalid JSON line', () => {
+      expect(() => parseUserExport('{"uid":"UID"}\n{invalid', 'JSON'))
+        .to.throw('Line 2 of the user export is not valid JSON.');
+    });
+
+    it('should throw given an invalid CSV header', () => {
+      expect(() => parseUserExport('uid,unknown\nUID,value', 'CSV'))
+        .to.throw('The user export CSV header must only contain the exported columns, including "uid".');
+    });
+
+    it('should throw given an invalid CSV JSON column', () => {
+      expect(() => parseUserExport('uid,customClaims\nUID,{invalid', 'CSV'))
+        .to.throw('The "customClaims" column of row 1 of the user export is not valid JSON.');
+    });
+
+    it('should parse CSV values with quoted line breaks', () => {
+      expect(parseUserExport('uid,displayName\r\nUID,"line 1\nline 2"\r\n', 'CSV'))
+        .to.deep.equal([{uid: 'UID', displayName: 'line 1\nline 2'}]);
+    });
+  });
+
+  describe('parseUserExportByTenant()', () => {
+    ['JSON', 'CSV'].forEach((format: any) => {
+      it(`should group the users of a ${format} export by tenant`, () => {
+        const stream = new UserExportStream([
+          toIterable([[new UserRecord({localId: 'UID1'})]]),
+          toIterable([[
+            new UserRecord({localId: 'UID2', tenantId: 'TENANT-1'}),
+            new UserRecord({localId: 'UID3', tenantId: 'TENANT-2'}),
+            new UserRecord({localId: 'UID4', tenantId: 'TENANT-1'}),
+          ]]),
+        ], format);
+        return mocks.readStream(stream)
+          .then((data) => {
+            expect(parseUserExportByTenant(data, format)).to.deep.equal([
+              {users: [{uid: 'UID1', emailVerified: false, disabled: false}]},
+              {
+                tenantId: 'TENANT-1',
+                users: [
+                  {uid: 'UID2', emailVerified: false, disabled: false},
+                  {uid: 'UID4', emailVerified: false, disabled: false},
+                ],
+              },
+              {tenantId: 'TENANT-2', users: [{uid: 'UID3', emailVerified: false, disabled: false}]},
+            ]);
+          });
+      });
+    });
+
+    it('should default to the JSON format', () => {
+      expect(parseUserExportByTenant(serializeUser(user, 'JSON'))).to.deep.equal([
+        {tenantId: user.tenantId, users: [expectedRecord]},
+      ]);
+    });
+
+    it('should return no groups given an empty export', () => {
+      expect(parseUserExportByTenant('')).to.deep.equal([]);
+    });
+
+    it('should throw given non-string data', () => {
+      expect(() => parseUserExportByTenant(null)).to.throw('The user export data must be a string.');
+    });
+  });
+
+  describe('UserExportStream', () => {
+    it('should export the users of all sources in order', () => {
+      const stream = new UserExportStream([
+        toIterable([[new UserRecord({localId: 'UID1'})], [new UserRecord({localId: 'UID2'})]]),
+        toIterable([[]]),
+        toIterable([[new UserRecord({localId: 'UID3'})]]),
+      ]);
+      return mocks.readStream(stream)
+        .then((data) => {
+          expect(parseUserExport(data).map((record) => record.uid)).to.deep.equal(['UID1', 'UID2', 'UID3']);
+        });
+    });
+
+    it('should start CSV exports with a header row', () => {
+      const stream = new UserExportStream([toIterable([[]])], 'CSV');
+      return mocks.readStream(stream)
+        .should.eventually.equal(
+          'uid,email,emailVerified,displayName,phoneNumber,photoURL,disabled,creationTime,' +
+          'lastSignInTime,passwordHash,passwordSalt,customClaims,providerData,multiFactor,tenantId\n');
+    });
+
+    it('should not fetch any users until the stream is read', () => {
+      const fetchPage = sinon.stub().resolves({items: []});
+      const stream = new UserExportStream([new PageIterable<UserRecord>(fetchPage)]);
+      expect(fetchPage).to.not.have.been.called;
+      return mocks.readStream(stream)
+        .then(() => {
+          expect(fetchPage).to.have.been.calledOnce;
+        });
+    });
+
+    it('should stop iterating over the sources when destroyed', (done) => {
+      const fetchPage = sinon.stub().resolves({items: [new UserRecord({localId: 'UID1'})], pageToken: 'NEXT'});
+      const source = new PageIterable<UserRecord>(fetchPage);
+      const iterator = source[Symbol.asyncIterator]();
+      const returnSpy = sinon.spy(iterator, 'return');
+      const stream = new UserExportStream([{[Symbol.asyncIterator]: () => iterator}]);
+      stream.once('data', () => {
+        stream.destroy();
+      });
+      stream.on('close', () => {
+        expect(returnSpy).to.have.been.calledOnce;
+        expect(fetchPage).to.have.been.calledOnce;
+        done();
+      });
+    });
+
+    it('should emit an error when the users cannot be fetched', () => {
+      const expectedError = new Error('fetch failed');
+      const stream = new UserExportStream([new PageIterable<UserRecord>(() => Promise.reject(expectedError))]);
+      return mocks.readStream(stream)
+        .should.eventually.be.rejected.and.equal(expectedError);
+    });
+  });
+});
+
+/**
+ * Returns an AsyncIterable over the provided pages of users.
+ *
+ * @param {UserRecord[][]} pages The pages of users.
+ * @return {AsyncIterable<UserRecord>} An iterable over the users.
+ */
+function toIterable(pages: UserRecord[][]): AsyncIterable<UserRecord> {
+  return new PageIterable<UserRecord>((pageToken?: string) => {
+    const index = Number(pageToken || 0);
+    const nextPageToken = index + 1 < pages.length ? String(index + 1) : undefined;
+    return Promise.resolve({items: pages[index], pageToken: nextPageToken});
+  });
+}
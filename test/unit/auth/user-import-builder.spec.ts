@@ -562,6 +562,74 @@ describe('UserImportBuilder', () => {
     });
   });
 
+  describe('buildRequest() with multiFactor', () => {
+    it('should convert enrolled second factors to the server format', () => {
+      const mfaUsers = [
+        {
+          uid: '1234',
+          email: 'user@example.com',
+          multiFactor: {
+            enrolledFactors: [
+              {
+                uid: 'mfaUid1',
+                phoneNumber: '+16505551234',
+                displayName: 'Corp phone number',
+                factorId: 'phone',
+                enrollmentTime: nowString,
+              },
+              {
+                phoneNumber: '+16505556789',
+                factorId: 'phone',
+              },
+            ],
+          },
+        },
+      ];
+      const expectedRequest = {
+        users: [
+          {
+            localId: '1234',
+            email: 'user@example.com',
+            mfaInfo: [
+              {
+                mfaEnrollmentId: 'mfaUid1',
+                phoneInfo: '+16505551234',
+                displayName: 'Corp phone number',
+                enrolledAt: new Date(nowString).toISOString(),
+              },
+              {
+                phoneInfo: '+16505556789',
+              },
+            ],
+          },
+        ],
+      };
+      const userImportBuilder = new UserImportBuilder(mfaUsers, undefined, userRequestValidator);
+      expect(userImportBuilder.buildRequest()).to.deep.equal(expectedRequest);
+    });
+
+    it('should report unsupported second factors as client side errors', () => {
+      const mfaUsers = [
+        {uid: '1234', multiFactor: {enrolledFactors: [{uid: 'mfaUid1', factorId: 'totp'}]}},
+        {uid: '5678', multiFactor: {enrolledFactors: [
+          {uid: 'mfaUid2', phoneNumber: '+16505551234', factorId: 'phone', enrollmentTime: 'invalid'},
+        ]}},
+        {uid: '9012', email: 'user@example.com'},
+      ];
+      const userImportBuilder = new UserImportBuilder(mfaUsers as any, undefined, userRequestValidator);
+      expect(userImportBuilder.buildRequest()).to.deep.equal({
+        users: [{localId: '9012', email: 'user@example.com'}],
+      });
+      const result = userImportBuilder.buildResponse([]);
+      expect(result.successCount).to.equal(1);
+      expect(result.failureCount).to.equal(2);
+      expect(result.errors[0].index).to.equal(0);
+      expect(result.errors[0].error).to.have.property('code', 'auth/unsupported-second-factor');
+      expect(result.errors[1].index).to.equal(1);
+      expect(result.errors[1].error).to.have.property('code', 'auth/invalid-enrollment-time');
+    });
+  });
+
   describe('buildResponse()', () => {
     const algorithm = 'BCRYPT';
     const validOptions = {
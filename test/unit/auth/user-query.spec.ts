@@ -0,0 +1,213 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+'use strict';
+
+import * as _ from 'lodash';
+import * as chai from 'chai';
+
+import {UserRecord} from '../../../src/auth/user-record';
+import {
+  UserQueryFilter, createUserQueryMatcher, getUserQueryLookupIdentifier, validateUserQueryFilter,
+  validateUserQueryOptions,
+} from '../../../src/auth/user-query';
+
+const expect = chai.expect;
+
+const CREATED_AT = Date.UTC(2019, 0, 1);
+const LAST_LOGIN_AT = Date.UTC(2019, 5, 1);
+
+/**
+ * @param {object} response The properties of the getAccountInfo response of the user.
+ * @return {UserRecord} A user created on 2019-01-01 and last signed in on 2019-06-01 by default.
+ */
+function getUser(response: object): UserRecord {
+  return new UserRecord(_.assign({
+    localId: 'UID',
+    email: 'User@Example.com',
+    emailVerified: true,
+    phoneNumber: '+11234567890',
+    disabled: false,
+    createdAt: String(CREATED_AT),
+    lastLoginAt: String(LAST_LOGIN_AT),
+    providerUserInfo: [{providerId: 'google.com', rawId: 'google_uid'}],
+    customAttributes: JSON.stringify({admin: true, level: 2}),
+  }, response));
+}
+
+describe('validateUserQueryFilter()', () => {
+  const invalidFilters: any[] = [null, undefined, 'filter', 1];
+  invalidFilters.forEach((filter) => {
+    it('should throw given an invalid filter: ' + JSON.stringify(filter), () => {
+      expect(() => validateUserQueryFilter(filter))
+        .to.throw('"UserQueryFilter" must be a valid non-null object.');
+    });
+  });
+
+  ['uid', 'emailDomain', 'providerId'].forEach((key) => {
+    it(`should throw given an invalid ${key}`, () => {
+      expect(() => validateUserQueryFilter({[key]: ''}))
+        .to.throw(`"UserQueryFilter.${key}" must be a non-empty string.`);
+    });
+  });
+
+  it('should throw given an invalid email', () => {
+    expect(() => validateUserQueryFilter({email: 'invalid'}))
+      .to.throw().with.property('code', 'auth/invalid-email');
+  });
+
+  it('should throw given an invalid phone number', () => {
+    expect(() => validateUserQueryFilter({phoneNumber: 'invalid'}))
+      .to.throw().with.property('code', 'auth/invalid-phone-number');
+  });
+
+  ['disabled', 'emailVerified'].forEach((key) => {
+    it(`should throw given an invalid ${key}`, () => {
+      expect(() => validateUserQueryFilter({[key]: 'true'}))
+        .to.throw(`"UserQueryFilter.${key}" must be a boolean.`);
+    });
+  });
+
+  ['createdAfter', 'createdBefore', 'lastSignInAfter', 'lastSignInBefore'].forEach((key) => {
+    const invalidDates: any[] = ['2019-01-01', CREATED_AT, new Date('invalid')];
+    invalidDates.forEach((date) => {
+      it(`should throw given an invalid ${key}: ` + JSON.stringify(date), () => {
+        expect(() => validateUserQueryFilter({[key]: date}))
+          .to.throw(`"UserQueryFilter.${key}" must be a valid Date.`);
+      });
+    });
+  });
+
+  const invalidClaims: any[] = [null, 'admin', []];
+  invalidClaims.forEach((customClaims) => {
+    it('should throw given invalid custom claims: ' + JSON.stringify(customClaims), () => {
+      expect(() => validateUserQueryFilter({customClaims}))
+        .to.throw('"UserQueryFilter.customClaims" must be a non-null object.');
+    });
+  });
+
+  it('should not throw given a valid filter', () => {
+    expect(() => validateUserQueryFilter({
+      emailDomain: 'example.com',
+      providerId: 'google.com',
+      disabled: false,
+      createdAfter: new Date(CREATED_AT),
+      customClaims: {admin: true},
+    })).not.to.throw();
+  });
+});
+
+describe('validateUserQueryOptions()', () => {
+  const invalidPageSizes: any[] = [0, 1.5, 1001, '10'];
+  invalidPageSizes.forEach((pageSize) => {
+    it('should throw given an invalid page size: ' + JSON.stringify(pageSize), () => {
+      expect(() => validateUserQueryOptions({pageSize}))
+        .to.throw('"UserQueryOptions.pageSize" must be a positive integer that does not exceed 1000.');
+    });
+  });
+
+  it('should throw given an invalid page token', () => {
+    expect(() => validateUserQueryOptions({pageToken: ''}))
+      .to.throw().with.property('code', 'auth/invalid-page-token');
+  });
+
+  const invalidMaxPages: any[] = [0, -1, 1.5, '1'];
+  invalidMaxPages.forEach((maxPages) => {
+    it('should throw given an invalid maximum number of pages: ' + JSON.stringify(maxPages), () => {
+      expect(() => validateUserQueryOptions({maxPages}))
+        .to.throw('"UserQueryOptions.maxPages" must be a positive integer.');
+    });
+  });
+
+  it('should throw given an invalid progress callback', () => {
+    expect(() => validateUserQueryOptions({onProgress: 'callback'}))
+      .to.throw('"UserQueryOptions.onProgress" must be a function.');
+  });
+});
+
+describe('getUserQueryLookupIdentifier()', () => {
+  it('should return the uid, the email or the phone number in this order of preference', () => {
+    expect(getUserQueryLookupIdentifier({uid: 'UID', email: 'user@example.com'})).to.deep.equal({uid: 'UID'});
+    expect(getUserQueryLookupIdentifier({email: 'user@example.com', phoneNumber: '+11234567890'}))
+      .to.deep.equal({email: 'user@example.com'});
+    expect(getUserQueryLookupIdentifier({phoneNumber: '+11234567890', disabled: true}))
+      .to.deep.equal({phoneNumber: '+11234567890'});
+  });
+
+  it('should return null when the users must be scanned', () => {
+    expect(getUserQueryLookupIdentifier({emailDomain: 'example.com'})).to.be.null;
+  });
+});
+
+describe('createUserQueryMatcher()', () => {
+  const matchingFilters: UserQueryFilter[] = [
+    {},
+    {uid: 'UID'},
+    {email: 'user@example.COM'},
+    {emailDomain: 'EXAMPLE.com'},
+    {emailDomain: '@example.com'},
+    {phoneNumber: '+11234567890'},
+    {providerId: 'google.com'},
+    {disabled: false},
+    {emailVerified: true},
+    {createdAfter: new Date(CREATED_AT), createdBefore: new Date(CREATED_AT + 1)},
+    {lastSignInAfter: new Date(LAST_LOGIN_AT), lastSignInBefore: new Date(LAST_LOGIN_AT + 1)},
+    {customClaims: {admin: true}},
+    {customClaims: {admin: true, level: 2}},
+  ];
+  matchingFilters.forEach((filter) => {
+    it('should match a user given the filter: ' + JSON.stringify(filter), () => {
+      expect(createUserQueryMatcher(filter)(getUser({}))).to.be.true;
+    });
+  });
+
+  const mismatchingFilters: UserQueryFilter[] = [
+    {uid: 'OTHER_UID'},
+    {email: 'other@example.com'},
+    {emailDomain: 'ample.com'},
+    {phoneNumber: '+10987654321'},
+    {providerId: 'facebook.com'},
+    {disabled: true},
+    {emailVerified: false},
+    {createdAfter: new Date(CREATED_AT + 1)},
+    {createdBefore: new Date(CREATED_AT)},
+    {lastSignInAfter: new Date(LAST_LOGIN_AT + 1)},
+    {lastSignInBefore: new Date(LAST_LOGIN_AT)},
+    {customClaims: {admin: false}},
+    {customClaims: {level: '2'}},
+    {customClaims: {other: true}},
+  ];
+  mismatchingFilters.forEach((filter) => {
+    it('should not match a user given the filter: ' + JSON.stringify(filter), () => {
+      expect(createUserQueryMatcher(filter)(getUser({}))).to.be.false;
+    });
+  });
+
+  it('should not match a user without email given an email domain', () => {
+    expect(createUserQueryMatcher({emailDomain: 'example.com'})(getUser({email: undefined}))).to.be.false;
+  });
+
+  it('should match a user who never signed in given a last sign-in upper bound only', () => {
+    const user = getUser({lastLoginAt: undefined});
+    expect(createUserQueryMatcher({lastSignInBefore: new Date(LAST_LOGIN_AT)})(user)).to.be.true;
+    expect(createUserQueryMatcher({lastSignInAfter: new Date(0)})(user)).to.be.false;
+  });
+
+  it('should not match a user without custom claims given required claims', () => {
+    expect(createUserQueryMatcher({customClaims: {admin: true}})(getUser({customAttributes: undefined})))
+      .to.be.false;
+  });
+});
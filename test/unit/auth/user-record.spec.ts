@@ -19,7 +19,10 @@ import * as sinonChai from 'sinon-chai';
 import * as chaiAsPromised from 'chai-as-promised';
 
 import {deepCopy} from '../../../src/utils/deep-copy';
-import {UserInfo, UserMetadata, UserRecord} from '../../../src/auth/user-record';
+import {
+  UserInfo, UserMetadata, UserRecord, MultiFactor, MultiFactorInfo, PhoneMultiFactorInfo,
+  MultiFactorInfoResponse,
+} from '../../../src/auth/user-record';
 
 
 chai.should();
@@ -28,6 +31,8 @@ chai.use(chaiAsPromised);
 
 const expect = chai.expect;
 
+const now = new Date();
+
 /**
  * @param {string=} tenantId The optional tenant ID to add to the response.
  * @return {object} A sample valid user response as returned from getAccountInfo
@@ -79,6 +84,19 @@ function getValidUserResponse(tenantId?: string): {[key: string]: any} {
     customAttributes: JSON.stringify({
       admin: true,
     }),
+    mfaInfo: [
+      {
+        mfaEnrollmentId: 'enrollmentId1',
+        displayName: 'displayName1',
+        enrolledAt: now.toISOString(),
+        phoneInfo: '+16505551234',
+      },
+      {
+        mfaEnrollmentId: 'enrollmentId2',
+        enrolledAt: now.toISOString(),
+        phoneInfo: '+16505556789',
+      },
+    ],
   };
   if (typeof tenantId !== 'undefined') {
     response.tenantId = tenantId;
@@ -145,6 +163,24 @@ function getUserJSON(tenantId?: string): object {
     },
     tokensValidAfterTime: new Date(1476136676000).toUTCString(),
     tenantId,
+    multiFactor: {
+      enrolledFactors: [
+        {
+          uid: 'enrollmentId1',
+          displayName: 'displayName1',
+          enrollmentTime: now.toUTCString(),
+          phoneNumber: '+16505551234',
+          factorId: 'phone',
+        },
+        {
+          uid: 'enrollmentId2',
+          displayName: undefined,
+          enrollmentTime: now.toUTCString(),
+          phoneNumber: '+16505556789',
+          factorId: 'phone',
+        },
+      ],
+    },
   };
 }
 
@@ -204,6 +240,209 @@ function getUserInfoWithPhoneNumberJSON(): object {
   };
 }
 
+describe('PhoneMultiFactorInfo', () => {
+  const serverResponse: MultiFactorInfoResponse = {
+    mfaEnrollmentId: 'enrollmentId1',
+    displayName: 'displayName1',
+    enrolledAt: now.toISOString(),
+    phoneInfo: '+16505551234',
+  };
+  const phoneMultiFactorInfo = new PhoneMultiFactorInfo(serverResponse);
+  const phoneMultiFactorInfoMissingFields = new PhoneMultiFactorInfo({
+    mfaEnrollmentId: serverResponse.mfaEnrollmentId,
+    phoneInfo: serverResponse.phoneInfo,
+  });
+
+  describe('constructor', () =>  {
+    it('should throw when an empty object is provided', () => {
+      expect(() =>  {
+        return new PhoneMultiFactorInfo({} as any);
+      }).to.throw('INTERNAL ASSERT FAILED: Invalid multi-factor info response');
+    });
+
+    it('should throw when an undefined response is provided', () => {
+      expect(() =>  {
+        return new PhoneMultiFactorInfo(undefined as any);
+      }).to.throw('INTERNAL ASSERT FAILED: Invalid multi-factor info response');
+    });
+
+    it('should succeed when mfaEnrollmentId and phoneInfo are both provided', () => {
+      expect(() =>  {
+        return new PhoneMultiFactorInfo({
+          mfaEnrollmentId: 'enrollmentId1',
+          phoneInfo: '+16505551234',
+        });
+      }).not.to.throw(Error);
+    });
+
+    it('should throw when only mfaEnrollmentId is provided', () => {
+      expect(() =>  {
+        return new PhoneMultiFactorInfo({
+          mfaEnrollmentId: 'enrollmentId1',
+        });
+      }).to.throw('INTERNAL ASSERT FAILED: Invalid multi-factor info response');
+    });
+
+    it('should throw when only phoneInfo is provided', () => {
+      expect(() =>  {
+        return new PhoneMultiFactorInfo({
+          phoneInfo: '+16505551234',
+        } as any);
+      }).to.throw('INTERNAL ASSERT FAILED: Invalid multi-factor info response');
+    });
+  });
+
+  describe('getters', () => {
+    it('should set missing optional fields to undefined or null', () => {
+      expect(phoneMultiFactorInfoMissingFields.uid).to.equal(serverResponse.mfaEnrollmentId);
+      expect(phoneMultiFactorInfoMissingFields.displayName).to.be.undefined;
+      expect(phoneMultiFactorInfoMissingFields.phoneNumber).to.equal(serverResponse.phoneInfo);
+      expect(phoneMultiFactorInfoMissingFields.enrollmentTime).to.be.null;
+      expect(phoneMultiFactorInfoMissingFields.factorId).to.equal('phone');
+    });
+
+    it('should return expected factorId', () => {
+      expect(phoneMultiFactorInfo.factorId).to.equal('phone');
+    });
+
+    it('should return expected uid', () => {
+      expect(phoneMultiFactorInfo.uid).to.equal(serverResponse.mfaEnrollmentId);
+    });
+
+    it('should return expected displayName', () => {
+      expect(phoneMultiFactorInfo.displayName).to.equal(serverResponse.displayName);
+    });
+
+    it('should return expected phoneNumber', () => {
+      expect(phoneMultiFactorInfo.phoneNumber).to.equal(serverResponse.phoneInfo);
+    });
+
+    it('should return expected enrollmentTime as a UTC string', () => {
+      expect(phoneMultiFactorInfo.enrollmentTime).to.equal(now.toUTCString());
+    });
+
+    it('should throw when modifying readonly properties', () => {
+      expect(() => {
+        (phoneMultiFactorInfo as any).uid = 'otherEnrollmentId';
+      }).to.throw(Error);
+      expect(() => {
+        (phoneMultiFactorInfo as any).phoneNumber = '+16505550000';
+      }).to.throw(Error);
+    });
+  });
+
+  describe('toJSON', () => {
+    it('should return expected JSON object', () => {
+      expect(phoneMultiFactorInfo.toJSON()).to.deep.equal({
+        uid: 'enrollmentId1',
+        displayName: 'displayName1',
+        enrollmentTime: now.toUTCString(),
+        phoneNumber: '+16505551234',
+        factorId: 'phone',
+      });
+    });
+
+    it('should return expected JSON object with missing fields set to undefined or null', () => {
+      expect(phoneMultiFactorInfoMissingFields.toJSON()).to.deep.equal({
+        uid: 'enrollmentId1',
+        displayName: undefined,
+        enrollmentTime: null,
+        phoneNumber: '+16505551234',
+        factorId: 'phone',
+      });
+    });
+  });
+});
+
+describe('MultiFactorInfo', () => {
+  describe('initMultiFactorInfo', () => {
+    it('should return expected PhoneMultiFactorInfo', () => {
+      const serverResponse: MultiFactorInfoResponse = {
+        mfaEnrollmentId: 'enrollmentId1',
+        enrolledAt: now.toISOString(),
+        phoneInfo: '+16505551234',
+      };
+      expect(MultiFactorInfo.initMultiFactorInfo(serverResponse))
+        .to.deep.equal(new PhoneMultiFactorInfo(serverResponse));
+    });
+
+    it('should return null for invalid MultiFactorInfo', () => {
+      const serverResponse: any = {
+        mfaEnrollmentId: 'enrollmentId1',
+        enrolledAt: now.toISOString(),
+      };
+      expect(MultiFactorInfo.initMultiFactorInfo(serverResponse)).to.be.null;
+    });
+  });
+});
+
+describe('MultiFactor', () => {
+  const serverResponse = {
+    localId: 'uid123',
+    mfaInfo: [
+      {
+        mfaEnrollmentId: 'enrollmentId1',
+        displayName: 'displayName1',
+        enrolledAt: now.toISOString(),
+        phoneInfo: '+16505551234',
+      },
+      {
+        // Unsupported second factors are ignored.
+        mfaEnrollmentId: 'enrollmentId2',
+        enrolledAt: now.toISOString(),
+        secretKey: 'SECRET_KEY',
+      },
+    ],
+  };
+
+  describe('constructor', () => {
+    it('should throw when a non-object response is provided', () => {
+      expect(() =>  {
+        return new MultiFactor(undefined);
+      }).to.throw('INTERNAL ASSERT FAILED: Invalid multi-factor response');
+    });
+
+    it('should populate an empty enrolledFactors array when no mfaInfo is provided', () => {
+      expect(new MultiFactor({localId: 'uid123'}).enrolledFactors).to.deep.equal([]);
+    });
+
+    it('should skip unsupported second factors', () => {
+      const multiFactor = new MultiFactor(serverResponse);
+      expect(multiFactor.enrolledFactors).to.deep.equal([
+        new PhoneMultiFactorInfo(serverResponse.mfaInfo[0] as MultiFactorInfoResponse),
+      ]);
+    });
+  });
+
+  describe('getters', () => {
+    it('should throw when modifying readonly enrolledFactors', () => {
+      const multiFactor = new MultiFactor(serverResponse);
+      expect(() => {
+        (multiFactor as any).enrolledFactors = [];
+      }).to.throw(Error);
+      expect(() => {
+        (multiFactor.enrolledFactors as any).push(multiFactor.enrolledFactors[0]);
+      }).to.throw(Error);
+    });
+  });
+
+  describe('toJSON', () => {
+    it('should return expected JSON object', () => {
+      expect(new MultiFactor(serverResponse).toJSON()).to.deep.equal({
+        enrolledFactors: [
+          {
+            uid: 'enrollmentId1',
+            displayName: 'displayName1',
+            enrollmentTime: now.toUTCString(),
+            phoneNumber: '+16505551234',
+            factorId: 'phone',
+          },
+        ],
+      });
+    });
+  });
+});
+
 describe('UserInfo', () => {
   describe('constructor', () =>  {
     it('should throw when an empty object is provided', () => {
@@ -638,6 +877,25 @@ describe('UserRecord', () => {
       expect(userRecord.tenantId).to.be.undefined;
     });
 
+    it('should return expected multiFactor', () => {
+      expect(userRecord.multiFactor).to.deep.equal(new MultiFactor(validUserResponse));
+      expect(userRecord.multiFactor.enrolledFactors).to.have.length(2);
+    });
+
+    it('should return undefined multiFactor when no second factors are enrolled', () => {
+      const resp: any = deepCopy(validUserResponse);
+      delete resp.mfaInfo;
+      expect(new UserRecord(resp).multiFactor).to.be.undefined;
+      resp.mfaInfo = [];
+      expect(new UserRecord(resp).multiFactor).to.be.undefined;
+    });
+
+    it('should throw when modifying readonly multiFactor property', () => {
+      expect(() => {
+        (userRecord as any).multiFactor = new MultiFactor({mfaInfo: []});
+      }).to.throw(Error);
+    });
+
     it('should return expected tenantId', () => {
       const resp = deepCopy(getValidUserResponse('TENANT-ID'));
       const tenantUserRecord = new UserRecord(resp);
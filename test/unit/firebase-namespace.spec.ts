@@ -27,6 +27,9 @@ import * as mocks from '../resources/mocks';
 import {FirebaseNamespace} from '../../src/firebase-namespace';
 import {FirebaseApp} from '../../src/firebase-app';
 import {Auth} from '../../src/auth/auth';
+import {InMemorySessionStore} from '../../src/auth/session-registry';
+import {SAMLConfig} from '../../src/auth/auth-config';
+import {LocalTokenSigner} from '../../src/auth/token-generator';
 import {
   enableLogging,
   Database,
@@ -382,6 +385,18 @@ describe('FirebaseNamespace', () => {
     it('should return a reference to Auth type', () => {
       expect(firebaseNamespace.auth.Auth).to.be.deep.equal(Auth);
     });
+
+    it('should return a reference to InMemorySessionStore type', () => {
+      expect(firebaseNamespace.auth.InMemorySessionStore).to.be.deep.equal(InMemorySessionStore);
+    });
+
+    it('should return a reference to LocalTokenSigner type', () => {
+      expect(firebaseNamespace.auth.LocalTokenSigner).to.be.deep.equal(LocalTokenSigner);
+    });
+
+    it('should return a reference to SAMLConfig type', () => {
+      expect(firebaseNamespace.auth.SAMLConfig).to.be.deep.equal(SAMLConfig);
+    });
   });
 
   describe('#database()', () => {
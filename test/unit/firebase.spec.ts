@@ -28,6 +28,7 @@ import * as mocks from '../resources/mocks';
 
 import * as firebaseAdmin from '../../src/index';
 import {ApplicationDefaultCredential, CertCredential, RefreshTokenCredential} from '../../src/auth/credential';
+import {LocalTokenSigner} from '../../src/auth/token-generator';
 
 chai.should();
 chai.use(chaiAsPromised);
@@ -196,6 +197,62 @@ describe('Firebase', () => {
         return firebaseAdmin.auth();
       }).not.to.throw();
     });
+
+    describe('with the authPublicKeys option', () => {
+      const signer: LocalTokenSigner = new firebaseAdmin.auth.LocalTokenSigner({
+        projectId: mocks.projectId,
+        keyId: 'LOCAL_KEY_ID',
+        privateKey: mocks.keyPairs[0].private,
+      });
+
+      beforeEach(() => {
+        firebaseAdmin.initializeApp({...mocks.appOptions, authPublicKeys: signer.getPublicKeys()});
+      });
+
+      it('should verify the ID tokens minted by a LocalTokenSigner', () => {
+        return signer.createIdToken(mocks.uid, {claims: {admin: true}})
+          .then((idToken) => firebaseAdmin.auth().verifyIdToken(idToken))
+          .then((decodedIdToken) => {
+            expect(decodedIdToken.uid).to.equal(mocks.uid);
+            expect(decodedIdToken.admin).to.be.true;
+          });
+      });
+
+      it('should verify the session cookies minted by a LocalTokenSigner', () => {
+        return signer.createSessionCookie(mocks.uid)
+          .then((sessionCookie) => firebaseAdmin.auth().verifySessionCookie(sessionCookie))
+          .should.eventually.have.property('uid', mocks.uid);
+      });
+
+      it('should reject the ID tokens signed with another key', () => {
+        const otherSigner: LocalTokenSigner = new firebaseAdmin.auth.LocalTokenSigner({
+          projectId: mocks.projectId,
+          keyId: 'LOCAL_KEY_ID',
+          privateKey: mocks.keyPairs[1].private,
+        });
+        return otherSigner.createIdToken(mocks.uid)
+          .then((idToken) => firebaseAdmin.auth().verifyIdToken(idToken))
+          .should.eventually.be.rejected.and.have.property('code', 'auth/argument-error');
+      });
+
+      it('should reject the ID tokens signed with an unknown key ID', () => {
+        const otherSigner: LocalTokenSigner = new firebaseAdmin.auth.LocalTokenSigner({
+          projectId: mocks.projectId,
+          keyId: 'OTHER_KEY_ID',
+          privateKey: mocks.keyPairs[0].private,
+        });
+        return otherSigner.createIdToken(mocks.uid)
+          .then((idToken) => firebaseAdmin.auth().verifyIdToken(idToken))
+          .should.eventually.be.rejectedWith('does not correspond to a known public key');
+      });
+    });
+
+    it('should throw given an invalid authPublicKeys option', () => {
+      firebaseAdmin.initializeApp({...mocks.appOptions, authPublicKeys: {}});
+      expect(() => {
+        return firebaseAdmin.auth();
+      }).to.throw('The provided public keys must be a non-empty object of key IDs to public keys.');
+    });
   });
 
   describe('#messaging', () => {
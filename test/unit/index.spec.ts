@@ -24,6 +24,7 @@ import './utils/index.spec';
 import './utils/error.spec';
 import './utils/validator.spec';
 import './utils/api-request.spec';
+import './utils/page-iterator.spec';
 
 // Auth
 import './auth/auth.spec';
@@ -37,6 +38,20 @@ import './auth/action-code-settings-builder.spec';
 import './auth/auth-config.spec';
 import './auth/tenant.spec';
 import './auth/tenant-manager.spec';
+import './auth/project-config.spec';
+import './auth/project-config-manager.spec';
+import './auth/public-key-cache.spec';
+import './auth/provider-token-verifier.spec';
+import './auth/user-export.spec';
+import './auth/bulk-user-import.spec';
+import './auth/password-hash-verifier.spec';
+import './auth/custom-claims.spec';
+import './auth/session-registry.spec';
+import './auth/request-authenticator.spec';
+import './auth/user-query.spec';
+import './auth/bulk-user-operations.spec';
+import './auth/provider-config-plan.spec';
+import './auth/saml-metadata.spec';
 
 // Database
 import './database/database.spec';
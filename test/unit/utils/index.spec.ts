@@ -217,4 +217,21 @@ describe('generateUpdateMask()', () => {
     ];
     expect(generateUpdateMask(obj)).to.deep.equal(expectedMaskArray);
   });
+
+  it('should not traverse the provided terminal paths', () => {
+    const obj: any = {
+      a: {
+        b: {
+          '+16505551234': '123456',
+        },
+        c: 1,
+      },
+      d: {
+        '+16505551234': '123456',
+      },
+      e: {},
+    };
+    const expectedMaskArray = ['a.b', 'a.c', 'd', 'e'];
+    expect(generateUpdateMask(obj, ['a.b', 'd', 'e'])).to.deep.equal(expectedMaskArray);
+  });
 });
@@ -0,0 +1,217 @@
+/*!
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+'use strict';
+
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+import * as sinonChai from 'sinon-chai';
+import * as chaiAsPromised from 'chai-as-promised';
+
+import {collectAsyncIterable} from '../../resources/mocks';
+import {FlattenedIterable, Page, PageIterable} from '../../../src/utils/page-iterator';
+
+chai.should();
+chai.use(sinonChai);
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+describe('PageIterable', () => {
+  const pages: {[token: string]: Page<number>} = {
+    first: {items: [1, 2], pageToken: 'second'},
+    second: {items: [], pageToken: 'third'},
+    third: {items: [3], pageToken: undefined},
+  };
+  let fetchPage: sinon.SinonSpy;
+
+  beforeEach(() => {
+    fetchPage = sinon.spy((pageToken?: string) => Promise.resolve(pages[pageToken || 'first']));
+  });
+
+  it('should iterate over the items of all pages', () => {
+    const iterable = new PageIterable<number>(fetchPage);
+    return collectAsyncIterable(iterable)
+      .then((items) => {
+        expect(items).to.deep.equal([1, 2, 3]);
+        expect(fetchPage.args).to.deep.equal([[undefined], ['second'], ['third']]);
+      });
+  });
+
+  it('should not fetch any page until next() is called', () => {
+    const iterable = new PageIterable<number>(fetchPage);
+    iterable[Symbol.asyncIterator]();
+    expect(fetchPage).to.not.have.been.called;
+  });
+
+  it('should only fetch the next page once the current page is consumed', () => {
+    const iterator = new PageIterable<number>(fetchPage)[Symbol.asyncIterator]();
+    return iterator.next()
+      .then((result) => {
+        expect(result).to.deep.equal({done: false, value: 1});
+        return iterator.next();
+      })
+      .then((result) => {
+        expect(result).to.deep.equal({done: false, value: 2});
+        expect(fetchPage).to.have.been.calledOnce;
+      });
+  });
+
+  it('should serialize concurrent next() calls', () => {
+    const iterator = new PageIterable<number>(fetchPage)[Symbol.asyncIterator]();
+    return Promise.all([iterator.next(), iterator.next(), iterator.next(), iterator.next()])
+      .then((results) => {
+        expect(results.map((result) => result.value)).to.deep.equal([1, 2, 3, undefined]);
+        expect(results[3].done).to.be.true;
+        expect(fetchPage).to.have.been.calledThrice;
+      });
+  });
+
+  it('should start a new iteration for each iterator', () => {
+    const iterable = new PageIterable<number>(fetchPage);
+    return collectAsyncIterable(iterable)
+      .then(() => collectAsyncIterable(iterable))
+      .then((items) => {
+        expect(items).to.deep.equal([1, 2, 3]);
+        expect(fetchPage.callCount).to.equal(6);
+      });
+  });
+
+  it('should stop fetching pages after return() is called', () => {
+    const iterator = new PageIterable<number>(fetchPage)[Symbol.asyncIterator]();
+    return iterator.next()
+      .then(() => iterator.return())
+      .then((result) => {
+        expect(result.done).to.be.true;
+        return iterator.next();
+      })
+      .then((result) => {
+        expect(result.done).to.be.true;
+        expect(fetchPage).to.have.been.calledOnce;
+      });
+  });
+
+  it('should discard a page fetched while return() is called', () => {
+    let resolveFetch: (page: Page<number>) => void;
+    const slowFetchPage = sinon.spy(() => new Promise<Page<number>>((resolve) => {
+      resolveFetch = resolve;
+    }));
+    const iterator = new PageIterable<number>(slowFetchPage)[Symbol.asyncIterator]();
+    const pendingNext = iterator.next();
+    return Promise.resolve()
+      .then(() => {
+        expect(slowFetchPage).to.have.been.calledOnce;
+        return iterator.return();
+      })
+      .then((result) => {
+        expect(result.done).to.be.true;
+        resolveFetch({items: [1, 2], pageToken: 'second'});
+        return pendingNext;
+      })
+      .then((result) => {
+        expect(result).to.deep.equal({done: true, value: undefined});
+        return iterator.next();
+      })
+      .then((result) => {
+        expect(result.done).to.be.true;
+        expect(slowFetchPage).to.have.been.calledOnce;
+      });
+  });
+
+  it('should reject when a page cannot be fetched', () => {
+    const expectedError = new Error('fetch failed');
+    const iterator = new PageIterable<number>(() => Promise.reject(expectedError))[Symbol.asyncIterator]();
+    return iterator.next()
+      .should.eventually.be.rejected.and.equal(expectedError);
+  });
+});
+
+describe('FlattenedIterable', () => {
+  const toPageIterable = (pages: number[][]) => new PageIterable<number>((pageToken?: string) => {
+    const index = Number(pageToken || 0);
+    const nextPageToken = index + 1 < pages.length ? String(index + 1) : undefined;
+    return Promise.resolve({items: pages[index], pageToken: nextPageToken});
+  });
+
+  it('should iterate over the items of all sources in order', () => {
+    const iterable = new FlattenedIterable<number>(
+      new PageIterable<AsyncIterable<number>>(() => Promise.resolve({
+        items: [toPageIterable([[1, 2], [3]]), toPageIterable([[]]), toPageIterable([[4]])],
+      })));
+    return collectAsyncIterable(iterable)
+      .should.eventually.deep.equal([1, 2, 3, 4]);
+  });
+
+  it('should only iterate over a source once the previous one is exhausted', () => {
+    const second = sinon.spy(() => Promise.resolve({items: [3]}));
+    const iterator = new FlattenedIterable<number>(
+      new PageIterable<AsyncIterable<number>>(() => Promise.resolve({
+        items: [toPageIterable([[1, 2]]), new PageIterable<number>(second)],
+      })))[Symbol.asyncIterator]();
+    return iterator.next()
+      .then(() => iterator.next())
+      .then((result) => {
+        expect(result).to.deep.equal({done: false, value: 2});
+        expect(second).to.not.have.been.called;
+        return iterator.next();
+      })
+      .then((result) => {
+        expect(result).to.deep.equal({done: false, value: 3});
+        expect(second).to.have.been.calledOnce;
+      });
+  });
+
+  it('should serialize concurrent next() calls', () => {
+    const iterator = new FlattenedIterable<number>(
+      new PageIterable<AsyncIterable<number>>(() => Promise.resolve({
+        items: [toPageIterable([[1]]), toPageIterable([[2, 3]]), toPageIterable([[4]])],
+      })))[Symbol.asyncIterator]();
+    return Promise.all([iterator.next(), iterator.next(), iterator.next(), iterator.next(), iterator.next()])
+      .then((results) => {
+        expect(results.map((result) => result.value)).to.deep.equal([1, 2, 3, 4, undefined]);
+        expect(results[4].done).to.be.true;
+      });
+  });
+
+  it('should stop iterating over the current source and the sources after return() is called', () => {
+    const sourcesFetcher = sinon.spy((pageToken?: string) => Promise.resolve({
+      items: [toPageIterable([[1, 2]])],
+      pageToken: pageToken ? undefined : 'next',
+    }));
+    const iterator = new FlattenedIterable<number>(
+      new PageIterable<AsyncIterable<number>>(sourcesFetcher))[Symbol.asyncIterator]();
+    return iterator.next()
+      .then(() => iterator.return())
+      .then((result) => {
+        expect(result).to.deep.equal({done: true, value: undefined});
+        return iterator.next();
+      })
+      .then((result) => {
+        expect(result.done).to.be.true;
+        expect(sourcesFetcher).to.have.been.calledOnce;
+      });
+  });
+
+  it('should reject when a source fails', () => {
+    const expectedError = new Error('fetch failed');
+    const iterable = new FlattenedIterable<number>(
+      new PageIterable<AsyncIterable<number>>(() => Promise.resolve({
+        items: [new PageIterable<number>(() => Promise.reject(expectedError))],
+      })));
+    return collectAsyncIterable(iterable)
+      .should.eventually.be.rejected.and.equal(expectedError);
+  });
+});
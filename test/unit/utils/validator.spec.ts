@@ -20,8 +20,9 @@ import * as sinonChai from 'sinon-chai';
 import * as chaiAsPromised from 'chai-as-promised';
 
 import {
-  isArray, isNonEmptyArray, isBoolean, isNumber, isString, isNonEmptyString, isNonNullObject,
+  isArray, isNonEmptyArray, isBoolean, isNumber, isIntegerInRange, isString, isNonEmptyString, isNonNullObject,
   isEmail, isPassword, isURL, isUid, isPhoneNumber, isObject, isBuffer,
+  isISODateString, isUTCDateString,
 } from '../../../src/utils/validator';
 
 
@@ -170,6 +171,26 @@ describe('isNumber()', () => {
   });
 });
 
+describe('isIntegerInRange()', () => {
+  const nonIntegers = [undefined, null, NaN, Infinity, '1', 1.5, [], {}, _.noop];
+  nonIntegers.forEach((nonInteger) => {
+    it('should return false given a non-integer argument: ' + JSON.stringify(nonInteger), () => {
+      expect(isIntegerInRange(nonInteger as any, 0, 10)).to.be.false;
+    });
+  });
+
+  it('should return false given an integer out of the range', () => {
+    expect(isIntegerInRange(-1, 0, 10)).to.be.false;
+    expect(isIntegerInRange(11, 0, 10)).to.be.false;
+  });
+
+  it('should return true given an integer within the inclusive range', () => {
+    expect(isIntegerInRange(0, 0, 10)).to.be.true;
+    expect(isIntegerInRange(5, 0, 10)).to.be.true;
+    expect(isIntegerInRange(10, 0, 10)).to.be.true;
+  });
+});
+
 describe('isString()', () => {
   it('should return false given no argument', () => {
     expect(isString(undefined as any)).to.be.false;
@@ -454,6 +475,48 @@ describe('isPhoneNumber()', () => {
   });
 });
 
+describe('isISODateString()', () => {
+  it('should return false given no argument', () => {
+    expect(isISODateString(undefined as any)).to.be.false;
+  });
+
+  const nonISODateStrings = [null, NaN, 0, 1, true, false, [], ['a'], {}, { a: 1 }, _.noop, '', 'invalid'];
+  nonISODateStrings.forEach((nonISODateString) => {
+    it('should return false given an invalid ISO date string: ' + JSON.stringify(nonISODateString), () => {
+      expect(isISODateString(nonISODateString as any)).to.be.false;
+    });
+  });
+
+  it('should return false given a UTC date string', () => {
+    expect(isISODateString(new Date().toUTCString())).to.be.false;
+  });
+
+  it('should return true given a valid ISO date string', () => {
+    expect(isISODateString(new Date().toISOString())).to.be.true;
+  });
+});
+
+describe('isUTCDateString()', () => {
+  it('should return false given no argument', () => {
+    expect(isUTCDateString(undefined as any)).to.be.false;
+  });
+
+  const nonUTCDateStrings = [null, NaN, 0, 1, true, false, [], ['a'], {}, { a: 1 }, _.noop, '', 'invalid'];
+  nonUTCDateStrings.forEach((nonUTCDateString) => {
+    it('should return false given an invalid UTC date string: ' + JSON.stringify(nonUTCDateString), () => {
+      expect(isUTCDateString(nonUTCDateString as any)).to.be.false;
+    });
+  });
+
+  it('should return false given an ISO date string', () => {
+    expect(isUTCDateString(new Date().toISOString())).to.be.false;
+  });
+
+  it('should return true given a valid UTC date string', () => {
+    expect(isUTCDateString(new Date().toUTCString())).to.be.true;
+  });
+});
+
 describe('isBuffer()', () => {
   it('should return false given no argument', () => {
     expect(isBuffer(undefined as any)).to.be.false;